@@ -3,6 +3,7 @@ import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { ThemeProvider as MUIThemeProvider, createTheme, CssBaseline } from '@mui/material';
 import './App.css';
 import './api/config'; // Initialize API configuration
+import { installSessionInterceptors } from './api/session';
 import { AuthProvider } from './contexts/AuthContext';
 import { ThemeProvider } from './contexts/ThemeContext';
 import { useTheme } from './contexts/ThemeContext';
@@ -11,13 +12,32 @@ import { AdminLayout } from './components/AdminLayout';
 import { RoleBasedRedirect } from './components/RoleBasedRedirect';
 import { PageLoader } from './components/PageLoader';
 import { ErrorBoundary } from './components/ErrorBoundary';
+import { SessionExpiredDialog } from './components/SessionExpiredDialog';
+
+// Hold and retry requests that fail with an expired token while the user signs in again
+installSessionInterceptors();
 
 // Lazy-load pages for smaller initial bundle and faster first load (code splitting)
 const LoginPage = lazy(() => import('./pages/Login').then((m) => ({ default: m.LoginPage })));
 const DashboardPage = lazy(() => import('./pages/Dashboard').then((m) => ({ default: m.DashboardPage })));
 const ProductsPage = lazy(() => import('./pages/ProductsPage').then((m) => ({ default: m.ProductsPage })));
 const ProductUnitsPage = lazy(() => import('./pages/ProductUnitsPage').then((m) => ({ default: m.ProductUnitsPage })));
+const ProductBulkEditorPage = lazy(() => import('./pages/ProductBulkEditorPage').then((m) => ({ default: m.ProductBulkEditorPage })));
 const UnitsPage = lazy(() => import('./pages/UnitsPage').then((m) => ({ default: m.UnitsPage })));
+const UnitIntakePage = lazy(() => import('./pages/UnitIntakePage').then((m) => ({ default: m.UnitIntakePage })));
+const BuybacksPage = lazy(() => import('./pages/BuybacksPage').then((m) => ({ default: m.BuybacksPage })));
+const LabelTemplatesPage = lazy(() => import('./pages/LabelTemplatesPage').then((m) => ({ default: m.LabelTemplatesPage })));
+const StockTakesPage = lazy(() => import('./pages/StockTakesPage').then((m) => ({ default: m.StockTakesPage })));
+const StockTakeSessionPage = lazy(() => import('./pages/StockTakeSessionPage').then((m) => ({ default: m.StockTakeSessionPage })));
+const PricingRulesPage = lazy(() => import('./pages/PricingRulesPage').then((m) => ({ default: m.PricingRulesPage })));
+const AgingInventoryPage = lazy(() => import('./pages/AgingInventoryPage').then((m) => ({ default: m.AgingInventoryPage })));
+const StockAdjustmentsPage = lazy(() => import('./pages/StockAdjustmentsPage').then((m) => ({ default: m.StockAdjustmentsPage })));
+const InspectionItemsPage = lazy(() => import('./pages/InspectionItemsPage').then((m) => ({ default: m.InspectionItemsPage })));
+const WarrantiesPage = lazy(() => import('./pages/WarrantiesPage').then((m) => ({ default: m.WarrantiesPage })));
+const PurchaseOrdersPage = lazy(() => import('./pages/PurchaseOrdersPage').then((m) => ({ default: m.PurchaseOrdersPage })));
+const PurchaseOrderPage = lazy(() => import('./pages/PurchaseOrderPage').then((m) => ({ default: m.PurchaseOrderPage })));
+const ImportShipmentsPage = lazy(() => import('./pages/ImportShipmentsPage').then((m) => ({ default: m.ImportShipmentsPage })));
+const ImportShipmentPage = lazy(() => import('./pages/ImportShipmentPage').then((m) => ({ default: m.ImportShipmentPage })));
 const OrdersPage = lazy(() => import('./pages/OrdersPage').then((m) => ({ default: m.OrdersPage })));
 const ColorsPage = lazy(() => import('./pages/ColorsPage').then((m) => ({ default: m.ColorsPage })));
 const AcquisitionSourcesPage = lazy(() => import('./pages/AcquisitionSourcesPage').then((m) => ({ default: m.AcquisitionSourcesPage })));
@@ -101,6 +121,7 @@ const AppWithMUITheme: React.FC = () => {
   return (
     <MUIThemeProvider theme={muiTheme}>
       <CssBaseline />
+      <SessionExpiredDialog />
       <Suspense fallback={<PageLoader />}>
         <Routes>
           <Route path="/login" element={<LoginPage />} />
@@ -116,11 +137,26 @@ const AppWithMUITheme: React.FC = () => {
             <Route path="dashboard" element={<DashboardPage />} />
             <Route path="content-creator/dashboard" element={<ContentCreatorDashboard />} />
             <Route path="products/create" element={<ProductsPage />} />
+            <Route path="products/bulk-edit" element={<ProductBulkEditorPage />} />
             <Route path="products/:productId/edit" element={<ProductsPage />} />
             <Route path="products" element={<ProductsPage />} />
             <Route path="product-guides" element={<ProductGuidesPage />} />
             <Route path="products/:productId/units" element={<ProductUnitsPage />} />
             <Route path="units" element={<UnitsPage />} />
+            <Route path="units/intake" element={<UnitIntakePage />} />
+            <Route path="buybacks" element={<BuybacksPage />} />
+            <Route path="label-templates" element={<LabelTemplatesPage />} />
+            <Route path="stock-takes" element={<StockTakesPage />} />
+            <Route path="stock-takes/:stockTakeId" element={<StockTakeSessionPage />} />
+            <Route path="pricing-rules" element={<PricingRulesPage />} />
+            <Route path="aging-inventory" element={<AgingInventoryPage />} />
+            <Route path="stock-adjustments" element={<StockAdjustmentsPage />} />
+            <Route path="inspection-items" element={<InspectionItemsPage />} />
+            <Route path="warranties" element={<WarrantiesPage />} />
+            <Route path="purchase-orders" element={<PurchaseOrdersPage />} />
+            <Route path="purchase-orders/:purchaseOrderId" element={<PurchaseOrderPage />} />
+            <Route path="import-shipments" element={<ImportShipmentsPage />} />
+            <Route path="import-shipments/:shipmentId" element={<ImportShipmentPage />} />
             <Route path="orders" element={<OrdersPage />} />
             <Route path="colors" element={<ColorsPage />} />
             <Route path="sources" element={<AcquisitionSourcesPage />} />
@@ -0,0 +1,209 @@
+import { ApiError } from './core/ApiError';
+import type { ApiRequestOptions } from './core/ApiRequestOptions';
+import { getDefaultApiHeaders, getInventoryBaseUrl } from './config';
+
+type HttpMethod = ApiRequestOptions['method'];
+
+export type ApiQueryValue = string | number | boolean | null | undefined | Array<string | number>;
+export type ApiQuery = Record<string, ApiQueryValue>;
+
+export type ApiRequestInit = {
+  method?: HttpMethod;
+  query?: ApiQuery;
+  /** Plain objects are sent as JSON; FormData and Blob bodies are sent as-is. */
+  body?: unknown;
+  headers?: Record<string, string>;
+  responseType?: 'json' | 'blob' | 'text';
+  signal?: AbortSignal;
+  /**
+   * Blob responses only: read the body in chunks and report progress as it arrives.
+   * `total` is the Content-Length, or undefined when the server streams without one.
+   */
+  onDownloadProgress?: (loaded: number, total?: number) => void;
+};
+
+function getToken(): string | null {
+  try {
+    return localStorage.getItem('auth_token');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Inventory API base for manual requests. When the configured base points at localhost but the
+ * admin is opened from another machine on the LAN, swap in the current hostname.
+ */
+export function getClientBaseUrl(): string {
+  let baseUrl = getInventoryBaseUrl();
+  if (typeof window !== 'undefined' && window.location) {
+    const hostname = window.location.hostname;
+    if (hostname !== 'localhost' && hostname !== '127.0.0.1' && baseUrl.includes('localhost')) {
+      baseUrl = baseUrl.replace('localhost', hostname).replace('127.0.0.1', hostname);
+    }
+  }
+  return baseUrl;
+}
+
+export function buildQueryString(query?: ApiQuery): string {
+  if (!query) return '';
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === '') return;
+    if (Array.isArray(value)) {
+      value.forEach((v) => params.append(key, String(v)));
+    } else {
+      params.append(key, String(value));
+    }
+  });
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
+
+/** Resolve a path relative to the inventory API base (absolute URLs are returned untouched). */
+export function resolveApiUrl(path: string, query?: ApiQuery): string {
+  const url =
+    path.startsWith('http://') || path.startsWith('https://')
+      ? path
+      : `${getClientBaseUrl()}${path.startsWith('/') ? path : `/${path}`}`;
+  return `${url}${buildQueryString(query)}`;
+}
+
+/**
+ * Turn a DRF error body into a single readable message.
+ * Handles `{ detail }`, `{ error }`, `{ non_field_errors: [...] }` and `{ field: ["msg"] }` shapes.
+ */
+export function getDrfErrorMessage(body: unknown, fallback: string): string {
+  if (typeof body === 'string') {
+    const text = body.trim();
+    // HTML error pages (e.g. Django debug 500) are not useful as a message
+    return text && !text.startsWith('<') ? text.slice(0, 300) : fallback;
+  }
+  if (!body || typeof body !== 'object') return fallback;
+  if (Array.isArray(body)) {
+    const joined = body.filter((v) => typeof v === 'string').join(', ');
+    return joined || fallback;
+  }
+
+  const anyBody = body as Record<string, unknown>;
+  for (const key of ['detail', 'error', 'message']) {
+    const value = anyBody[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+
+  const messages: string[] = [];
+  for (const [key, value] of Object.entries(anyBody)) {
+    const text =
+      typeof value === 'string'
+        ? value
+        : Array.isArray(value)
+          ? value.filter((v) => typeof v === 'string').join(', ')
+          : '';
+    if (!text) continue;
+    messages.push(key === 'non_field_errors' ? text : `${key}: ${text}`);
+  }
+  return messages.length ? messages.join(' | ') : fallback;
+}
+
+/** Message to show for a failed call: the DRF error body for an ApiError, else the error's own message. */
+export function getErrorMessage(err: unknown, fallback = 'Request failed'): string {
+  return err instanceof ApiError ? getDrfErrorMessage(err.body, err.message) : (err as Error)?.message || fallback;
+}
+
+const isJsonBody = (body: unknown): boolean =>
+  body !== undefined &&
+  body !== null &&
+  typeof body !== 'string' &&
+  !(body instanceof FormData) &&
+  !(body instanceof Blob) &&
+  !(body instanceof URLSearchParams);
+
+async function readBlobInChunks(response: Response, onProgress: NonNullable<ApiRequestInit['onDownloadProgress']>) {
+  if (!response.body) return response.blob();
+  const type = response.headers.get('Content-Type') || '';
+  const length = Number(response.headers.get('Content-Length'));
+  const total = Number.isFinite(length) && length > 0 ? length : undefined;
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  onProgress(0, total);
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress(loaded, total);
+  }
+  return new Blob(chunks, { type });
+}
+
+async function readBody(
+  response: Response,
+  responseType: ApiRequestInit['responseType'],
+  onDownloadProgress?: ApiRequestInit['onDownloadProgress']
+): Promise<unknown> {
+  if (response.status === 204) return undefined;
+  if (responseType === 'blob') {
+    return onDownloadProgress ? readBlobInChunks(response, onDownloadProgress) : response.blob();
+  }
+  const text = await response.text();
+  if (responseType === 'text' || !text) return text || undefined;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Authenticated request against the inventory API for endpoints the generated services do not
+ * cover (or cover with the wrong shape). Failures throw the same `ApiError` as the generated client,
+ * with the DRF error body in `.body` and a readable `.message`.
+ */
+export async function apiRequest<T = unknown>(path: string, init: ApiRequestInit = {}): Promise<T> {
+  const method = init.method ?? 'GET';
+  const url = resolveApiUrl(path, init.query);
+  const headers = new Headers({
+    Accept: 'application/json',
+    ...getDefaultApiHeaders(getToken()),
+    ...(init.headers || {}),
+  });
+
+  let body: BodyInit | undefined;
+  if (isJsonBody(init.body)) {
+    body = JSON.stringify(init.body);
+    if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+  } else if (init.body !== undefined && init.body !== null) {
+    // FormData/Blob: let the browser set the multipart boundary / blob type.
+    body = init.body as BodyInit;
+  }
+
+  const response = await fetch(url, { method, headers, body, signal: init.signal });
+  const responseBody = response.ok
+    ? await readBody(response, init.responseType, init.onDownloadProgress)
+    : await readBody(response, 'json');
+
+  if (!response.ok) {
+    const fallback = `Request failed (${response.status}${response.statusText ? ` ${response.statusText}` : ''})`;
+    throw new ApiError(
+      { method, url: path, query: init.query, body: init.body },
+      { url, ok: false, status: response.status, statusText: response.statusText, body: responseBody },
+      getDrfErrorMessage(responseBody, fallback)
+    );
+  }
+
+  return responseBody as T;
+}
+
+export const apiClient = {
+  get: <T = unknown>(path: string, query?: ApiQuery, init?: Omit<ApiRequestInit, 'method' | 'query'>) =>
+    apiRequest<T>(path, { ...init, method: 'GET', query }),
+  post: <T = unknown>(path: string, body?: unknown, init?: Omit<ApiRequestInit, 'method' | 'body'>) =>
+    apiRequest<T>(path, { ...init, method: 'POST', body }),
+  put: <T = unknown>(path: string, body?: unknown, init?: Omit<ApiRequestInit, 'method' | 'body'>) =>
+    apiRequest<T>(path, { ...init, method: 'PUT', body }),
+  patch: <T = unknown>(path: string, body?: unknown, init?: Omit<ApiRequestInit, 'method' | 'body'>) =>
+    apiRequest<T>(path, { ...init, method: 'PATCH', body }),
+  delete: <T = void>(path: string, init?: Omit<ApiRequestInit, 'method'>) =>
+    apiRequest<T>(path, { ...init, method: 'DELETE' }),
+};
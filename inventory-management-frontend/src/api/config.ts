@@ -173,7 +173,7 @@ OpenAPI.TOKEN = async () => {
     console.log('Token retrieved from localStorage for API request:', token.substring(0, 10) + '...');
     return token;
   } else {
-    console.warn('No token found in localStorage');
+    // Requests without a token get a 401, which the session interceptor turns into a re-login prompt.
     return '';
   }
 };
@@ -1,5 +1,5 @@
 import { OpenAPI } from './core/OpenAPI';
-import { getDefaultApiHeaders } from './config';
+import { apiClient } from './client';
 
 export type DrfPaginated<T> = {
   count?: number;
@@ -21,22 +21,10 @@ function resolveDrfNextUrl(nextUrl: string): string {
  */
 export async function fetchAllDrfPages<T>(path: string): Promise<T[]> {
   const collected: T[] = [];
-  const initial =
-    path.startsWith('http://') || path.startsWith('https://')
-      ? path
-      : `${OpenAPI.BASE}${path.startsWith('/') ? path : `/${path}`}`;
-
-  let url: string | null = initial;
-  const token =
-    typeof localStorage !== 'undefined' ? localStorage.getItem('auth_token') : null;
-  const headers = getDefaultApiHeaders(token, { 'Content-Type': 'application/json' });
+  let url: string | null = path;
 
   while (url) {
-    const response: Response = await fetch(url, { headers });
-    if (!response.ok) {
-      throw new Error(`Request failed: ${response.status} ${response.statusText}`);
-    }
-    const body: unknown = await response.json();
+    const body: unknown = await apiClient.get(url);
     if (Array.isArray(body)) {
       collected.push(...body);
       break;
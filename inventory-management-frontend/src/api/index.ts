@@ -16,6 +16,10 @@ export type { AdminCreateRequest } from './models/AdminCreateRequest';
 export type { AdminRequest } from './models/AdminRequest';
 export type { AdminRole } from './models/AdminRole';
 export type { AdminRoleRequest } from './models/AdminRoleRequest';
+export type { AgingInventoryBucket } from './models/AgingInventoryBucket';
+export type { AgingInventoryReport } from './models/AgingInventoryReport';
+export type { AgingInventoryUnit } from './models/AgingInventoryUnit';
+export { AllocationMethodEnum } from './models/AllocationMethodEnum';
 export type { ArticleImage } from './models/ArticleImage';
 export type { ArticleImageRequest } from './models/ArticleImageRequest';
 export type { ArticleImageUpload } from './models/ArticleImageUpload';
@@ -28,6 +32,9 @@ export type { Bundle } from './models/Bundle';
 export type { BundleItem } from './models/BundleItem';
 export type { BundleItemRequest } from './models/BundleItemRequest';
 export type { BundleRequest } from './models/BundleRequest';
+export type { BuybackCounterOfferRequest } from './models/BuybackCounterOfferRequest';
+export type { BuybackDecisionRequest } from './models/BuybackDecisionRequest';
+export { BuybackStatusEnum } from './models/BuybackStatusEnum';
 export type { Cart } from './models/Cart';
 export type { CartCreateRequest } from './models/CartCreateRequest';
 export type { CartItem } from './models/CartItem';
@@ -43,6 +50,7 @@ export type { CustomerProfileUpdate } from './models/CustomerProfileUpdate';
 export type { CustomerProfileUpdateRequest } from './models/CustomerProfileUpdateRequest';
 export type { CustomerRegistration } from './models/CustomerRegistration';
 export type { CustomerRegistrationRequest } from './models/CustomerRegistrationRequest';
+export type { DailyCount } from './models/DailyCount';
 export type { DeliveryRate } from './models/DeliveryRate';
 export type { DeliveryRateRequest } from './models/DeliveryRateRequest';
 export type { DiscountCalculator } from './models/DiscountCalculator';
@@ -54,16 +62,42 @@ export type { FinancingProvider } from './models/FinancingProvider';
 export type { FinancingProviderRequest } from './models/FinancingProviderRequest';
 export type { FixProductVisibilityRequest } from './models/FixProductVisibilityRequest';
 export { GradeEnum } from './models/GradeEnum';
+export { ImportRowStatusEnum } from './models/ImportRowStatusEnum';
+export type { ImportShipment } from './models/ImportShipment';
+export type { ImportShipmentCost } from './models/ImportShipmentCost';
+export type { ImportShipmentCostRequest } from './models/ImportShipmentCostRequest';
+export type { ImportShipmentRequest } from './models/ImportShipmentRequest';
+export { ImportShipmentStatusEnum } from './models/ImportShipmentStatusEnum';
 export type { InitiatePaymentRequestRequest } from './models/InitiatePaymentRequestRequest';
+export type { InspectionItem } from './models/InspectionItem';
+export { InspectionItemKindEnum } from './models/InspectionItemKindEnum';
+export type { InspectionItemRequest } from './models/InspectionItemRequest';
+export type { InspectionResult } from './models/InspectionResult';
+export { InspectionResultEnum } from './models/InspectionResultEnum';
+export type { InspectionResultRequest } from './models/InspectionResultRequest';
 export type { InventoryUnit } from './models/InventoryUnit';
 export type { InventoryUnitImage } from './models/InventoryUnitImage';
 export type { InventoryUnitImageRequest } from './models/InventoryUnitImageRequest';
 export type { InventoryUnitRequest } from './models/InventoryUnitRequest';
+export type { InventoryValueByProduct } from './models/InventoryValueByProduct';
+export type { InventoryValueByStatus } from './models/InventoryValueByStatus';
+export type { InventoryValueReport } from './models/InventoryValueReport';
+export { LabelBarcodeTypeEnum } from './models/LabelBarcodeTypeEnum';
+export { LabelOutputFormatEnum } from './models/LabelOutputFormatEnum';
+export type { LabelTemplate } from './models/LabelTemplate';
+export type { LabelTemplateRequest } from './models/LabelTemplateRequest';
+export type { LandedCostAllocation } from './models/LandedCostAllocation';
+export { LandedCostKindEnum } from './models/LandedCostKindEnum';
 export type { Lead } from './models/Lead';
 export type { LeadItem } from './models/LeadItem';
 export type { LeadItemRequest } from './models/LeadItemRequest';
 export type { LeadRequest } from './models/LeadRequest';
 export { LeadStatusEnum } from './models/LeadStatusEnum';
+export { ListKeyEnum } from './models/ListKeyEnum';
+export type { MarkdownSchedule } from './models/MarkdownSchedule';
+export type { MarkdownScheduleRequest } from './models/MarkdownScheduleRequest';
+export type { MarkdownStep } from './models/MarkdownStep';
+export type { MarkdownStepRequest } from './models/MarkdownStepRequest';
 export { NameEnum } from './models/NameEnum';
 export type { Notification } from './models/Notification';
 export type { NotificationRequest } from './models/NotificationRequest';
@@ -87,6 +121,7 @@ export type { PaginatedColorList } from './models/PaginatedColorList';
 export type { PaginatedDeliveryRateList } from './models/PaginatedDeliveryRateList';
 export type { PaginatedFinancingOfferList } from './models/PaginatedFinancingOfferList';
 export type { PaginatedFinancingProviderList } from './models/PaginatedFinancingProviderList';
+export type { PaginatedImportShipmentList } from './models/PaginatedImportShipmentList';
 export type { PaginatedInventoryUnitImageList } from './models/PaginatedInventoryUnitImageList';
 export type { PaginatedInventoryUnitList } from './models/PaginatedInventoryUnitList';
 export type { PaginatedLeadList } from './models/PaginatedLeadList';
@@ -108,11 +143,16 @@ export type { PaginatedPublicProductList } from './models/PaginatedPublicProduct
 export type { PaginatedPublicProductListList } from './models/PaginatedPublicProductListList';
 export type { PaginatedPublicPromotionList } from './models/PaginatedPublicPromotionList';
 export type { PaginatedPublicWishlistItemList } from './models/PaginatedPublicWishlistItemList';
+export type { PaginatedPurchaseOrderList } from './models/PaginatedPurchaseOrderList';
 export type { PaginatedReservationRequestList } from './models/PaginatedReservationRequestList';
 export type { PaginatedReturnRequestList } from './models/PaginatedReturnRequestList';
 export type { PaginatedReviewList } from './models/PaginatedReviewList';
+export type { PaginatedStockAdjustmentList } from './models/PaginatedStockAdjustmentList';
+export type { PaginatedStockTakeList } from './models/PaginatedStockTakeList';
 export type { PaginatedUnitAcquisitionSourceList } from './models/PaginatedUnitAcquisitionSourceList';
 export type { PaginatedUnitTransferList } from './models/PaginatedUnitTransferList';
+export type { PaginatedWarrantyClaimList } from './models/PaginatedWarrantyClaimList';
+export type { PaginatedWarrantyList } from './models/PaginatedWarrantyList';
 export type { PatchedAdminRequest } from './models/PatchedAdminRequest';
 export type { PatchedArticleImageRequest } from './models/PatchedArticleImageRequest';
 export type { PatchedBrandRequest } from './models/PatchedBrandRequest';
@@ -124,25 +164,40 @@ export type { PatchedCustomerProfileUpdateRequest } from './models/PatchedCustom
 export type { PatchedDeliveryRateRequest } from './models/PatchedDeliveryRateRequest';
 export type { PatchedFinancingOfferRequest } from './models/PatchedFinancingOfferRequest';
 export type { PatchedFinancingProviderRequest } from './models/PatchedFinancingProviderRequest';
+export type { PatchedImportShipmentRequest } from './models/PatchedImportShipmentRequest';
+export type { PatchedInspectionItemRequest } from './models/PatchedInspectionItemRequest';
 export type { PatchedInventoryUnitImageRequest } from './models/PatchedInventoryUnitImageRequest';
 export type { PatchedInventoryUnitRequest } from './models/PatchedInventoryUnitRequest';
+export type { PatchedLabelTemplateRequest } from './models/PatchedLabelTemplateRequest';
 export type { PatchedLeadRequest } from './models/PatchedLeadRequest';
+export type { PatchedMarkdownScheduleRequest } from './models/PatchedMarkdownScheduleRequest';
 export type { PatchedOrderItemRequest } from './models/PatchedOrderItemRequest';
 export type { PatchedOrderRequest } from './models/PatchedOrderRequest';
+export type { PatchedPricingRuleRequest } from './models/PatchedPricingRuleRequest';
 export type { PatchedProductAccessoryRequest } from './models/PatchedProductAccessoryRequest';
 export type { PatchedProductArticleRequest } from './models/PatchedProductArticleRequest';
 export type { PatchedProductImageRequest } from './models/PatchedProductImageRequest';
 export type { PatchedProductRequest } from './models/PatchedProductRequest';
 export type { PatchedPromotionRequest } from './models/PatchedPromotionRequest';
 export type { PatchedPromotionTypeRequest } from './models/PatchedPromotionTypeRequest';
+export type { PatchedPurchaseOrderRequest } from './models/PatchedPurchaseOrderRequest';
 export type { PatchedReservationRequestRequest } from './models/PatchedReservationRequestRequest';
 export type { PatchedReturnRequestRequest } from './models/PatchedReturnRequestRequest';
 export type { PatchedReviewRequest } from './models/PatchedReviewRequest';
+export type { PatchedSavedViewRequest } from './models/PatchedSavedViewRequest';
+export type { PatchedStockTakeRequest } from './models/PatchedStockTakeRequest';
 export type { PatchedTagRequest } from './models/PatchedTagRequest';
 export type { PatchedUnitAcquisitionSourceRequest } from './models/PatchedUnitAcquisitionSourceRequest';
 export type { PatchedUnitTransferRequest } from './models/PatchedUnitTransferRequest';
+export type { PatchedWarrantyClaimRequest } from './models/PatchedWarrantyClaimRequest';
+export type { PatchedWarrantyPolicyRequest } from './models/PatchedWarrantyPolicyRequest';
 export { PaymentModeEnum } from './models/PaymentModeEnum';
 export { PricingModeEnum } from './models/PricingModeEnum';
+export { PricingRoundingEnum } from './models/PricingRoundingEnum';
+export type { PricingRule } from './models/PricingRule';
+export type { PricingRuleRequest } from './models/PricingRuleRequest';
+export type { PricingSuggestion } from './models/PricingSuggestion';
+export type { PricingSuggestionRequest } from './models/PricingSuggestionRequest';
 export type { Product } from './models/Product';
 export type { ProductAccessory } from './models/ProductAccessory';
 export type { ProductAccessoryRequest } from './models/ProductAccessoryRequest';
@@ -152,6 +207,7 @@ export type { ProductArticleSummary } from './models/ProductArticleSummary';
 export type { ProductImage } from './models/ProductImage';
 export type { ProductImageRequest } from './models/ProductImageRequest';
 export type { ProductList } from './models/ProductList';
+export type { ProductPerformance } from './models/ProductPerformance';
 export type { ProductRequest } from './models/ProductRequest';
 export { ProductTypesEnum } from './models/ProductTypesEnum';
 export type { Promotion } from './models/Promotion';
@@ -175,7 +231,17 @@ export type { PublicPromotionCard } from './models/PublicPromotionCard';
 export type { PublicReviewSubmitRequest } from './models/PublicReviewSubmitRequest';
 export type { PublicWishlistItem } from './models/PublicWishlistItem';
 export type { PublicWishlistItemRequest } from './models/PublicWishlistItemRequest';
+export type { PurchaseOrder } from './models/PurchaseOrder';
+export type { PurchaseOrderLine } from './models/PurchaseOrderLine';
+export { PurchaseOrderLineDeliveryEnum } from './models/PurchaseOrderLineDeliveryEnum';
+export type { PurchaseOrderLineRequest } from './models/PurchaseOrderLineRequest';
+export type { PurchaseOrderRequest } from './models/PurchaseOrderRequest';
+export { PurchaseOrderStatusEnum } from './models/PurchaseOrderStatusEnum';
 export { RatingEnum } from './models/RatingEnum';
+export type { RepricePreviewRequest } from './models/RepricePreviewRequest';
+export type { RepricePreviewRow } from './models/RepricePreviewRow';
+export type { RequestManagementReport } from './models/RequestManagementReport';
+export type { RequestStatusSummary } from './models/RequestStatusSummary';
 export type { ReservationRequest } from './models/ReservationRequest';
 export type { ReservationRequestRequest } from './models/ReservationRequestRequest';
 export { ReservationRequestStatusEnum } from './models/ReservationRequestStatusEnum';
@@ -186,17 +252,73 @@ export type { Review } from './models/Review';
 export type { ReviewEligibilityRequestRequest } from './models/ReviewEligibilityRequestRequest';
 export type { ReviewOtpRequestRequest } from './models/ReviewOtpRequestRequest';
 export type { ReviewRequest } from './models/ReviewRequest';
+export type { SalespersonPerformance } from './models/SalespersonPerformance';
+export type { SavedView } from './models/SavedView';
+export type { SavedViewRequest } from './models/SavedViewRequest';
+export type { ShrinkageProductRow } from './models/ShrinkageProductRow';
+export type { ShrinkageReasonRow } from './models/ShrinkageReasonRow';
+export type { ShrinkageReport } from './models/ShrinkageReport';
 export { SourceEnum } from './models/SourceEnum';
+export type { SourcePerformance } from './models/SourcePerformance';
+export type { SourcePerformanceReport } from './models/SourcePerformanceReport';
 export { SourceTypeEnum } from './models/SourceTypeEnum';
+export type { StockAdjustment } from './models/StockAdjustment';
+export type { StockAdjustmentCreateRequest } from './models/StockAdjustmentCreateRequest';
+export { StockAdjustmentReasonEnum } from './models/StockAdjustmentReasonEnum';
+export type { StockMovementReport } from './models/StockMovementReport';
+export type { StockMovementSummary } from './models/StockMovementSummary';
+export type { StockTake } from './models/StockTake';
+export type { StockTakeAccessoryCount } from './models/StockTakeAccessoryCount';
+export type { StockTakeAccessoryCountRequest } from './models/StockTakeAccessoryCountRequest';
+export type { StockTakeFinding } from './models/StockTakeFinding';
+export { StockTakeFindingKindEnum } from './models/StockTakeFindingKindEnum';
+export type { StockTakeRequest } from './models/StockTakeRequest';
+export { StockTakeResolutionEnum } from './models/StockTakeResolutionEnum';
+export type { StockTakeResolveRequest } from './models/StockTakeResolveRequest';
+export type { StockTakeScan } from './models/StockTakeScan';
+export type { StockTakeScanRequest } from './models/StockTakeScanRequest';
+export { StockTakeScanResultEnum } from './models/StockTakeScanResultEnum';
+export { StockTakeScopeEnum } from './models/StockTakeScopeEnum';
+export { StockTakeStatusEnum } from './models/StockTakeStatusEnum';
+export type { StockTakeUndoScanRequest } from './models/StockTakeUndoScanRequest';
+export type { TacProductHint } from './models/TacProductHint';
 export type { Tag } from './models/Tag';
 export type { TagRequest } from './models/TagRequest';
 export { TermUnitEnum } from './models/TermUnitEnum';
 export type { UnitAcquisitionSource } from './models/UnitAcquisitionSource';
 export type { UnitAcquisitionSourceRequest } from './models/UnitAcquisitionSourceRequest';
+export { UnitBulkOperationEnum } from './models/UnitBulkOperationEnum';
+export type { UnitBulkUpdateRequest } from './models/UnitBulkUpdateRequest';
+export type { UnitBulkUpdateResult } from './models/UnitBulkUpdateResult';
+export type { UnitBulkValuesRequest } from './models/UnitBulkValuesRequest';
+export { UnitExportFileFormatEnum } from './models/UnitExportFileFormatEnum';
+export type { UnitExportRequest } from './models/UnitExportRequest';
+export type { UnitImeiCheck } from './models/UnitImeiCheck';
+export type { UnitImeiDuplicate } from './models/UnitImeiDuplicate';
+export type { UnitImportFileRequest } from './models/UnitImportFileRequest';
+export type { UnitImportInspection } from './models/UnitImportInspection';
+export type { UnitImportRequest } from './models/UnitImportRequest';
+export type { UnitImportResult } from './models/UnitImportResult';
+export type { UnitImportRowResult } from './models/UnitImportRowResult';
+export type { UnitInspection } from './models/UnitInspection';
+export type { UnitInspectionRequest } from './models/UnitInspectionRequest';
+export type { UnitLabelsRequest } from './models/UnitLabelsRequest';
+export { UnitTimelineCategoryEnum } from './models/UnitTimelineCategoryEnum';
+export type { UnitTimelineEvent } from './models/UnitTimelineEvent';
+export { UnitTimelineRelatedModelEnum } from './models/UnitTimelineRelatedModelEnum';
 export type { UnitTransfer } from './models/UnitTransfer';
 export type { UnitTransferRequest } from './models/UnitTransferRequest';
 export type { User } from './models/User';
 export type { UserRequest } from './models/UserRequest';
+export type { Warranty } from './models/Warranty';
+export type { WarrantyClaim } from './models/WarrantyClaim';
+export { WarrantyClaimOutcomeEnum } from './models/WarrantyClaimOutcomeEnum';
+export type { WarrantyClaimRequest } from './models/WarrantyClaimRequest';
+export { WarrantyClaimStatusEnum } from './models/WarrantyClaimStatusEnum';
+export type { WarrantyExpiryReport } from './models/WarrantyExpiryReport';
+export type { WarrantyPolicy } from './models/WarrantyPolicy';
+export type { WarrantyPolicyRequest } from './models/WarrantyPolicyRequest';
+export { WarrantyStatusEnum } from './models/WarrantyStatusEnum';
 
 export { AccessoriesLinkService } from './services/AccessoriesLinkService';
 export { AdminService } from './services/AdminService';
@@ -215,32 +337,44 @@ export { DeliveryRatesService } from './services/DeliveryRatesService';
 export { FinancingOffersService } from './services/FinancingOffersService';
 export { FinancingProvidersService } from './services/FinancingProvidersService';
 export { ImagesService } from './services/ImagesService';
+export { ImportShipmentsService } from './services/ImportShipmentsService';
+export { InspectionItemsService } from './services/InspectionItemsService';
+export { LabelTemplatesService } from './services/LabelTemplatesService';
 export { LeadsService } from './services/LeadsService';
 export { LoginService } from './services/LoginService';
 export { LogoutService } from './services/LogoutService';
+export { MarkdownSchedulesService } from './services/MarkdownSchedulesService';
 export { NotificationsService } from './services/NotificationsService';
 export { ObservabilityService } from './services/ObservabilityService';
 export { OrderItemsService } from './services/OrderItemsService';
 export { OrdersService } from './services/OrdersService';
 export { PesapalService } from './services/PesapalService';
 export { PhoneSearchService } from './services/PhoneSearchService';
+export { PricingRulesService } from './services/PricingRulesService';
 export { ProductsService } from './services/ProductsService';
 export { ProfilesService } from './services/ProfilesService';
 export { PromotionsService } from './services/PromotionsService';
 export { PromotionTypesService } from './services/PromotionTypesService';
+export { PurchaseOrdersService } from './services/PurchaseOrdersService';
 export { RegisterService } from './services/RegisterService';
 export { ReportsService } from './services/ReportsService';
 export { ReservationRequestsService } from './services/ReservationRequestsService';
 export { ReturnRequestsService } from './services/ReturnRequestsService';
 export { ReviewsService } from './services/ReviewsService';
+export { SavedViewsService } from './services/SavedViewsService';
 export { SourcesService } from './services/SourcesService';
+export { StockAdjustmentsService } from './services/StockAdjustmentsService';
 export { StockAlertsService } from './services/StockAlertsService';
+export { StockTakesService } from './services/StockTakesService';
 export { TagsService } from './services/TagsService';
 export { UnitImagesService } from './services/UnitImagesService';
 export { UnitsService } from './services/UnitsService';
 export { UnitTransfersService } from './services/UnitTransfersService';
 export { UtilsService } from './services/UtilsService';
 export { VerifyEmailService } from './services/VerifyEmailService';
+export { WarrantiesService } from './services/WarrantiesService';
+export { WarrantyClaimsService } from './services/WarrantyClaimsService';
+export { WarrantyPoliciesService } from './services/WarrantyPoliciesService';
 
 // Custom backwards-compatible aliases
 export type {
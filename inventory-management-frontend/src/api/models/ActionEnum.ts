@@ -15,6 +15,8 @@
  * * `BU` - Bulk Update
  * * `PC` - Price Change
  * * `SC` - Status Change
+ * * `CO` - Counter Offer
+ * * `SK` - Stock Take
  */
 export enum ActionEnum {
     CR = 'CR',
@@ -29,4 +31,6 @@ export enum ActionEnum {
     BU = 'BU',
     PC = 'PC',
     SC = 'SC',
+    CO = 'CO',
+    SK = 'SK',
 }
@@ -0,0 +1,25 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * Units grouped by days since date_sourced.
+ */
+export type AgingInventoryBucket = {
+    /**
+     * Bucket label, e.g. "0-30", "31-60", "61-90", "90+".
+     */
+    label: string;
+    min_days: number;
+    /**
+     * Upper bound in days (inclusive); null for the open-ended bucket.
+     */
+    max_days: number | null;
+    unit_count: number;
+    /**
+     * Sum of cost_of_unit tied up in this bucket.
+     */
+    cost_value: string;
+    selling_value: string;
+};
+
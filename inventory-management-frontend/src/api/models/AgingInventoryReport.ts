@@ -0,0 +1,13 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { AgingInventoryBucket } from './AgingInventoryBucket';
+import type { AgingInventoryUnit } from './AgingInventoryUnit';
+export type AgingInventoryReport = {
+    total_units: number;
+    total_cost_value: string;
+    buckets: Array<AgingInventoryBucket>;
+    units: Array<AgingInventoryUnit>;
+};
+
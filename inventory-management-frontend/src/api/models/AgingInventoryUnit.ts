@@ -0,0 +1,29 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * An unsold unit with its age in stock.
+ */
+export type AgingInventoryUnit = {
+    id: number;
+    product_template: number;
+    product_name: string;
+    brand?: number | null;
+    brand_name?: string | null;
+    /**
+     * Product type code of the unit's product (PH, LT, TB, AC).
+     */
+    product_type?: string;
+    serial_number?: string | null;
+    imei?: string | null;
+    condition: string;
+    grade?: string | null;
+    sale_status: string;
+    date_sourced: string | null;
+    days_in_stock: number;
+    cost_of_unit: string;
+    selling_price: string;
+    compare_at_price?: string | null;
+};
+
@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `value` - By value
+ * * `quantity` - By quantity
+ */
+export enum AllocationMethodEnum {
+    VALUE = 'value',
+    QUANTITY = 'quantity',
+}
@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type BuybackCounterOfferRequest = {
+    /**
+     * Price offered to the seller instead of the submitted cost.
+     */
+    amount: string;
+    reason: string;
+};
+
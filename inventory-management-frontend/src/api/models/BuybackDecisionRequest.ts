@@ -0,0 +1,11 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type BuybackDecisionRequest = {
+    /**
+     * Shown to the submitting salesperson and stored in the audit log. Required when rejecting.
+     */
+    reason?: string;
+};
+
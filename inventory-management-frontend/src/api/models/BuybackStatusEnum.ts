@@ -0,0 +1,16 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `PE` - Pending
+ * * `CO` - Countered
+ * * `AP` - Approved
+ * * `RE` - Rejected
+ */
+export enum BuybackStatusEnum {
+    PE = 'PE',
+    CO = 'CO',
+    AP = 'AP',
+    RE = 'RE',
+}
@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `ok` - Ok
+ * * `error` - Error
+ */
+export enum ImportRowStatusEnum {
+    OK = 'ok',
+    ERROR = 'error',
+}
@@ -0,0 +1,49 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { AllocationMethodEnum } from './AllocationMethodEnum';
+import type { ImportShipmentCost } from './ImportShipmentCost';
+import type { ImportShipmentStatusEnum } from './ImportShipmentStatusEnum';
+/**
+ * Imported units grouped with the costs of bringing them in.
+ */
+export type ImportShipment = {
+    readonly id: number;
+    /**
+     * Shipment reference, e.g. the bill of lading or airway bill number.
+     */
+    reference: string;
+    /**
+     * Import partner that shipped the goods.
+     */
+    acquisition_source?: number | null;
+    readonly acquisition_source_name: string | null;
+    arrival_date?: string | null;
+    allocation_method?: AllocationMethodEnum;
+    notes?: string;
+    costs?: Array<ImportShipmentCost>;
+    /**
+     * Units in the shipment; only imported units (source IM) that are not in another shipment can be added.
+     */
+    units?: Array<number>;
+    readonly status: ImportShipmentStatusEnum;
+    readonly unit_count: number;
+    /**
+     * Pieces in the shipment (accessory units count their quantity).
+     */
+    readonly total_quantity: number;
+    /**
+     * Units' cost_of_unit × quantity before landed costs, in KES.
+     */
+    readonly goods_value: string;
+    /**
+     * Sum of the costs in KES.
+     */
+    readonly total_costs_kes: string;
+    readonly allocated_at: string | null;
+    readonly allocated_by_username: string | null;
+    readonly created_by_username: string | null;
+    readonly created_at: string;
+};
+
@@ -0,0 +1,22 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { LandedCostKindEnum } from './LandedCostKindEnum';
+/**
+ * One extra cost of bringing an import shipment in.
+ */
+export type ImportShipmentCostRequest = {
+    kind: LandedCostKindEnum;
+    description?: string;
+    /**
+     * ISO 4217 code the amount is in, e.g. USD or KES.
+     */
+    currency: string;
+    /**
+     * KES per one unit of `currency`; 1 for KES.
+     */
+    exchange_rate: string;
+    amount: string;
+};
+
@@ -0,0 +1,28 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { AllocationMethodEnum } from './AllocationMethodEnum';
+import type { ImportShipmentCostRequest } from './ImportShipmentCostRequest';
+/**
+ * Imported units grouped with the costs of bringing them in.
+ */
+export type ImportShipmentRequest = {
+    /**
+     * Shipment reference, e.g. the bill of lading or airway bill number.
+     */
+    reference: string;
+    /**
+     * Import partner that shipped the goods.
+     */
+    acquisition_source?: number | null;
+    arrival_date?: string | null;
+    allocation_method?: AllocationMethodEnum;
+    notes?: string;
+    costs?: Array<ImportShipmentCostRequest>;
+    /**
+     * Units in the shipment; only imported units (source IM) that are not in another shipment can be added.
+     */
+    units?: Array<number>;
+};
+
@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `open` - Open
+ * * `allocated` - Allocated
+ */
+export enum ImportShipmentStatusEnum {
+    OPEN = 'open',
+    ALLOCATED = 'allocated',
+}
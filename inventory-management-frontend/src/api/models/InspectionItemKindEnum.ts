@@ -0,0 +1,14 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `pass_fail` - Pass / fail
+ * * `percent` - Percentage
+ * * `lock_status` - Lock status
+ */
+export enum InspectionItemKindEnum {
+    PASS_FAIL = 'pass_fail',
+    PERCENT = 'percent',
+    LOCK_STATUS = 'lock_status',
+}
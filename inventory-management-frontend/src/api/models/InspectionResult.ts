@@ -0,0 +1,23 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { InspectionItemKindEnum } from './InspectionItemKindEnum';
+import type { InspectionResultEnum } from './InspectionResultEnum';
+export type InspectionResult = {
+    item: number;
+    result: InspectionResultEnum;
+    /**
+     * Measured percentage for percent items (e.g. battery health).
+     */
+    value?: number | null;
+    notes?: string;
+    /**
+     * Unit image (uploaded through /unit-images/) showing the result.
+     */
+    image?: number | null;
+    readonly item_label: string;
+    readonly item_kind: InspectionItemKindEnum;
+    readonly image_url: string | null;
+};
+
@@ -0,0 +1,14 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `pass` - Pass
+ * * `fail` - Fail
+ * * `na` - Not applicable
+ */
+export enum InspectionResultEnum {
+    PASS = 'pass',
+    FAIL = 'fail',
+    NA = 'na',
+}
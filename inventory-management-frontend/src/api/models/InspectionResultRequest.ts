@@ -0,0 +1,19 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { InspectionResultEnum } from './InspectionResultEnum';
+export type InspectionResultRequest = {
+    item: number;
+    result: InspectionResultEnum;
+    /**
+     * Measured percentage for percent items (e.g. battery health).
+     */
+    value?: number | null;
+    notes?: string;
+    /**
+     * Unit image (uploaded through /unit-images/) showing the result.
+     */
+    image?: number | null;
+};
+
@@ -3,6 +3,7 @@
 /* tslint:disable */
 /* eslint-disable */
 import type { BlankEnum } from './BlankEnum';
+import type { BuybackStatusEnum } from './BuybackStatusEnum';
 import type { Color } from './Color';
 import type { ConditionEnum } from './ConditionEnum';
 import type { GradeEnum } from './GradeEnum';
@@ -39,7 +40,7 @@ export type InventoryUnit = {
      */
     compare_at_price?: string | null;
     /**
-     * Quantity: 1 for Phones/Laptops/Tablets (unique units). Required and can be > 1 for Accessories (no unique identifier).
+     * Quantity: 1 for Phones/Laptops/Tablets (unique units). Required and can be > 1 for Accessories (no unique identifier). Only used when creating a unit; change an existing unit's quantity with POST /units/{id}/adjust_stock/ so the change is recorded in the stock adjustment ledger.
      */
     quantity?: number;
     /**
@@ -71,5 +72,46 @@ export type InventoryUnit = {
      */
     readonly can_transfer?: boolean;
     readonly is_reservation_expired?: boolean;
+    /**
+     * Approval state of a buyback (source=BB) unit; null for other sources.
+     */
+    readonly buyback_status?: (BuybackStatusEnum | NullEnum) | null;
+    /**
+     * Salesperson who submitted the buyback.
+     */
+    readonly buyback_submitted_by_username?: string | null;
+    /**
+     * Amount offered back to the seller when the buyback was countered.
+     */
+    readonly buyback_counter_offer?: string | null;
+    /**
+     * Reason given with the latest approve/reject/counter-offer decision.
+     */
+    readonly buyback_decision_reason?: string;
+    /**
+     * Lowest selling price allowed by the matching pricing rule's margin floor; null when no rule with a floor matches.
+     */
+    readonly margin_floor_price?: string | null;
+    /**
+     * True when selling_price is below margin_floor_price.
+     */
+    readonly below_margin_floor?: boolean;
+    /**
+     * Last day of the unit's warranty; null until it is delivered on an order.
+     */
+    readonly warranty_end_date?: string | null;
+    /**
+     * Purchase order line the unit was received against; only set when creating a unit. It counts towards the line's received quantity and updates the order status.
+     */
+    purchase_order_line?: number | null;
+    /**
+     * Reference of the purchase order the unit was received against.
+     */
+    readonly purchase_order_reference?: string | null;
+    /**
+     * Import shipment the unit arrived in; its landed costs are added to cost_of_unit when allocated.
+     */
+    readonly import_shipment?: number | null;
+    readonly import_shipment_reference?: string | null;
 };
 
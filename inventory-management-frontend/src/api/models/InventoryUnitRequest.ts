@@ -15,6 +15,10 @@ import type { SourceEnum } from './SourceEnum';
 export type InventoryUnitRequest = {
     product_template_id: number;
     product_color_id?: number | null;
+    /**
+     * Purchase order line the unit was received against; only set when creating a unit. It counts towards the line's received quantity and updates the order status.
+     */
+    purchase_order_line?: number | null;
     acquisition_source_details_id?: number | null;
     condition?: ConditionEnum;
     source?: SourceEnum;
@@ -31,7 +35,7 @@ export type InventoryUnitRequest = {
      */
     compare_at_price?: string | null;
     /**
-     * Quantity: 1 for Phones/Laptops/Tablets (unique units). Required and can be > 1 for Accessories (no unique identifier).
+     * Quantity: 1 for Phones/Laptops/Tablets (unique units). Required and can be > 1 for Accessories (no unique identifier). Only used when creating a unit; change an existing unit's quantity with POST /units/{id}/adjust_stock/ so the change is recorded in the stock adjustment ledger.
      */
     quantity?: number;
     /**
@@ -0,0 +1,13 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type InventoryValueByProduct = {
+    product_template__id: number;
+    product_template__product_name: string;
+    unit_count: number;
+    available_count: number;
+    total_value: string;
+    avg_price: string;
+};
+
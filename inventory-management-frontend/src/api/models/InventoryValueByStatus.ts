@@ -0,0 +1,10 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type InventoryValueByStatus = {
+    sale_status: string;
+    unit_count: number;
+    total_value: string;
+};
+
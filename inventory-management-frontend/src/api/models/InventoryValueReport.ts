@@ -0,0 +1,13 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { InventoryValueByProduct } from './InventoryValueByProduct';
+import type { InventoryValueByStatus } from './InventoryValueByStatus';
+export type InventoryValueReport = {
+    total_value: string;
+    available_value: string;
+    by_product: Array<InventoryValueByProduct>;
+    by_status: Array<InventoryValueByStatus>;
+};
+
@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `qr` - QR code
+ * * `code128` - Code 128
+ */
+export enum LabelBarcodeTypeEnum {
+    QR = 'qr',
+    CODE128 = 'code128',
+}
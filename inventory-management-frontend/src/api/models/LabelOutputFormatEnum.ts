@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `pdf` - PDF (A4 sticker sheet)
+ * * `zpl` - ZPL (thermal printer)
+ */
+export enum LabelOutputFormatEnum {
+    PDF = 'pdf',
+    ZPL = 'zpl',
+}
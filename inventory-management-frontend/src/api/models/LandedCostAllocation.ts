@@ -0,0 +1,37 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { AllocationMethodEnum } from './AllocationMethodEnum';
+/**
+ * Landed cost added to (or, for a reversal, removed from) one unit's cost.
+ */
+export type LandedCostAllocation = {
+    readonly id: number;
+    readonly shipment: number;
+    readonly unit: number;
+    /**
+     * Product name and color of the unit, for display.
+     */
+    readonly unit_label: string;
+    readonly imei: string | null;
+    readonly serial_number: string | null;
+    readonly quantity: number;
+    /**
+     * cost_of_unit before this entry.
+     */
+    readonly previous_cost: string;
+    /**
+     * Landed cost per piece; negative for a reversal.
+     */
+    readonly allocated_cost: string;
+    /**
+     * cost_of_unit after this entry.
+     */
+    readonly new_cost: string;
+    readonly method: AllocationMethodEnum;
+    readonly is_reversal: boolean;
+    readonly created_by_username: string | null;
+    readonly created_at: string;
+};
+
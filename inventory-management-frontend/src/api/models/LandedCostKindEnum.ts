@@ -0,0 +1,18 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `shipping` - Shipping
+ * * `clearing` - Clearing
+ * * `duty` - Duty
+ * * `forex` - Forex
+ * * `other` - Other
+ */
+export enum LandedCostKindEnum {
+    SHIPPING = 'shipping',
+    CLEARING = 'clearing',
+    DUTY = 'duty',
+    FOREX = 'forex',
+    OTHER = 'other',
+}
@@ -0,0 +1,14 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `units` - Inventory units
+ * * `orders` - Orders
+ * * `unit_transfers` - Unit transfers
+ */
+export enum ListKeyEnum {
+    UNITS = 'units',
+    ORDERS = 'orders',
+    UNIT_TRANSFERS = 'unit_transfers',
+}
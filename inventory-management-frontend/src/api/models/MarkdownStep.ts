@@ -0,0 +1,18 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * One markdown step of a schedule.
+ */
+export type MarkdownStep = {
+    /**
+     * Minimum days in stock (since date_sourced) for this step.
+     */
+    after_days: number;
+    /**
+     * Discount off the original price, e.g. 5.00 for 5% off.
+     */
+    percent_off: string;
+};
+
@@ -14,6 +14,9 @@
  * * `UR` - Unit Reserved
  * * `RP` - Request Pending Approval
  * * `NL` - New Lead
+ * * `BA` - Buyback Approved
+ * * `BR` - Buyback Rejected
+ * * `BC` - Buyback Counter-offer
  */
 export enum NotificationTypeEnum {
     RA = 'RA',
@@ -27,4 +30,7 @@ export enum NotificationTypeEnum {
     UR = 'UR',
     RP = 'RP',
     NL = 'NL',
+    BA = 'BA',
+    BR = 'BR',
+    BC = 'BC',
 }
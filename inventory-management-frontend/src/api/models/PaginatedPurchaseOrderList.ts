@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { PurchaseOrder } from './PurchaseOrder';
+export type PaginatedPurchaseOrderList = {
+    count: number;
+    next?: string | null;
+    previous?: string | null;
+    results: Array<PurchaseOrder>;
+};
+
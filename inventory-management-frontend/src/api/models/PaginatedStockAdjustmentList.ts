@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { StockAdjustment } from './StockAdjustment';
+export type PaginatedStockAdjustmentList = {
+    count: number;
+    next?: string | null;
+    previous?: string | null;
+    results: Array<StockAdjustment>;
+};
+
@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { WarrantyClaim } from './WarrantyClaim';
+export type PaginatedWarrantyClaimList = {
+    count: number;
+    next?: string | null;
+    previous?: string | null;
+    results: Array<WarrantyClaim>;
+};
+
@@ -0,0 +1,32 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { InspectionItemKindEnum } from './InspectionItemKindEnum';
+import type { ProductTypesEnum } from './ProductTypesEnum';
+/**
+ * One check on the refurbishment inspection checklist.
+ */
+export type PatchedInspectionItemRequest = {
+    /**
+     * Stable identifier, e.g. battery_health.
+     */
+    key?: string;
+    label?: string;
+    kind?: InspectionItemKindEnum;
+    /**
+     * Product types the item applies to; empty for all.
+     */
+    product_types?: Array<ProductTypesEnum>;
+    /**
+     * Percent items pass at or above this value, e.g. 80 for battery health.
+     */
+    min_value?: number | null;
+    /**
+     * A fail means the unit cannot be graded (e.g. activation lock, water damage).
+     */
+    critical?: boolean;
+    sort_order?: number;
+    is_active?: boolean;
+};
+
@@ -0,0 +1,41 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { LabelBarcodeTypeEnum } from './LabelBarcodeTypeEnum';
+/**
+ * Layout and content of printable unit price tags.
+ */
+export type PatchedLabelTemplateRequest = {
+    name?: string;
+    /**
+     * Brand whose units use this template; empty for a shared template.
+     */
+    brand?: number | null;
+    label_width_mm?: number;
+    label_height_mm?: number;
+    /**
+     * Labels per row on an A4 sheet (PDF output).
+     */
+    sheet_columns?: number;
+    /**
+     * Label rows on an A4 sheet (PDF output).
+     */
+    sheet_rows?: number;
+    barcode_type?: LabelBarcodeTypeEnum;
+    show_storage_ram?: boolean;
+    show_condition_grade?: boolean;
+    /**
+     * Print the compare-at price struck through next to the price.
+     */
+    show_compare_at_price?: boolean;
+    /**
+     * Small print at the bottom of the label, e.g. shop name or phone.
+     */
+    footer_text?: string;
+    /**
+     * Used for units whose brand has no template of its own.
+     */
+    is_default?: boolean;
+};
+
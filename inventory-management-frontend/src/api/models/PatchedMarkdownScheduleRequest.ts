@@ -0,0 +1,31 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { MarkdownStepRequest } from './MarkdownStepRequest';
+import type { NullEnum } from './NullEnum';
+import type { ProductTypesEnum } from './ProductTypesEnum';
+/**
+ * Age-based price cuts proposed for unsold units.
+ */
+export type PatchedMarkdownScheduleRequest = {
+    name?: string;
+    is_active?: boolean;
+    /**
+     * Only units of this product type; empty matches any.
+     */
+    product_type?: (ProductTypesEnum | NullEnum) | null;
+    /**
+     * Only units of this brand; empty matches any.
+     */
+    brand?: number | null;
+    /**
+     * Marked-down prices are rounded down to a multiple of this amount; 0 keeps the exact price.
+     */
+    round_to?: number;
+    /**
+     * Discount steps, validated to have increasing after_days and percent_off.
+     */
+    steps?: Array<MarkdownStepRequest>;
+};
+
@@ -0,0 +1,25 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { ListKeyEnum } from './ListKeyEnum';
+/**
+ * A named filter preset on an admin list page, owned by one admin.
+ */
+export type PatchedSavedViewRequest = {
+    list_key?: ListKeyEnum;
+    name?: string;
+    /**
+     * List page query string (filters, search, page size) without the leading '?'.
+     */
+    query?: string;
+    /**
+     * Apply this view when the list page is opened without filters.
+     */
+    is_default?: boolean;
+    /**
+     * Show this view in the sidebar.
+     */
+    is_pinned?: boolean;
+};
+
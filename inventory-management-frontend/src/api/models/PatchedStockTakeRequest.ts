@@ -0,0 +1,28 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { NullEnum } from './NullEnum';
+import type { ProductTypesEnum } from './ProductTypesEnum';
+import type { StockTakeScopeEnum } from './StockTakeScopeEnum';
+/**
+ * A stock-take (cycle count) session.
+ */
+export type PatchedStockTakeRequest = {
+    name?: string;
+    scope?: StockTakeScopeEnum;
+    /**
+     * Required when scope is `brand`.
+     */
+    brand?: number | null;
+    /**
+     * Required when scope is `product_type`.
+     */
+    product_type?: (ProductTypesEnum | NullEnum) | null;
+    /**
+     * Admin whose reserved units are counted; required when scope is `salesperson`.
+     */
+    salesperson?: number | null;
+    notes?: string;
+};
+
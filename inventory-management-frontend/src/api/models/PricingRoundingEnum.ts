@@ -0,0 +1,14 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `up` - Round up
+ * * `nearest` - Round to nearest
+ * * `down` - Round down
+ */
+export enum PricingRoundingEnum {
+    UP = 'up',
+    NEAREST = 'nearest',
+    DOWN = 'down',
+}
@@ -0,0 +1,59 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { ConditionEnum } from './ConditionEnum';
+import type { GradeEnum } from './GradeEnum';
+import type { NullEnum } from './NullEnum';
+import type { PricingRoundingEnum } from './PricingRoundingEnum';
+import type { ProductTypesEnum } from './ProductTypesEnum';
+import type { SourceEnum } from './SourceEnum';
+/**
+ * A markup/rounding/margin-floor rule matched against unit attributes.
+ */
+export type PricingRule = {
+    readonly id: number;
+    name: string;
+    /**
+     * Lower numbers are tried first.
+     */
+    priority?: number;
+    is_active?: boolean;
+    /**
+     * Match only this product type; empty matches any.
+     */
+    product_type?: (ProductTypesEnum | NullEnum) | null;
+    /**
+     * Match only this brand; empty matches any.
+     */
+    brand?: number | null;
+    readonly brand_name: string | null;
+    /**
+     * Match only this condition; empty matches any.
+     */
+    condition?: (ConditionEnum | NullEnum) | null;
+    /**
+     * Match only this grade; empty matches any.
+     */
+    grade?: (GradeEnum | NullEnum) | null;
+    /**
+     * Match only this source; empty matches any.
+     */
+    source?: (SourceEnum | NullEnum) | null;
+    /**
+     * Added on top of the unit cost, e.g. 18.00 for cost + 18%.
+     */
+    markup_percent: string;
+    /**
+     * Round the marked-up price to a multiple of this amount; 0 disables rounding.
+     */
+    round_to?: number;
+    rounding?: PricingRoundingEnum;
+    /**
+     * Margin floor as a percentage of cost; units priced below cost x (1 + margin) are flagged.
+     */
+    min_margin_percent?: string | null;
+    readonly created_at: string;
+    readonly updated_at: string;
+};
+
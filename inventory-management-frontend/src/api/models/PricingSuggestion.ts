@@ -0,0 +1,14 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type PricingSuggestion = {
+    rule: number | null;
+    rule_name: string | null;
+    suggested_price: string | null;
+    /**
+     * Lowest price that keeps the rule's minimum margin; null when the rule has no margin floor.
+     */
+    floor_price: string | null;
+};
+
@@ -0,0 +1,16 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { ConditionEnum } from './ConditionEnum';
+import type { GradeEnum } from './GradeEnum';
+import type { NullEnum } from './NullEnum';
+import type { SourceEnum } from './SourceEnum';
+export type PricingSuggestionRequest = {
+    product_template: number;
+    condition?: ConditionEnum;
+    grade?: (GradeEnum | NullEnum) | null;
+    source?: SourceEnum;
+    cost_of_unit: string;
+};
+
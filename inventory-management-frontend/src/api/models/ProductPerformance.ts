@@ -0,0 +1,22 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * Sales performance of a single product template.
+ */
+export type ProductPerformance = {
+    id: number;
+    product_name: string;
+    total_units: number;
+    available_units: number;
+    sold_units: number;
+    reserved_units: number;
+    /**
+     * Sold units as a percentage of total units.
+     */
+    sell_through_rate: string;
+    avg_selling_price: string;
+    total_revenue: string;
+};
+
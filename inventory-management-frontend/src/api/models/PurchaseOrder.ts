@@ -0,0 +1,42 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { PurchaseOrderLine } from './PurchaseOrderLine';
+import type { PurchaseOrderStatusEnum } from './PurchaseOrderStatusEnum';
+/**
+ * A purchase order raised against an acquisition source.
+ */
+export type PurchaseOrder = {
+    readonly id: number;
+    /**
+     * Generated reference, e.g. PO-00012.
+     */
+    readonly reference: string;
+    acquisition_source: number;
+    readonly acquisition_source_name: string;
+    status?: PurchaseOrderStatusEnum;
+    /**
+     * When the delivery is expected.
+     */
+    expected_date?: string | null;
+    notes?: string;
+    lines: Array<PurchaseOrderLine>;
+    readonly ordered_quantity: number;
+    readonly received_quantity: number;
+    /**
+     * Sum of quantity × unit cost over the lines.
+     */
+    readonly total_cost: string;
+    /**
+     * True when any line is over- or short-delivered.
+     */
+    readonly has_discrepancy: boolean;
+    readonly created_by_username: string | null;
+    readonly created_at: string;
+    /**
+     * When the order became fully received or was closed.
+     */
+    readonly received_at: string | null;
+};
+
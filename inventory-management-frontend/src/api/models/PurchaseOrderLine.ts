@@ -0,0 +1,35 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { ConditionEnum } from './ConditionEnum';
+import type { PurchaseOrderLineDeliveryEnum } from './PurchaseOrderLineDeliveryEnum';
+/**
+ * One product variant ordered on a purchase order.
+ */
+export type PurchaseOrderLine = {
+    readonly id: number;
+    product_template: number;
+    readonly product_template_name: string;
+    readonly product_type: string;
+    storage_gb?: number | null;
+    ram_gb?: number | null;
+    condition?: ConditionEnum;
+    /**
+     * Expected quantity.
+     */
+    quantity: number;
+    /**
+     * Agreed cost per unit; prefills cost_of_unit on receipt.
+     */
+    unit_cost: string;
+    /**
+     * Units (or accessory quantity) received against this line.
+     */
+    readonly received_quantity: number;
+    /**
+     * `short` once the order is closed below quantity; `over` when more than ordered was received.
+     */
+    readonly delivery_status: PurchaseOrderLineDeliveryEnum;
+};
+
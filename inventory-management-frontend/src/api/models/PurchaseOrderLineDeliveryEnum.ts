@@ -0,0 +1,18 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `pending` - Pending
+ * * `partial` - Partial
+ * * `complete` - Complete
+ * * `over` - Over-delivered
+ * * `short` - Short-delivered
+ */
+export enum PurchaseOrderLineDeliveryEnum {
+    PENDING = 'pending',
+    PARTIAL = 'partial',
+    COMPLETE = 'complete',
+    OVER = 'over',
+    SHORT = 'short',
+}
@@ -0,0 +1,23 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { ConditionEnum } from './ConditionEnum';
+/**
+ * One product variant ordered on a purchase order.
+ */
+export type PurchaseOrderLineRequest = {
+    product_template: number;
+    storage_gb?: number | null;
+    ram_gb?: number | null;
+    condition?: ConditionEnum;
+    /**
+     * Expected quantity.
+     */
+    quantity: number;
+    /**
+     * Agreed cost per unit; prefills cost_of_unit on receipt.
+     */
+    unit_cost: string;
+};
+
@@ -0,0 +1,20 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { PurchaseOrderLineRequest } from './PurchaseOrderLineRequest';
+import type { PurchaseOrderStatusEnum } from './PurchaseOrderStatusEnum';
+/**
+ * A purchase order raised against an acquisition source.
+ */
+export type PurchaseOrderRequest = {
+    acquisition_source: number;
+    status?: PurchaseOrderStatusEnum;
+    /**
+     * When the delivery is expected.
+     */
+    expected_date?: string | null;
+    notes?: string;
+    lines: Array<PurchaseOrderLineRequest>;
+};
+
@@ -0,0 +1,18 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `draft` - Draft
+ * * `ordered` - Ordered
+ * * `partially_received` - Partially received
+ * * `received` - Received
+ * * `cancelled` - Cancelled
+ */
+export enum PurchaseOrderStatusEnum {
+    DRAFT = 'draft',
+    ORDERED = 'ordered',
+    PARTIALLY_RECEIVED = 'partially_received',
+    RECEIVED = 'received',
+    CANCELLED = 'cancelled',
+}
@@ -0,0 +1,17 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type RepricePreviewRow = {
+    unit: number;
+    /**
+     * Product name with storage/color and IMEI or serial, for display.
+     */
+    label: string;
+    current_price: string | null;
+    suggested_price: string | null;
+    floor_price: string | null;
+    rule: number | null;
+    rule_name: string | null;
+};
+
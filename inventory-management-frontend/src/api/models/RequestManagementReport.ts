@@ -0,0 +1,15 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { RequestStatusSummary } from './RequestStatusSummary';
+export type RequestManagementReport = {
+    reservation_requests: RequestStatusSummary;
+    return_requests: RequestStatusSummary;
+    unit_transfers: RequestStatusSummary;
+    /**
+     * Average hours between a request being raised and approved.
+     */
+    avg_approval_hours?: number | null;
+};
+
@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type RequestStatusSummary = {
+    total: number;
+    pending: number;
+    approved: number;
+    rejected: number;
+    expired?: number;
+};
+
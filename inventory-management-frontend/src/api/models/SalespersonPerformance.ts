@@ -0,0 +1,15 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type SalespersonPerformance = {
+    admin_id: number;
+    username: string;
+    full_name?: string;
+    reservations_requested: number;
+    reservations_approved: number;
+    units_sold: number;
+    total_revenue: string;
+    returns_requested: number;
+};
+
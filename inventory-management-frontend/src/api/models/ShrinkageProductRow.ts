@@ -0,0 +1,22 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type ShrinkageProductRow = {
+    product_template: number;
+    product_name: string;
+    brand_name: string | null;
+    /**
+     * Units written off as damaged.
+     */
+    damaged: number;
+    /**
+     * Units written off as lost.
+     */
+    lost: number;
+    /**
+     * Cost of the damaged and lost units.
+     */
+    cost_value: string;
+};
+
@@ -0,0 +1,15 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { StockAdjustmentReasonEnum } from './StockAdjustmentReasonEnum';
+export type ShrinkageReasonRow = {
+    reason: StockAdjustmentReasonEnum;
+    adjustment_count: number;
+    /**
+     * Net quantity change for this reason (negative for stock removed).
+     */
+    quantity: number;
+    cost_value: string;
+};
+
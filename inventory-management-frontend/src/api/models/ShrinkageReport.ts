@@ -0,0 +1,21 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { ShrinkageProductRow } from './ShrinkageProductRow';
+import type { ShrinkageReasonRow } from './ShrinkageReasonRow';
+export type ShrinkageReport = {
+    date_from: string | null;
+    date_to: string | null;
+    /**
+     * Units written off as damaged or lost in the period.
+     */
+    shrinkage_units: number;
+    shrinkage_cost_value: string;
+    by_reason: Array<ShrinkageReasonRow>;
+    /**
+     * Products with damaged or lost stock, highest cost first.
+     */
+    by_product: Array<ShrinkageProductRow>;
+};
+
@@ -0,0 +1,50 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { SourceEnum } from './SourceEnum';
+/**
+ * Sourcing and sales performance of one acquisition source.
+ */
+export type SourcePerformance = {
+    /**
+     * Supplier / import partner; null for the buyback channel and for units without a recorded source.
+     */
+    acquisition_source: number | null;
+    name: string;
+    source: SourceEnum;
+    units_supplied: number;
+    units_sold: number;
+    /**
+     * Sold units as a percentage of units supplied.
+     */
+    sell_through_rate: string;
+    /**
+     * Average cost_of_unit of the units supplied.
+     */
+    avg_cost: string | null;
+    /**
+     * Average days from date_sourced to sale of the sold units.
+     */
+    avg_days_to_sell: number | null;
+    revenue: string;
+    /**
+     * Revenue of the sold units minus their cost.
+     */
+    realized_margin: string;
+    /**
+     * Realized margin as a percentage of revenue.
+     */
+    realized_margin_percent: string | null;
+    returned_count: number;
+    /**
+     * Returned units as a percentage of units sold.
+     */
+    return_rate: string;
+    warranty_claim_count: number;
+    /**
+     * Units with a warranty claim as a percentage of units sold.
+     */
+    warranty_claim_rate: string;
+};
+
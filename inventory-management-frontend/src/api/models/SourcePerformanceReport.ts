@@ -0,0 +1,15 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { SourcePerformance } from './SourcePerformance';
+export type SourcePerformanceReport = {
+    date_from: string | null;
+    date_to: string | null;
+    /**
+     * All sources combined (acquisition_source null, name "All sources").
+     */
+    totals: SourcePerformance;
+    sources: Array<SourcePerformance>;
+};
+
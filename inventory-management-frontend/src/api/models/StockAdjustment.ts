@@ -0,0 +1,31 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { StockAdjustmentReasonEnum } from './StockAdjustmentReasonEnum';
+/**
+ * One change to a quantity-tracked unit's stock.
+ */
+export type StockAdjustment = {
+    readonly id: number;
+    readonly unit: number;
+    /**
+     * Product name and color of the unit, for display.
+     */
+    readonly unit_label: string;
+    /**
+     * Quantity added (positive) or removed (negative).
+     */
+    readonly delta: number;
+    readonly quantity_before: number;
+    readonly quantity_after: number;
+    reason: StockAdjustmentReasonEnum;
+    readonly note: string;
+    /**
+     * delta x the unit's cost at the time of the adjustment.
+     */
+    readonly cost_value: string;
+    readonly created_by_username: string | null;
+    readonly created_at: string;
+};
+
@@ -0,0 +1,14 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { StockAdjustmentReasonEnum } from './StockAdjustmentReasonEnum';
+export type StockAdjustmentCreateRequest = {
+    /**
+     * Quantity to add (positive) or remove (negative); cannot be 0.
+     */
+    delta: number;
+    reason: StockAdjustmentReasonEnum;
+    note?: string;
+};
+
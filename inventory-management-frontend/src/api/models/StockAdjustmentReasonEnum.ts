@@ -0,0 +1,18 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `restock` - Restock
+ * * `damaged` - Damaged
+ * * `lost` - Lost
+ * * `correction` - Correction
+ * * `returned` - Returned
+ */
+export enum StockAdjustmentReasonEnum {
+    RESTOCK = 'restock',
+    DAMAGED = 'damaged',
+    LOST = 'lost',
+    CORRECTION = 'correction',
+    RETURNED = 'returned',
+}
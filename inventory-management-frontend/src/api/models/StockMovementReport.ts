@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { DailyCount } from './DailyCount';
+import type { StockMovementSummary } from './StockMovementSummary';
+export type StockMovementReport = {
+    summary: StockMovementSummary;
+    daily_sourced: Array<DailyCount>;
+    daily_sold: Array<DailyCount>;
+};
+
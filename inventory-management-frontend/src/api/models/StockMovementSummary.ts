@@ -0,0 +1,10 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type StockMovementSummary = {
+    units_sourced: number;
+    units_sold: number;
+    net_change: number;
+};
+
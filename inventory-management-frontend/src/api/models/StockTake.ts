@@ -0,0 +1,45 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { NullEnum } from './NullEnum';
+import type { ProductTypesEnum } from './ProductTypesEnum';
+import type { StockTakeScopeEnum } from './StockTakeScopeEnum';
+import type { StockTakeStatusEnum } from './StockTakeStatusEnum';
+/**
+ * A stock-take (cycle count) session.
+ */
+export type StockTake = {
+    readonly id: number;
+    name: string;
+    scope: StockTakeScopeEnum;
+    /**
+     * Required when scope is `brand`.
+     */
+    brand?: number | null;
+    /**
+     * Required when scope is `product_type`.
+     */
+    product_type?: (ProductTypesEnum | NullEnum) | null;
+    /**
+     * Admin whose reserved units are counted; required when scope is `salesperson`.
+     */
+    salesperson?: number | null;
+    notes?: string;
+    /**
+     * Human-readable scope, e.g. "Brand - Samsung".
+     */
+    readonly scope_label: string;
+    readonly status: StockTakeStatusEnum;
+    readonly started_by_username: string | null;
+    readonly created_at: string;
+    readonly closed_at: string | null;
+    /**
+     * Serialized units expected in scope when the session started.
+     */
+    readonly expected_count: number;
+    readonly scanned_count: number;
+    readonly finding_count: number;
+    readonly unresolved_count: number;
+};
+
@@ -0,0 +1,17 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * Expected and counted quantity of one accessory unit in a stock-take.
+ */
+export type StockTakeAccessoryCount = {
+    unit: number;
+    unit_label: string;
+    expected_quantity: number;
+    /**
+     * Null until counted.
+     */
+    counted_quantity: number | null;
+};
+
@@ -0,0 +1,35 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { NullEnum } from './NullEnum';
+import type { StockTakeFindingKindEnum } from './StockTakeFindingKindEnum';
+import type { StockTakeResolutionEnum } from './StockTakeResolutionEnum';
+/**
+ * One discrepancy between the count and the system.
+ */
+export type StockTakeFinding = {
+    readonly id: number;
+    kind: StockTakeFindingKindEnum;
+    unit: number | null;
+    unit_label: string | null;
+    /**
+     * Scanned code (unexpected/unknown) or the unit's IMEI/serial (missing).
+     */
+    code: string | null;
+    /**
+     * The unit's sale_status in the system.
+     */
+    sale_status: string | null;
+    /**
+     * Salesperson the unit is reserved by, if any.
+     */
+    holder_username: string | null;
+    expected_quantity: number | null;
+    counted_quantity: number | null;
+    resolution: (StockTakeResolutionEnum | NullEnum) | null;
+    resolution_note: string | null;
+    resolved_by_username: string | null;
+    resolved_at: string | null;
+};
+
@@ -0,0 +1,18 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `missing` - Missing
+ * * `unexpected` - Unexpected
+ * * `status_mismatch` - Status mismatch
+ * * `unknown_code` - Unknown code
+ * * `quantity_mismatch` - Quantity mismatch
+ */
+export enum StockTakeFindingKindEnum {
+    MISSING = 'missing',
+    UNEXPECTED = 'unexpected',
+    STATUS_MISMATCH = 'status_mismatch',
+    UNKNOWN_CODE = 'unknown_code',
+    QUANTITY_MISMATCH = 'quantity_mismatch',
+}
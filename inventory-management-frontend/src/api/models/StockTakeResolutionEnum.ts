@@ -0,0 +1,16 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `update_status` - Update status
+ * * `archive` - Archive (write off)
+ * * `adjust_quantity` - Adjust quantity
+ * * `acknowledge` - Acknowledge
+ */
+export enum StockTakeResolutionEnum {
+    UPDATE_STATUS = 'update_status',
+    ARCHIVE = 'archive',
+    ADJUST_QUANTITY = 'adjust_quantity',
+    ACKNOWLEDGE = 'acknowledge',
+}
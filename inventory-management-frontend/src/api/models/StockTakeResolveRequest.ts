@@ -0,0 +1,15 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { StockTakeResolutionEnum } from './StockTakeResolutionEnum';
+export type StockTakeResolveRequest = {
+    finding: number;
+    resolution: StockTakeResolutionEnum;
+    /**
+     * New sale_status for `update_status` (AV, SD, RS, RT, PP).
+     */
+    sale_status?: string;
+    note?: string;
+};
+
@@ -0,0 +1,22 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { StockTakeScanResultEnum } from './StockTakeScanResultEnum';
+/**
+ * One code scanned during a stock-take.
+ */
+export type StockTakeScan = {
+    readonly id: number;
+    code: string;
+    readonly result: StockTakeScanResultEnum;
+    readonly unit: number | null;
+    /**
+     * Product name and storage/color of the matched unit.
+     */
+    readonly unit_label: string | null;
+    readonly sale_status: string | null;
+    readonly scanned_by_username: string | null;
+    readonly scanned_at: string;
+};
+
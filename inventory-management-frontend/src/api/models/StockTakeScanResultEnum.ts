@@ -0,0 +1,18 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `matched` - Matched
+ * * `unexpected` - Not in scope
+ * * `status_mismatch` - Sold/reserved in system
+ * * `unknown` - Unknown code
+ * * `duplicate` - Already scanned
+ */
+export enum StockTakeScanResultEnum {
+    MATCHED = 'matched',
+    UNEXPECTED = 'unexpected',
+    STATUS_MISMATCH = 'status_mismatch',
+    UNKNOWN = 'unknown',
+    DUPLICATE = 'duplicate',
+}
@@ -0,0 +1,16 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `all` - All stock
+ * * `brand` - Brand
+ * * `product_type` - Product type
+ * * `salesperson` - Salesperson holdings
+ */
+export enum StockTakeScopeEnum {
+    ALL = 'all',
+    BRAND = 'brand',
+    PRODUCT_TYPE = 'product_type',
+    SALESPERSON = 'salesperson',
+}
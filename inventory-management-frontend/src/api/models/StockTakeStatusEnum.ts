@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `open` - Open
+ * * `closed` - Closed
+ */
+export enum StockTakeStatusEnum {
+    OPEN = 'open',
+    CLOSED = 'closed',
+}
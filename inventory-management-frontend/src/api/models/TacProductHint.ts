@@ -0,0 +1,13 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * A product whose units already use a given TAC.
+ */
+export type TacProductHint = {
+    product_template: number;
+    product_template_name: string;
+    unit_count: number;
+};
+
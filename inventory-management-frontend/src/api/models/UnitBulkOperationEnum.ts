@@ -0,0 +1,18 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `update_price` - Update price
+ * * `update_status` - Update status
+ * * `archive` - Archive
+ * * `unarchive` - Unarchive
+ * * `set_values` - Set per-unit values
+ */
+export enum UnitBulkOperationEnum {
+    UPDATE_PRICE = 'update_price',
+    UPDATE_STATUS = 'update_status',
+    ARCHIVE = 'archive',
+    UNARCHIVE = 'unarchive',
+    SET_VALUES = 'set_values',
+}
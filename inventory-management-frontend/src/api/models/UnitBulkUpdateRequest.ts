@@ -0,0 +1,20 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { UnitBulkOperationEnum } from './UnitBulkOperationEnum';
+import type { UnitBulkValuesRequest } from './UnitBulkValuesRequest';
+export type UnitBulkUpdateRequest = {
+    unit_ids: Array<number>;
+    operation: UnitBulkOperationEnum;
+    /**
+     * Operation-specific data, e.g. `{"selling_price": 100}` for update_price
+     * or `{"sale_status": "AV"}` for update_status.
+     */
+    data?: Record<string, any>;
+    /**
+     * set_values only: the new field values for each unit (one entry per id in unit_ids). Used for per-unit changes such as percentage price updates and for undoing a previous bulk update.
+     */
+    values?: Array<UnitBulkValuesRequest>;
+};
+
@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type UnitBulkUpdateResult = {
+    message: string;
+    /**
+     * Number of units changed.
+     */
+    updated: number;
+};
+
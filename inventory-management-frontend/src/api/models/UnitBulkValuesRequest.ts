@@ -0,0 +1,24 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { BlankEnum } from './BlankEnum';
+import type { ConditionEnum } from './ConditionEnum';
+import type { GradeEnum } from './GradeEnum';
+import type { NullEnum } from './NullEnum';
+/**
+ * Fields to write on one unit; omitted fields are left unchanged.
+ */
+export type UnitBulkValuesRequest = {
+    id: number;
+    selling_price?: string | null;
+    compare_at_price?: string | null;
+    available_online?: boolean;
+    grade?: (GradeEnum | BlankEnum | NullEnum) | null;
+    condition?: ConditionEnum;
+    /**
+     * AV, SD, RS, RT or PP.
+     */
+    sale_status?: string;
+};
+
@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `csv` - CSV
+ * * `xlsx` - Excel workbook
+ */
+export enum UnitExportFileFormatEnum {
+    CSV = 'csv',
+    XLSX = 'xlsx',
+}
@@ -0,0 +1,20 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { UnitExportFileFormatEnum } from './UnitExportFileFormatEnum';
+/**
+ * Export the given units.
+ */
+export type UnitExportRequest = {
+    /**
+     * Units to export.
+     */
+    ids: Array<number>;
+    /**
+     * Columns to export, in order. Defaults to every column.
+     */
+    columns?: Array<string>;
+    file_format?: UnitExportFileFormatEnum;
+};
+
@@ -0,0 +1,23 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { TacProductHint } from './TacProductHint';
+import type { UnitImeiDuplicate } from './UnitImeiDuplicate';
+export type UnitImeiCheck = {
+    imei: string;
+    /**
+     * Type Allocation Code (first 8 digits of the IMEI).
+     */
+    tac: string;
+    duplicates: Array<UnitImeiDuplicate>;
+    /**
+     * TACs seen on other units of `product_template` (empty when not given or when the product has no units with an IMEI yet).
+     */
+    product_tacs: Array<string>;
+    /**
+     * Products whose units share this IMEI's TAC.
+     */
+    tac_products: Array<TacProductHint>;
+};
+
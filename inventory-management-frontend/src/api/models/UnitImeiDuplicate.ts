@@ -0,0 +1,11 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+export type UnitImeiDuplicate = {
+    id: number;
+    product_template_name: string;
+    sale_status: string;
+    is_archived: boolean;
+};
+
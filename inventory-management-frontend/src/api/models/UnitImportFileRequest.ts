@@ -0,0 +1,18 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * An uploaded CSV or XLSX file of inventory units.
+ */
+export type UnitImportFileRequest = {
+    /**
+     * Original file name; the extension (.csv, .xlsx) selects the parser.
+     */
+    file_name: string;
+    /**
+     * File contents, base64-encoded (JSON avoids proxies stripping multipart bodies).
+     */
+    file_base64: string;
+};
+
@@ -0,0 +1,20 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * Header and sample rows of an uploaded import file.
+ */
+export type UnitImportInspection = {
+    columns: Array<string>;
+    /**
+     * First rows of the file (cells in column order).
+     */
+    sample_rows: Array<Array<string>>;
+    total_rows: number;
+    /**
+     * Suggested InventoryUnit field -> column header, matched on header names.
+     */
+    suggested_mapping: Record<string, string>;
+};
+
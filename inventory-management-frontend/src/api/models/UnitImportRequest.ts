@@ -0,0 +1,26 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * Import an uploaded file using a column mapping.
+ */
+export type UnitImportRequest = {
+    /**
+     * Original file name; the extension (.csv, .xlsx) selects the parser.
+     */
+    file_name: string;
+    /**
+     * File contents, base64-encoded (JSON avoids proxies stripping multipart bodies).
+     */
+    file_base64: string;
+    /**
+     * InventoryUnit field name -> column header in the file.
+     */
+    mapping: Record<string, string>;
+    /**
+     * Validate every row without saving anything.
+     */
+    dry_run?: boolean;
+};
+
@@ -0,0 +1,19 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { UnitImportRowResult } from './UnitImportRowResult';
+/**
+ * Outcome of an import or dry run, with the status of every row.
+ */
+export type UnitImportResult = {
+    dry_run: boolean;
+    total_rows: number;
+    /**
+     * Units created (always 0 for a dry run).
+     */
+    created: number;
+    failed: number;
+    rows: Array<UnitImportRowResult>;
+};
+
@@ -0,0 +1,18 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { ImportRowStatusEnum } from './ImportRowStatusEnum';
+export type UnitImportRowResult = {
+    /**
+     * 1-based data row number (the header row is not counted).
+     */
+    row_number: number;
+    status: ImportRowStatusEnum;
+    errors: Array<string>;
+    /**
+     * The row's cells keyed by column header.
+     */
+    values: Record<string, string>;
+};
+
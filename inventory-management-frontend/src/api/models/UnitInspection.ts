@@ -0,0 +1,29 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { GradeEnum } from './GradeEnum';
+import type { InspectionResult } from './InspectionResult';
+import type { NullEnum } from './NullEnum';
+/**
+ * A completed inspection checklist of one unit.
+ */
+export type UnitInspection = {
+    readonly id: number;
+    readonly unit: number;
+    results: Array<InspectionResult>;
+    notes?: string;
+    /**
+     * Grade the results support; null when a critical item failed.
+     */
+    readonly suggested_grade: (GradeEnum | NullEnum) | null;
+    /**
+     * Grade set on the unit with this inspection, if any.
+     */
+    applied_grade?: (GradeEnum | NullEnum) | null;
+    readonly passed_count: number;
+    readonly failed_count: number;
+    readonly inspected_by_username: string | null;
+    readonly created_at: string;
+};
+
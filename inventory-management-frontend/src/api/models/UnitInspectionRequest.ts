@@ -0,0 +1,19 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { GradeEnum } from './GradeEnum';
+import type { InspectionResultRequest } from './InspectionResultRequest';
+import type { NullEnum } from './NullEnum';
+/**
+ * A completed inspection checklist of one unit.
+ */
+export type UnitInspectionRequest = {
+    results: Array<InspectionResultRequest>;
+    notes?: string;
+    /**
+     * Grade to set on the unit with this inspection, if any.
+     */
+    applied_grade?: (GradeEnum | NullEnum) | null;
+};
+
@@ -0,0 +1,19 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { LabelOutputFormatEnum } from './LabelOutputFormatEnum';
+export type UnitLabelsRequest = {
+    unit_ids: Array<number>;
+    output_format: LabelOutputFormatEnum;
+    /**
+     * Template for every unit; each unit's brand template when empty.
+     */
+    template?: number | null;
+    copies?: number;
+    /**
+     * First free sticker on the first A4 sheet, counted left to right (PDF only).
+     */
+    start_position?: number;
+};
+
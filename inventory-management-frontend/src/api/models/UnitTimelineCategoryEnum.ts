@@ -0,0 +1,34 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `created` - Created
+ * * `price` - Price
+ * * `status` - Status
+ * * `edit` - Edit
+ * * `archive` - Archive
+ * * `reservation` - Reservation
+ * * `transfer` - Transfer
+ * * `return` - Return
+ * * `order` - Order
+ * * `payment` - Payment
+ * * `delivery` - Delivery
+ * * `buyback` - Buyback
+ * * `landed_cost` - Landed cost
+ */
+export enum UnitTimelineCategoryEnum {
+    CREATED = 'created',
+    PRICE = 'price',
+    STATUS = 'status',
+    EDIT = 'edit',
+    ARCHIVE = 'archive',
+    RESERVATION = 'reservation',
+    TRANSFER = 'transfer',
+    RETURN = 'return',
+    ORDER = 'order',
+    PAYMENT = 'payment',
+    DELIVERY = 'delivery',
+    BUYBACK = 'buyback',
+    LANDED_COST = 'landed_cost',
+}
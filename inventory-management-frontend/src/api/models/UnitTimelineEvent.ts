@@ -0,0 +1,29 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { NullEnum } from './NullEnum';
+import type { UnitTimelineCategoryEnum } from './UnitTimelineCategoryEnum';
+import type { UnitTimelineRelatedModelEnum } from './UnitTimelineRelatedModelEnum';
+/**
+ * One entry in a unit's lifecycle timeline.
+ */
+export type UnitTimelineEvent = {
+    category: UnitTimelineCategoryEnum;
+    timestamp: string;
+    /**
+     * Username of the admin or customer who caused the event.
+     */
+    actor: string | null;
+    /**
+     * Short summary, e.g. "Price changed" or "Reservation approved".
+     */
+    title: string;
+    /**
+     * Extra context such as old/new values, notes or a rejection reason.
+     */
+    detail: string | null;
+    related_model: (UnitTimelineRelatedModelEnum | NullEnum) | null;
+    related_id: number | null;
+};
+
@@ -0,0 +1,20 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `reservation_request` - Reservation Request
+ * * `unit_transfer` - Unit Transfer
+ * * `return_request` - Return Request
+ * * `order` - Order
+ * * `audit_log` - Audit Log
+ * * `import_shipment` - Import Shipment
+ */
+export enum UnitTimelineRelatedModelEnum {
+    RESERVATION_REQUEST = 'reservation_request',
+    UNIT_TRANSFER = 'unit_transfer',
+    RETURN_REQUEST = 'return_request',
+    ORDER = 'order',
+    AUDIT_LOG = 'audit_log',
+    IMPORT_SHIPMENT = 'import_shipment',
+}
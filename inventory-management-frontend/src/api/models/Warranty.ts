@@ -0,0 +1,32 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { WarrantyStatusEnum } from './WarrantyStatusEnum';
+/**
+ * Warranty of one sold unit.
+ */
+export type Warranty = {
+    readonly id: number;
+    readonly unit: number;
+    /**
+     * Product name and color of the unit, for display.
+     */
+    readonly unit_label: string;
+    readonly serial_number: string | null;
+    readonly imei: string | null;
+    readonly order: string | null;
+    readonly customer_name: string | null;
+    readonly customer_phone: string | null;
+    readonly start_date: string;
+    readonly end_date: string;
+    readonly months: number;
+    readonly status: WarrantyStatusEnum;
+    /**
+     * Days until end_date; 0 once expired.
+     */
+    readonly days_remaining: number;
+    readonly claims_count: number;
+    readonly open_claims_count: number;
+};
+
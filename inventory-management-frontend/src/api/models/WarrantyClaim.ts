@@ -0,0 +1,41 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { NullEnum } from './NullEnum';
+import type { WarrantyClaimOutcomeEnum } from './WarrantyClaimOutcomeEnum';
+import type { WarrantyClaimStatusEnum } from './WarrantyClaimStatusEnum';
+/**
+ * A claim against a unit's warranty.
+ */
+export type WarrantyClaim = {
+    readonly id: number;
+    warranty: number;
+    readonly unit: number;
+    /**
+     * Product name and color of the unit, for display.
+     */
+    readonly unit_label: string;
+    status?: WarrantyClaimStatusEnum;
+    /**
+     * Fault reported by the customer.
+     */
+    issue: string;
+    /**
+     * What the technician found.
+     */
+    diagnosis?: string;
+    outcome?: (WarrantyClaimOutcomeEnum | NullEnum) | null;
+    /**
+     * Unit given to the customer when the outcome is `replaced`.
+     */
+    replacement_unit?: number | null;
+    /**
+     * Cost of the repair or replacement to the business.
+     */
+    cost?: string;
+    readonly created_by_username: string | null;
+    readonly created_at: string;
+    readonly resolved_at: string | null;
+};
+
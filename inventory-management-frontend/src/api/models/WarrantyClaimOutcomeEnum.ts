@@ -0,0 +1,16 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `repaired` - Repaired
+ * * `replaced` - Replaced
+ * * `refunded` - Refunded
+ * * `no_fault` - No fault found
+ */
+export enum WarrantyClaimOutcomeEnum {
+    REPAIRED = 'repaired',
+    REPLACED = 'replaced',
+    REFUNDED = 'refunded',
+    NO_FAULT = 'no_fault',
+}
@@ -0,0 +1,16 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `open` - Open
+ * * `in_repair` - In repair
+ * * `resolved` - Resolved
+ * * `rejected` - Rejected
+ */
+export enum WarrantyClaimStatusEnum {
+    OPEN = 'open',
+    IN_REPAIR = 'in_repair',
+    RESOLVED = 'resolved',
+    REJECTED = 'rejected',
+}
@@ -0,0 +1,25 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * Warranty expiry summary for a window of `days`.
+ */
+export type WarrantyExpiryReport = {
+    days: number;
+    active_count: number;
+    /**
+     * Active warranties ending within the window.
+     */
+    expiring_count: number;
+    /**
+     * Warranties that ended within the last `days`.
+     */
+    recently_expired_count: number;
+    open_claims_count: number;
+    /**
+     * Cost of claims resolved within the last `days`.
+     */
+    claims_cost: string;
+};
+
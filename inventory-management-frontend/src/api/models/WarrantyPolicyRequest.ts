@@ -0,0 +1,29 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { ConditionEnum } from './ConditionEnum';
+import type { NullEnum } from './NullEnum';
+import type { ProductTypesEnum } from './ProductTypesEnum';
+/**
+ * Warranty period for units of a product type and condition.
+ */
+export type WarrantyPolicyRequest = {
+    /**
+     * Empty for all product types.
+     */
+    product_type?: (ProductTypesEnum | NullEnum) | null;
+    /**
+     * Empty for all conditions.
+     */
+    condition?: (ConditionEnum | NullEnum) | null;
+    /**
+     * Warranty length; 0 means no warranty.
+     */
+    months: number;
+    /**
+     * Terms shown to staff, e.g. what the warranty covers.
+     */
+    notes?: string;
+};
+
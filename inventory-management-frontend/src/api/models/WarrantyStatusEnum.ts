@@ -0,0 +1,12 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+/**
+ * * `active` - Active
+ * * `expired` - Expired
+ */
+export enum WarrantyStatusEnum {
+    ACTIVE = 'active',
+    EXPIRED = 'expired',
+}
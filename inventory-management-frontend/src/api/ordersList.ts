@@ -0,0 +1,35 @@
+import { OrdersService } from './services/OrdersService';
+
+/**
+ * Query params accepted by GET /orders/, keyed by their API names.
+ * The generated `OrdersService.ordersList` takes these positionally; use `listOrders` instead.
+ */
+export type OrdersListParams = {
+  brand?: number;
+  created_at__date__gte?: string;
+  created_at__date__lte?: string;
+  delivery_county?: string;
+  is_delivery_paid?: boolean;
+  is_items_paid?: boolean;
+  order_source?: 'ONLINE' | 'WALK_IN';
+  page?: number;
+  page_size?: number;
+  /** Matches order ID, customer name, phone and email. */
+  search?: string;
+  status?: 'Canceled' | 'Delivered' | 'Paid' | 'Pending';
+};
+
+export const listOrders = (params: OrdersListParams = {}) =>
+  OrdersService.ordersList(
+    params.brand,
+    params.created_at__date__gte,
+    params.created_at__date__lte,
+    params.delivery_county,
+    params.is_delivery_paid,
+    params.is_items_paid,
+    params.order_source,
+    params.page,
+    params.page_size,
+    params.search,
+    params.status,
+  );
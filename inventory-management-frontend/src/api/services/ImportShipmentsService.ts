@@ -0,0 +1,232 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { ImportShipment } from '../models/ImportShipment';
+import type { ImportShipmentRequest } from '../models/ImportShipmentRequest';
+import type { LandedCostAllocation } from '../models/LandedCostAllocation';
+import type { PaginatedImportShipmentList } from '../models/PaginatedImportShipmentList';
+import type { PatchedImportShipmentRequest } from '../models/PatchedImportShipmentRequest';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class ImportShipmentsService {
+    /**
+     * Import shipments: imported units (source IM) grouped with the shipping, clearing, duty
+     * and forex costs of bringing them in.
+     * - Inventory Managers and Superusers only.
+     * - Each cost is entered in its own currency with the exchange rate to KES.
+     * - `units`, `costs` and `allocation_method` can only be changed while the shipment is
+     * open. Allocate to spread the costs over the units' cost_of_unit; reverse an
+     * allocation to reopen the shipment.
+     * - `search` matches the reference, source name and notes.
+     * @param page A page number within the paginated result set.
+     * @param pageSize Number of results to return per page.
+     * @param search A search term.
+     * @param status * `open` - Open
+     * * `allocated` - Allocated
+     * @returns PaginatedImportShipmentList
+     * @throws ApiError
+     */
+    public static importShipmentsList(
+        page?: number,
+        pageSize?: number,
+        search?: string,
+        status?: 'allocated' | 'open',
+    ): CancelablePromise<PaginatedImportShipmentList> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/import-shipments/',
+            query: {
+                'page': page,
+                'page_size': pageSize,
+                'search': search,
+                'status': status,
+            },
+        });
+    }
+    /**
+     * Import shipments: imported units (source IM) grouped with the shipping, clearing, duty
+     * and forex costs of bringing them in.
+     * - Inventory Managers and Superusers only.
+     * - Each cost is entered in its own currency with the exchange rate to KES.
+     * - `units`, `costs` and `allocation_method` can only be changed while the shipment is
+     * open. Allocate to spread the costs over the units' cost_of_unit; reverse an
+     * allocation to reopen the shipment.
+     * - `search` matches the reference, source name and notes.
+     * @param requestBody
+     * @returns ImportShipment
+     * @throws ApiError
+     */
+    public static importShipmentsCreate(
+        requestBody: ImportShipmentRequest,
+    ): CancelablePromise<ImportShipment> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/import-shipments/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Import shipments: imported units (source IM) grouped with the shipping, clearing, duty
+     * and forex costs of bringing them in.
+     * - Inventory Managers and Superusers only.
+     * - Each cost is entered in its own currency with the exchange rate to KES.
+     * - `units`, `costs` and `allocation_method` can only be changed while the shipment is
+     * open. Allocate to spread the costs over the units' cost_of_unit; reverse an
+     * allocation to reopen the shipment.
+     * - `search` matches the reference, source name and notes.
+     * @param id A unique integer value identifying this import shipment.
+     * @returns ImportShipment
+     * @throws ApiError
+     */
+    public static importShipmentsRetrieve(
+        id: number,
+    ): CancelablePromise<ImportShipment> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/import-shipments/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Import shipments: imported units (source IM) grouped with the shipping, clearing, duty
+     * and forex costs of bringing them in.
+     * - Inventory Managers and Superusers only.
+     * - Each cost is entered in its own currency with the exchange rate to KES.
+     * - `units`, `costs` and `allocation_method` can only be changed while the shipment is
+     * open. Allocate to spread the costs over the units' cost_of_unit; reverse an
+     * allocation to reopen the shipment.
+     * - `search` matches the reference, source name and notes.
+     * @param id A unique integer value identifying this import shipment.
+     * @param requestBody
+     * @returns ImportShipment
+     * @throws ApiError
+     */
+    public static importShipmentsUpdate(
+        id: number,
+        requestBody: ImportShipmentRequest,
+    ): CancelablePromise<ImportShipment> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/import-shipments/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Import shipments: imported units (source IM) grouped with the shipping, clearing, duty
+     * and forex costs of bringing them in.
+     * - Inventory Managers and Superusers only.
+     * - Each cost is entered in its own currency with the exchange rate to KES.
+     * - `units`, `costs` and `allocation_method` can only be changed while the shipment is
+     * open. Allocate to spread the costs over the units' cost_of_unit; reverse an
+     * allocation to reopen the shipment.
+     * - `search` matches the reference, source name and notes.
+     * @param id A unique integer value identifying this import shipment.
+     * @param requestBody
+     * @returns ImportShipment
+     * @throws ApiError
+     */
+    public static importShipmentsPartialUpdate(
+        id: number,
+        requestBody?: PatchedImportShipmentRequest,
+    ): CancelablePromise<ImportShipment> {
+        return __request(OpenAPI, {
+            method: 'PATCH',
+            url: '/import-shipments/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Import shipments: imported units (source IM) grouped with the shipping, clearing, duty
+     * and forex costs of bringing them in.
+     * - Inventory Managers and Superusers only.
+     * - Each cost is entered in its own currency with the exchange rate to KES.
+     * - `units`, `costs` and `allocation_method` can only be changed while the shipment is
+     * open. Allocate to spread the costs over the units' cost_of_unit; reverse an
+     * allocation to reopen the shipment.
+     * - `search` matches the reference, source name and notes.
+     * @param id A unique integer value identifying this import shipment.
+     * @returns void
+     * @throws ApiError
+     */
+    public static importShipmentsDestroy(
+        id: number,
+    ): CancelablePromise<void> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/import-shipments/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Spread the shipment's costs (in KES) over its units by `allocation_method`: by value in
+     * proportion to each unit's cost_of_unit × quantity, by quantity equally per piece.
+     * Adds each unit's share to its cost_of_unit, records a landed cost allocation per unit
+     * (also shown on the unit timeline) and marks the shipment allocated. Rejected when the
+     * shipment has no units or no costs.
+     * @param id A unique integer value identifying this import shipment.
+     * @returns ImportShipment
+     * @throws ApiError
+     */
+    public static importShipmentsAllocateCreate(
+        id: number,
+    ): CancelablePromise<ImportShipment> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/import-shipments/{id}/allocate/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Landed cost audit trail of the shipment: one entry per unit for every allocation and
+     * reversal, newest first.
+     * @param id A unique integer value identifying this import shipment.
+     * @returns LandedCostAllocation
+     * @throws ApiError
+     */
+    public static importShipmentsAllocationsList(
+        id: number,
+    ): CancelablePromise<Array<LandedCostAllocation>> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/import-shipments/{id}/allocations/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Reverse the current allocation: subtracts each unit's allocated share from its
+     * cost_of_unit, records the reversal and reopens the shipment for editing.
+     * @param id A unique integer value identifying this import shipment.
+     * @returns ImportShipment
+     * @throws ApiError
+     */
+    public static importShipmentsReverseCreate(
+        id: number,
+    ): CancelablePromise<ImportShipment> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/import-shipments/{id}/reverse/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
@@ -0,0 +1,133 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { InspectionItem } from '../models/InspectionItem';
+import type { InspectionItemRequest } from '../models/InspectionItemRequest';
+import type { PatchedInspectionItemRequest } from '../models/PatchedInspectionItemRequest';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class InspectionItemsService {
+    /**
+     * Configurable refurbishment inspection checklist items.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - Items apply to the product types listed in `product_types` (all types when empty) and
+     * are shown in `sort_order`.
+     * @returns InspectionItem
+     * @throws ApiError
+     */
+    public static inspectionItemsList(): CancelablePromise<Array<InspectionItem>> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/inspection-items/',
+        });
+    }
+    /**
+     * Configurable refurbishment inspection checklist items.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - Items apply to the product types listed in `product_types` (all types when empty) and
+     * are shown in `sort_order`.
+     * @param requestBody
+     * @returns InspectionItem
+     * @throws ApiError
+     */
+    public static inspectionItemsCreate(
+        requestBody: InspectionItemRequest,
+    ): CancelablePromise<InspectionItem> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/inspection-items/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Configurable refurbishment inspection checklist items.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - Items apply to the product types listed in `product_types` (all types when empty) and
+     * are shown in `sort_order`.
+     * @param id A unique integer value identifying this inspection item.
+     * @returns InspectionItem
+     * @throws ApiError
+     */
+    public static inspectionItemsRetrieve(
+        id: number,
+    ): CancelablePromise<InspectionItem> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/inspection-items/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Configurable refurbishment inspection checklist items.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - Items apply to the product types listed in `product_types` (all types when empty) and
+     * are shown in `sort_order`.
+     * @param id A unique integer value identifying this inspection item.
+     * @param requestBody
+     * @returns InspectionItem
+     * @throws ApiError
+     */
+    public static inspectionItemsUpdate(
+        id: number,
+        requestBody: InspectionItemRequest,
+    ): CancelablePromise<InspectionItem> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/inspection-items/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Configurable refurbishment inspection checklist items.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - Items apply to the product types listed in `product_types` (all types when empty) and
+     * are shown in `sort_order`.
+     * @param id A unique integer value identifying this inspection item.
+     * @param requestBody
+     * @returns InspectionItem
+     * @throws ApiError
+     */
+    public static inspectionItemsPartialUpdate(
+        id: number,
+        requestBody?: PatchedInspectionItemRequest,
+    ): CancelablePromise<InspectionItem> {
+        return __request(OpenAPI, {
+            method: 'PATCH',
+            url: '/inspection-items/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Configurable refurbishment inspection checklist items.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - Items apply to the product types listed in `product_types` (all types when empty) and
+     * are shown in `sort_order`.
+     * @param id A unique integer value identifying this inspection item.
+     * @returns void
+     * @throws ApiError
+     */
+    public static inspectionItemsDestroy(
+        id: number,
+    ): CancelablePromise<void> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/inspection-items/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
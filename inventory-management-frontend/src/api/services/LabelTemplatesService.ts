@@ -0,0 +1,133 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { LabelTemplate } from '../models/LabelTemplate';
+import type { LabelTemplateRequest } from '../models/LabelTemplateRequest';
+import type { PatchedLabelTemplateRequest } from '../models/PatchedLabelTemplateRequest';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class LabelTemplatesService {
+    /**
+     * Label templates for printable unit price tags.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A template with a brand is used for that brand's units; `is_default` marks the
+     * template used when a brand has none of its own.
+     * @returns LabelTemplate
+     * @throws ApiError
+     */
+    public static labelTemplatesList(): CancelablePromise<Array<LabelTemplate>> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/label-templates/',
+        });
+    }
+    /**
+     * Label templates for printable unit price tags.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A template with a brand is used for that brand's units; `is_default` marks the
+     * template used when a brand has none of its own.
+     * @param requestBody
+     * @returns LabelTemplate
+     * @throws ApiError
+     */
+    public static labelTemplatesCreate(
+        requestBody: LabelTemplateRequest,
+    ): CancelablePromise<LabelTemplate> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/label-templates/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Label templates for printable unit price tags.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A template with a brand is used for that brand's units; `is_default` marks the
+     * template used when a brand has none of its own.
+     * @param id A unique integer value identifying this label template.
+     * @returns LabelTemplate
+     * @throws ApiError
+     */
+    public static labelTemplatesRetrieve(
+        id: number,
+    ): CancelablePromise<LabelTemplate> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/label-templates/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Label templates for printable unit price tags.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A template with a brand is used for that brand's units; `is_default` marks the
+     * template used when a brand has none of its own.
+     * @param id A unique integer value identifying this label template.
+     * @param requestBody
+     * @returns LabelTemplate
+     * @throws ApiError
+     */
+    public static labelTemplatesUpdate(
+        id: number,
+        requestBody: LabelTemplateRequest,
+    ): CancelablePromise<LabelTemplate> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/label-templates/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Label templates for printable unit price tags.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A template with a brand is used for that brand's units; `is_default` marks the
+     * template used when a brand has none of its own.
+     * @param id A unique integer value identifying this label template.
+     * @param requestBody
+     * @returns LabelTemplate
+     * @throws ApiError
+     */
+    public static labelTemplatesPartialUpdate(
+        id: number,
+        requestBody?: PatchedLabelTemplateRequest,
+    ): CancelablePromise<LabelTemplate> {
+        return __request(OpenAPI, {
+            method: 'PATCH',
+            url: '/label-templates/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Label templates for printable unit price tags.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A template with a brand is used for that brand's units; `is_default` marks the
+     * template used when a brand has none of its own.
+     * @param id A unique integer value identifying this label template.
+     * @returns void
+     * @throws ApiError
+     */
+    public static labelTemplatesDestroy(
+        id: number,
+    ): CancelablePromise<void> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/label-templates/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
@@ -0,0 +1,139 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { MarkdownSchedule } from '../models/MarkdownSchedule';
+import type { MarkdownScheduleRequest } from '../models/MarkdownScheduleRequest';
+import type { PatchedMarkdownScheduleRequest } from '../models/PatchedMarkdownScheduleRequest';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class MarkdownSchedulesService {
+    /**
+     * Markdown schedules for aging inventory.
+     * - Inventory Managers and Superusers only.
+     * - Each schedule is a list of steps (`after_days`, `percent_off`); a unit that has been in
+     * stock at least `after_days` gets the largest matching step's discount off its original
+     * price. Empty product type / brand filters match anything.
+     * @returns MarkdownSchedule
+     * @throws ApiError
+     */
+    public static markdownSchedulesList(): CancelablePromise<Array<MarkdownSchedule>> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/markdown-schedules/',
+        });
+    }
+    /**
+     * Markdown schedules for aging inventory.
+     * - Inventory Managers and Superusers only.
+     * - Each schedule is a list of steps (`after_days`, `percent_off`); a unit that has been in
+     * stock at least `after_days` gets the largest matching step's discount off its original
+     * price. Empty product type / brand filters match anything.
+     * @param requestBody
+     * @returns MarkdownSchedule
+     * @throws ApiError
+     */
+    public static markdownSchedulesCreate(
+        requestBody: MarkdownScheduleRequest,
+    ): CancelablePromise<MarkdownSchedule> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/markdown-schedules/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Markdown schedules for aging inventory.
+     * - Inventory Managers and Superusers only.
+     * - Each schedule is a list of steps (`after_days`, `percent_off`); a unit that has been in
+     * stock at least `after_days` gets the largest matching step's discount off its original
+     * price. Empty product type / brand filters match anything.
+     * @param id A unique integer value identifying this markdown schedule.
+     * @returns MarkdownSchedule
+     * @throws ApiError
+     */
+    public static markdownSchedulesRetrieve(
+        id: number,
+    ): CancelablePromise<MarkdownSchedule> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/markdown-schedules/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Markdown schedules for aging inventory.
+     * - Inventory Managers and Superusers only.
+     * - Each schedule is a list of steps (`after_days`, `percent_off`); a unit that has been in
+     * stock at least `after_days` gets the largest matching step's discount off its original
+     * price. Empty product type / brand filters match anything.
+     * @param id A unique integer value identifying this markdown schedule.
+     * @param requestBody
+     * @returns MarkdownSchedule
+     * @throws ApiError
+     */
+    public static markdownSchedulesUpdate(
+        id: number,
+        requestBody: MarkdownScheduleRequest,
+    ): CancelablePromise<MarkdownSchedule> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/markdown-schedules/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Markdown schedules for aging inventory.
+     * - Inventory Managers and Superusers only.
+     * - Each schedule is a list of steps (`after_days`, `percent_off`); a unit that has been in
+     * stock at least `after_days` gets the largest matching step's discount off its original
+     * price. Empty product type / brand filters match anything.
+     * @param id A unique integer value identifying this markdown schedule.
+     * @param requestBody
+     * @returns MarkdownSchedule
+     * @throws ApiError
+     */
+    public static markdownSchedulesPartialUpdate(
+        id: number,
+        requestBody?: PatchedMarkdownScheduleRequest,
+    ): CancelablePromise<MarkdownSchedule> {
+        return __request(OpenAPI, {
+            method: 'PATCH',
+            url: '/markdown-schedules/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Markdown schedules for aging inventory.
+     * - Inventory Managers and Superusers only.
+     * - Each schedule is a list of steps (`after_days`, `percent_off`); a unit that has been in
+     * stock at least `after_days` gets the largest matching step's discount off its original
+     * price. Empty product type / brand filters match anything.
+     * @param id A unique integer value identifying this markdown schedule.
+     * @returns void
+     * @throws ApiError
+     */
+    public static markdownSchedulesDestroy(
+        id: number,
+    ): CancelablePromise<void> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/markdown-schedules/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
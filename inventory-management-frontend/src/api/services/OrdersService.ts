@@ -16,18 +16,52 @@ export class OrdersService {
      * - Admins can view/manage all orders.
      * - Customers can only view/manage their own orders.
      * - Guest users can create orders (no login required).
+     * @param brand Only include orders containing a unit of this brand.
+     * @param createdAtDateGte
+     * @param createdAtDateLte
+     * @param deliveryCounty
+     * @param isDeliveryPaid
+     * @param isItemsPaid
+     * @param orderSource * `ONLINE` - Online
+     * * `WALK_IN` - Walk-in
      * @param page A page number within the paginated result set.
+     * @param pageSize Number of results to return per page.
+     * @param search A search term.
+     * @param status * `Pending` - Pending
+     * * `Paid` - Paid
+     * * `Delivered` - Delivered
+     * * `Canceled` - Canceled
      * @returns PaginatedOrderList
      * @throws ApiError
      */
     public static ordersList(
+        brand?: number,
+        createdAtDateGte?: string,
+        createdAtDateLte?: string,
+        deliveryCounty?: string,
+        isDeliveryPaid?: boolean,
+        isItemsPaid?: boolean,
+        orderSource?: 'ONLINE' | 'WALK_IN',
         page?: number,
+        pageSize?: number,
+        search?: string,
+        status?: 'Canceled' | 'Delivered' | 'Paid' | 'Pending',
     ): CancelablePromise<PaginatedOrderList> {
         return __request(OpenAPI, {
             method: 'GET',
             url: '/orders/',
             query: {
+                'brand': brand,
+                'created_at__date__gte': createdAtDateGte,
+                'created_at__date__lte': createdAtDateLte,
+                'delivery_county': deliveryCounty,
+                'is_delivery_paid': isDeliveryPaid,
+                'is_items_paid': isItemsPaid,
+                'order_source': orderSource,
                 'page': page,
+                'page_size': pageSize,
+                'search': search,
+                'status': status,
             },
         });
     }
@@ -96,6 +130,7 @@ export class OrdersService {
      * - Admins can view/manage all orders.
      * - Customers can only view/manage their own orders.
      * - Guest users can create orders (no login required).
+     * - Setting status to Delivered starts the warranty of each unit in the order.
      * @param orderId A UUID string identifying this order.
      * @param requestBody
      * @returns Order
@@ -0,0 +1,183 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { PatchedPricingRuleRequest } from '../models/PatchedPricingRuleRequest';
+import type { PricingRule } from '../models/PricingRule';
+import type { PricingRuleRequest } from '../models/PricingRuleRequest';
+import type { PricingSuggestion } from '../models/PricingSuggestion';
+import type { PricingSuggestionRequest } from '../models/PricingSuggestionRequest';
+import type { RepricePreviewRequest } from '../models/RepricePreviewRequest';
+import type { RepricePreviewRow } from '../models/RepricePreviewRow';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class PricingRulesService {
+    /**
+     * Margin-based pricing rules used to suggest unit selling prices.
+     * - Inventory Managers and Superusers only.
+     * - Rules are returned by ascending `priority`; the first active rule whose filters
+     * (product type, brand, condition, grade, source) all match a unit is applied.
+     * Empty filters match anything.
+     * @returns PricingRule
+     * @throws ApiError
+     */
+    public static pricingRulesList(): CancelablePromise<Array<PricingRule>> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/pricing-rules/',
+        });
+    }
+    /**
+     * Margin-based pricing rules used to suggest unit selling prices.
+     * - Inventory Managers and Superusers only.
+     * - Rules are returned by ascending `priority`; the first active rule whose filters
+     * (product type, brand, condition, grade, source) all match a unit is applied.
+     * Empty filters match anything.
+     * @param requestBody
+     * @returns PricingRule
+     * @throws ApiError
+     */
+    public static pricingRulesCreate(
+        requestBody: PricingRuleRequest,
+    ): CancelablePromise<PricingRule> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/pricing-rules/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Preview the prices the current rules would give existing units.
+     *
+     * Nothing is saved: apply the suggested prices with POST /units/bulk_update/. Units
+     * no rule matches are returned with null `suggested_price` so they can be shown as
+     * skipped.
+     * @param requestBody
+     * @returns RepricePreviewRow
+     * @throws ApiError
+     */
+    public static pricingRulesRepricePreviewCreate(
+        requestBody: RepricePreviewRequest,
+    ): CancelablePromise<Array<RepricePreviewRow>> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/pricing-rules/reprice_preview/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Suggest a selling price for a unit that is about to be created.
+     *
+     * Picks the first matching active rule, applies its markup to `cost_of_unit`, rounds
+     * the result and raises it to the rule's margin floor if needed. `rule` is null (and
+     * both prices are null) when no rule matches.
+     * @param requestBody
+     * @returns PricingSuggestion
+     * @throws ApiError
+     */
+    public static pricingRulesSuggestCreate(
+        requestBody: PricingSuggestionRequest,
+    ): CancelablePromise<PricingSuggestion> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/pricing-rules/suggest/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Margin-based pricing rules used to suggest unit selling prices.
+     * - Inventory Managers and Superusers only.
+     * - Rules are returned by ascending `priority`; the first active rule whose filters
+     * (product type, brand, condition, grade, source) all match a unit is applied.
+     * Empty filters match anything.
+     * @param id A unique integer value identifying this pricing rule.
+     * @returns PricingRule
+     * @throws ApiError
+     */
+    public static pricingRulesRetrieve(
+        id: number,
+    ): CancelablePromise<PricingRule> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/pricing-rules/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Margin-based pricing rules used to suggest unit selling prices.
+     * - Inventory Managers and Superusers only.
+     * - Rules are returned by ascending `priority`; the first active rule whose filters
+     * (product type, brand, condition, grade, source) all match a unit is applied.
+     * Empty filters match anything.
+     * @param id A unique integer value identifying this pricing rule.
+     * @param requestBody
+     * @returns PricingRule
+     * @throws ApiError
+     */
+    public static pricingRulesUpdate(
+        id: number,
+        requestBody: PricingRuleRequest,
+    ): CancelablePromise<PricingRule> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/pricing-rules/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Margin-based pricing rules used to suggest unit selling prices.
+     * - Inventory Managers and Superusers only.
+     * - Rules are returned by ascending `priority`; the first active rule whose filters
+     * (product type, brand, condition, grade, source) all match a unit is applied.
+     * Empty filters match anything.
+     * @param id A unique integer value identifying this pricing rule.
+     * @param requestBody
+     * @returns PricingRule
+     * @throws ApiError
+     */
+    public static pricingRulesPartialUpdate(
+        id: number,
+        requestBody?: PatchedPricingRuleRequest,
+    ): CancelablePromise<PricingRule> {
+        return __request(OpenAPI, {
+            method: 'PATCH',
+            url: '/pricing-rules/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Margin-based pricing rules used to suggest unit selling prices.
+     * - Inventory Managers and Superusers only.
+     * - Rules are returned by ascending `priority`; the first active rule whose filters
+     * (product type, brand, condition, grade, source) all match a unit is applied.
+     * Empty filters match anything.
+     * @param id A unique integer value identifying this pricing rule.
+     * @returns void
+     * @throws ApiError
+     */
+    public static pricingRulesDestroy(
+        id: number,
+    ): CancelablePromise<void> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/pricing-rules/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
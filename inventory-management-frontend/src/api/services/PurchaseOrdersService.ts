@@ -0,0 +1,198 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { PaginatedPurchaseOrderList } from '../models/PaginatedPurchaseOrderList';
+import type { PatchedPurchaseOrderRequest } from '../models/PatchedPurchaseOrderRequest';
+import type { PurchaseOrder } from '../models/PurchaseOrder';
+import type { PurchaseOrderRequest } from '../models/PurchaseOrderRequest';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class PurchaseOrdersService {
+    /**
+     * Purchase orders raised against an acquisition source (supplier or import partner).
+     * - Inventory Managers and Superusers only.
+     * - `lines` can only be changed while the order is a draft; saving them replaces the
+     * order's lines.
+     * - Set status to `ordered` once sent to the source, or `cancelled` while nothing has
+     * been received. `partially_received` and `received` are set as units are received
+     * against the lines (POST /units/ with `purchase_order_line`).
+     * - `search` matches the reference, source name and notes.
+     * @param acquisitionSource
+     * @param page A page number within the paginated result set.
+     * @param pageSize Number of results to return per page.
+     * @param search A search term.
+     * @param status * `draft` - Draft
+     * * `ordered` - Ordered
+     * * `partially_received` - Partially received
+     * * `received` - Received
+     * * `cancelled` - Cancelled
+     * @returns PaginatedPurchaseOrderList
+     * @throws ApiError
+     */
+    public static purchaseOrdersList(
+        acquisitionSource?: number,
+        page?: number,
+        pageSize?: number,
+        search?: string,
+        status?: 'cancelled' | 'draft' | 'ordered' | 'partially_received' | 'received',
+    ): CancelablePromise<PaginatedPurchaseOrderList> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/purchase-orders/',
+            query: {
+                'acquisition_source': acquisitionSource,
+                'page': page,
+                'page_size': pageSize,
+                'search': search,
+                'status': status,
+            },
+        });
+    }
+    /**
+     * Purchase orders raised against an acquisition source (supplier or import partner).
+     * - Inventory Managers and Superusers only.
+     * - `lines` can only be changed while the order is a draft; saving them replaces the
+     * order's lines.
+     * - Set status to `ordered` once sent to the source, or `cancelled` while nothing has
+     * been received. `partially_received` and `received` are set as units are received
+     * against the lines (POST /units/ with `purchase_order_line`).
+     * - `search` matches the reference, source name and notes.
+     * @param requestBody
+     * @returns PurchaseOrder
+     * @throws ApiError
+     */
+    public static purchaseOrdersCreate(
+        requestBody: PurchaseOrderRequest,
+    ): CancelablePromise<PurchaseOrder> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/purchase-orders/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Purchase orders raised against an acquisition source (supplier or import partner).
+     * - Inventory Managers and Superusers only.
+     * - `lines` can only be changed while the order is a draft; saving them replaces the
+     * order's lines.
+     * - Set status to `ordered` once sent to the source, or `cancelled` while nothing has
+     * been received. `partially_received` and `received` are set as units are received
+     * against the lines (POST /units/ with `purchase_order_line`).
+     * - `search` matches the reference, source name and notes.
+     * @param id A unique integer value identifying this purchase order.
+     * @returns PurchaseOrder
+     * @throws ApiError
+     */
+    public static purchaseOrdersRetrieve(
+        id: number,
+    ): CancelablePromise<PurchaseOrder> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/purchase-orders/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Purchase orders raised against an acquisition source (supplier or import partner).
+     * - Inventory Managers and Superusers only.
+     * - `lines` can only be changed while the order is a draft; saving them replaces the
+     * order's lines.
+     * - Set status to `ordered` once sent to the source, or `cancelled` while nothing has
+     * been received. `partially_received` and `received` are set as units are received
+     * against the lines (POST /units/ with `purchase_order_line`).
+     * - `search` matches the reference, source name and notes.
+     * @param id A unique integer value identifying this purchase order.
+     * @param requestBody
+     * @returns PurchaseOrder
+     * @throws ApiError
+     */
+    public static purchaseOrdersUpdate(
+        id: number,
+        requestBody: PurchaseOrderRequest,
+    ): CancelablePromise<PurchaseOrder> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/purchase-orders/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Purchase orders raised against an acquisition source (supplier or import partner).
+     * - Inventory Managers and Superusers only.
+     * - `lines` can only be changed while the order is a draft; saving them replaces the
+     * order's lines.
+     * - Set status to `ordered` once sent to the source, or `cancelled` while nothing has
+     * been received. `partially_received` and `received` are set as units are received
+     * against the lines (POST /units/ with `purchase_order_line`).
+     * - `search` matches the reference, source name and notes.
+     * @param id A unique integer value identifying this purchase order.
+     * @param requestBody
+     * @returns PurchaseOrder
+     * @throws ApiError
+     */
+    public static purchaseOrdersPartialUpdate(
+        id: number,
+        requestBody?: PatchedPurchaseOrderRequest,
+    ): CancelablePromise<PurchaseOrder> {
+        return __request(OpenAPI, {
+            method: 'PATCH',
+            url: '/purchase-orders/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Purchase orders raised against an acquisition source (supplier or import partner).
+     * - Inventory Managers and Superusers only.
+     * - `lines` can only be changed while the order is a draft; saving them replaces the
+     * order's lines.
+     * - Set status to `ordered` once sent to the source, or `cancelled` while nothing has
+     * been received. `partially_received` and `received` are set as units are received
+     * against the lines (POST /units/ with `purchase_order_line`).
+     * - `search` matches the reference, source name and notes.
+     * @param id A unique integer value identifying this purchase order.
+     * @returns void
+     * @throws ApiError
+     */
+    public static purchaseOrdersDestroy(
+        id: number,
+    ): CancelablePromise<void> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/purchase-orders/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Close receipt on an ordered or partially received purchase order: marks it received
+     * and flags every line still below its quantity as short-delivered.
+     * @param id A unique integer value identifying this purchase order.
+     * @returns PurchaseOrder
+     * @throws ApiError
+     */
+    public static purchaseOrdersCloseCreate(
+        id: number,
+    ): CancelablePromise<PurchaseOrder> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/purchase-orders/{id}/close/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
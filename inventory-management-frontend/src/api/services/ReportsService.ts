@@ -2,74 +2,227 @@
 /* istanbul ignore file */
 /* tslint:disable */
 /* eslint-disable */
+import type { AgingInventoryReport } from '../models/AgingInventoryReport';
+import type { InventoryValueReport } from '../models/InventoryValueReport';
+import type { ProductPerformance } from '../models/ProductPerformance';
+import type { RequestManagementReport } from '../models/RequestManagementReport';
+import type { SalespersonPerformance } from '../models/SalespersonPerformance';
+import type { ShrinkageReport } from '../models/ShrinkageReport';
+import type { SourcePerformanceReport } from '../models/SourcePerformanceReport';
+import type { StockMovementReport } from '../models/StockMovementReport';
+import type { WarrantyExpiryReport } from '../models/WarrantyExpiryReport';
 import type { CancelablePromise } from '../core/CancelablePromise';
 import { OpenAPI } from '../core/OpenAPI';
 import { request as __request } from '../core/request';
 export class ReportsService {
     /**
      * Get aging inventory report.
-     * @returns any
+     * @param brand Only include units whose product belongs to this brand.
+     * @param dateFrom Start of the reporting period (inclusive, YYYY-MM-DD).
+     * @param dateTo End of the reporting period (inclusive, YYYY-MM-DD).
+     * @returns AgingInventoryReport
      * @throws ApiError
      */
-    public static reportsAgingInventoryRetrieve(): CancelablePromise<Record<string, any>> {
+    public static reportsAgingInventoryRetrieve(
+        brand?: number,
+        dateFrom?: string,
+        dateTo?: string,
+    ): CancelablePromise<AgingInventoryReport> {
         return __request(OpenAPI, {
             method: 'GET',
             url: '/reports/aging_inventory/',
+            query: {
+                'brand': brand,
+                'date_from': dateFrom,
+                'date_to': dateTo,
+            },
         });
     }
     /**
      * Get inventory value report.
-     * @returns any
+     * @param brand Only include units whose product belongs to this brand.
+     * @param dateFrom Start of the reporting period (inclusive, YYYY-MM-DD).
+     * @param dateTo End of the reporting period (inclusive, YYYY-MM-DD).
+     * @returns InventoryValueReport
      * @throws ApiError
      */
-    public static reportsInventoryValueRetrieve(): CancelablePromise<Record<string, any>> {
+    public static reportsInventoryValueRetrieve(
+        brand?: number,
+        dateFrom?: string,
+        dateTo?: string,
+    ): CancelablePromise<InventoryValueReport> {
         return __request(OpenAPI, {
             method: 'GET',
             url: '/reports/inventory_value/',
+            query: {
+                'brand': brand,
+                'date_from': dateFrom,
+                'date_to': dateTo,
+            },
         });
     }
     /**
      * Get product performance report.
-     * @returns any
+     * @param brand Only include units whose product belongs to this brand.
+     * @param dateFrom Start of the reporting period (inclusive, YYYY-MM-DD).
+     * @param dateTo End of the reporting period (inclusive, YYYY-MM-DD).
+     * @returns ProductPerformance
      * @throws ApiError
      */
-    public static reportsProductPerformanceRetrieve(): CancelablePromise<Record<string, any>> {
+    public static reportsProductPerformanceRetrieve(
+        brand?: number,
+        dateFrom?: string,
+        dateTo?: string,
+    ): CancelablePromise<Array<ProductPerformance>> {
         return __request(OpenAPI, {
             method: 'GET',
             url: '/reports/product_performance/',
+            query: {
+                'brand': brand,
+                'date_from': dateFrom,
+                'date_to': dateTo,
+            },
         });
     }
     /**
      * Get request management statistics.
-     * @returns any
+     * @param brand Only include units whose product belongs to this brand.
+     * @param dateFrom Start of the reporting period (inclusive, YYYY-MM-DD).
+     * @param dateTo End of the reporting period (inclusive, YYYY-MM-DD).
+     * @returns RequestManagementReport
      * @throws ApiError
      */
-    public static reportsRequestManagementRetrieve(): CancelablePromise<Record<string, any>> {
+    public static reportsRequestManagementRetrieve(
+        brand?: number,
+        dateFrom?: string,
+        dateTo?: string,
+    ): CancelablePromise<RequestManagementReport> {
         return __request(OpenAPI, {
             method: 'GET',
             url: '/reports/request_management/',
+            query: {
+                'brand': brand,
+                'date_from': dateFrom,
+                'date_to': dateTo,
+            },
         });
     }
     /**
      * Get salesperson performance report.
-     * @returns any
+     * @param brand Only include units whose product belongs to this brand.
+     * @param dateFrom Start of the reporting period (inclusive, YYYY-MM-DD).
+     * @param dateTo End of the reporting period (inclusive, YYYY-MM-DD).
+     * @returns SalespersonPerformance
      * @throws ApiError
      */
-    public static reportsSalespersonPerformanceRetrieve(): CancelablePromise<Record<string, any>> {
+    public static reportsSalespersonPerformanceRetrieve(
+        brand?: number,
+        dateFrom?: string,
+        dateTo?: string,
+    ): CancelablePromise<Array<SalespersonPerformance>> {
         return __request(OpenAPI, {
             method: 'GET',
             url: '/reports/salesperson_performance/',
+            query: {
+                'brand': brand,
+                'date_from': dateFrom,
+                'date_to': dateTo,
+            },
+        });
+    }
+    /**
+     * Get shrinkage report: stock adjustments in the period grouped by reason and by
+     * product. Shrinkage is stock written off as damaged or lost, valued at unit cost.
+     * @param brand Only adjustments of units whose product belongs to this brand.
+     * @param dateFrom Start of the period (inclusive, YYYY-MM-DD).
+     * @param dateTo End of the period (inclusive, YYYY-MM-DD).
+     * @returns ShrinkageReport
+     * @throws ApiError
+     */
+    public static reportsShrinkageRetrieve(
+        brand?: number,
+        dateFrom?: string,
+        dateTo?: string,
+    ): CancelablePromise<ShrinkageReport> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/reports/shrinkage/',
+            query: {
+                'brand': brand,
+                'date_from': dateFrom,
+                'date_to': dateTo,
+            },
+        });
+    }
+    /**
+     * Get acquisition source performance report: for each supplier / import partner,
+     * and for the buyback channel as a whole, the units sourced in the period and how
+     * they sold. Margins use cost_of_unit against the sale price; returns count
+     * approved return requests and claims count warranty claims of any status.
+     * @param brand Only include units whose product belongs to this brand.
+     * @param dateFrom Start of the sourcing period (inclusive, YYYY-MM-DD).
+     * @param dateTo End of the sourcing period (inclusive, YYYY-MM-DD).
+     * @returns SourcePerformanceReport
+     * @throws ApiError
+     */
+    public static reportsSourcePerformanceRetrieve(
+        brand?: number,
+        dateFrom?: string,
+        dateTo?: string,
+    ): CancelablePromise<SourcePerformanceReport> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/reports/source_performance/',
+            query: {
+                'brand': brand,
+                'date_from': dateFrom,
+                'date_to': dateTo,
+            },
         });
     }
     /**
      * Get stock movement report.
-     * @returns any
+     * @param brand Only include units whose product belongs to this brand.
+     * @param dateFrom Start of the reporting period (inclusive, YYYY-MM-DD).
+     * @param dateTo End of the reporting period (inclusive, YYYY-MM-DD).
+     * @param days Trailing window in days, used when date_from/date_to are not given.
+     * @returns StockMovementReport
      * @throws ApiError
      */
-    public static reportsStockMovementRetrieve(): CancelablePromise<Record<string, any>> {
+    public static reportsStockMovementRetrieve(
+        brand?: number,
+        dateFrom?: string,
+        dateTo?: string,
+        days: number = 30,
+    ): CancelablePromise<StockMovementReport> {
         return __request(OpenAPI, {
             method: 'GET',
             url: '/reports/stock_movement/',
+            query: {
+                'brand': brand,
+                'date_from': dateFrom,
+                'date_to': dateTo,
+                'days': days,
+            },
+        });
+    }
+    /**
+     * Get warranty expiry report: active warranties, those ending within `days`
+     * (default 30), warranties that ended in the last `days`, open claims and the
+     * cost of claims resolved in the last `days`.
+     * @param days Look-ahead / look-back window in days.
+     * @returns WarrantyExpiryReport
+     * @throws ApiError
+     */
+    public static reportsWarrantyExpiryRetrieve(
+        days: number = 30,
+    ): CancelablePromise<WarrantyExpiryReport> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/reports/warranty_expiry/',
+            query: {
+                'days': days,
+            },
         });
     }
 }
@@ -0,0 +1,135 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { PatchedSavedViewRequest } from '../models/PatchedSavedViewRequest';
+import type { SavedView } from '../models/SavedView';
+import type { SavedViewRequest } from '../models/SavedViewRequest';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class SavedViewsService {
+    /**
+     * Saved filter presets ("views") for admin list pages.
+     * - Each admin only sees and manages their own views.
+     * - Setting is_default clears the previous default for the same list.
+     * @param listKey * `units` - Inventory units
+     * * `orders` - Orders
+     * * `unit_transfers` - Unit transfers
+     * @returns SavedView
+     * @throws ApiError
+     */
+    public static savedViewsList(
+        listKey?: 'orders' | 'unit_transfers' | 'units',
+    ): CancelablePromise<Array<SavedView>> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/saved-views/',
+            query: {
+                'list_key': listKey,
+            },
+        });
+    }
+    /**
+     * Saved filter presets ("views") for admin list pages.
+     * - Each admin only sees and manages their own views.
+     * - Setting is_default clears the previous default for the same list.
+     * @param requestBody
+     * @returns SavedView
+     * @throws ApiError
+     */
+    public static savedViewsCreate(
+        requestBody: SavedViewRequest,
+    ): CancelablePromise<SavedView> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/saved-views/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Saved filter presets ("views") for admin list pages.
+     * - Each admin only sees and manages their own views.
+     * - Setting is_default clears the previous default for the same list.
+     * @param id A unique integer value identifying this saved view.
+     * @returns SavedView
+     * @throws ApiError
+     */
+    public static savedViewsRetrieve(
+        id: number,
+    ): CancelablePromise<SavedView> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/saved-views/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Saved filter presets ("views") for admin list pages.
+     * - Each admin only sees and manages their own views.
+     * - Setting is_default clears the previous default for the same list.
+     * @param id A unique integer value identifying this saved view.
+     * @param requestBody
+     * @returns SavedView
+     * @throws ApiError
+     */
+    public static savedViewsUpdate(
+        id: number,
+        requestBody: SavedViewRequest,
+    ): CancelablePromise<SavedView> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/saved-views/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Saved filter presets ("views") for admin list pages.
+     * - Each admin only sees and manages their own views.
+     * - Setting is_default clears the previous default for the same list.
+     * @param id A unique integer value identifying this saved view.
+     * @param requestBody
+     * @returns SavedView
+     * @throws ApiError
+     */
+    public static savedViewsPartialUpdate(
+        id: number,
+        requestBody?: PatchedSavedViewRequest,
+    ): CancelablePromise<SavedView> {
+        return __request(OpenAPI, {
+            method: 'PATCH',
+            url: '/saved-views/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Saved filter presets ("views") for admin list pages.
+     * - Each admin only sees and manages their own views.
+     * - Setting is_default clears the previous default for the same list.
+     * @param id A unique integer value identifying this saved view.
+     * @returns void
+     * @throws ApiError
+     */
+    public static savedViewsDestroy(
+        id: number,
+    ): CancelablePromise<void> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/saved-views/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
@@ -0,0 +1,51 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { PaginatedStockAdjustmentList } from '../models/PaginatedStockAdjustmentList';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class StockAdjustmentsService {
+    /**
+     * Stock adjustment ledger for quantity-tracked (accessory) units, newest first.
+     * - Inventory Managers and Superusers only; entries are created through
+     * POST /units/{id}/adjust_stock/ and stock-take resolutions (as corrections).
+     * @param brand Only adjustments of units whose product belongs to this brand.
+     * @param dateFrom Start of the period (inclusive, YYYY-MM-DD).
+     * @param dateTo End of the period (inclusive, YYYY-MM-DD).
+     * @param page A page number within the paginated result set.
+     * @param pageSize Number of results to return per page.
+     * @param reason * `restock` - Restock
+     * * `damaged` - Damaged
+     * * `lost` - Lost
+     * * `correction` - Correction
+     * * `returned` - Returned
+     * @param unit
+     * @returns PaginatedStockAdjustmentList
+     * @throws ApiError
+     */
+    public static stockAdjustmentsList(
+        brand?: number,
+        dateFrom?: string,
+        dateTo?: string,
+        page?: number,
+        pageSize?: number,
+        reason?: 'correction' | 'damaged' | 'lost' | 'restock' | 'returned',
+        unit?: number,
+    ): CancelablePromise<PaginatedStockAdjustmentList> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/stock-adjustments/',
+            query: {
+                'brand': brand,
+                'date_from': dateFrom,
+                'date_to': dateTo,
+                'page': page,
+                'page_size': pageSize,
+                'reason': reason,
+                'unit': unit,
+            },
+        });
+    }
+}
@@ -0,0 +1,324 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { PaginatedStockTakeList } from '../models/PaginatedStockTakeList';
+import type { PatchedStockTakeRequest } from '../models/PatchedStockTakeRequest';
+import type { StockTake } from '../models/StockTake';
+import type { StockTakeAccessoryCount } from '../models/StockTakeAccessoryCount';
+import type { StockTakeAccessoryCountRequest } from '../models/StockTakeAccessoryCountRequest';
+import type { StockTakeFinding } from '../models/StockTakeFinding';
+import type { StockTakeRequest } from '../models/StockTakeRequest';
+import type { StockTakeResolveRequest } from '../models/StockTakeResolveRequest';
+import type { StockTakeScan } from '../models/StockTakeScan';
+import type { StockTakeScanRequest } from '../models/StockTakeScanRequest';
+import type { StockTakeUndoScanRequest } from '../models/StockTakeUndoScanRequest';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class StockTakesService {
+    /**
+     * Stock-take (cycle count) sessions.
+     * - An admin starts a session scoped to all stock, a brand, a product type or one
+     * salesperson's holdings; the expected units are snapshotted when it starts.
+     * - Serials/IMEIs are scanned and accessory quantities counted while the session is open.
+     * - Closing the session produces the discrepancy findings, which can then be resolved.
+     * @param page A page number within the paginated result set.
+     * @param pageSize Number of results to return per page.
+     * @param status * `open` - Open
+     * * `closed` - Closed
+     * @returns PaginatedStockTakeList
+     * @throws ApiError
+     */
+    public static stockTakesList(
+        page?: number,
+        pageSize?: number,
+        status?: 'closed' | 'open',
+    ): CancelablePromise<PaginatedStockTakeList> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/stock-takes/',
+            query: {
+                'page': page,
+                'page_size': pageSize,
+                'status': status,
+            },
+        });
+    }
+    /**
+     * Stock-take (cycle count) sessions.
+     * - An admin starts a session scoped to all stock, a brand, a product type or one
+     * salesperson's holdings; the expected units are snapshotted when it starts.
+     * - Serials/IMEIs are scanned and accessory quantities counted while the session is open.
+     * - Closing the session produces the discrepancy findings, which can then be resolved.
+     * @param requestBody
+     * @returns StockTake
+     * @throws ApiError
+     */
+    public static stockTakesCreate(
+        requestBody: StockTakeRequest,
+    ): CancelablePromise<StockTake> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/stock-takes/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Stock-take (cycle count) sessions.
+     * - An admin starts a session scoped to all stock, a brand, a product type or one
+     * salesperson's holdings; the expected units are snapshotted when it starts.
+     * - Serials/IMEIs are scanned and accessory quantities counted while the session is open.
+     * - Closing the session produces the discrepancy findings, which can then be resolved.
+     * @param id A unique integer value identifying this stock take.
+     * @returns StockTake
+     * @throws ApiError
+     */
+    public static stockTakesRetrieve(
+        id: number,
+    ): CancelablePromise<StockTake> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/stock-takes/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Stock-take (cycle count) sessions.
+     * - An admin starts a session scoped to all stock, a brand, a product type or one
+     * salesperson's holdings; the expected units are snapshotted when it starts.
+     * - Serials/IMEIs are scanned and accessory quantities counted while the session is open.
+     * - Closing the session produces the discrepancy findings, which can then be resolved.
+     * @param id A unique integer value identifying this stock take.
+     * @param requestBody
+     * @returns StockTake
+     * @throws ApiError
+     */
+    public static stockTakesUpdate(
+        id: number,
+        requestBody: StockTakeRequest,
+    ): CancelablePromise<StockTake> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/stock-takes/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Stock-take (cycle count) sessions.
+     * - An admin starts a session scoped to all stock, a brand, a product type or one
+     * salesperson's holdings; the expected units are snapshotted when it starts.
+     * - Serials/IMEIs are scanned and accessory quantities counted while the session is open.
+     * - Closing the session produces the discrepancy findings, which can then be resolved.
+     * @param id A unique integer value identifying this stock take.
+     * @param requestBody
+     * @returns StockTake
+     * @throws ApiError
+     */
+    public static stockTakesPartialUpdate(
+        id: number,
+        requestBody?: PatchedStockTakeRequest,
+    ): CancelablePromise<StockTake> {
+        return __request(OpenAPI, {
+            method: 'PATCH',
+            url: '/stock-takes/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Stock-take (cycle count) sessions.
+     * - An admin starts a session scoped to all stock, a brand, a product type or one
+     * salesperson's holdings; the expected units are snapshotted when it starts.
+     * - Serials/IMEIs are scanned and accessory quantities counted while the session is open.
+     * - Closing the session produces the discrepancy findings, which can then be resolved.
+     * @param id A unique integer value identifying this stock take.
+     * @returns void
+     * @throws ApiError
+     */
+    public static stockTakesDestroy(
+        id: number,
+    ): CancelablePromise<void> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/stock-takes/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Accessory (quantity-tracked) units in scope with their expected and counted quantities.
+     * @param id A unique integer value identifying this stock take.
+     * @returns StockTakeAccessoryCount
+     * @throws ApiError
+     */
+    public static stockTakesAccessoryCountsList(
+        id: number,
+    ): CancelablePromise<Array<StockTakeAccessoryCount>> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/stock-takes/{id}/accessory_counts/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Close the session and compute its findings: expected units that were not scanned
+     * (missing), scanned units outside the scope (unexpected), scanned units the system says
+     * are sold or reserved, unknown codes, and accessory quantity differences.
+     * @param id A unique integer value identifying this stock take.
+     * @returns StockTake
+     * @throws ApiError
+     */
+    public static stockTakesCloseCreate(
+        id: number,
+    ): CancelablePromise<StockTake> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/stock-takes/{id}/close/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Set the counted quantity of an accessory unit (open sessions only).
+     * @param id A unique integer value identifying this stock take.
+     * @param requestBody
+     * @returns StockTakeAccessoryCount
+     * @throws ApiError
+     */
+    public static stockTakesCountAccessoryCreate(
+        id: number,
+        requestBody: StockTakeAccessoryCountRequest,
+    ): CancelablePromise<StockTakeAccessoryCount> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/stock-takes/{id}/count_accessory/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Discrepancy report of a closed session.
+     * @param id A unique integer value identifying this stock take.
+     * @returns StockTakeFinding
+     * @throws ApiError
+     */
+    public static stockTakesFindingsList(
+        id: number,
+    ): CancelablePromise<Array<StockTakeFinding>> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/stock-takes/{id}/findings/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Resolve one finding of a closed session.
+     *
+     * - `update_status` sets the unit's sale_status to `sale_status`.
+     * - `archive` writes a missing unit off (archives it).
+     * - `adjust_quantity` sets an accessory unit's quantity to the counted quantity and
+     * records the difference in the stock adjustment ledger as a correction.
+     * - `acknowledge` changes nothing on the unit.
+     * Every resolution is written to the audit log (Stock Take) with the note.
+     * @param id A unique integer value identifying this stock take.
+     * @param requestBody
+     * @returns StockTakeFinding
+     * @throws ApiError
+     */
+    public static stockTakesResolveFindingCreate(
+        id: number,
+        requestBody: StockTakeResolveRequest,
+    ): CancelablePromise<StockTakeFinding> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/stock-takes/{id}/resolve_finding/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Record one scanned serial number or IMEI (open sessions only).
+     *
+     * The result says whether the unit was expected in this count, exists outside the
+     * count's scope, is marked sold/reserved in the system, is unknown, or was already scanned.
+     * @param id A unique integer value identifying this stock take.
+     * @param requestBody
+     * @returns StockTakeScan
+     * @throws ApiError
+     */
+    public static stockTakesScanCreate(
+        id: number,
+        requestBody: StockTakeScanRequest,
+    ): CancelablePromise<StockTakeScan> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/stock-takes/{id}/scan/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Scans recorded in this session, newest first.
+     * @param id A unique integer value identifying this stock take.
+     * @returns StockTakeScan
+     * @throws ApiError
+     */
+    public static stockTakesScansList(
+        id: number,
+    ): CancelablePromise<Array<StockTakeScan>> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/stock-takes/{id}/scans/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Remove a mistaken scan from an open session.
+     * @param id A unique integer value identifying this stock take.
+     * @param requestBody
+     * @returns void
+     * @throws ApiError
+     */
+    public static stockTakesUndoScanCreate(
+        id: number,
+        requestBody: StockTakeUndoScanRequest,
+    ): CancelablePromise<void> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/stock-takes/{id}/undo_scan/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+}
@@ -2,11 +2,27 @@
 /* istanbul ignore file */
 /* tslint:disable */
 /* eslint-disable */
+import type { BuybackCounterOfferRequest } from '../models/BuybackCounterOfferRequest';
+import type { BuybackDecisionRequest } from '../models/BuybackDecisionRequest';
 import type { InventoryUnit } from '../models/InventoryUnit';
 import type { InventoryUnitRequest } from '../models/InventoryUnitRequest';
 import type { PaginatedInventoryUnitList } from '../models/PaginatedInventoryUnitList';
 import type { PaginatedPublicInventoryUnitAdminList } from '../models/PaginatedPublicInventoryUnitAdminList';
 import type { PatchedInventoryUnitRequest } from '../models/PatchedInventoryUnitRequest';
+import type { StockAdjustment } from '../models/StockAdjustment';
+import type { StockAdjustmentCreateRequest } from '../models/StockAdjustmentCreateRequest';
+import type { UnitBulkUpdateRequest } from '../models/UnitBulkUpdateRequest';
+import type { UnitBulkUpdateResult } from '../models/UnitBulkUpdateResult';
+import type { UnitExportRequest } from '../models/UnitExportRequest';
+import type { UnitImeiCheck } from '../models/UnitImeiCheck';
+import type { UnitImportFileRequest } from '../models/UnitImportFileRequest';
+import type { UnitImportInspection } from '../models/UnitImportInspection';
+import type { UnitImportRequest } from '../models/UnitImportRequest';
+import type { UnitImportResult } from '../models/UnitImportResult';
+import type { UnitInspection } from '../models/UnitInspection';
+import type { UnitInspectionRequest } from '../models/UnitInspectionRequest';
+import type { UnitLabelsRequest } from '../models/UnitLabelsRequest';
+import type { UnitTimelineEvent } from '../models/UnitTimelineEvent';
 import type { CancelablePromise } from '../core/CancelablePromise';
 import { OpenAPI } from '../core/OpenAPI';
 import { request as __request } from '../core/request';
@@ -19,18 +35,33 @@ export class UnitsService {
      * - Superuser: Full access
      *
      * NEW: Includes filtering and searching capabilities for efficient inventory management.
+     * @param availableOnline
+     * @param belowMarginFloor Only units priced below their pricing rule's margin floor.
+     * @param buybackStatus * `PE` - Pending
+     * * `CO` - Countered
+     * * `AP` - Approved
+     * * `RE` - Rejected
      * @param condition * `N` - New
      * * `R` - Refurbished
      * * `P` - Pre-owned
      * * `D` - Defective
+     * @param dateSourcedGte
+     * @param dateSourcedLte
+     * @param grade * `A` - Grade A
+     * * `B` - Grade B
+     * @param ids Only these unit IDs (repeat the param).
+     * @param importShipment Only units in this import shipment.
      * @param ordering Which field to use when ordering the results.
      * @param page A page number within the paginated result set.
+     * @param pageSize Number of results to return per page.
+     * @param productColor
      * @param productTemplate
      * @param productTemplateBrand
      * @param productTemplateProductType * `PH` - Phone
      * * `LT` - Laptop
      * * `TB` - Tablet/iPad
      * * `AC` - Accessory
+     * @param purchaseOrder Only units received against this purchase order.
      * @param ramGb
      * @param ramGbGte
      * @param saleStatus * `AV` - Available
@@ -42,18 +73,32 @@ export class UnitsService {
      * @param sellingPrice
      * @param sellingPriceGte
      * @param sellingPriceLte
+     * @param source * `BB` - Buyback (Customer)
+     * * `SU` - External Supplier
+     * * `IM` - External Import
      * @param storageGb
      * @param storageGbGte
      * @returns PaginatedInventoryUnitList
      * @throws ApiError
      */
     public static unitsList(
+        availableOnline?: boolean,
+        belowMarginFloor?: boolean,
+        buybackStatus?: 'AP' | 'CO' | 'PE' | 'RE',
         condition?: 'D' | 'N' | 'P' | 'R',
+        dateSourcedGte?: string,
+        dateSourcedLte?: string,
+        grade?: 'A' | 'B',
+        ids?: Array<number>,
+        importShipment?: number,
         ordering?: string,
         page?: number,
+        pageSize?: number,
+        productColor?: number,
         productTemplate?: number,
         productTemplateBrand?: string,
         productTemplateProductType?: 'AC' | 'LT' | 'PH' | 'TB',
+        purchaseOrder?: number,
         ramGb?: number,
         ramGbGte?: number,
         saleStatus?: 'AV' | 'PP' | 'RS' | 'RT' | 'SD',
@@ -61,6 +106,7 @@ export class UnitsService {
         sellingPrice?: number,
         sellingPriceGte?: number,
         sellingPriceLte?: number,
+        source?: 'BB' | 'IM' | 'SU',
         storageGb?: number,
         storageGbGte?: number,
     ): CancelablePromise<PaginatedInventoryUnitList> {
@@ -68,12 +114,23 @@ export class UnitsService {
             method: 'GET',
             url: '/units/',
             query: {
+                'available_online': availableOnline,
+                'below_margin_floor': belowMarginFloor,
+                'buyback_status': buybackStatus,
                 'condition': condition,
+                'date_sourced__gte': dateSourcedGte,
+                'date_sourced__lte': dateSourcedLte,
+                'grade': grade,
+                'ids': ids,
+                'import_shipment': importShipment,
                 'ordering': ordering,
                 'page': page,
+                'page_size': pageSize,
+                'product_color': productColor,
                 'product_template': productTemplate,
                 'product_template__brand': productTemplateBrand,
                 'product_template__product_type': productTemplateProductType,
+                'purchase_order': purchaseOrder,
                 'ram_gb': ramGb,
                 'ram_gb__gte': ramGbGte,
                 'sale_status': saleStatus,
@@ -81,6 +138,7 @@ export class UnitsService {
                 'selling_price': sellingPrice,
                 'selling_price__gte': sellingPriceGte,
                 'selling_price__lte': sellingPriceLte,
+                'source': source,
                 'storage_gb': storageGb,
                 'storage_gb__gte': storageGbGte,
             },
@@ -108,6 +166,71 @@ export class UnitsService {
             mediaType: 'multipart/form-data',
         });
     }
+    /**
+     * Check an IMEI before saving a unit.
+     * Returns every existing unit with this IMEI (including sold and archived ones) and,
+     * when `product_template` is given, the TACs (first 8 digits) already seen on that
+     * product's units plus the products whose units share this IMEI's TAC.
+     * @param imei
+     * @param excludeUnit Unit being edited; it is not reported as its own duplicate.
+     * @param productTemplate
+     * @returns UnitImeiCheck
+     * @throws ApiError
+     */
+    public static unitsImeiCheckRetrieve(
+        imei: string,
+        excludeUnit?: number,
+        productTemplate?: number,
+    ): CancelablePromise<UnitImeiCheck> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/units/imei_check/',
+            query: {
+                'exclude_unit': excludeUnit,
+                'imei': imei,
+                'product_template': productTemplate,
+            },
+        });
+    }
+    /**
+     * Read the header row and first rows of an uploaded CSV or XLSX file so the
+     * admin can map its columns before importing. Suggests a mapping from header names.
+     * @param requestBody
+     * @returns UnitImportInspection
+     * @throws ApiError
+     */
+    public static unitsImportInspectCreate(
+        requestBody: UnitImportFileRequest,
+    ): CancelablePromise<UnitImportInspection> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/units/import_inspect/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Render price tag labels for the given units.
+     *
+     * `pdf` lays labels out on A4 sticker sheets (columns/rows from the template), starting
+     * at `start_position` so partially used sheets can be reused. `zpl` returns one ZPL
+     * label per unit copy for thermal printers. Each unit uses `template` when given,
+     * otherwise its brand's template, otherwise the default template. The barcode encodes
+     * the IMEI, or the serial number when the unit has no IMEI.
+     * @param requestBody
+     * @returns binary
+     * @throws ApiError
+     */
+    public static unitsPrintLabelsCreate(
+        requestBody: UnitLabelsRequest,
+    ): CancelablePromise<Blob> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/units/print_labels/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
     /**
      * CRUD for individual physical Inventory Units.
      * - Inventory Manager: Full access (read/write)
@@ -209,19 +332,44 @@ export class UnitsService {
         });
     }
     /**
-     * Admin action to approve a RETURNED buyback item and make it AVAILABLE.
+     * Change a quantity-tracked (accessory) unit's quantity by `delta` and record it in the
+     * stock adjustment ledger with a reason, the admin who made it and the resulting quantity.
+     * Rejected when the quantity would drop below zero or the unit is a serialised item.
+     * @param id A unique integer value identifying this Inventory Unit.
+     * @param requestBody
+     * @returns StockAdjustment
+     * @throws ApiError
+     */
+    public static unitsAdjustStockCreate(
+        id: number,
+        requestBody: StockAdjustmentCreateRequest,
+    ): CancelablePromise<StockAdjustment> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/units/{id}/adjust_stock/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Admin action to approve a pending or countered buyback item and make it AVAILABLE.
      * Only buyback items (source=BB) with status RETURNED can be approved.
+     * The decision is recorded in the audit log (Approve) and the submitting salesperson
+     * is notified (Buyback Approved).
      *
      * Note: If a pending ReturnRequest exists for this unit, it should be approved via
      * the ReturnRequestViewSet instead to maintain proper workflow.
      * @param id A unique integer value identifying this inventory unit.
-     * @param formData
+     * @param requestBody
      * @returns InventoryUnit
      * @throws ApiError
      */
     public static unitsApproveBuybackCreate(
         id: number,
-        formData: InventoryUnitRequest,
+        requestBody?: BuybackDecisionRequest,
     ): CancelablePromise<InventoryUnit> {
         return __request(OpenAPI, {
             method: 'POST',
@@ -229,8 +377,32 @@ export class UnitsService {
             path: {
                 'id': id,
             },
-            formData: formData,
-            mediaType: 'multipart/form-data',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Admin action to counter a pending buyback with a different price. The unit stays
+     * unavailable with buyback_status=CO until it is approved or rejected.
+     * The decision is recorded in the audit log (Counter Offer) and the submitting
+     * salesperson is notified (Buyback Counter-offer).
+     * @param id A unique integer value identifying this inventory unit.
+     * @param requestBody
+     * @returns InventoryUnit
+     * @throws ApiError
+     */
+    public static unitsCounterOfferBuybackCreate(
+        id: number,
+        requestBody: BuybackCounterOfferRequest,
+    ): CancelablePromise<InventoryUnit> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/units/{id}/counter_offer_buyback/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
         });
     }
     /**
@@ -274,62 +446,276 @@ export class UnitsService {
     }
     /**
      * Bulk update operations for inventory units (Inventory Manager only).
-     * Supports: price updates, status changes, archiving (for sold units).
+     * Supports: price updates, status changes, archiving (for sold units) and its undo
+     * (unarchive), and per-unit field values (set_values) for selling_price,
+     * compare_at_price, available_online, grade, condition and sale_status.
      *
      * Request body:
      * {
          * "unit_ids": [1, 2, 3],
-         * "operation": "update_price" | "update_status" | "archive",
-         * "data": { ... operation-specific data ... }
+         * "operation": "update_price" | "update_status" | "archive" | "unarchive" | "set_values",
+         * "data": { ... operation-specific data ... },
+         * "values": [{"id": 1, "selling_price": "100.00"}, ...]  // set_values only
          * }
-         * @param formData
-         * @returns InventoryUnit
+         * @param requestBody
+         * @returns UnitBulkUpdateResult
          * @throws ApiError
          */
         public static unitsBulkUpdateCreate(
-            formData: InventoryUnitRequest,
-        ): CancelablePromise<InventoryUnit> {
+            requestBody: UnitBulkUpdateRequest,
+        ): CancelablePromise<UnitBulkUpdateResult> {
             return __request(OpenAPI, {
                 method: 'POST',
                 url: '/units/bulk_update/',
-                formData: formData,
-                mediaType: 'multipart/form-data',
+                body: requestBody,
+                mediaType: 'application/json',
             });
         }
         /**
-         * Export inventory units to CSV file.
+         * Export inventory units to a CSV or XLSX file.
          *
+         * Accepts the same filters as the unit list plus `ids`, `columns` and `file_format`.
+         * The file is streamed in chunks, so large exports start downloading immediately.
          * Always returns at least the header row (column names) so that when there is no data,
-         * the user still receives a valid CSV with column names for use as a template.
-         * @returns InventoryUnit
+         * the user still receives a valid file with column names for use as a template.
+         * @param availableOnline
+         * @param columns Columns to export, in order (repeat the param). Defaults to every column. Derived columns such as `product_template_name`, `color_name`, `source` and `reserved_by_username` are allowed.
+         * @param condition * `N` - New
+         * * `R` - Refurbished
+         * * `P` - Pre-owned
+         * * `D` - Defective
+         * @param dateSourcedGte
+         * @param dateSourcedLte
+         * @param fileFormat * `csv` - CSV
+         * * `xlsx` - Excel workbook
+         * @param grade * `A` - Grade A
+         * * `B` - Grade B
+         * @param ids Export only these unit IDs (repeat the param); other filters still apply. For a large selection use POST, which takes the IDs in the body.
+         * @param ordering Which field to use when ordering the results.
+         * @param productColor
+         * @param productTemplate
+         * @param productTemplateBrand
+         * @param productTemplateProductType * `PH` - Phone
+         * * `LT` - Laptop
+         * * `TB` - Tablet/iPad
+         * * `AC` - Accessory
+         * @param ramGb
+         * @param ramGbGte
+         * @param saleStatus * `AV` - Available
+         * * `SD` - Sold
+         * * `RS` - Reserved
+         * * `RT` - Returned
+         * * `PP` - Pending Payment
+         * @param search A search term.
+         * @param sellingPrice
+         * @param sellingPriceGte
+         * @param sellingPriceLte
+         * @param source * `BB` - Buyback (Customer)
+         * * `SU` - External Supplier
+         * * `IM` - External Import
+         * @param storageGb
+         * @param storageGbGte
+         * @returns binary
          * @throws ApiError
          */
-        public static unitsExportCsvRetrieve(): CancelablePromise<InventoryUnit> {
+        public static unitsExportCsvRetrieve(
+            availableOnline?: boolean,
+            columns?: Array<string>,
+            condition?: 'D' | 'N' | 'P' | 'R',
+            dateSourcedGte?: string,
+            dateSourcedLte?: string,
+            fileFormat: 'csv' | 'xlsx' = 'csv',
+            grade?: 'A' | 'B',
+            ids?: Array<number>,
+            ordering?: string,
+            productColor?: number,
+            productTemplate?: number,
+            productTemplateBrand?: string,
+            productTemplateProductType?: 'AC' | 'LT' | 'PH' | 'TB',
+            ramGb?: number,
+            ramGbGte?: number,
+            saleStatus?: 'AV' | 'PP' | 'RS' | 'RT' | 'SD',
+            search?: string,
+            sellingPrice?: number,
+            sellingPriceGte?: number,
+            sellingPriceLte?: number,
+            source?: 'BB' | 'IM' | 'SU',
+            storageGb?: number,
+            storageGbGte?: number,
+        ): CancelablePromise<Blob> {
             return __request(OpenAPI, {
                 method: 'GET',
                 url: '/units/export_csv/',
+                query: {
+                    'available_online': availableOnline,
+                    'columns': columns,
+                    'condition': condition,
+                    'date_sourced__gte': dateSourcedGte,
+                    'date_sourced__lte': dateSourcedLte,
+                    'file_format': fileFormat,
+                    'grade': grade,
+                    'ids': ids,
+                    'ordering': ordering,
+                    'product_color': productColor,
+                    'product_template': productTemplate,
+                    'product_template__brand': productTemplateBrand,
+                    'product_template__product_type': productTemplateProductType,
+                    'ram_gb': ramGb,
+                    'ram_gb__gte': ramGbGte,
+                    'sale_status': saleStatus,
+                    'search': search,
+                    'selling_price': sellingPrice,
+                    'selling_price__gte': sellingPriceGte,
+                    'selling_price__lte': sellingPriceLte,
+                    'source': source,
+                    'storage_gb': storageGb,
+                    'storage_gb__gte': storageGbGte,
+                },
             });
         }
         /**
-         * CRUD for individual physical Inventory Units.
-         * - Inventory Manager: Full access (read/write)
-         * - Marketing Manager: Read-only access
-         * - Salesperson: Read-only access
-         * - Superuser: Full access
+         * Export a selection of inventory units to a CSV or XLSX file.
          *
-         * NEW: Includes filtering and searching capabilities for efficient inventory management.
-         * @param formData
-         * @returns InventoryUnit
+         * Takes the unit IDs in the body, so selections too large for a query string can be
+         * exported. Columns and file format work as for GET; list filters do not apply.
+         * @param requestBody
+         * @returns binary
+         * @throws ApiError
+         */
+        public static unitsExportCsvCreate(
+            requestBody: UnitExportRequest,
+        ): CancelablePromise<Blob> {
+            return __request(OpenAPI, {
+                method: 'POST',
+                url: '/units/export_csv/',
+                body: requestBody,
+                mediaType: 'application/json',
+            });
+        }
+        /**
+         * Import inventory units from an uploaded CSV or XLSX file.
+         * Columns are matched to InventoryUnit fields via `mapping`. With dry_run=true every
+         * row is validated (unknown product/color, duplicate IMEI or serial, bad enum values)
+         * and nothing is saved; otherwise valid rows are created and rejected rows reported.
+         * @param requestBody
+         * @returns UnitImportResult
          * @throws ApiError
          */
         public static unitsImportCsvCreate(
-            formData: InventoryUnitRequest,
-        ): CancelablePromise<InventoryUnit> {
+            requestBody: UnitImportRequest,
+        ): CancelablePromise<UnitImportResult> {
             return __request(OpenAPI, {
                 method: 'POST',
                 url: '/units/import_csv/',
-                formData: formData,
-                mediaType: 'multipart/form-data',
+                body: requestBody,
+                mediaType: 'application/json',
+            });
+        }
+        /**
+         * Record a completed inspection checklist for the unit.
+         *
+         * `suggested_grade` is computed from the results: A when every applicable item passes
+         * (percent items pass at or above their `min_value`), B when only non-critical items
+         * fail, and null when a critical item fails (e.g. activation lock or water damage).
+         * When `applied_grade` is given the unit's grade is set to it and the change is written
+         * to the audit log.
+         * @param id A unique integer value identifying this Inventory Unit.
+         * @param requestBody
+         * @returns UnitInspection
+         * @throws ApiError
+         */
+        public static unitsInspectCreate(
+            id: number,
+            requestBody: UnitInspectionRequest,
+        ): CancelablePromise<UnitInspection> {
+            return __request(OpenAPI, {
+                method: 'POST',
+                url: '/units/{id}/inspect/',
+                path: {
+                    'id': id,
+                },
+                body: requestBody,
+                mediaType: 'application/json',
+            });
+        }
+        /**
+         * Completed inspection checklists of this unit, newest first.
+         * @param id A unique integer value identifying this Inventory Unit.
+         * @returns UnitInspection
+         * @throws ApiError
+         */
+        public static unitsInspectionsList(
+            id: number,
+        ): CancelablePromise<Array<UnitInspection>> {
+            return __request(OpenAPI, {
+                method: 'GET',
+                url: '/units/{id}/inspections/',
+                path: {
+                    'id': id,
+                },
+            });
+        }
+        /**
+         * Admin action to reject a pending or countered buyback item (a reason is required).
+         * The decision is recorded in the audit log (Reject) and the submitting salesperson
+         * is notified (Buyback Rejected).
+         * @param id A unique integer value identifying this inventory unit.
+         * @param requestBody
+         * @returns InventoryUnit
+         * @throws ApiError
+         */
+        public static unitsRejectBuybackCreate(
+            id: number,
+            requestBody: BuybackDecisionRequest,
+        ): CancelablePromise<InventoryUnit> {
+            return __request(OpenAPI, {
+                method: 'POST',
+                url: '/units/{id}/reject_buyback/',
+                path: {
+                    'id': id,
+                },
+                body: requestBody,
+                mediaType: 'application/json',
+            });
+        }
+        /**
+         * This unit's stock adjustment ledger, newest first.
+         * @param id A unique integer value identifying this Inventory Unit.
+         * @returns StockAdjustment
+         * @throws ApiError
+         */
+        public static unitsStockAdjustmentsList(
+            id: number,
+        ): CancelablePromise<Array<StockAdjustment>> {
+            return __request(OpenAPI, {
+                method: 'GET',
+                url: '/units/{id}/stock_adjustments/',
+                path: {
+                    'id': id,
+                },
+            });
+        }
+        /**
+         * Chronological history of one unit, oldest first.
+         *
+         * Merges the unit's creation and acquisition source, audit log changes (price, status,
+         * archive and other edits), reservation requests, transfers between salespeople, return
+         * requests, orders with their payment and delivery updates, buyback decisions and
+         * landed cost allocations from import shipments.
+         * Each event carries the acting user (when known) and a link to the related record.
+         * @param id A unique integer value identifying this inventory unit.
+         * @returns UnitTimelineEvent
+         * @throws ApiError
+         */
+        public static unitsTimelineList(
+            id: number,
+        ): CancelablePromise<Array<UnitTimelineEvent>> {
+            return __request(OpenAPI, {
+                method: 'GET',
+                url: '/units/{id}/timeline/',
+                path: {
+                    'id': id,
+                },
             });
         }
     }
@@ -0,0 +1,70 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { PaginatedWarrantyList } from '../models/PaginatedWarrantyList';
+import type { Warranty } from '../models/Warranty';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class WarrantiesService {
+    /**
+     * Unit warranties, started automatically when an order containing the unit is marked
+     * Delivered (period from the matching warranty policy).
+     * - Any admin can read.
+     * - `search` matches IMEI, serial number, order ID and customer name.
+     * @param expiresAfter Only warranties ending on or after this date (YYYY-MM-DD).
+     * @param expiresBefore Only warranties ending on or before this date (YYYY-MM-DD).
+     * @param page A page number within the paginated result set.
+     * @param pageSize Number of results to return per page.
+     * @param search A search term.
+     * @param status * `active` - Active
+     * * `expired` - Expired
+     * @param unit
+     * @returns PaginatedWarrantyList
+     * @throws ApiError
+     */
+    public static warrantiesList(
+        expiresAfter?: string,
+        expiresBefore?: string,
+        page?: number,
+        pageSize?: number,
+        search?: string,
+        status?: 'active' | 'expired',
+        unit?: number,
+    ): CancelablePromise<PaginatedWarrantyList> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/warranties/',
+            query: {
+                'expires_after': expiresAfter,
+                'expires_before': expiresBefore,
+                'page': page,
+                'page_size': pageSize,
+                'search': search,
+                'status': status,
+                'unit': unit,
+            },
+        });
+    }
+    /**
+     * Unit warranties, started automatically when an order containing the unit is marked
+     * Delivered (period from the matching warranty policy).
+     * - Any admin can read.
+     * - `search` matches IMEI, serial number, order ID and customer name.
+     * @param id A unique integer value identifying this warranty.
+     * @returns Warranty
+     * @throws ApiError
+     */
+    public static warrantiesRetrieve(
+        id: number,
+    ): CancelablePromise<Warranty> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/warranties/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
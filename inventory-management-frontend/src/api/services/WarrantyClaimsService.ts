@@ -0,0 +1,161 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { PaginatedWarrantyClaimList } from '../models/PaginatedWarrantyClaimList';
+import type { PatchedWarrantyClaimRequest } from '../models/PatchedWarrantyClaimRequest';
+import type { WarrantyClaim } from '../models/WarrantyClaim';
+import type { WarrantyClaimRequest } from '../models/WarrantyClaimRequest';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class WarrantyClaimsService {
+    /**
+     * Warranty claims logged against sold units.
+     * - Any admin can read, create and update; Superusers can delete.
+     * - Claims can only be opened on an active warranty. Setting status to `resolved`
+     * requires an outcome and stamps `resolved_at`; a `replaced` outcome requires
+     * `replacement_unit`, which is marked Sold and gets the rest of the original warranty.
+     * @param page A page number within the paginated result set.
+     * @param pageSize Number of results to return per page.
+     * @param status * `open` - Open
+     * * `in_repair` - In repair
+     * * `resolved` - Resolved
+     * * `rejected` - Rejected
+     * @param unit
+     * @param warranty
+     * @returns PaginatedWarrantyClaimList
+     * @throws ApiError
+     */
+    public static warrantyClaimsList(
+        page?: number,
+        pageSize?: number,
+        status?: 'in_repair' | 'open' | 'rejected' | 'resolved',
+        unit?: number,
+        warranty?: number,
+    ): CancelablePromise<PaginatedWarrantyClaimList> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/warranty-claims/',
+            query: {
+                'page': page,
+                'page_size': pageSize,
+                'status': status,
+                'unit': unit,
+                'warranty': warranty,
+            },
+        });
+    }
+    /**
+     * Warranty claims logged against sold units.
+     * - Any admin can read, create and update; Superusers can delete.
+     * - Claims can only be opened on an active warranty. Setting status to `resolved`
+     * requires an outcome and stamps `resolved_at`; a `replaced` outcome requires
+     * `replacement_unit`, which is marked Sold and gets the rest of the original warranty.
+     * @param requestBody
+     * @returns WarrantyClaim
+     * @throws ApiError
+     */
+    public static warrantyClaimsCreate(
+        requestBody: WarrantyClaimRequest,
+    ): CancelablePromise<WarrantyClaim> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/warranty-claims/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Warranty claims logged against sold units.
+     * - Any admin can read, create and update; Superusers can delete.
+     * - Claims can only be opened on an active warranty. Setting status to `resolved`
+     * requires an outcome and stamps `resolved_at`; a `replaced` outcome requires
+     * `replacement_unit`, which is marked Sold and gets the rest of the original warranty.
+     * @param id A unique integer value identifying this warranty claim.
+     * @returns WarrantyClaim
+     * @throws ApiError
+     */
+    public static warrantyClaimsRetrieve(
+        id: number,
+    ): CancelablePromise<WarrantyClaim> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/warranty-claims/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Warranty claims logged against sold units.
+     * - Any admin can read, create and update; Superusers can delete.
+     * - Claims can only be opened on an active warranty. Setting status to `resolved`
+     * requires an outcome and stamps `resolved_at`; a `replaced` outcome requires
+     * `replacement_unit`, which is marked Sold and gets the rest of the original warranty.
+     * @param id A unique integer value identifying this warranty claim.
+     * @param requestBody
+     * @returns WarrantyClaim
+     * @throws ApiError
+     */
+    public static warrantyClaimsUpdate(
+        id: number,
+        requestBody: WarrantyClaimRequest,
+    ): CancelablePromise<WarrantyClaim> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/warranty-claims/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Warranty claims logged against sold units.
+     * - Any admin can read, create and update; Superusers can delete.
+     * - Claims can only be opened on an active warranty. Setting status to `resolved`
+     * requires an outcome and stamps `resolved_at`; a `replaced` outcome requires
+     * `replacement_unit`, which is marked Sold and gets the rest of the original warranty.
+     * @param id A unique integer value identifying this warranty claim.
+     * @param requestBody
+     * @returns WarrantyClaim
+     * @throws ApiError
+     */
+    public static warrantyClaimsPartialUpdate(
+        id: number,
+        requestBody?: PatchedWarrantyClaimRequest,
+    ): CancelablePromise<WarrantyClaim> {
+        return __request(OpenAPI, {
+            method: 'PATCH',
+            url: '/warranty-claims/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Warranty claims logged against sold units.
+     * - Any admin can read, create and update; Superusers can delete.
+     * - Claims can only be opened on an active warranty. Setting status to `resolved`
+     * requires an outcome and stamps `resolved_at`; a `replaced` outcome requires
+     * `replacement_unit`, which is marked Sold and gets the rest of the original warranty.
+     * @param id A unique integer value identifying this warranty claim.
+     * @returns void
+     * @throws ApiError
+     */
+    public static warrantyClaimsDestroy(
+        id: number,
+    ): CancelablePromise<void> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/warranty-claims/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
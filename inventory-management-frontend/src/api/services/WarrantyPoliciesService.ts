@@ -0,0 +1,133 @@
+/* generated using openapi-typescript-codegen -- do not edit */
+/* istanbul ignore file */
+/* tslint:disable */
+/* eslint-disable */
+import type { PatchedWarrantyPolicyRequest } from '../models/PatchedWarrantyPolicyRequest';
+import type { WarrantyPolicy } from '../models/WarrantyPolicy';
+import type { WarrantyPolicyRequest } from '../models/WarrantyPolicyRequest';
+import type { CancelablePromise } from '../core/CancelablePromise';
+import { OpenAPI } from '../core/OpenAPI';
+import { request as __request } from '../core/request';
+export class WarrantyPoliciesService {
+    /**
+     * Warranty periods per product type and condition.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A unit gets the period of the most specific matching policy: product type and
+     * condition both set, then either one, then the catch-all (both empty).
+     * @returns WarrantyPolicy
+     * @throws ApiError
+     */
+    public static warrantyPoliciesList(): CancelablePromise<Array<WarrantyPolicy>> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/warranty-policies/',
+        });
+    }
+    /**
+     * Warranty periods per product type and condition.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A unit gets the period of the most specific matching policy: product type and
+     * condition both set, then either one, then the catch-all (both empty).
+     * @param requestBody
+     * @returns WarrantyPolicy
+     * @throws ApiError
+     */
+    public static warrantyPoliciesCreate(
+        requestBody: WarrantyPolicyRequest,
+    ): CancelablePromise<WarrantyPolicy> {
+        return __request(OpenAPI, {
+            method: 'POST',
+            url: '/warranty-policies/',
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Warranty periods per product type and condition.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A unit gets the period of the most specific matching policy: product type and
+     * condition both set, then either one, then the catch-all (both empty).
+     * @param id A unique integer value identifying this warranty policy.
+     * @returns WarrantyPolicy
+     * @throws ApiError
+     */
+    public static warrantyPoliciesRetrieve(
+        id: number,
+    ): CancelablePromise<WarrantyPolicy> {
+        return __request(OpenAPI, {
+            method: 'GET',
+            url: '/warranty-policies/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+    /**
+     * Warranty periods per product type and condition.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A unit gets the period of the most specific matching policy: product type and
+     * condition both set, then either one, then the catch-all (both empty).
+     * @param id A unique integer value identifying this warranty policy.
+     * @param requestBody
+     * @returns WarrantyPolicy
+     * @throws ApiError
+     */
+    public static warrantyPoliciesUpdate(
+        id: number,
+        requestBody: WarrantyPolicyRequest,
+    ): CancelablePromise<WarrantyPolicy> {
+        return __request(OpenAPI, {
+            method: 'PUT',
+            url: '/warranty-policies/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Warranty periods per product type and condition.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A unit gets the period of the most specific matching policy: product type and
+     * condition both set, then either one, then the catch-all (both empty).
+     * @param id A unique integer value identifying this warranty policy.
+     * @param requestBody
+     * @returns WarrantyPolicy
+     * @throws ApiError
+     */
+    public static warrantyPoliciesPartialUpdate(
+        id: number,
+        requestBody?: PatchedWarrantyPolicyRequest,
+    ): CancelablePromise<WarrantyPolicy> {
+        return __request(OpenAPI, {
+            method: 'PATCH',
+            url: '/warranty-policies/{id}/',
+            path: {
+                'id': id,
+            },
+            body: requestBody,
+            mediaType: 'application/json',
+        });
+    }
+    /**
+     * Warranty periods per product type and condition.
+     * - Any admin can read; Inventory Managers and Superusers can create/edit/delete.
+     * - A unit gets the period of the most specific matching policy: product type and
+     * condition both set, then either one, then the catch-all (both empty).
+     * @param id A unique integer value identifying this warranty policy.
+     * @returns void
+     * @throws ApiError
+     */
+    public static warrantyPoliciesDestroy(
+        id: number,
+    ): CancelablePromise<void> {
+        return __request(OpenAPI, {
+            method: 'DELETE',
+            url: '/warranty-policies/{id}/',
+            path: {
+                'id': id,
+            },
+        });
+    }
+}
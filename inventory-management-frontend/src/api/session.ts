@@ -0,0 +1,170 @@
+import axios from 'axios';
+import type { AxiosError, InternalAxiosRequestConfig } from 'axios';
+import { getApiRoot } from './config';
+
+/**
+ * Session-expiry handling shared by the generated client (axios) and manual fetch() calls.
+ *
+ * When the API rejects the stored token, requests are held while the AuthProvider shows a
+ * re-login dialog, then retried once with the new token. If nobody is listening (e.g. on the
+ * login page or during startup validation) the original 401 is passed through unchanged.
+ */
+
+type SessionExpiredListener = () => void;
+
+const RETURN_TO_KEY = 'auth_return_to';
+
+/** DRF messages that mean "bad/missing token" rather than "not allowed" when returned with 403. */
+const EXPIRED_TOKEN_DETAILS = [
+  'invalid token.',
+  'token has expired.',
+  'authentication credentials were not provided.',
+  'user inactive or deleted.',
+];
+
+let listener: SessionExpiredListener | null = null;
+let pendingRelogin: {
+  promise: Promise<string>;
+  resolve: (token: string) => void;
+  reject: (reason?: unknown) => void;
+} | null = null;
+
+export const isSessionExpiredResponse = (status: number | undefined, body: unknown): boolean => {
+  if (status === 401) return true;
+  if (status !== 403) return false;
+  const detail = (body as { detail?: unknown } | null)?.detail;
+  return typeof detail === 'string' && EXPIRED_TOKEN_DETAILS.includes(detail.trim().toLowerCase());
+};
+
+/** Register the UI that asks the user to sign in again. Returns an unsubscribe function. */
+export const subscribeSessionExpired = (next: SessionExpiredListener): (() => void) => {
+  listener = next;
+  return () => {
+    if (listener === next) listener = null;
+  };
+};
+
+/**
+ * Wait for the user to sign in again. Concurrent callers share one dialog and one promise.
+ * Resolves with the new token; rejects when re-login is cancelled or unavailable.
+ */
+export const waitForRelogin = (): Promise<string> => {
+  if (pendingRelogin) return pendingRelogin.promise;
+  if (!listener) return Promise.reject(new Error('Session expired'));
+
+  let resolve!: (token: string) => void;
+  let reject!: (reason?: unknown) => void;
+  const promise = new Promise<string>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  // Avoid unhandled-rejection noise when every waiter has already given up.
+  promise.catch(() => undefined);
+  pendingRelogin = { promise, resolve, reject };
+  listener();
+  return promise;
+};
+
+export const completeRelogin = (token: string) => {
+  pendingRelogin?.resolve(token);
+  pendingRelogin = null;
+};
+
+export const cancelRelogin = () => {
+  pendingRelogin?.reject(new Error('Session expired'));
+  pendingRelogin = null;
+};
+
+/** Remember where the user was so login can send them back there. */
+export const rememberReturnTo = (path: string) => {
+  try {
+    sessionStorage.setItem(RETURN_TO_KEY, path);
+  } catch {
+    // sessionStorage unavailable (private mode) - fall back to role-based redirect
+  }
+};
+
+export const takeReturnTo = (): string | null => {
+  try {
+    const path = sessionStorage.getItem(RETURN_TO_KEY);
+    sessionStorage.removeItem(RETURN_TO_KEY);
+    return path && path.startsWith('/') && !path.startsWith('/login') ? path : null;
+  } catch {
+    return null;
+  }
+};
+
+const isAuthEndpoint = (url: string) => /\/api\/auth\/|\/logout\/?(\?|$)/.test(url);
+
+const isApiUrl = (url: string) => url.startsWith(getApiRoot()) && !isAuthEndpoint(url);
+
+type RetriableConfig = InternalAxiosRequestConfig & { _sessionRetried?: boolean };
+
+const installAxiosInterceptor = () => {
+  axios.interceptors.response.use(undefined, async (error: AxiosError) => {
+    const config = error.config as RetriableConfig | undefined;
+    const response = error.response;
+    if (
+      !config ||
+      config._sessionRetried ||
+      !isApiUrl(config.url || '') ||
+      !isSessionExpiredResponse(response?.status, response?.data)
+    ) {
+      throw error;
+    }
+
+    let token: string;
+    try {
+      token = await waitForRelogin();
+    } catch {
+      throw error;
+    }
+    config._sessionRetried = true;
+    config.headers.Authorization = `Token ${token}`;
+    return axios.request(config);
+  });
+};
+
+const installFetchInterceptor = () => {
+  if (typeof window === 'undefined' || typeof window.fetch !== 'function') {
+    return;
+  }
+
+  const originalFetch = window.fetch.bind(window);
+  window.fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const response = await originalFetch(input, init);
+    const requestUrl =
+      typeof input === 'string'
+        ? input
+        : input instanceof URL
+          ? input.toString()
+          : (input as Request).url;
+
+    if ((response.status !== 401 && response.status !== 403) || !isApiUrl(requestUrl)) {
+      return response;
+    }
+    const body = await response.clone().json().catch(() => null);
+    if (!isSessionExpiredResponse(response.status, body)) {
+      return response;
+    }
+
+    let token: string;
+    try {
+      token = await waitForRelogin();
+    } catch {
+      return response;
+    }
+    const headers = new Headers(init?.headers ?? (input instanceof Request ? input.headers : undefined));
+    headers.set('Authorization', `Token ${token}`);
+    return originalFetch(input, { ...init, headers });
+  };
+};
+
+let installed = false;
+
+export const installSessionInterceptors = () => {
+  if (installed) return;
+  installed = true;
+  installAxiosInterceptor();
+  installFetchInterceptor();
+};
@@ -0,0 +1,11 @@
+import { apiClient } from './client';
+import type { UnitLabelsRequest } from './models/UnitLabelsRequest';
+
+/**
+ * Render price tag labels (POST /units/print_labels/): a PDF of A4 sticker sheets or a ZPL file
+ * for thermal printers. Sent through `apiClient` rather than the generated
+ * `UnitsService.unitsPrintLabelsCreate` so the binary response comes back as a Blob.
+ */
+export function printUnitLabels(request: UnitLabelsRequest, options: { signal?: AbortSignal } = {}) {
+  return apiClient.post<Blob>('/units/print_labels/', request, { responseType: 'blob', signal: options.signal });
+}
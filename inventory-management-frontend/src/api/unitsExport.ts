@@ -0,0 +1,73 @@
+import { apiClient } from './client';
+import type { UnitExportFileFormatEnum } from './models/UnitExportFileFormatEnum';
+import type { UnitExportRequest } from './models/UnitExportRequest';
+import type { UnitsListParams } from './unitsList';
+
+export type UnitsExportFormat = 'csv' | 'xlsx';
+
+/**
+ * Query params accepted by GET /units/export_csv/: the unit list filters (without paging) plus
+ * the export options. Sent through `apiClient` rather than the generated
+ * `UnitsService.unitsExportCsvRetrieve` so the body can be read in chunks with progress.
+ */
+export type UnitsExportParams = Omit<UnitsListParams, 'page' | 'page_size'> & {
+  /** Column keys from `UNIT_EXPORT_COLUMNS`, in file order; all columns when omitted. */
+  columns?: string[];
+  file_format?: UnitsExportFormat;
+};
+
+export type UnitExportColumn = {
+  key: string;
+  label: string;
+  /** Pre-ticked in the column picker. */
+  default?: boolean;
+};
+
+/** Columns the export endpoint understands. Derived columns are resolved server-side. */
+export const UNIT_EXPORT_COLUMNS: UnitExportColumn[] = [
+  { key: 'id', label: 'ID', default: true },
+  { key: 'product_template_name', label: 'Product', default: true },
+  { key: 'product_brand', label: 'Brand', default: true },
+  { key: 'product_type', label: 'Product Type' },
+  { key: 'color_name', label: 'Color', default: true },
+  { key: 'condition', label: 'Condition', default: true },
+  { key: 'grade', label: 'Grade', default: true },
+  { key: 'source', label: 'Source', default: true },
+  { key: 'acquisition_source', label: 'Acquisition Source' },
+  { key: 'sale_status', label: 'Sale Status', default: true },
+  { key: 'available_online', label: 'Available Online' },
+  { key: 'serial_number', label: 'Serial Number', default: true },
+  { key: 'imei', label: 'IMEI', default: true },
+  { key: 'storage_gb', label: 'Storage (GB)', default: true },
+  { key: 'ram_gb', label: 'RAM (GB)', default: true },
+  { key: 'battery_mah', label: 'Battery (mAh)' },
+  { key: 'processor_details', label: 'Processor' },
+  { key: 'is_sim_enabled', label: 'SIM Enabled' },
+  { key: 'cost_of_unit', label: 'Cost of Unit', default: true },
+  { key: 'selling_price', label: 'Selling Price', default: true },
+  { key: 'compare_at_price', label: 'Compare-at Price' },
+  { key: 'date_sourced', label: 'Date Sourced' },
+  { key: 'reserved_by_username', label: 'Reserved By' },
+  { key: 'reserved_until', label: 'Reserved Until' },
+];
+
+/**
+ * Download a units export as a Blob. The server streams the file; `onProgress` receives the bytes
+ * read so far (and the total when the server sends a Content-Length). A selection (`ids`) is
+ * POSTed so its size is not limited by the URL length; list filters do not apply to it.
+ */
+export const exportUnits = (
+  params: UnitsExportParams,
+  options: { onProgress?: (loaded: number, total?: number) => void; signal?: AbortSignal } = {}
+) => {
+  const init = { responseType: 'blob' as const, onDownloadProgress: options.onProgress, signal: options.signal };
+  if (params.ids?.length) {
+    const body: UnitExportRequest = {
+      ids: params.ids,
+      columns: params.columns,
+      file_format: params.file_format as UnitExportFileFormatEnum | undefined,
+    };
+    return apiClient.post<Blob>('/units/export_csv/', body, init);
+  }
+  return apiClient.get<Blob>('/units/export_csv/', params, init);
+};
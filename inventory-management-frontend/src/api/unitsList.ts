@@ -0,0 +1,67 @@
+import { UnitsService } from './services/UnitsService';
+
+/**
+ * Query params accepted by GET /units/, keyed by their API names.
+ * The generated `UnitsService.unitsList` takes these positionally; use `listUnits` instead so
+ * call sites don't break every time the spec gains a filter.
+ */
+export type UnitsListParams = {
+  available_online?: boolean;
+  below_margin_floor?: boolean;
+  buyback_status?: 'AP' | 'CO' | 'PE' | 'RE';
+  condition?: 'D' | 'N' | 'P' | 'R';
+  date_sourced__gte?: string;
+  date_sourced__lte?: string;
+  grade?: 'A' | 'B';
+  ids?: number[];
+  import_shipment?: number;
+  ordering?: string;
+  page?: number;
+  page_size?: number;
+  product_color?: number;
+  product_template?: number;
+  product_template__brand?: string;
+  product_template__product_type?: 'AC' | 'LT' | 'PH' | 'TB';
+  purchase_order?: number;
+  ram_gb?: number;
+  ram_gb__gte?: number;
+  sale_status?: 'AV' | 'PP' | 'RS' | 'RT' | 'SD';
+  search?: string;
+  selling_price?: number;
+  selling_price__gte?: number;
+  selling_price__lte?: number;
+  source?: 'BB' | 'IM' | 'SU';
+  storage_gb?: number;
+  storage_gb__gte?: number;
+};
+
+export const listUnits = (params: UnitsListParams = {}) =>
+  UnitsService.unitsList(
+    params.available_online,
+    params.below_margin_floor,
+    params.buyback_status,
+    params.condition,
+    params.date_sourced__gte,
+    params.date_sourced__lte,
+    params.grade,
+    params.ids,
+    params.import_shipment,
+    params.ordering,
+    params.page,
+    params.page_size,
+    params.product_color,
+    params.product_template,
+    params.product_template__brand,
+    params.product_template__product_type,
+    params.purchase_order,
+    params.ram_gb,
+    params.ram_gb__gte,
+    params.sale_status,
+    params.search,
+    params.selling_price,
+    params.selling_price__gte,
+    params.selling_price__lte,
+    params.source,
+    params.storage_gb,
+    params.storage_gb__gte,
+  );
@@ -4,6 +4,7 @@ import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../contexts/AuthContext';
 import { useAdminProfile } from '../hooks/useAdminProfile';
 import { queryKeys } from '../hooks/queryKeys';
+import { useSavedViews, getSavedViewHref } from '../hooks/useSavedViews';
 import { StockAlertsService, StockAlertsResponse, type Brand, type AdminProfileResponse as BaseAdminProfileResponse } from '../api/index';
 import { NotificationBell } from './NotificationBell';
 import { ThemeToggleButton } from './ThemeSwitcher';
@@ -134,6 +135,10 @@ export const AdminLayout: React.FC = () => {
     refetchInterval: 60000, // Refetch every minute
   });
   
+  // Saved list views the admin pinned to the sidebar (stored per admin profile on the server)
+  const { views: savedViews } = useSavedViews();
+  const pinnedViews = savedViews.filter((view) => view.is_pinned);
+
   const criticalAlertsCount = stockAlertsData?.alerts?.filter((a) => a.severity === 'CRITICAL' || a.severity === 'HIGH').length || 0;
   // const isContentCreator = hasRole('CC') && !isSuperuser; // Content Creator only, not if superuser - commented out as unused
 
@@ -332,6 +337,39 @@ export const AdminLayout: React.FC = () => {
               <Link to="/units" className={isActive('/units')} onClick={() => setSidebarOpen(false)}>
                 Inventory Units
               </Link>
+              <Link to="/units/intake" className={isActive('/units/intake')} onClick={() => setSidebarOpen(false)}>
+                Rapid Intake
+              </Link>
+              <Link to="/buybacks" className={isActive('/buybacks')} onClick={() => setSidebarOpen(false)}>
+                Buybacks
+              </Link>
+              <Link to="/label-templates" className={isActive('/label-templates')} onClick={() => setSidebarOpen(false)}>
+                Label Templates
+              </Link>
+              <Link to="/stock-takes" className={isActive('/stock-takes')} onClick={() => setSidebarOpen(false)}>
+                Stock-takes
+              </Link>
+              <Link to="/pricing-rules" className={isActive('/pricing-rules')} onClick={() => setSidebarOpen(false)}>
+                Pricing Rules
+              </Link>
+              <Link to="/aging-inventory" className={isActive('/aging-inventory')} onClick={() => setSidebarOpen(false)}>
+                Aging Inventory
+              </Link>
+              <Link to="/stock-adjustments" className={isActive('/stock-adjustments')} onClick={() => setSidebarOpen(false)}>
+                Stock Adjustments
+              </Link>
+              <Link to="/inspection-items" className={isActive('/inspection-items')} onClick={() => setSidebarOpen(false)}>
+                Inspection Checklist
+              </Link>
+              <Link to="/warranties" className={isActive('/warranties')} onClick={() => setSidebarOpen(false)}>
+                Warranties
+              </Link>
+              <Link to="/purchase-orders" className={isActive('/purchase-orders')} onClick={() => setSidebarOpen(false)}>
+                Purchase Orders
+              </Link>
+              <Link to="/import-shipments" className={isActive('/import-shipments')} onClick={() => setSidebarOpen(false)}>
+                Import Shipments
+              </Link>
               <Link to="/stock-alerts" className={isActive('/stock-alerts')} onClick={() => setSidebarOpen(false)}>
                 Stock Alerts
                 {criticalAlertsCount > 0 && (
@@ -564,6 +602,39 @@ export const AdminLayout: React.FC = () => {
               <Link to="/units" className={isActive('/units')} onClick={() => setSidebarOpen(false)}>
                 Inventory Units
               </Link>
+              <Link to="/units/intake" className={isActive('/units/intake')} onClick={() => setSidebarOpen(false)}>
+                Rapid Intake
+              </Link>
+              <Link to="/buybacks" className={isActive('/buybacks')} onClick={() => setSidebarOpen(false)}>
+                Buybacks
+              </Link>
+              <Link to="/label-templates" className={isActive('/label-templates')} onClick={() => setSidebarOpen(false)}>
+                Label Templates
+              </Link>
+              <Link to="/stock-takes" className={isActive('/stock-takes')} onClick={() => setSidebarOpen(false)}>
+                Stock-takes
+              </Link>
+              <Link to="/pricing-rules" className={isActive('/pricing-rules')} onClick={() => setSidebarOpen(false)}>
+                Pricing Rules
+              </Link>
+              <Link to="/aging-inventory" className={isActive('/aging-inventory')} onClick={() => setSidebarOpen(false)}>
+                Aging Inventory
+              </Link>
+              <Link to="/stock-adjustments" className={isActive('/stock-adjustments')} onClick={() => setSidebarOpen(false)}>
+                Stock Adjustments
+              </Link>
+              <Link to="/inspection-items" className={isActive('/inspection-items')} onClick={() => setSidebarOpen(false)}>
+                Inspection Checklist
+              </Link>
+              <Link to="/warranties" className={isActive('/warranties')} onClick={() => setSidebarOpen(false)}>
+                Warranties
+              </Link>
+              <Link to="/purchase-orders" className={isActive('/purchase-orders')} onClick={() => setSidebarOpen(false)}>
+                Purchase Orders
+              </Link>
+              <Link to="/import-shipments" className={isActive('/import-shipments')} onClick={() => setSidebarOpen(false)}>
+                Import Shipments
+              </Link>
               <Link to="/colors" className={isActive('/colors')} onClick={() => setSidebarOpen(false)}>
                 Colors
               </Link>
@@ -645,6 +716,25 @@ export const AdminLayout: React.FC = () => {
             </>
           )}
 
+          {pinnedViews.length > 0 && (
+            <>
+              <div className="nav-section-header">Saved Views</div>
+              {pinnedViews.map((view) => {
+                const href = getSavedViewHref(view);
+                return (
+                  <Link
+                    key={view.id}
+                    to={href}
+                    className={`${location.pathname + location.search === href ? 'active' : ''} nav-saved-view`}
+                    onClick={() => setSidebarOpen(false)}
+                  >
+                    ⭐ {view.name}
+                  </Link>
+                );
+              })}
+            </>
+          )}
+
           {/* If user is not a salesperson, inventory manager, content creator, marketing manager, order manager, and not a superuser, show nothing (or minimal access) */}
           {!isSalesperson && !isInventoryManager && !isContentCreator && !isMarketingManager && !isOrderManager && !isSuperuser && (
             <div className="nav-section-header">Access Restricted</div>
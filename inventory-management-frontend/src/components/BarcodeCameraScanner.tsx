@@ -0,0 +1,108 @@
+import React, { useEffect, useRef, useState } from 'react';
+
+// Minimal typing for the Shape Detection API (not in TypeScript's DOM lib yet)
+interface DetectedBarcode {
+  rawValue: string;
+}
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+interface BarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): BarcodeDetectorInstance;
+}
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+/** Whether this browser can scan barcodes from the camera (Chrome/Edge on Android, ChromeOS, macOS). */
+export const isCameraScanSupported = () =>
+  typeof window !== 'undefined' && !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+const SCAN_INTERVAL_MS = 250;
+/** Ignore the same code again for this long, so one barcode held in view is read once. */
+const REPEAT_COOLDOWN_MS = 2000;
+
+interface BarcodeCameraScannerProps {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Live camera preview that reads barcodes with the browser's BarcodeDetector and reports each new
+ * code. Check `isCameraScanSupported()` before rendering it.
+ */
+export const BarcodeCameraScanner: React.FC<BarcodeCameraScannerProps> = ({ onDetected, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const Detector = getBarcodeDetector();
+    if (!Detector) {
+      setError('Camera scanning is not supported in this browser.');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let cancelled = false;
+    const lastSeen = new Map<string, number>();
+    const detector = new Detector({ formats: ['code_128', 'code_39', 'ean_13', 'ean_8', 'qr_code', 'upc_a', 'data_matrix'] });
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+      if (video.readyState >= 2) {
+        try {
+          const barcodes = await detector.detect(video);
+          const now = Date.now();
+          barcodes.forEach(({ rawValue }) => {
+            const code = rawValue.trim();
+            if (!code || now - (lastSeen.get(code) ?? 0) < REPEAT_COOLDOWN_MS) return;
+            lastSeen.set(code, now);
+            onDetectedRef.current(code);
+          });
+        } catch {
+          // A frame that can't be decoded is not an error worth surfacing
+        }
+      }
+      if (!cancelled) timer = window.setTimeout(scan, SCAN_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then((mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        stream = mediaStream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().catch(() => undefined);
+        }
+        scan();
+      })
+      .catch((err: Error) => setError(err?.message || 'Could not open the camera.'));
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, []);
+
+  return (
+    <div className="barcode-camera-scanner">
+      {error ? (
+        <p className="barcode-camera-error">{error}</p>
+      ) : (
+        <video ref={videoRef} muted playsInline />
+      )}
+      <button type="button" className="btn-small btn-secondary" onClick={onClose}>
+        Close camera
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,335 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  AllocationMethodEnum,
+  ImportShipmentsService,
+  LandedCostKindEnum,
+  SourceTypeEnum,
+  type ImportShipment,
+  type ImportShipmentRequest,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { useAcquisitionSources } from '../hooks/useAcquisitionSources';
+import { toKes } from '../utils/landedCost';
+import { formatKes } from '../utils/format';
+
+export const LANDED_COST_KINDS: Record<LandedCostKindEnum, string> = {
+  [LandedCostKindEnum.SHIPPING]: 'Shipping',
+  [LandedCostKindEnum.CLEARING]: 'Clearing',
+  [LandedCostKindEnum.DUTY]: 'Duty',
+  [LandedCostKindEnum.FOREX]: 'Forex',
+  [LandedCostKindEnum.OTHER]: 'Other',
+};
+
+export const ALLOCATION_METHODS: Record<AllocationMethodEnum, string> = {
+  [AllocationMethodEnum.VALUE]: 'By value',
+  [AllocationMethodEnum.QUANTITY]: 'By quantity',
+};
+
+interface CostDraft {
+  key: number;
+  kind: LandedCostKindEnum;
+  description: string;
+  currency: string;
+  exchange_rate: string;
+  amount: string;
+}
+
+interface ImportShipmentFormProps {
+  /** Open shipment to edit; omit to record a new one. */
+  shipment?: ImportShipment | null;
+  onClose: () => void;
+  onSaved: (shipment: ImportShipment) => void;
+}
+
+/**
+ * Record or edit an import shipment: its reference, import partner and arrival, how costs are
+ * spread over the units, and each extra cost in the currency it was paid in with its rate to KES.
+ */
+export const ImportShipmentForm: React.FC<ImportShipmentFormProps> = ({ shipment, onClose, onSaved }) => {
+  const queryClient = useQueryClient();
+  const [reference, setReference] = useState(shipment?.reference ?? '');
+  const [acquisitionSource, setAcquisitionSource] = useState<number | null>(shipment?.acquisition_source ?? null);
+  const [arrivalDate, setArrivalDate] = useState(shipment?.arrival_date ?? '');
+  const [allocationMethod, setAllocationMethod] = useState<AllocationMethodEnum>(
+    shipment?.allocation_method ?? AllocationMethodEnum.VALUE
+  );
+  const [notes, setNotes] = useState(shipment?.notes ?? '');
+  const [costs, setCosts] = useState<CostDraft[]>(
+    (shipment?.costs ?? []).map((cost, index) => ({
+      key: index + 1,
+      kind: cost.kind,
+      description: cost.description ?? '',
+      currency: cost.currency,
+      exchange_rate: cost.exchange_rate,
+      amount: cost.amount,
+    }))
+  );
+  const [nextKey, setNextKey] = useState(costs.length + 1);
+  const [error, setError] = useState('');
+
+  const { data: sources } = useAcquisitionSources();
+  const importPartners = sources.filter((source) => source.source_type === SourceTypeEnum.IM);
+
+  const saveMutation = useMutation({
+    mutationFn: (body: ImportShipmentRequest) =>
+      // Units are managed on the shipment page, so an edit leaves them out
+      shipment
+        ? ImportShipmentsService.importShipmentsPartialUpdate(shipment.id, body)
+        : ImportShipmentsService.importShipmentsCreate({ ...body, units: [] }),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['import-shipments'] });
+      onSaved(saved);
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const addCost = () => {
+    // New costs usually share the currency and rate of the one before
+    const previous = costs[costs.length - 1];
+    setCosts((prev) => [
+      ...prev,
+      {
+        key: nextKey,
+        kind: LandedCostKindEnum.SHIPPING,
+        description: '',
+        currency: previous?.currency ?? 'USD',
+        exchange_rate: previous?.exchange_rate ?? '',
+        amount: '',
+      },
+    ]);
+    setNextKey((key) => key + 1);
+  };
+
+  const updateCost = (key: number, patch: Partial<CostDraft>) => {
+    setCosts((prev) => prev.map((cost) => (cost.key === key ? { ...cost, ...patch } : cost)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (costs.some((cost) => !cost.currency.trim() || !(Number(cost.exchange_rate) > 0) || cost.amount === '')) {
+      setError('Every cost needs a currency, an exchange rate and an amount.');
+      return;
+    }
+    saveMutation.mutate({
+      reference: reference.trim(),
+      acquisition_source: acquisitionSource,
+      arrival_date: arrivalDate || null,
+      allocation_method: allocationMethod,
+      notes: notes.trim(),
+      costs: costs.map((cost) => ({
+        kind: cost.kind,
+        description: cost.description.trim(),
+        currency: cost.currency.trim().toUpperCase(),
+        exchange_rate: cost.exchange_rate,
+        amount: cost.amount,
+      })),
+    });
+  };
+
+  const isLoading = saveMutation.isPending;
+  const totalKes = costs.reduce((sum, cost) => sum + toKes(cost.amount, cost.exchange_rate), 0);
+
+  return (
+    <div className="modal-overlay" onClick={isLoading ? undefined : onClose}>
+      <div className="modal-content modal-content-large" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{shipment ? `Edit ${shipment.reference}` : 'New Import Shipment'}</h2>
+          <button className="modal-close" onClick={onClose} disabled={isLoading}>×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="form-section">
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="import-shipment-reference">Reference <span className="required">*</span></label>
+              <input
+                id="import-shipment-reference"
+                type="text"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                required
+                disabled={isLoading}
+                maxLength={100}
+                placeholder="e.g. bill of lading or airway bill number"
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="import-shipment-source">Import partner</label>
+              <select
+                id="import-shipment-source"
+                value={acquisitionSource ?? ''}
+                onChange={(e) => setAcquisitionSource(e.target.value ? Number(e.target.value) : null)}
+                disabled={isLoading}
+              >
+                <option value="">Not recorded</option>
+                {importPartners.map((source) => (
+                  <option key={source.id} value={source.id}>{source.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="import-shipment-arrival">Arrived</label>
+              <input
+                id="import-shipment-arrival"
+                type="date"
+                value={arrivalDate}
+                onChange={(e) => setArrivalDate(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="import-shipment-method">Spread costs</label>
+            <select
+              id="import-shipment-method"
+              value={allocationMethod}
+              onChange={(e) => setAllocationMethod(e.target.value as AllocationMethodEnum)}
+              disabled={isLoading}
+            >
+              {Object.entries(ALLOCATION_METHODS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <small className="form-help">
+              By value gives pricier units a bigger share (suits duty and insurance); by quantity splits the costs equally
+              per piece (suits freight on similar items).
+            </small>
+          </div>
+
+          <div className="report-section-header">
+            <h3 className="section-title">Costs</h3>
+            <button type="button" className="btn-small btn-secondary" onClick={addCost} disabled={isLoading}>
+              + Add Cost
+            </button>
+          </div>
+          {costs.length > 0 ? (
+            <div className="colors-table-container">
+              <table className="colors-table import-shipment-costs-editor">
+                <thead>
+                  <tr>
+                    <th>Kind</th>
+                    <th>Description</th>
+                    <th>Currency</th>
+                    <th>Rate to KES</th>
+                    <th>Amount</th>
+                    <th>KES</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {costs.map((cost) => (
+                    <tr key={cost.key}>
+                      <td>
+                        <select
+                          value={cost.kind}
+                          onChange={(e) => updateCost(cost.key, { kind: e.target.value as LandedCostKindEnum })}
+                          disabled={isLoading}
+                          aria-label="Kind"
+                        >
+                          {Object.entries(LANDED_COST_KINDS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        <input
+                          type="text"
+                          value={cost.description}
+                          onChange={(e) => updateCost(cost.key, { description: e.target.value })}
+                          disabled={isLoading}
+                          maxLength={255}
+                          aria-label="Description"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="text"
+                          value={cost.currency}
+                          onChange={(e) =>
+                            updateCost(cost.key, {
+                              currency: e.target.value,
+                              exchange_rate: e.target.value.trim().toUpperCase() === 'KES' ? '1' : cost.exchange_rate,
+                            })
+                          }
+                          disabled={isLoading}
+                          maxLength={3}
+                          aria-label="Currency"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.0001"
+                          value={cost.exchange_rate}
+                          onChange={(e) => updateCost(cost.key, { exchange_rate: e.target.value })}
+                          disabled={isLoading}
+                          aria-label="Rate to KES"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={cost.amount}
+                          onChange={(e) => updateCost(cost.key, { amount: e.target.value })}
+                          disabled={isLoading}
+                          aria-label="Amount"
+                        />
+                      </td>
+                      <td>{formatKes(toKes(cost.amount, cost.exchange_rate))}</td>
+                      <td>
+                        <button
+                          type="button"
+                          className="btn-small btn-secondary"
+                          onClick={() => setCosts((prev) => prev.filter((c) => c.key !== cost.key))}
+                          disabled={isLoading}
+                          title="Remove cost"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="import-shipment-total">
+                    <td colSpan={5}>Total</td>
+                    <td>{formatKes(totalKes)}</td>
+                    <td></td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          ) : (
+            <p className="form-help">No costs yet. Add the shipping, clearing, duty and forex charges as they come in.</p>
+          )}
+
+          <div className="form-group">
+            <label htmlFor="import-shipment-notes">Notes</label>
+            <textarea
+              id="import-shipment-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={isLoading}
+            />
+          </div>
+
+          {error && <p className="error-text">{error}</p>}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isLoading || !reference.trim()}>
+              {isLoading ? 'Saving...' : shipment ? 'Save Changes' : 'Create Shipment'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { OpenAPI } from '../api/core/OpenAPI';
+import { ApiError } from '../api/core/ApiError';
+import { apiClient } from '../api/client';
 
 interface VariantData {
   id?: number;
@@ -16,13 +17,6 @@ interface Props {
   productName?: string;
 }
 
-const getAuthHeaders = (): Record<string, string> => {
-  const token = localStorage.getItem('auth_token');
-  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-  if (token) headers['Authorization'] = `Token ${token}`;
-  return headers;
-};
-
 const ProductVariantEditor: React.FC<Props> = ({ productId, productName }) => {
   const [variants, setVariants] = useState<VariantData[]>([]);
   const [loading, setLoading] = useState(false);
@@ -30,8 +24,6 @@ const ProductVariantEditor: React.FC<Props> = ({ productId, productName }) => {
   const [error, setError] = useState<string | null>(null);
   const [successMsg, setSuccessMsg] = useState<string | null>(null);
 
-  const baseUrl = OpenAPI.BASE || '';
-
   const fetchVariants = useCallback(async () => {
     if (!productId) return;
     setLoading(true);
@@ -39,12 +31,8 @@ const ProductVariantEditor: React.FC<Props> = ({ productId, productName }) => {
     setSuccessMsg(null);
     setVariants([]);
     try {
-      const res = await fetch(`${baseUrl}/variants/?product=${productId}`, {
-        headers: getAuthHeaders(),
-      });
-      if (!res.ok) throw new Error(`Failed to fetch: ${res.status}`);
-      const data = await res.json();
-      const rows: VariantData[] = data.results ?? data ?? [];
+      const data = await apiClient.get<VariantData[] | { results?: VariantData[] }>('/variants/', { product: productId });
+      const rows: VariantData[] = (Array.isArray(data) ? data : data?.results) ?? [];
       const hasProductIds = rows.some((row) => row.product != null);
       setVariants(
         hasProductIds
@@ -56,7 +44,7 @@ const ProductVariantEditor: React.FC<Props> = ({ productId, productName }) => {
     } finally {
       setLoading(false);
     }
-  }, [productId, baseUrl]);
+  }, [productId]);
 
   useEffect(() => {
     setVariants([]);
@@ -98,25 +86,15 @@ const ProductVariantEditor: React.FC<Props> = ({ productId, productName }) => {
     setSuccessMsg(null);
 
     try {
-      const res = await fetch(`${baseUrl}/variants/${variant.id}/`, {
-        method: 'DELETE',
-        headers: getAuthHeaders(),
-      });
-
-      if (res.status === 404) {
+      await apiClient.delete(`/variants/${variant.id}/`);
+      await fetchVariants();
+      setSuccessMsg('Variant deleted.');
+    } catch (err: any) {
+      if (err instanceof ApiError && err.status === 404) {
         await fetchVariants();
         setSuccessMsg('Variant was already removed.');
         return;
       }
-
-      if (!res.ok && res.status !== 204) {
-        const body = await res.text().catch(() => '');
-        throw new Error(`Delete failed: ${res.status}${body ? ` — ${body.slice(0, 120)}` : ''}`);
-      }
-
-      await fetchVariants();
-      setSuccessMsg('Variant deleted.');
-    } catch (err: any) {
       setError(err.message || 'Delete failed');
     }
   };
@@ -143,10 +121,6 @@ const ProductVariantEditor: React.FC<Props> = ({ productId, productName }) => {
     }
 
     try {
-      const token = localStorage.getItem('auth_token');
-      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
-      if (token) headers['Authorization'] = `Token ${token}`;
-
       for (const v of variants) {
         const payload = {
           product_id: productId,
@@ -158,25 +132,13 @@ const ProductVariantEditor: React.FC<Props> = ({ productId, productName }) => {
         };
 
         if (v.id) {
-          const res = await fetch(`${baseUrl}/variants/${v.id}/`, {
-            method: 'PATCH',
-            headers,
-            body: JSON.stringify(payload),
+          await apiClient.patch(`/variants/${v.id}/`, payload).catch((err: Error) => {
+            errors.push(`Failed to update variant ${v.id}: ${err.message}`);
           });
-          if (!res.ok) {
-            const body = await res.json().catch(() => ({}));
-            errors.push(`Failed to update variant ${v.id}: ${JSON.stringify(body)}`);
-          }
         } else {
-          const res = await fetch(`${baseUrl}/variants/`, {
-            method: 'POST',
-            headers,
-            body: JSON.stringify(payload),
+          await apiClient.post('/variants/', payload).catch((err: Error) => {
+            errors.push(`Failed to create variant: ${err.message}`);
           });
-          if (!res.ok) {
-            const body = await res.json().catch(() => ({}));
-            errors.push(`Failed to create variant: ${JSON.stringify(body)}`);
-          }
         }
       }
 
@@ -0,0 +1,335 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  ConditionEnum,
+  PurchaseOrderStatusEnum,
+  PurchaseOrdersService,
+  type PurchaseOrder,
+  type PurchaseOrderRequest,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { useAcquisitionSources } from '../hooks/useAcquisitionSources';
+import { useDebounce } from '../hooks/useDebounce';
+import { useProductsList } from '../hooks/useProductsList';
+import { formatKes } from '../utils/format';
+
+export const PURCHASE_ORDER_STATUSES: Record<PurchaseOrderStatusEnum, string> = {
+  [PurchaseOrderStatusEnum.DRAFT]: 'Draft',
+  [PurchaseOrderStatusEnum.ORDERED]: 'Ordered',
+  [PurchaseOrderStatusEnum.PARTIALLY_RECEIVED]: 'Partially received',
+  [PurchaseOrderStatusEnum.RECEIVED]: 'Received',
+  [PurchaseOrderStatusEnum.CANCELLED]: 'Cancelled',
+};
+
+export const CONDITION_LABELS: Record<ConditionEnum, string> = {
+  [ConditionEnum.N]: 'New',
+  [ConditionEnum.R]: 'Refurbished',
+  [ConditionEnum.P]: 'Pre-owned',
+  [ConditionEnum.D]: 'Defective',
+};
+
+interface LineDraft {
+  key: number;
+  product_template: number;
+  product_label: string;
+  storage_gb: string;
+  ram_gb: string;
+  condition: ConditionEnum;
+  quantity: string;
+  unit_cost: string;
+}
+
+interface PurchaseOrderFormProps {
+  /** Draft order to edit; omit to raise a new one. */
+  purchaseOrder?: PurchaseOrder | null;
+  onClose: () => void;
+  onSaved: (purchaseOrder: PurchaseOrder) => void;
+}
+
+const lineTotal = (line: LineDraft) => (Number(line.quantity) || 0) * (Number(line.unit_cost) || 0);
+
+/**
+ * Raise or edit a draft purchase order: the acquisition source it is placed with and one line
+ * per product variant (storage, RAM, condition) with the expected quantity and agreed unit cost.
+ */
+export const PurchaseOrderForm: React.FC<PurchaseOrderFormProps> = ({ purchaseOrder, onClose, onSaved }) => {
+  const queryClient = useQueryClient();
+  const [acquisitionSource, setAcquisitionSource] = useState<number | ''>(purchaseOrder?.acquisition_source ?? '');
+  const [expectedDate, setExpectedDate] = useState(purchaseOrder?.expected_date ?? '');
+  const [notes, setNotes] = useState(purchaseOrder?.notes ?? '');
+  const [lines, setLines] = useState<LineDraft[]>(
+    (purchaseOrder?.lines ?? []).map((line, index) => ({
+      key: index + 1,
+      product_template: line.product_template,
+      product_label: line.product_template_name,
+      storage_gb: line.storage_gb?.toString() ?? '',
+      ram_gb: line.ram_gb?.toString() ?? '',
+      condition: line.condition ?? ConditionEnum.N,
+      quantity: String(line.quantity),
+      unit_cost: line.unit_cost,
+    }))
+  );
+  const [nextKey, setNextKey] = useState(lines.length + 1);
+  const [productSearch, setProductSearch] = useState('');
+  const [error, setError] = useState('');
+
+  const debouncedProductSearch = useDebounce(productSearch, 300);
+  const { data: productsData } = useProductsList(debouncedProductSearch);
+  const products = productsData?.results ?? [];
+  const { data: sources } = useAcquisitionSources();
+
+  const saveMutation = useMutation({
+    mutationFn: (body: PurchaseOrderRequest) =>
+      purchaseOrder
+        ? PurchaseOrdersService.purchaseOrdersUpdate(purchaseOrder.id, body)
+        : PurchaseOrdersService.purchaseOrdersCreate(body),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+      onSaved(saved);
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const addLine = (value: string) => {
+    const product = products.find((p) => p.id === Number(value));
+    const productId = product?.id;
+    if (!product || !productId) return;
+    setLines((prev) => [
+      ...prev,
+      {
+        key: nextKey,
+        product_template: productId,
+        product_label: `${product.brand ? `${product.brand} ` : ''}${product.product_name}`,
+        storage_gb: '',
+        ram_gb: '',
+        condition: ConditionEnum.N,
+        quantity: '1',
+        unit_cost: '',
+      },
+    ]);
+    setNextKey((key) => key + 1);
+  };
+
+  const updateLine = (key: number, patch: Partial<LineDraft>) => {
+    setLines((prev) => prev.map((line) => (line.key === key ? { ...line, ...patch } : line)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (!acquisitionSource) {
+      setError('Choose the source the order is placed with.');
+      return;
+    }
+    if (lines.length === 0) {
+      setError('Add at least one product line.');
+      return;
+    }
+    if (lines.some((line) => !(Number(line.quantity) > 0) || line.unit_cost === '')) {
+      setError('Every line needs a quantity and a unit cost.');
+      return;
+    }
+    saveMutation.mutate({
+      acquisition_source: acquisitionSource,
+      status: purchaseOrder?.status ?? PurchaseOrderStatusEnum.DRAFT,
+      expected_date: expectedDate || null,
+      notes: notes.trim(),
+      lines: lines.map((line) => ({
+        product_template: line.product_template,
+        storage_gb: line.storage_gb ? Number(line.storage_gb) : null,
+        ram_gb: line.ram_gb ? Number(line.ram_gb) : null,
+        condition: line.condition,
+        quantity: Number(line.quantity),
+        unit_cost: line.unit_cost,
+      })),
+    });
+  };
+
+  const isLoading = saveMutation.isPending;
+  const orderTotal = lines.reduce((sum, line) => sum + lineTotal(line), 0);
+
+  return (
+    <div className="modal-overlay" onClick={isLoading ? undefined : onClose}>
+      <div className="modal-content modal-content-large" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{purchaseOrder ? `Edit ${purchaseOrder.reference}` : 'New Purchase Order'}</h2>
+          <button className="modal-close" onClick={onClose} disabled={isLoading}>×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="form-section">
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="purchase-order-source">Acquisition Source <span className="required">*</span></label>
+              <select
+                id="purchase-order-source"
+                value={acquisitionSource}
+                onChange={(e) => setAcquisitionSource(e.target.value ? Number(e.target.value) : '')}
+                disabled={isLoading}
+              >
+                <option value="">Select source</option>
+                {sources.map((source) => (
+                  <option key={source.id} value={source.id}>{source.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="purchase-order-expected">Expected delivery</label>
+              <input
+                id="purchase-order-expected"
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="purchase-order-product">Add product</label>
+            <div className="purchase-order-product-picker">
+              <input
+                id="purchase-order-product"
+                type="text"
+                placeholder="Search products…"
+                value={productSearch}
+                onChange={(e) => setProductSearch(e.target.value)}
+                disabled={isLoading}
+              />
+              <select value="" onChange={(e) => addLine(e.target.value)} disabled={isLoading} aria-label="Product to add">
+                <option value="">Select product to add</option>
+                {products.map((product) => (
+                  <option key={product.id} value={product.id}>
+                    {product.brand ? `${product.brand} ` : ''}{product.product_name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <small className="form-help">Add a product once per variant, e.g. the 128 GB and 256 GB models as two lines.</small>
+          </div>
+
+          {lines.length > 0 && (
+            <div className="colors-table-container">
+              <table className="colors-table purchase-order-lines-editor">
+                <thead>
+                  <tr>
+                    <th>Product</th>
+                    <th>Storage (GB)</th>
+                    <th>RAM (GB)</th>
+                    <th>Condition</th>
+                    <th>Quantity</th>
+                    <th>Unit cost (KES)</th>
+                    <th>Total</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line) => (
+                    <tr key={line.key}>
+                      <td className="color-name-cell">{line.product_label}</td>
+                      <td>
+                        <input
+                          type="number"
+                          min="0"
+                          value={line.storage_gb}
+                          onChange={(e) => updateLine(line.key, { storage_gb: e.target.value })}
+                          disabled={isLoading}
+                          aria-label="Storage (GB)"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          min="0"
+                          value={line.ram_gb}
+                          onChange={(e) => updateLine(line.key, { ram_gb: e.target.value })}
+                          disabled={isLoading}
+                          aria-label="RAM (GB)"
+                        />
+                      </td>
+                      <td>
+                        <select
+                          value={line.condition}
+                          onChange={(e) => updateLine(line.key, { condition: e.target.value as ConditionEnum })}
+                          disabled={isLoading}
+                          aria-label="Condition"
+                        >
+                          {Object.entries(CONDITION_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          min="1"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(line.key, { quantity: e.target.value })}
+                          disabled={isLoading}
+                          aria-label="Quantity"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unit_cost}
+                          onChange={(e) => updateLine(line.key, { unit_cost: e.target.value })}
+                          disabled={isLoading}
+                          aria-label="Unit cost (KES)"
+                        />
+                      </td>
+                      <td>{formatKes(lineTotal(line))}</td>
+                      <td>
+                        <button
+                          type="button"
+                          className="btn-small btn-secondary"
+                          onClick={() => setLines((prev) => prev.filter((l) => l.key !== line.key))}
+                          disabled={isLoading}
+                          title="Remove line"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+                <tfoot>
+                  <tr className="purchase-order-total">
+                    <td colSpan={4}>Total</td>
+                    <td>{lines.reduce((sum, line) => sum + (Number(line.quantity) || 0), 0)}</td>
+                    <td></td>
+                    <td>{formatKes(orderTotal)}</td>
+                    <td></td>
+                  </tr>
+                </tfoot>
+              </table>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label htmlFor="purchase-order-notes">Notes</label>
+            <textarea
+              id="purchase-order-notes"
+              rows={2}
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={isLoading}
+              placeholder="e.g. Payment terms, shipping arrangement"
+            />
+          </div>
+
+          {error && <p className="error-text">{error}</p>}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isLoading}>
+              {isLoading ? 'Saving...' : purchaseOrder ? 'Save Changes' : 'Save Draft'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { ListKeyEnum, SavedView } from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { useSavedViews } from '../hooks/useSavedViews';
+
+interface SavedViewsMenuProps {
+  listKey: ListKeyEnum;
+  /** URL params owned by the page's list state (from useUrlListState); `page` is never saved. */
+  paramKeys: readonly string[];
+}
+
+/** Pick the list params worth saving from the current URL, in a stable order. */
+const getCurrentViewQuery = (searchParams: URLSearchParams, paramKeys: readonly string[]) => {
+  const params = new URLSearchParams();
+  paramKeys.forEach((key) => {
+    const value = searchParams.get(key);
+    if (key !== 'page' && value) params.set(key, value);
+  });
+  return params.toString();
+};
+
+/**
+ * "Views" dropdown for a list page: apply, save, pin (sidebar), set default and delete the current
+ * admin's saved filter presets.
+ */
+export const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ listKey, paramKeys }) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { views, createView, updateView, deleteView } = useSavedViews(listKey);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const currentQuery = getCurrentViewQuery(searchParams, paramKeys);
+  const activeView = views.find((view) => (view.query || '') === currentQuery);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [open]);
+
+  const applyView = (view: SavedView) => {
+    const next = new URLSearchParams(searchParams);
+    paramKeys.forEach((key) => next.delete(key));
+    new URLSearchParams(view.query || '').forEach((value, key) => next.set(key, value));
+    setSearchParams(next);
+    setOpen(false);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setError('');
+    createView.mutate(
+      { list_key: listKey, name: trimmed, query: currentQuery, is_default: false, is_pinned: false },
+      {
+        onSuccess: () => setName(''),
+        onError: (err: unknown) => setError(getErrorMessage(err, 'Failed to save view')),
+      }
+    );
+  };
+
+  const handleDelete = (view: SavedView) => {
+    if (view.id && window.confirm(`Delete saved view "${view.name}"?`)) {
+      deleteView.mutate(view.id);
+    }
+  };
+
+  const isBusy = createView.isPending || updateView.isPending || deleteView.isPending;
+
+  return (
+    <div className="saved-views" ref={menuRef}>
+      <button
+        type="button"
+        className="btn-filter-toggle"
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        aria-haspopup="true"
+      >
+        <span>⭐ {activeView ? activeView.name : 'Views'}</span>
+        {views.length > 0 && <span className="filter-badge">{views.length}</span>}
+      </button>
+
+      {open && (
+        <div className="saved-views-panel" role="menu">
+          {views.length === 0 ? (
+            <p className="saved-views-empty">No saved views yet. Set up filters, then save them here.</p>
+          ) : (
+            <ul className="saved-views-list">
+              {views.map((view) => (
+                <li key={view.id} className={view.id === activeView?.id ? 'is-active' : ''}>
+                  <button type="button" className="saved-views-apply" onClick={() => applyView(view)}>
+                    {view.name}
+                    {view.is_default && <span className="saved-views-tag">Default</span>}
+                  </button>
+                  <button
+                    type="button"
+                    className={`saved-views-icon ${view.is_pinned ? 'is-on' : ''}`}
+                    title={view.is_pinned ? 'Unpin from sidebar' : 'Pin to sidebar'}
+                    onClick={() => view.id && updateView.mutate({ id: view.id, is_pinned: !view.is_pinned })}
+                    disabled={isBusy}
+                  >
+                    📌
+                  </button>
+                  <button
+                    type="button"
+                    className={`saved-views-icon ${view.is_default ? 'is-on' : ''}`}
+                    title={view.is_default ? 'Stop opening this view by default' : 'Open this view by default'}
+                    onClick={() => view.id && updateView.mutate({ id: view.id, is_default: !view.is_default })}
+                    disabled={isBusy}
+                  >
+                    ★
+                  </button>
+                  <button
+                    type="button"
+                    className="saved-views-icon"
+                    title="Delete view"
+                    onClick={() => handleDelete(view)}
+                    disabled={isBusy}
+                  >
+                    ✕
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <form className="saved-views-save" onSubmit={handleSave}>
+            <input
+              type="text"
+              placeholder="Name the current filters…"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              maxLength={100}
+            />
+            <button type="submit" className="btn-small btn-primary" disabled={!name.trim() || isBusy}>
+              Save
+            </button>
+          </form>
+          {error && <p className="saved-views-error">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  Stack,
+  TextField,
+} from '@mui/material';
+import { useAuth } from '../contexts/AuthContext';
+
+/**
+ * Re-login prompt shown when the API rejects the stored token mid-session.
+ * Rendered over the current page so its route and unsaved form state survive the re-login.
+ */
+export const SessionExpiredDialog: React.FC = () => {
+  const { sessionExpired, user, reauthenticate, cancelReauthentication } = useAuth();
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const username = user?.username || user?.email || '';
+
+  useEffect(() => {
+    if (sessionExpired) {
+      setPassword('');
+      setError('');
+    }
+  }, [sessionExpired]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+    try {
+      await reauthenticate(username, password);
+      setPassword('');
+    } catch (err: any) {
+      setError(err?.message || 'Login failed. Please check your password.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={sessionExpired} maxWidth="xs" fullWidth disableEscapeKeyDown>
+      <form onSubmit={handleSubmit}>
+        <DialogTitle>Session expired</DialogTitle>
+        <DialogContent>
+          <Stack spacing={2}>
+            <DialogContentText>
+              Your session has expired. Sign in again to continue — your unsaved changes on this page are kept
+              and the failed request will be retried.
+            </DialogContentText>
+            {error && <Alert severity="error">{error}</Alert>}
+            <TextField label="Username or Email" value={username} fullWidth disabled />
+            <TextField
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoFocus
+              required
+              fullWidth
+              disabled={submitting}
+            />
+          </Stack>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={cancelReauthentication} disabled={submitting}>
+            Sign in as someone else
+          </Button>
+          <Button type="submit" variant="contained" disabled={submitting || !password || !username}>
+            {submitting ? 'Signing in...' : 'Sign in'}
+          </Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+};
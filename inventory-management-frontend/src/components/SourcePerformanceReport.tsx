@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { ReportsService, SourceEnum, type SourcePerformance } from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { useBrandsList } from '../hooks/useBrandsList';
+import { downloadCsv } from '../utils/csv';
+import { formatKes, toIsoDate } from '../utils/format';
+
+const SOURCE_LABELS: Record<SourceEnum, string> = {
+  [SourceEnum.SU]: 'Supplier',
+  [SourceEnum.IM]: 'Import partner',
+  [SourceEnum.BB]: 'Buyback',
+};
+
+type SortKey = 'realized_margin' | 'realized_margin_percent' | 'sell_through_rate' | 'units_supplied' | 'return_rate';
+
+const SORT_OPTIONS: Record<SortKey, string> = {
+  realized_margin: 'Realized margin',
+  realized_margin_percent: 'Margin %',
+  sell_through_rate: 'Sell-through',
+  units_supplied: 'Units supplied',
+  return_rate: 'Return rate',
+};
+
+const formatPercent = (value: string | null) => (value === null ? '-' : `${Number(value).toFixed(1)}%`);
+
+const formatDays = (value: number | null) => (value === null ? '-' : Math.round(value).toLocaleString());
+
+/**
+ * Per-source analytics for procurement: how many units each supplier, import partner and the
+ * buyback channel supplied in the period, what they cost, how fast and how profitably they
+ * sold, and how many came back as returns or warranty claims.
+ */
+export const SourcePerformanceReport: React.FC = () => {
+  const { data: brands } = useBrandsList();
+  const [periodDays, setPeriodDays] = useState<number | 'all'>(365);
+  const [brandFilter, setBrandFilter] = useState<number | ''>('');
+  const [sortKey, setSortKey] = useState<SortKey>('realized_margin');
+
+  const dateFrom = useMemo(() => {
+    if (periodDays === 'all') return undefined;
+    const from = new Date();
+    from.setDate(from.getDate() - periodDays);
+    return toIsoDate(from);
+  }, [periodDays]);
+  const brand = brandFilter === '' ? undefined : brandFilter;
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ['reports-source-performance', brand, dateFrom],
+    queryFn: () => ReportsService.reportsSourcePerformanceRetrieve(brand, dateFrom),
+  });
+
+  const rows = useMemo(
+    () =>
+      [...(report?.sources ?? [])].sort(
+        (a, b) => Number(b[sortKey] ?? -Infinity) - Number(a[sortKey] ?? -Infinity)
+      ),
+    [report, sortKey]
+  );
+
+  const handleExport = () => {
+    if (!report) return;
+    downloadCsv(
+      [
+        'Source',
+        'Channel',
+        'Units supplied',
+        'Units sold',
+        'Sell-through %',
+        'Avg cost (KES)',
+        'Avg days to sell',
+        'Revenue (KES)',
+        'Realized margin (KES)',
+        'Margin %',
+        'Returned',
+        'Return rate %',
+        'Warranty claims',
+        'Claim rate %',
+      ],
+      [...rows, report.totals].map((row) => [
+        row.name,
+        SOURCE_LABELS[row.source] ?? '',
+        row.units_supplied,
+        row.units_sold,
+        row.sell_through_rate,
+        row.avg_cost ?? '',
+        row.avg_days_to_sell === null ? '' : Math.round(row.avg_days_to_sell),
+        row.revenue,
+        row.realized_margin,
+        row.realized_margin_percent ?? '',
+        row.returned_count,
+        row.return_rate,
+        row.warranty_claim_count,
+        row.warranty_claim_rate,
+      ]),
+      `source-performance-${dateFrom ?? 'all-time'}.csv`
+    );
+  };
+
+  const renderRow = (row: SourcePerformance, key: React.Key, className?: string) => (
+    <tr key={key} className={className}>
+      <td className="color-name-cell">
+        {row.name}
+        {row.acquisition_source !== null && <div className="form-help">{SOURCE_LABELS[row.source]}</div>}
+      </td>
+      <td>{row.units_supplied.toLocaleString()}</td>
+      <td>{row.units_sold.toLocaleString()}</td>
+      <td>{formatPercent(row.sell_through_rate)}</td>
+      <td>{formatKes(row.avg_cost)}</td>
+      <td>{formatDays(row.avg_days_to_sell)}</td>
+      <td>{formatKes(row.revenue)}</td>
+      <td className={Number(row.realized_margin) < 0 ? 'source-performance-loss' : undefined}>
+        {formatKes(row.realized_margin)}
+        <div className="form-help">{formatPercent(row.realized_margin_percent)}</div>
+      </td>
+      <td>
+        {row.returned_count} ({formatPercent(row.return_rate)})
+      </td>
+      <td>
+        {row.warranty_claim_count} ({formatPercent(row.warranty_claim_rate)})
+      </td>
+    </tr>
+  );
+
+  return (
+    <div className="source-performance">
+      <div className="filters-bar">
+        <div className="search-row">
+          <select
+            value={periodDays}
+            onChange={(e) => setPeriodDays(e.target.value === 'all' ? 'all' : Number(e.target.value))}
+            aria-label="Sourced in"
+          >
+            <option value={90}>Sourced in the last 90 days</option>
+            <option value={180}>Sourced in the last 6 months</option>
+            <option value={365}>Sourced in the last 12 months</option>
+            <option value="all">All time</option>
+          </select>
+          <select
+            value={brandFilter}
+            onChange={(e) => setBrandFilter(e.target.value ? Number(e.target.value) : '')}
+            aria-label="Brand"
+          >
+            <option value="">All brands</option>
+            {brands.map((b) => (
+              <option key={b.id} value={b.id}>{b.name}</option>
+            ))}
+          </select>
+          <select value={sortKey} onChange={(e) => setSortKey(e.target.value as SortKey)} aria-label="Sort by">
+            {Object.entries(SORT_OPTIONS).map(([value, label]) => (
+              <option key={value} value={value}>Sort by {label.toLowerCase()}</option>
+            ))}
+          </select>
+          <button className="btn-secondary" onClick={handleExport} disabled={!report || rows.length === 0}>
+            📥 Export CSV
+          </button>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="loading">Loading source performance...</div>
+      ) : error ? (
+        <div className="error">{getErrorMessage(error)}</div>
+      ) : !report || rows.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">📊</div>
+          <h3>No units sourced in this period</h3>
+        </div>
+      ) : (
+        <div className="colors-table-container">
+          <table className="colors-table">
+            <thead>
+              <tr>
+                <th>Source</th>
+                <th>Supplied</th>
+                <th>Sold</th>
+                <th>Sell-through</th>
+                <th>Avg cost</th>
+                <th>Avg days to sell</th>
+                <th>Revenue</th>
+                <th>Realized margin</th>
+                <th>Returned</th>
+                <th>Warranty claims</th>
+              </tr>
+            </thead>
+            <tbody>{rows.map((row) => renderRow(row, `${row.source}-${row.acquisition_source ?? 'none'}`))}</tbody>
+            <tfoot>{renderRow(report.totals, 'totals', 'source-performance-totals')}</tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
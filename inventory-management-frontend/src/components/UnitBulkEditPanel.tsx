@@ -0,0 +1,389 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import {
+  UnitsService,
+  UnitBulkOperationEnum,
+  type InventoryUnit,
+  type UnitBulkUpdateRequest,
+  type UnitBulkValuesRequest,
+} from '../api/index';
+import { buildQueryString, getErrorMessage } from '../api/client';
+import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
+
+type BulkAction = 'price' | 'compare_at_price' | 'available_online' | 'grade' | 'condition' | 'sale_status' | 'archive';
+
+type BulkValueField = Exclude<keyof UnitBulkValuesRequest, 'id'>;
+type BulkValue = string | boolean | null;
+
+/** A bulk change that was applied, with the request that reverts it. */
+export type BulkUndo = {
+  label: string;
+  request: UnitBulkUpdateRequest;
+};
+
+interface UnitBulkEditPanelProps {
+  unitIds: number[];
+  onClose: () => void;
+  /** Called after a successful update with the request that undoes it. */
+  onApplied: (undo: BulkUndo) => void;
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+interface DiffRow {
+  unit: InventoryUnit;
+  before: BulkValue;
+  after: BulkValue;
+  changed: boolean;
+  /** Why an unchanged row is left alone (e.g. archiving an unsold unit). */
+  note?: string;
+}
+
+const ACTIONS: Array<{ value: BulkAction; label: string }> = [
+  { value: 'price', label: '💰 Selling price' },
+  { value: 'compare_at_price', label: '🏷️ Compare-at price' },
+  { value: 'available_online', label: '🌐 Available online' },
+  { value: 'grade', label: '⭐ Grade' },
+  { value: 'condition', label: '🔧 Condition' },
+  { value: 'sale_status', label: '🔄 Status' },
+  { value: 'archive', label: '📦 Archive sold units' },
+];
+
+/** InventoryUnit field written by each set_values action. */
+const ACTION_FIELDS: Record<Exclude<BulkAction, 'archive'>, BulkValueField> = {
+  price: 'selling_price',
+  compare_at_price: 'compare_at_price',
+  available_online: 'available_online',
+  grade: 'grade',
+  condition: 'condition',
+  sale_status: 'sale_status',
+};
+
+const CONDITION_LABELS: Record<string, string> = { N: 'New', R: 'Refurbished', P: 'Pre-owned', D: 'Defective' };
+const STATUS_LABELS: Record<string, string> = {
+  AV: 'Available',
+  SD: 'Sold',
+  RS: 'Reserved',
+  RT: 'Returned',
+  PP: 'Pending Payment',
+};
+
+const toMoney = (value: number) => (Math.round(value * 100) / 100).toFixed(2);
+
+const formatValue = (action: BulkAction, value: BulkValue) => {
+  if (value === null || value === undefined || value === '') return '—';
+  switch (action) {
+    case 'price':
+    case 'compare_at_price':
+      return `KES ${Number(value).toLocaleString()}`;
+    case 'available_online':
+      return value ? 'Yes' : 'No';
+    case 'condition':
+      return CONDITION_LABELS[String(value)] || String(value);
+    case 'sale_status':
+    case 'archive':
+      return STATUS_LABELS[String(value)] || String(value);
+    default:
+      return String(value);
+  }
+};
+
+/** Ids per `/units/?ids=` request, so a large selection never builds an over-long URL. */
+const SELECTION_CHUNK_SIZE = 100;
+
+/** Load the selected units a bounded chunk of ids at a time. */
+const fetchUnitsByIds = async (unitIds: number[]) => {
+  const chunks: number[][] = [];
+  for (let i = 0; i < unitIds.length; i += SELECTION_CHUNK_SIZE) {
+    chunks.push(unitIds.slice(i, i + SELECTION_CHUNK_SIZE));
+  }
+  const pages = await Promise.all(
+    chunks.map((ids) => fetchAllDrfPages<InventoryUnit>(`/units/${buildQueryString({ ids, page_size: ids.length })}`))
+  );
+  return pages.flat();
+};
+
+const getUnitLabel = (unit: InventoryUnit) => {
+  const identifier = unit.imei || unit.serial_number;
+  return `${unit.product_template_name || `Unit #${unit.id}`}${identifier ? ` · ${identifier}` : ''}`;
+};
+
+/**
+ * Bulk edit for the selected units: pick a change, review a before/after diff of every affected
+ * unit, then apply it through `/units/bulk_update/`. Changes are sent as per-unit `set_values`
+ * (archiving as `archive`), so the previous values can be written back in one undo request.
+ */
+export const UnitBulkEditPanel: React.FC<UnitBulkEditPanelProps> = ({ unitIds, onClose, onApplied, showToast }) => {
+  const [action, setAction] = useState<BulkAction>('price');
+  const [priceMode, setPriceMode] = useState<'absolute' | 'percentage'>('absolute');
+  const [value, setValue] = useState('');
+
+  const { data: units = [], isLoading, error: loadError } = useQuery({
+    queryKey: ['units', 'bulk-selection', unitIds],
+    queryFn: () => fetchUnitsByIds(unitIds),
+    staleTime: 0,
+  });
+
+  const rows = useMemo<DiffRow[]>(() => {
+    return units.map((unit) => {
+      if (action === 'archive') {
+        const isSold = unit.sale_status === 'SD';
+        return {
+          unit,
+          before: unit.sale_status ?? null,
+          after: isSold ? 'Archived' : unit.sale_status ?? null,
+          changed: isSold,
+          note: isSold ? undefined : 'Only sold units can be archived',
+        };
+      }
+
+      const field = ACTION_FIELDS[action];
+      const before = (unit[field as keyof InventoryUnit] ?? null) as BulkValue;
+      let after: BulkValue = before;
+      if (action === 'price') {
+        const amount = parseFloat(value);
+        if (!Number.isNaN(amount)) {
+          if (priceMode === 'absolute') {
+            after = toMoney(amount);
+          } else if (before !== null && before !== '') {
+            after = toMoney(Number(before) * (1 + amount / 100));
+          }
+        }
+      } else if (action === 'compare_at_price') {
+        const amount = parseFloat(value);
+        after = value === '' ? null : Number.isNaN(amount) ? before : toMoney(amount);
+      } else if (action === 'available_online') {
+        after = value === '' ? before : value === 'true';
+      } else if (value !== '') {
+        after = value;
+      }
+
+      const changed =
+        action === 'price' || action === 'compare_at_price'
+          ? (before === null ? null : Number(before)) !== (after === null ? null : Number(after))
+          : before !== after;
+      let note: string | undefined;
+      if (!changed && action === 'price' && priceMode === 'percentage' && (before === null || before === '')) {
+        note = 'No current price';
+      }
+      return { unit, before, after, changed, note };
+    });
+  }, [units, action, priceMode, value]);
+
+  const changedRows = rows.filter((row) => row.changed);
+
+  const applyMutation = useMutation({
+    mutationFn: (request: UnitBulkUpdateRequest) => UnitsService.unitsBulkUpdateCreate(request),
+  });
+
+  const handleActionChange = (next: BulkAction) => {
+    setAction(next);
+    setValue('');
+  };
+
+  const handleApply = () => {
+    const unitIdsToChange = changedRows.map((row) => row.unit.id!);
+    const actionLabel = ACTIONS.find((a) => a.value === action)?.label.replace(/^\S+\s/, '') || action;
+    let request: UnitBulkUpdateRequest;
+    let undo: UnitBulkUpdateRequest;
+
+    if (action === 'archive') {
+      if (!window.confirm(`Archive ${unitIdsToChange.length} sold unit(s)?`)) return;
+      request = { unit_ids: unitIdsToChange, operation: UnitBulkOperationEnum.ARCHIVE, data: {} };
+      undo = { unit_ids: unitIdsToChange, operation: UnitBulkOperationEnum.UNARCHIVE, data: {} };
+    } else {
+      const field = ACTION_FIELDS[action];
+      const toValues = (key: 'before' | 'after') =>
+        changedRows.map((row) => ({ id: row.unit.id!, [field]: row[key] } as UnitBulkValuesRequest));
+      request = { unit_ids: unitIdsToChange, operation: UnitBulkOperationEnum.SET_VALUES, values: toValues('after') };
+      undo = { unit_ids: unitIdsToChange, operation: UnitBulkOperationEnum.SET_VALUES, values: toValues('before') };
+    }
+
+    applyMutation.mutate(request, {
+      onSuccess: (result) => {
+        showToast(result.message || `Updated ${result.updated} unit(s)`, 'success');
+        onApplied({ label: `${actionLabel} changed on ${unitIdsToChange.length} unit(s)`, request: undo });
+        onClose();
+      },
+      onError: (err) => showToast(getErrorMessage(err, 'Bulk operation failed'), 'error'),
+    });
+  };
+
+  const renderValueInput = () => {
+    switch (action) {
+      case 'price':
+        return (
+          <>
+            <div className="form-group">
+              <label htmlFor="bulk_price_mode">Change</label>
+              <select
+                id="bulk_price_mode"
+                value={priceMode}
+                onChange={(e) => setPriceMode(e.target.value as 'absolute' | 'percentage')}
+              >
+                <option value="absolute">Set price to (KES)</option>
+                <option value="percentage">Adjust by percentage (%)</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="bulk_value">{priceMode === 'absolute' ? 'New price (KES)' : 'Percentage (e.g. -10 or 5)'}</label>
+              <input
+                id="bulk_value"
+                type="number"
+                step={priceMode === 'absolute' ? '0.01' : '0.1'}
+                min={priceMode === 'absolute' ? '0' : '-100'}
+                value={value}
+                onChange={(e) => setValue(e.target.value)}
+                autoFocus
+              />
+            </div>
+          </>
+        );
+      case 'compare_at_price':
+        return (
+          <div className="form-group">
+            <label htmlFor="bulk_value">Compare-at price (KES), leave empty to clear</label>
+            <input
+              id="bulk_value"
+              type="number"
+              step="0.01"
+              min="0"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              autoFocus
+            />
+          </div>
+        );
+      case 'available_online':
+        return (
+          <div className="form-group">
+            <label htmlFor="bulk_value">Available online</label>
+            <select id="bulk_value" value={value} onChange={(e) => setValue(e.target.value)}>
+              <option value="">-- Select --</option>
+              <option value="true">Yes, show on the storefront</option>
+              <option value="false">No, hide from the storefront</option>
+            </select>
+          </div>
+        );
+      case 'grade':
+        return (
+          <div className="form-group">
+            <label htmlFor="bulk_value">New grade</label>
+            <select id="bulk_value" value={value} onChange={(e) => setValue(e.target.value)}>
+              <option value="">-- Select Grade --</option>
+              <option value="A">Grade A</option>
+              <option value="B">Grade B</option>
+            </select>
+          </div>
+        );
+      case 'condition':
+        return (
+          <div className="form-group">
+            <label htmlFor="bulk_value">New condition</label>
+            <select id="bulk_value" value={value} onChange={(e) => setValue(e.target.value)}>
+              <option value="">-- Select Condition --</option>
+              {Object.entries(CONDITION_LABELS).map(([code, label]) => (
+                <option key={code} value={code}>{label}</option>
+              ))}
+            </select>
+          </div>
+        );
+      case 'sale_status':
+        return (
+          <div className="form-group">
+            <label htmlFor="bulk_value">New status</label>
+            <select id="bulk_value" value={value} onChange={(e) => setValue(e.target.value)}>
+              <option value="">-- Select Status --</option>
+              <option value="AV">Available</option>
+              <option value="RS">Reserved</option>
+              <option value="RT">Returned</option>
+            </select>
+          </div>
+        );
+      default:
+        return (
+          <p className="modal-description">
+            Sold units are archived; other selected units are left unchanged.
+          </p>
+        );
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={applyMutation.isPending ? undefined : onClose}>
+      <div className="modal-content modal-content-large bulk-edit-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Bulk Edit {unitIds.length} Unit{unitIds.length !== 1 ? 's' : ''}</h2>
+          <button className="modal-close" onClick={onClose} disabled={applyMutation.isPending}>×</button>
+        </div>
+
+        <div className="form-section">
+          <div className="bulk-edit-actions" role="tablist">
+            {ACTIONS.map((option) => (
+              <button
+                key={option.value}
+                type="button"
+                role="tab"
+                aria-selected={action === option.value}
+                className={`btn-small ${action === option.value ? 'btn-primary' : 'btn-secondary'}`}
+                onClick={() => handleActionChange(option.value)}
+                disabled={applyMutation.isPending}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="bulk-edit-inputs">{renderValueInput()}</div>
+
+          {isLoading ? (
+            <p className="modal-description">Loading selected units…</p>
+          ) : loadError ? (
+            <p className="bulk-edit-error">{getErrorMessage(loadError, 'Bulk operation failed')}</p>
+          ) : (
+            <>
+              <p className="modal-description">
+                <strong>{changedRows.length}</strong> of {rows.length} unit(s) will change.
+              </p>
+              <div className="colors-table-container bulk-edit-diff">
+                <table className="colors-table">
+                  <thead>
+                    <tr>
+                      <th>Unit</th>
+                      <th>Before</th>
+                      <th>After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => (
+                      <tr key={row.unit.id} className={row.changed ? 'is-changed' : 'is-unchanged'}>
+                        <td>{getUnitLabel(row.unit)}</td>
+                        <td>{formatValue(action, row.before)}</td>
+                        <td>
+                          {row.changed ? formatValue(action, row.after) : <em>{row.note || 'No change'}</em>}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={applyMutation.isPending}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className={action === 'archive' ? 'btn-danger' : 'btn-primary'}
+              onClick={handleApply}
+              disabled={applyMutation.isPending || changedRows.length === 0}
+            >
+              {applyMutation.isPending ? 'Applying...' : `Apply to ${changedRows.length} unit(s)`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -3,6 +3,12 @@ import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
 import { UnitsService } from '../api/index';
 import { getApiRoot } from '../api/config';
 import { UnitForm } from './UnitForm';
+import { UnitInspectionForm } from './UnitInspectionForm';
+import { UnitInspections } from './UnitInspections';
+import { UnitLabelDialog } from './UnitLabelDialog';
+import { UnitStockAdjustments } from './UnitStockAdjustments';
+import { UnitTimeline } from './UnitTimeline';
+import { UnitWarranty } from './UnitWarranty';
 
 interface UnitDetailsModalProps {
   unitId: number;
@@ -12,6 +18,8 @@ interface UnitDetailsModalProps {
 
 export const UnitDetailsModal: React.FC<UnitDetailsModalProps> = ({ unitId, onClose, isEditable = false }) => {
   const [isEditing, setIsEditing] = useState(false);
+  const [showLabelDialog, setShowLabelDialog] = useState(false);
+  const [showInspectionForm, setShowInspectionForm] = useState(false);
   const queryClient = useQueryClient();
   const { data: unit, isLoading, error } = useQuery({
     queryKey: ['unit-details', unitId],
@@ -164,6 +172,8 @@ export const UnitDetailsModal: React.FC<UnitDetailsModalProps> = ({ unitId, onCl
   };
 
   const statusInfo = formatStatus(unit.sale_status);
+  // Refurbished, pre-owned and defective units go through the inspection checklist
+  const isInspectable = unit.condition === 'R' || unit.condition === 'P' || unit.condition === 'D';
 
   // If editing and unit is loaded, show UnitForm
   if (isEditing && unit && isEditable) {
@@ -192,8 +202,36 @@ export const UnitDetailsModal: React.FC<UnitDetailsModalProps> = ({ unitId, onCl
         <div className="modal-header">
           <h2>Inventory Unit Details</h2>
           <div style={{ display: 'flex', gap: '1rem', alignItems: 'center' }}>
+            <button
+              className="btn-secondary"
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowLabelDialog(true);
+              }}
+              style={{
+                padding: 'var(--spacing-sm) var(--spacing-md)',
+                fontSize: 'var(--font-size-14)',
+              }}
+            >
+              🏷️ Print Label
+            </button>
             {isEditable && (
               <>
+                {isInspectable && (
+                  <button
+                    className="btn-secondary"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setShowInspectionForm(true);
+                    }}
+                    style={{
+                      padding: 'var(--spacing-sm) var(--spacing-md)',
+                      fontSize: 'var(--font-size-14)',
+                    }}
+                  >
+                    🔍 Inspect
+                  </button>
+                )}
                 <button
                   className="btn-secondary"
                   onClick={(e) => {
@@ -405,6 +443,18 @@ export const UnitDetailsModal: React.FC<UnitDetailsModalProps> = ({ unitId, onCl
                   </span>
                 </div>
               )}
+              {unit.purchase_order_reference && (
+                <div className="details-row">
+                  <span className="detail-label">Purchase Order:</span>
+                  <span className="detail-value">{unit.purchase_order_reference}</span>
+                </div>
+              )}
+              {unit.import_shipment_reference && (
+                <div className="details-row">
+                  <span className="detail-label">Import Shipment:</span>
+                  <span className="detail-value">{unit.import_shipment_reference}</span>
+                </div>
+              )}
             </div>
 
             {/* Images */}
@@ -482,10 +532,51 @@ export const UnitDetailsModal: React.FC<UnitDetailsModalProps> = ({ unitId, onCl
                 </div>
               </div>
             )}
+
+            {/* Refurbished, pre-owned and defective units: inspection checklists */}
+            {isInspectable && (
+              <div className="details-section" style={{ gridColumn: '1 / -1' }}>
+                <h3>Inspections</h3>
+                <UnitInspections unitId={unitId} />
+              </div>
+            )}
+
+            {/* Sold units: warranty and claims */}
+            {(unit.sale_status === 'SD' || unit.warranty_end_date) && (
+              <div className="details-section" style={{ gridColumn: '1 / -1' }}>
+                <h3>Warranty</h3>
+                <UnitWarranty
+                  unitId={unitId}
+                  unitLabel={`${unit.product_template_name ?? 'Unit'} · ${unit.imei || unit.serial_number || `#${unitId}`}`}
+                  canEdit={isEditable}
+                />
+              </div>
+            )}
+
+            {/* Quantity-tracked accessories: stock adjustment ledger */}
+            {unit.product_type === 'AC' && !unit.serial_number && (
+              <div className="details-section" style={{ gridColumn: '1 / -1' }}>
+                <h3>Stock Adjustments</h3>
+                <UnitStockAdjustments unitId={unitId} quantity={unit.quantity ?? 1} canAdjust={isEditable} />
+              </div>
+            )}
+
+            {/* Lifecycle timeline */}
+            <div className="details-section" style={{ gridColumn: '1 / -1' }}>
+              <h3>History</h3>
+              <UnitTimeline unitId={unitId} onNavigate={onClose} />
+            </div>
           </div>
         </div>
+        {showLabelDialog && <UnitLabelDialog unitIds={[unitId]} onClose={() => setShowLabelDialog(false)} />}
+        {showInspectionForm && (
+          <UnitInspectionForm
+            unit={unit}
+            onClose={() => setShowInspectionForm(false)}
+            onSaved={() => setShowInspectionForm(false)}
+          />
+        )}
       </div>
     </div>
   );
 };
-
@@ -0,0 +1,221 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getErrorMessage } from '../api/client';
+import type { UnitsListParams } from '../api/unitsList';
+import { exportUnits, UNIT_EXPORT_COLUMNS, type UnitsExportFormat } from '../api/unitsExport';
+import { downloadBlob } from '../utils/csv';
+
+interface UnitExportDialogProps {
+  /** Filters of the current UnitsPage view. */
+  listParams: UnitsListParams;
+  /** Units matching `listParams` (the list's `count`). */
+  matchingCount: number;
+  selectedIds: number[];
+  onClose: () => void;
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const COLUMNS_STORAGE_KEY = 'unit-export-columns';
+
+const loadColumns = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY) || 'null');
+    if (Array.isArray(stored)) {
+      const known = stored.filter((key) => UNIT_EXPORT_COLUMNS.some((column) => column.key === key));
+      if (known.length) return known;
+    }
+  } catch {
+    // Fall through to the defaults
+  }
+  return UNIT_EXPORT_COLUMNS.filter((column) => column.default).map((column) => column.key);
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+/**
+ * Export the current units view (or just the selected units) as CSV or XLSX with a chosen set of
+ * columns. The file is read in chunks so progress is shown and the download can be cancelled.
+ */
+export const UnitExportDialog: React.FC<UnitExportDialogProps> = ({
+  listParams,
+  matchingCount,
+  selectedIds,
+  onClose,
+  showToast,
+}) => {
+  const [format, setFormat] = useState<UnitsExportFormat>('csv');
+  const [scope, setScope] = useState<'view' | 'selected'>(selectedIds.length > 0 ? 'selected' : 'view');
+  const [columns, setColumns] = useState<string[]>(loadColumns);
+  const [progress, setProgress] = useState<{ loaded: number; total?: number } | null>(null);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const isExporting = progress !== null;
+  const rowCount = scope === 'selected' ? selectedIds.length : matchingCount;
+
+  // Stop an in-flight download when the dialog goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const toggleColumn = (key: string) => {
+    setColumns((prev) =>
+      prev.includes(key)
+        ? prev.filter((k) => k !== key)
+        : UNIT_EXPORT_COLUMNS.map((column) => column.key).filter((k) => k === key || prev.includes(k))
+    );
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError('');
+    setProgress({ loaded: 0 });
+    localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(columns));
+    try {
+      const blob = await exportUnits(
+        {
+          ...(scope === 'selected' ? { ids: selectedIds } : listParams),
+          columns,
+          file_format: format,
+        },
+        {
+          signal: controller.signal,
+          onProgress: (loaded, total) => setProgress({ loaded, total }),
+        }
+      );
+      downloadBlob(blob, `inventory_units_${new Date().toISOString().slice(0, 10)}.${format}`);
+      showToast(`Exported ${rowCount} unit(s)`, 'success');
+      onClose();
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(getErrorMessage(err, 'Export failed'));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    if (abortRef.current) {
+      abortRef.current.abort();
+      return;
+    }
+    onClose();
+  };
+
+  const percent = progress?.total ? Math.min(100, Math.round((progress.loaded / progress.total) * 100)) : null;
+
+  return (
+    <div className="modal-overlay" onClick={isExporting ? undefined : onClose}>
+      <div className="modal-content unit-export-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Export Units</h2>
+          <button className="modal-close" onClick={handleCancel}>×</button>
+        </div>
+
+        <div className="form-section">
+          <div className="form-group">
+            <label>Units</label>
+            <label className="unit-export-option">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={scope === 'view'}
+                onChange={() => setScope('view')}
+                disabled={isExporting}
+              />
+              All {matchingCount} unit(s) matching the current filters
+            </label>
+            <label className="unit-export-option">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={scope === 'selected'}
+                onChange={() => setScope('selected')}
+                disabled={isExporting || selectedIds.length === 0}
+              />
+              Only the {selectedIds.length} selected unit(s)
+            </label>
+          </div>
+
+          <div className="form-group">
+            <label>Format</label>
+            <label className="unit-export-option">
+              <input
+                type="radio"
+                name="export-format"
+                checked={format === 'csv'}
+                onChange={() => setFormat('csv')}
+                disabled={isExporting}
+              />
+              CSV
+            </label>
+            <label className="unit-export-option">
+              <input
+                type="radio"
+                name="export-format"
+                checked={format === 'xlsx'}
+                onChange={() => setFormat('xlsx')}
+                disabled={isExporting}
+              />
+              Excel (.xlsx)
+            </label>
+          </div>
+
+          <div className="form-group">
+            <label>
+              Columns ({columns.length}/{UNIT_EXPORT_COLUMNS.length})
+              <button
+                type="button"
+                className="btn-small btn-secondary unit-export-toggle-all"
+                onClick={() =>
+                  setColumns(columns.length === UNIT_EXPORT_COLUMNS.length ? [] : UNIT_EXPORT_COLUMNS.map((c) => c.key))
+                }
+                disabled={isExporting}
+              >
+                {columns.length === UNIT_EXPORT_COLUMNS.length ? 'Clear all' : 'Select all'}
+              </button>
+            </label>
+            <div className="unit-export-columns">
+              {UNIT_EXPORT_COLUMNS.map((column) => (
+                <label key={column.key} className="unit-export-option">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    disabled={isExporting}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {isExporting && (
+            <div className="unit-export-progress">
+              <progress max={100} value={percent ?? undefined} />
+              <span>
+                {progress.loaded > 0 ? `Downloaded ${formatBytes(progress.loaded)}` : 'Preparing export…'}
+                {percent !== null && ` (${percent}%)`}
+              </span>
+            </div>
+          )}
+          {error && <p className="unit-export-error">{error}</p>}
+
+          <div className="form-actions">
+            <button type="button" className="btn-secondary" onClick={handleCancel}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={handleExport}
+              disabled={isExporting || columns.length === 0 || rowCount === 0}
+            >
+              {isExporting ? '⏳ Exporting…' : `📥 Export ${format.toUpperCase()}`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
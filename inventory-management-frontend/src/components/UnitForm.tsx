@@ -4,19 +4,25 @@ import {
   UnitsService,
   UnitImagesService,
   ColorsService,
-  SourcesService,
   InventoryUnitRW,
   InventoryUnitRequest,
   Color,
   ProductTemplate,
   ConditionEnum,
   SourceEnum,
+  StockAdjustmentReasonEnum,
   AccessoriesLinkService,
   ProductAccessory,
 } from '../api/index';
 import { useDebounce } from '../hooks/useDebounce';
 // eslint-disable-next-line @typescript-eslint/no-unused-vars -- used via useProductsList() result
 import { useProductsList } from '../hooks/useProductsList';
+import { useColorsList } from '../hooks/useColorsList';
+import { useAcquisitionSources } from '../hooks/useAcquisitionSources';
+import { useImeiCheck } from '../hooks/useImeiCheck';
+import { usePriceSuggestion } from '../hooks/usePriceSuggestion';
+import { normalizeImei } from '../utils/imei';
+import { STOCK_ADJUSTMENT_REASONS } from './UnitStockAdjustments';
 
 /** Searchable color picker (replaces long native select), styled like product template search. */
 const ColorSearchCombobox: React.FC<{
@@ -418,6 +424,10 @@ export const UnitForm: React.FC<UnitFormProps> = ({
   });
 
   const [selectedProductType, setSelectedProductType] = useState<string>('');
+  // Once the user types a price, stop overwriting it with the pricing rule suggestion
+  const [priceTouched, setPriceTouched] = useState(false);
+  // Reason recorded in the stock ledger when an existing accessory's quantity is changed
+  const [quantityReason, setQuantityReason] = useState<StockAdjustmentReasonEnum | ''>('');
   const [showColorForm, setShowColorForm] = useState(false);
   const [newColor, setNewColor] = useState({ name: '', hex_code: '#000000' });
   const [selectedImages, setSelectedImages] = useState<File[]>([]);
@@ -586,23 +596,7 @@ export const UnitForm: React.FC<UnitFormProps> = ({
   }, [recentProducts]);
 
   // Fetch all colors (paginated API) for searchable picker
-  const { data: colorsData } = useQuery({
-    queryKey: ['colors-all'],
-    queryFn: async () => {
-      const results: Color[] = [];
-      let page = 1;
-      for (;;) {
-        const res = await ColorsService.colorsList(page);
-        if (res.results?.length) {
-          results.push(...res.results);
-        }
-        if (!res.next) break;
-        page += 1;
-        if (page > 200) break;
-      }
-      return { results };
-    },
-  });
+  const { data: colorsData } = useColorsList();
 
   // Mutation to create a new color
   const createColorMutation = useMutation({
@@ -647,10 +641,7 @@ export const UnitForm: React.FC<UnitFormProps> = ({
   });
 
   // Fetch acquisition sources for dropdown
-  const { data: sourcesData } = useQuery({
-    queryKey: ['sources-all'],
-    queryFn: () => SourcesService.sourcesList(1),
-  });
+  const { data: sources } = useAcquisitionSources();
 
   // Fetch unit details if editing
   const { data: unitDetails } = useQuery({
@@ -1199,7 +1190,7 @@ export const UnitForm: React.FC<UnitFormProps> = ({
       product_color_id: undefined, // overridden per row for accessories
       acquisition_source_details_id: formData.acquisition_source_details_id || undefined,
       serial_number: formData.serial_number || undefined,
-      imei: formData.imei || undefined,
+      imei: formData.imei ? normalizeImei(formData.imei) : undefined,
     };
   };
 
@@ -1218,8 +1209,15 @@ export const UnitForm: React.FC<UnitFormProps> = ({
         await UnitsService.unitsUpdate(unit.id, {
           ...basePayload,
           product_color_id: row0?.colorId || undefined,
-          quantity: Math.max(1, row0?.quantity ?? 1),
         });
+        // Quantity changes go through the stock ledger rather than the update
+        if (quantityDelta !== 0 && quantityReason) {
+          await UnitsService.unitsAdjustStockCreate(unit.id, {
+            delta: quantityDelta,
+            reason: quantityReason,
+            note: 'Edited in unit form',
+          });
+        }
         for (let i = 0; i < (row0?.imageFiles?.length ?? 0); i++) {
           await UnitImagesService.unitImagesCreate({
             inventory_unit: unit.id,
@@ -1322,8 +1320,24 @@ export const UnitForm: React.FC<UnitFormProps> = ({
       return;
     }
 
+    if (isPhoneOrTablet) {
+      // A legacy IMEI that fails the checksum can stay on an edited unit as long as it is not changed
+      const imeiChanged = normalizeImei(formData.imei || '') !== normalizeImei(unitDetails?.imei || '');
+      const imeiError = imeiCheck.duplicate || (imeiChanged ? imeiCheck.formatError : null);
+      if (imeiError) {
+        alert(imeiError);
+        document.getElementById('imei')?.focus();
+        return;
+      }
+    }
+
     const currentIsAccessory = selectedProductType === 'AC';
     if (currentIsAccessory && variantRows.length > 0) {
+      if (quantityDelta !== 0 && !quantityReason) {
+        alert('Select a reason for the quantity change.');
+        document.getElementById('quantity_reason')?.focus();
+        return;
+      }
       runAccessoryVariantsSubmit();
       return;
     }
@@ -1348,7 +1362,32 @@ export const UnitForm: React.FC<UnitFormProps> = ({
     isSubmittingVariants;
   const isPhoneOrTablet = selectedProductType === 'PH' || selectedProductType === 'TB';
   const isAccessory = selectedProductType === 'AC';
+  const imeiCheck = useImeiCheck(formData.imei || '', {
+    productTemplateId: formData.product_template_id,
+    excludeUnitId: unit?.id,
+    enabled: isPhoneOrTablet,
+  });
   const accessoryHasSerial = isAccessory && !!formData.serial_number?.trim();
+  const quantityDelta =
+    unit?.id && unitDetails && variantRows[0] ? Math.max(1, variantRows[0].quantity) - (unitDetails.quantity ?? 1) : 0;
+
+  const { data: priceSuggestion } = usePriceSuggestion({
+    productTemplateId: formData.product_template_id,
+    condition: formData.condition,
+    grade: formData.grade,
+    source: formData.source,
+    cost: formData.cost_of_unit ?? undefined,
+  });
+  const suggestedPrice = priceSuggestion?.suggested_price ?? null;
+  const floorPrice = priceSuggestion?.floor_price ?? null;
+  const isBelowFloor =
+    floorPrice !== null && !!formData.selling_price && Number(formData.selling_price) < Number(floorPrice);
+
+  // New units start at the suggested price until the user sets one themselves
+  useEffect(() => {
+    if (unit || priceTouched || suggestedPrice === null) return;
+    setFormData((prev) => ({ ...prev, selling_price: suggestedPrice }));
+  }, [unit, priceTouched, suggestedPrice]);
 
   return (
     <div className="modal-overlay" onClick={onClose}>
@@ -2441,6 +2480,26 @@ export const UnitForm: React.FC<UnitFormProps> = ({
                 >
                   + Add another variant
                 </button>
+                {quantityDelta !== 0 && (
+                  <div className="form-group" style={{ marginTop: '0.75rem' }}>
+                    <label htmlFor="quantity_reason">
+                      Reason for quantity change ({quantityDelta > 0 ? `+${quantityDelta}` : quantityDelta}){' '}
+                      <span className="required">*</span>
+                    </label>
+                    <select
+                      id="quantity_reason"
+                      value={quantityReason}
+                      onChange={(e) => setQuantityReason(e.target.value as StockAdjustmentReasonEnum | '')}
+                      disabled={isLoading}
+                    >
+                      <option value="">-- Select Reason --</option>
+                      {Object.entries(STOCK_ADJUSTMENT_REASONS).map(([value, meta]) => (
+                        <option key={value} value={value}>{meta.label}</option>
+                      ))}
+                    </select>
+                    <small className="form-help">Recorded in the unit's stock adjustment history.</small>
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -2476,7 +2535,17 @@ export const UnitForm: React.FC<UnitFormProps> = ({
                     onChange={(e) => setFormData({ ...formData, imei: e.target.value })}
                     required={isPhoneOrTablet}
                     disabled={isLoading}
+                    inputMode="numeric"
+                    aria-invalid={!!(imeiCheck.formatError || imeiCheck.duplicate)}
                   />
+                  {imeiCheck.formatError ? (
+                    <span className="error-text">{imeiCheck.formatError}</span>
+                  ) : imeiCheck.duplicate ? (
+                    <span className="error-text">{imeiCheck.duplicate}</span>
+                  ) : imeiCheck.isChecking ? (
+                    <small className="form-help">Checking IMEI…</small>
+                  ) : null}
+                  {imeiCheck.tacWarning && <span className="warning-text">⚠️ {imeiCheck.tacWarning}</span>}
                 </div>
               )}
             </div>
@@ -2684,13 +2753,36 @@ export const UnitForm: React.FC<UnitFormProps> = ({
                   step="0.01"
                   min="0"
                   value={formData.selling_price || ''}
-                  onChange={(e) => setFormData({
-                    ...formData,
-                    selling_price: e.target.value || '0',
-                  })}
+                  onChange={(e) => {
+                    setPriceTouched(true);
+                    setFormData({
+                      ...formData,
+                      selling_price: e.target.value || '0',
+                    });
+                  }}
                   required
                   disabled={isLoading}
                 />
+                {suggestedPrice !== null && (
+                  <small className="form-help">
+                    Suggested KES {Number(suggestedPrice).toLocaleString()} ({priceSuggestion?.rule_name}){' '}
+                    {Number(formData.selling_price) !== Number(suggestedPrice) && (
+                      <button
+                        type="button"
+                        className="btn-link"
+                        onClick={() => setFormData({ ...formData, selling_price: suggestedPrice })}
+                        disabled={isLoading}
+                      >
+                        Use
+                      </button>
+                    )}
+                  </small>
+                )}
+                {isBelowFloor && (
+                  <span className="warning-text">
+                    ⚠️ Below the {priceSuggestion?.rule_name} margin floor of KES {Number(floorPrice).toLocaleString()}
+                  </span>
+                )}
               </div>
 
               <div className="form-group">
@@ -2752,7 +2844,7 @@ export const UnitForm: React.FC<UnitFormProps> = ({
                   disabled={isLoading || formData.source === 'BB'}
                 >
                   <option value="">Select source</option>
-                  {sourcesData?.results?.map((source) => (
+                  {sources.map((source) => (
                     <option key={source.id} value={source.id}>
                       {source.name}
                     </option>
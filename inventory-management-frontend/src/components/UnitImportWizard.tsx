@@ -0,0 +1,312 @@
+import React, { useMemo, useState } from 'react';
+import {
+  UnitsService,
+  ImportRowStatusEnum,
+  type UnitImportInspection,
+  type UnitImportResult,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { downloadCsv, fileToBase64 } from '../utils/csv';
+
+interface UnitImportWizardProps {
+  onClose: () => void;
+  /** Called after a real (non dry-run) import created at least one unit. */
+  onImported: () => void;
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+type WizardStep = 'upload' | 'map' | 'validate' | 'done';
+
+/** InventoryUnit fields that can be filled from a file column. */
+const IMPORT_FIELDS: Array<{ key: string; label: string; required?: boolean; hint?: string }> = [
+  { key: 'product_template', label: 'Product', required: true, hint: 'Product name or ID' },
+  { key: 'selling_price', label: 'Selling Price', required: true },
+  { key: 'serial_number', label: 'Serial Number' },
+  { key: 'imei', label: 'IMEI' },
+  { key: 'storage_gb', label: 'Storage (GB)' },
+  { key: 'ram_gb', label: 'RAM (GB)' },
+  { key: 'cost_of_unit', label: 'Cost of Unit' },
+  { key: 'condition', label: 'Condition', hint: 'N, R, P or D' },
+  { key: 'grade', label: 'Grade', hint: 'A or B' },
+  { key: 'source', label: 'Source', hint: 'SU, IM or BB' },
+  { key: 'product_color', label: 'Color', hint: 'Color name or ID' },
+];
+
+const ACCEPTED_FILES = '.csv,.xlsx';
+const MAX_ERRORS_SHOWN = 100;
+
+/**
+ * Four-step import for inventory units: upload a CSV/XLSX file, map its columns to unit fields,
+ * validate every row with a server dry run, then import the valid rows. Rejected rows can be
+ * downloaded as a CSV error report at the validate and done steps.
+ */
+export const UnitImportWizard: React.FC<UnitImportWizardProps> = ({ onClose, onImported, showToast }) => {
+  const [step, setStep] = useState<WizardStep>('upload');
+  const [file, setFile] = useState<File | null>(null);
+  const [fileBase64, setFileBase64] = useState('');
+  const [inspection, setInspection] = useState<UnitImportInspection | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+  const [dryRun, setDryRun] = useState<UnitImportResult | null>(null);
+  const [result, setResult] = useState<UnitImportResult | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  const columns = useMemo(() => inspection?.columns ?? [], [inspection]);
+  const missingRequired = IMPORT_FIELDS.filter((field) => field.required && !mapping[field.key]);
+
+  const handleInspect = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setIsWorking(true);
+    setError('');
+    try {
+      const encoded = await fileToBase64(file);
+      const inspected = await UnitsService.unitsImportInspectCreate({ file_name: file.name, file_base64: encoded });
+      setFileBase64(encoded);
+      setInspection(inspected);
+      // Keep only suggestions that point at real columns
+      const suggested: Record<string, string> = {};
+      Object.entries(inspected.suggested_mapping || {}).forEach(([field, column]) => {
+        if (inspected.columns.includes(column)) suggested[field] = column;
+      });
+      setMapping(suggested);
+      setStep('map');
+    } catch (err) {
+      setError(getErrorMessage(err, 'Could not read the file'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const runImport = async (isDryRun: boolean) => {
+    if (!file) return;
+    setIsWorking(true);
+    setError('');
+    try {
+      const response = await UnitsService.unitsImportCsvCreate({
+        file_name: file.name,
+        file_base64: fileBase64,
+        mapping,
+        dry_run: isDryRun,
+      });
+      if (isDryRun) {
+        setDryRun(response);
+        setStep('validate');
+      } else {
+        setResult(response);
+        setStep('done');
+        if (response.created > 0) {
+          showToast(`Imported ${response.created} unit(s)`, 'success');
+          onImported();
+        }
+      }
+    } catch (err) {
+      setError(getErrorMessage(err, isDryRun ? 'Validation failed' : 'Import failed'));
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const downloadErrorReport = (report: UnitImportResult) => {
+    const rejected = report.rows.filter((row) => row.status === ImportRowStatusEnum.ERROR);
+    downloadCsv(
+      ['Row', 'Errors', ...columns],
+      rejected.map((row) => [row.row_number, row.errors.join('; '), ...columns.map((column) => row.values?.[column] ?? '')]),
+      `${(file?.name || 'units').replace(/\.[^.]+$/, '')}-import-errors.csv`
+    );
+  };
+
+  const mappedFields = IMPORT_FIELDS.filter((field) => mapping[field.key]);
+  const dryRunErrors = dryRun?.rows.filter((row) => row.status === ImportRowStatusEnum.ERROR) ?? [];
+  const validCount = dryRun ? dryRun.total_rows - dryRun.failed : 0;
+
+  return (
+    <div className="modal-overlay" onClick={isWorking ? undefined : onClose}>
+      <div className="modal-content modal-content-large import-wizard" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Import Units</h2>
+          <button className="modal-close" onClick={onClose} disabled={isWorking}>×</button>
+        </div>
+
+        <ol className="import-wizard-steps">
+          {(['upload', 'map', 'validate', 'done'] as WizardStep[]).map((s, index) => (
+            <li key={s} className={s === step ? 'is-current' : ''}>
+              {index + 1}. {{ upload: 'Upload', map: 'Map columns', validate: 'Validate', done: 'Import' }[s]}
+            </li>
+          ))}
+        </ol>
+
+        {error && <div className="result-box error">{error}</div>}
+
+        {step === 'upload' && (
+          <form onSubmit={handleInspect} className="form-section">
+            <p className="modal-description">
+              Upload a CSV or Excel (.xlsx) file with one unit per row and a header row. You will map its
+              columns in the next step.
+            </p>
+            <div className="form-group">
+              <label htmlFor="import_file">File <span className="required">*</span></label>
+              <input
+                id="import_file"
+                type="file"
+                accept={ACCEPTED_FILES}
+                onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+                required
+                disabled={isWorking}
+              />
+            </div>
+            <div className="form-actions">
+              <button type="button" onClick={onClose} className="btn-secondary" disabled={isWorking}>
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary" disabled={isWorking || !file}>
+                {isWorking ? 'Reading file...' : 'Next'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {step === 'map' && inspection && (
+          <div className="form-section">
+            <p className="modal-description">
+              {file?.name}: {inspection.total_rows} row(s). Choose which column fills each field.
+            </p>
+            <div className="import-mapping-grid">
+              {IMPORT_FIELDS.map((field) => (
+                <div className="form-group" key={field.key}>
+                  <label htmlFor={`map-${field.key}`}>
+                    {field.label} {field.required && <span className="required">*</span>}
+                  </label>
+                  <select
+                    id={`map-${field.key}`}
+                    value={mapping[field.key] || ''}
+                    onChange={(e) => setMapping((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                  >
+                    <option value="">— Not imported —</option>
+                    {columns.map((column) => (
+                      <option key={column} value={column}>{column}</option>
+                    ))}
+                  </select>
+                  {field.hint && <small className="form-help">{field.hint}</small>}
+                </div>
+              ))}
+            </div>
+
+            {mappedFields.length > 0 && inspection.sample_rows.length > 0 && (
+              <div className="colors-table-container">
+                <table className="colors-table">
+                  <thead>
+                    <tr>
+                      {mappedFields.map((field) => <th key={field.key}>{field.label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {inspection.sample_rows.map((row, rowIndex) => (
+                      <tr key={rowIndex}>
+                        {mappedFields.map((field) => (
+                          <td key={field.key}>{row[columns.indexOf(mapping[field.key])] ?? ''}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <div className="form-actions">
+              <button type="button" onClick={() => setStep('upload')} className="btn-secondary" disabled={isWorking}>
+                Back
+              </button>
+              <button
+                type="button"
+                className="btn-primary"
+                onClick={() => runImport(true)}
+                disabled={isWorking || missingRequired.length > 0}
+                title={missingRequired.length ? `Map ${missingRequired.map((f) => f.label).join(', ')} first` : undefined}
+              >
+                {isWorking ? 'Validating...' : 'Validate (dry run)'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'validate' && dryRun && (
+          <div className="form-section">
+            <div className={`result-box ${dryRun.failed ? 'error' : 'success'}`}>
+              <h4>Dry run: nothing has been saved yet</h4>
+              <p>Valid: {validCount} | Rejected: {dryRun.failed} | Total: {dryRun.total_rows}</p>
+            </div>
+
+            {dryRunErrors.length > 0 && (
+              <div className="colors-table-container">
+                <table className="colors-table">
+                  <thead>
+                    <tr>
+                      <th>Row</th>
+                      <th>Errors</th>
+                      {mappedFields.map((field) => <th key={field.key}>{field.label}</th>)}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dryRunErrors.slice(0, MAX_ERRORS_SHOWN).map((row) => (
+                      <tr key={row.row_number}>
+                        <td>{row.row_number}</td>
+                        <td className="import-row-errors">{row.errors.join('; ')}</td>
+                        {mappedFields.map((field) => (
+                          <td key={field.key}>{row.values?.[mapping[field.key]] ?? ''}</td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            {dryRunErrors.length > MAX_ERRORS_SHOWN && (
+              <p className="modal-description">
+                Showing the first {MAX_ERRORS_SHOWN} of {dryRunErrors.length} rejected rows. Download the report for all of them.
+              </p>
+            )}
+
+            <div className="form-actions">
+              <button type="button" onClick={() => setStep('map')} className="btn-secondary" disabled={isWorking}>
+                Back to mapping
+              </button>
+              {dryRunErrors.length > 0 && (
+                <button type="button" className="btn-secondary" onClick={() => downloadErrorReport(dryRun)}>
+                  Download error report
+                </button>
+              )}
+              <button
+                type="button"
+                className="btn-primary"
+                onClick={() => runImport(false)}
+                disabled={isWorking || validCount === 0}
+              >
+                {isWorking ? 'Importing...' : `Import ${validCount} valid row(s)`}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="form-section">
+            <div className={`result-box ${result.failed ? 'error' : 'success'}`}>
+              <h4>Import finished</h4>
+              <p>Created: {result.created} | Rejected: {result.failed}</p>
+            </div>
+            <div className="form-actions">
+              {result.failed > 0 && (
+                <button type="button" className="btn-secondary" onClick={() => downloadErrorReport(result)}>
+                  Download error report
+                </button>
+              )}
+              <button type="button" className="btn-primary" onClick={onClose}>
+                Close
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  GradeEnum,
+  InspectionItemKindEnum,
+  InspectionResultEnum,
+  UnitImagesService,
+  UnitsService,
+  type InspectionItem,
+  type InventoryUnit,
+  type UnitInspectionRequest,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { useInspectionItems } from '../hooks/useInspectionItems';
+import { INSPECTION_RESULT_LABELS, getApplicableItems, getPercentResult, suggestGrade } from '../utils/inspection';
+
+interface UnitInspectionFormProps {
+  unit: InventoryUnit;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+interface Answer {
+  result: InspectionResultEnum | null;
+  value: string;
+  notes: string;
+  image: number | null;
+  imageUrl: string | null;
+}
+
+const EMPTY_ANSWER: Answer = { result: null, value: '', notes: '', image: null, imageUrl: null };
+
+/** Result of one answer; percent items are graded from their value. */
+const getResult = (item: InspectionItem, answer: Answer) =>
+  item.kind === InspectionItemKindEnum.PERCENT
+    ? getPercentResult(item, answer.value === '' ? null : Number(answer.value))
+    : answer.result;
+
+/**
+ * Refurbishment inspection checklist for one unit: a result per applicable checklist item with
+ * optional notes and photo (uploaded as a unit image), a suggested grade from the results, and the
+ * grade to set on the unit when the inspection is saved.
+ */
+export const UnitInspectionForm: React.FC<UnitInspectionFormProps> = ({ unit, onClose, onSaved }) => {
+  const queryClient = useQueryClient();
+  const { data: allItems, isLoading: loadingItems, error: itemsError } = useInspectionItems();
+  const [answers, setAnswers] = useState<Record<number, Answer>>({});
+  const [notes, setNotes] = useState('');
+  /** null follows the suggested grade; '' keeps the unit's current grade. */
+  const [gradeChoice, setGradeChoice] = useState<GradeEnum | '' | null>(null);
+  const [uploadingItemId, setUploadingItemId] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  const items = useMemo(() => getApplicableItems(allItems, unit.product_type), [allItems, unit.product_type]);
+  const results = useMemo(
+    () => Object.fromEntries(items.map((item) => [item.id, getResult(item, answers[item.id] ?? EMPTY_ANSWER)])),
+    [items, answers]
+  );
+  const missing = items.filter((item) => !results[item.id]);
+  const suggestedGrade = suggestGrade(items, results);
+  const gradeValue = gradeChoice ?? suggestedGrade ?? '';
+
+  const updateAnswer = (itemId: number, patch: Partial<Answer>) =>
+    setAnswers((prev) => ({ ...prev, [itemId]: { ...(prev[itemId] ?? EMPTY_ANSWER), ...patch } }));
+
+  const saveMutation = useMutation({
+    mutationFn: (body: UnitInspectionRequest) => UnitsService.unitsInspectCreate(unit.id!, body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['units', 'inspections', unit.id] });
+      queryClient.invalidateQueries({ queryKey: ['unit-details', unit.id] });
+      queryClient.invalidateQueries({ queryKey: ['units'] });
+      onSaved();
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const handlePhoto = async (itemId: number, file: File | undefined) => {
+    if (!file || !unit.id) return;
+    setError('');
+    setUploadingItemId(itemId);
+    try {
+      const image = await UnitImagesService.unitImagesCreate({ inventory_unit: unit.id, image: file, is_primary: false });
+      updateAnswer(itemId, { image: image.id ?? null, imageUrl: image.image_url ?? null });
+      queryClient.invalidateQueries({ queryKey: ['unit-details', unit.id] });
+    } catch (err) {
+      setError(`Photo upload failed: ${getErrorMessage(err)}`);
+    } finally {
+      setUploadingItemId(null);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (missing.length) {
+      setError(`Complete every check first: ${missing.map((item) => item.label).join(', ')}.`);
+      return;
+    }
+    saveMutation.mutate({
+      results: items.map((item) => {
+        const answer = answers[item.id] ?? EMPTY_ANSWER;
+        return {
+          item: item.id,
+          result: results[item.id]!,
+          value: item.kind === InspectionItemKindEnum.PERCENT && answer.value !== '' ? Number(answer.value) : null,
+          notes: answer.notes.trim() || undefined,
+          image: answer.image,
+        };
+      }),
+      notes: notes.trim() || undefined,
+      applied_grade: gradeValue || null,
+    });
+  };
+
+  const isSaving = saveMutation.isPending;
+
+  const renderResultInput = (item: InspectionItem, answer: Answer) => {
+    const labels = INSPECTION_RESULT_LABELS[item.kind ?? InspectionItemKindEnum.PASS_FAIL];
+    if (item.kind === InspectionItemKindEnum.PERCENT) {
+      const result = results[item.id];
+      return (
+        <>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            value={answer.value}
+            onChange={(e) => updateAnswer(item.id, { value: e.target.value })}
+            disabled={isSaving}
+            aria-label={`${item.label} (%)`}
+          />
+          %
+          {result && (
+            <span className={`inspection-result inspection-result--${result}`}>{labels[result]}</span>
+          )}
+          {item.min_value != null && <small className="form-help"> Min {item.min_value}%</small>}
+        </>
+      );
+    }
+    const options =
+      item.kind === InspectionItemKindEnum.LOCK_STATUS
+        ? [InspectionResultEnum.PASS, InspectionResultEnum.FAIL]
+        : [InspectionResultEnum.PASS, InspectionResultEnum.FAIL, InspectionResultEnum.NA];
+    return (
+      <div className="inspection-result-options" role="radiogroup" aria-label={item.label}>
+        {options.map((option) => (
+          <label key={option} className="unit-export-option">
+            <input
+              type="radio"
+              name={`inspection-item-${item.id}`}
+              checked={answer.result === option}
+              onChange={() => updateAnswer(item.id, { result: option })}
+              disabled={isSaving}
+            />
+            {labels[option]}
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="modal-overlay" onClick={isSaving ? undefined : onClose}>
+      <div className="modal-content modal-content-large" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Inspect {unit.product_template_name || `Unit #${unit.id}`}</h2>
+          <button className="modal-close" onClick={onClose} disabled={isSaving}>×</button>
+        </div>
+
+        {loadingItems ? (
+          <div className="loading">Loading checklist...</div>
+        ) : itemsError ? (
+          <p className="error-text">{getErrorMessage(itemsError)}</p>
+        ) : items.length === 0 ? (
+          <p className="form-help">
+            No inspection items apply to this product type. An Inventory Manager can set up the checklist under
+            Inspection Checklist.
+          </p>
+        ) : (
+          <form onSubmit={handleSubmit} className="form-section">
+            <div className="colors-table-container">
+              <table className="colors-table inspection-table">
+                <thead>
+                  <tr>
+                    <th>Check</th>
+                    <th>Result</th>
+                    <th>Notes</th>
+                    <th>Photo</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {items.map((item) => {
+                    const answer = answers[item.id] ?? EMPTY_ANSWER;
+                    return (
+                      <tr key={item.id}>
+                        <td className="color-name-cell">
+                          {item.label}
+                          {item.critical && (
+                            <span className="inspection-critical" title="A fail means the unit cannot be graded">
+                              {' '}
+                              ⚠️
+                            </span>
+                          )}
+                        </td>
+                        <td>{renderResultInput(item, answer)}</td>
+                        <td>
+                          <input
+                            type="text"
+                            value={answer.notes}
+                            onChange={(e) => updateAnswer(item.id, { notes: e.target.value })}
+                            maxLength={255}
+                            disabled={isSaving}
+                            aria-label={`${item.label} notes`}
+                          />
+                        </td>
+                        <td>
+                          {answer.imageUrl ? (
+                            <a href={answer.imageUrl} target="_blank" rel="noopener noreferrer">
+                              <img src={answer.imageUrl} alt={item.label} className="inspection-photo" />
+                            </a>
+                          ) : uploadingItemId === item.id ? (
+                            <span className="form-help">Uploading...</span>
+                          ) : (
+                            <label className="btn-link">
+                              📷 Add
+                              <input
+                                type="file"
+                                accept="image/*"
+                                hidden
+                                disabled={isSaving || uploadingItemId !== null}
+                                onChange={(e) => handlePhoto(item.id, e.target.files?.[0])}
+                              />
+                            </label>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="inspection-notes">Notes</label>
+              <textarea
+                id="inspection-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                disabled={isSaving}
+              />
+            </div>
+
+            <div className="form-row">
+              <div className="form-group">
+                <label>Suggested grade</label>
+                <p>
+                  {missing.length ? (
+                    <span className="form-help">{missing.length} check(s) left</span>
+                  ) : suggestedGrade ? (
+                    <strong>Grade {suggestedGrade}</strong>
+                  ) : (
+                    <span className="warning-text">None — a critical check failed. Consider condition Defective.</span>
+                  )}
+                </p>
+              </div>
+              <div className="form-group">
+                <label htmlFor="inspection-grade">Set unit grade</label>
+                <select
+                  id="inspection-grade"
+                  value={gradeValue}
+                  onChange={(e) => setGradeChoice(e.target.value as GradeEnum | '')}
+                  disabled={isSaving}
+                >
+                  <option value="">Keep current ({(unit.grade as string | null) || 'none'})</option>
+                  <option value={GradeEnum.A}>Grade A</option>
+                  <option value={GradeEnum.B}>Grade B</option>
+                </select>
+              </div>
+            </div>
+
+            {error && <p className="error-text">{error}</p>}
+
+            <div className="form-actions">
+              <button type="button" onClick={onClose} className="btn-secondary" disabled={isSaving}>
+                Cancel
+              </button>
+              <button type="submit" className="btn-primary" disabled={isSaving || uploadingItemId !== null}>
+                {isSaving ? 'Saving...' : 'Save Inspection'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,85 @@
+import React from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { InspectionItemKindEnum, InspectionResultEnum, UnitsService } from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { INSPECTION_RESULT_LABELS } from '../utils/inspection';
+
+interface UnitInspectionsProps {
+  unitId: number;
+}
+
+/** Completed inspection checklists of one unit, newest first, with each item's result, notes and photo. */
+export const UnitInspections: React.FC<UnitInspectionsProps> = ({ unitId }) => {
+  const { data: inspections = [], isLoading, error } = useQuery({
+    queryKey: ['units', 'inspections', unitId],
+    queryFn: () => UnitsService.unitsInspectionsList(unitId),
+  });
+
+  if (isLoading) {
+    return <div className="loading">Loading inspections...</div>;
+  }
+
+  if (error) {
+    return <p className="error-text">{getErrorMessage(error)}</p>;
+  }
+
+  if (inspections.length === 0) {
+    return <p className="form-help">This unit has not been inspected yet.</p>;
+  }
+
+  return (
+    <div className="unit-inspections">
+      {inspections.map((inspection) => (
+        <details key={inspection.id} className="unit-inspection" open={inspection.id === inspections[0].id}>
+          <summary>
+            {new Date(inspection.created_at).toLocaleString()} · {inspection.inspected_by_username || 'Unknown'} ·{' '}
+            {inspection.passed_count} passed, {inspection.failed_count} failed · suggested{' '}
+            {inspection.suggested_grade ? `Grade ${inspection.suggested_grade}` : 'no grade'}
+            {inspection.applied_grade && <> · set to Grade {inspection.applied_grade}</>}
+          </summary>
+          <div className="colors-table-container">
+            <table className="colors-table inspection-table">
+              <thead>
+                <tr>
+                  <th>Check</th>
+                  <th>Result</th>
+                  <th>Notes</th>
+                  <th>Photo</th>
+                </tr>
+              </thead>
+              <tbody>
+                {inspection.results.map((result) => (
+                  <tr key={result.item}>
+                    <td className="color-name-cell">{result.item_label}</td>
+                    <td>
+                      <span className={`inspection-result inspection-result--${result.result}`}>
+                        {result.item_kind === InspectionItemKindEnum.PERCENT && result.value != null
+                          ? `${result.value}%`
+                          : INSPECTION_RESULT_LABELS[result.item_kind][result.result]}
+                      </span>
+                      {result.item_kind === InspectionItemKindEnum.PERCENT &&
+                        result.result === InspectionResultEnum.FAIL && (
+                          <> {INSPECTION_RESULT_LABELS[result.item_kind][result.result]}</>
+                        )}
+                    </td>
+                    <td>{result.notes || '-'}</td>
+                    <td>
+                      {result.image_url ? (
+                        <a href={result.image_url} target="_blank" rel="noopener noreferrer">
+                          <img src={result.image_url} alt={result.item_label} className="inspection-photo" />
+                        </a>
+                      ) : (
+                        '-'
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {inspection.notes && <p className="form-help">{inspection.notes}</p>}
+        </details>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,200 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { LabelOutputFormatEnum } from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { printUnitLabels } from '../api/unitLabels';
+import { useLabelTemplates } from '../hooks/useLabelTemplates';
+import { downloadBlob } from '../utils/csv';
+
+interface UnitLabelDialogProps {
+  unitIds: number[];
+  onClose: () => void;
+  showToast?: (message: string, type: 'success' | 'error') => void;
+}
+
+const MAX_COPIES = 10;
+
+/** Open a rendered PDF in a new tab for the browser's print dialog; download it if popups are blocked. */
+const openPdf = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const opened = window.open(url, '_blank');
+  if (!opened) {
+    URL.revokeObjectURL(url);
+    downloadBlob(blob, filename);
+    return;
+  }
+  // The new tab needs the URL until it has loaded the document
+  window.setTimeout(() => URL.revokeObjectURL(url), 60 * 1000);
+};
+
+/**
+ * Print price tags for one or more units: a PDF on A4 sticker sheets, or a ZPL file to send to a
+ * thermal label printer. Layout and content come from the unit's brand template unless a
+ * template is picked here.
+ */
+export const UnitLabelDialog: React.FC<UnitLabelDialogProps> = ({ unitIds, onClose, showToast }) => {
+  const { data: templates, isLoading: templatesLoading } = useLabelTemplates();
+  const [templateId, setTemplateId] = useState<number | ''>('');
+  const [format, setFormat] = useState(LabelOutputFormatEnum.PDF);
+  const [copies, setCopies] = useState(1);
+  const [startPosition, setStartPosition] = useState(1);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [error, setError] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const template = templates.find((t) => t.id === templateId);
+  const labelsPerSheet = template ? (template.sheet_columns ?? 1) * (template.sheet_rows ?? 1) : null;
+  const labelCount = unitIds.length * copies;
+
+  const handlePrint = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError('');
+    setIsPrinting(true);
+    try {
+      const blob = await printUnitLabels(
+        {
+          unit_ids: unitIds,
+          output_format: format,
+          template: templateId === '' ? null : templateId,
+          copies,
+          start_position: format === LabelOutputFormatEnum.PDF ? startPosition : undefined,
+        },
+        { signal: controller.signal }
+      );
+      const filename = `unit_labels_${new Date().toISOString().slice(0, 10)}.${format}`;
+      if (format === LabelOutputFormatEnum.PDF) {
+        openPdf(blob, filename);
+      } else {
+        downloadBlob(blob, filename);
+      }
+      showToast?.(`${labelCount} label(s) ready to print`, 'success');
+      onClose();
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(getErrorMessage(err, 'Failed to generate labels'));
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsPrinting(false);
+    }
+  };
+
+  return (
+    <div className="modal-overlay" onClick={isPrinting ? undefined : onClose}>
+      <div className="modal-content unit-label-dialog" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Print Labels</h2>
+          <button className="modal-close" onClick={onClose} disabled={isPrinting}>×</button>
+        </div>
+
+        <div className="form-section">
+          <p className="modal-description">
+            {unitIds.length === 1 ? 'Price tag for 1 unit' : `Price tags for ${unitIds.length} units`}: product, storage/RAM,
+            condition/grade, price and a barcode of the IMEI (or serial number).
+          </p>
+
+          <div className="form-group">
+            <label htmlFor="label-template">Template</label>
+            <select
+              id="label-template"
+              value={templateId}
+              onChange={(e) => setTemplateId(e.target.value ? Number(e.target.value) : '')}
+              disabled={isPrinting || templatesLoading}
+            >
+              <option value="">Brand template (automatic)</option>
+              {templates.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.name}
+                  {t.brand_name ? ` – ${t.brand_name}` : t.is_default ? ' – default' : ''}
+                </option>
+              ))}
+            </select>
+            <small className="form-help">
+              Automatic uses each unit's brand template, or the default one.{' '}
+              <Link to="/label-templates" onClick={onClose}>Manage templates</Link>
+            </small>
+          </div>
+
+          <div className="form-group">
+            <label>Output</label>
+            <label className="unit-export-option">
+              <input
+                type="radio"
+                name="label-format"
+                checked={format === LabelOutputFormatEnum.PDF}
+                onChange={() => setFormat(LabelOutputFormatEnum.PDF)}
+                disabled={isPrinting}
+              />
+              PDF – A4 sticker sheets
+            </label>
+            <label className="unit-export-option">
+              <input
+                type="radio"
+                name="label-format"
+                checked={format === LabelOutputFormatEnum.ZPL}
+                onChange={() => setFormat(LabelOutputFormatEnum.ZPL)}
+                disabled={isPrinting}
+              />
+              ZPL – thermal label printer
+            </label>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="label-copies">Copies per unit</label>
+              <input
+                id="label-copies"
+                type="number"
+                min={1}
+                max={MAX_COPIES}
+                value={copies}
+                onChange={(e) => setCopies(Math.min(MAX_COPIES, Math.max(1, Number(e.target.value) || 1)))}
+                disabled={isPrinting}
+              />
+            </div>
+            {format === LabelOutputFormatEnum.PDF && (
+              <div className="form-group">
+                <label htmlFor="label-start">Start at sticker #</label>
+                <input
+                  id="label-start"
+                  type="number"
+                  min={1}
+                  max={labelsPerSheet ?? undefined}
+                  value={startPosition}
+                  onChange={(e) => setStartPosition(Math.max(1, Number(e.target.value) || 1))}
+                  disabled={isPrinting}
+                />
+                <small className="form-help">Skip stickers already used on the first sheet.</small>
+              </div>
+            )}
+          </div>
+
+          <p className="form-help">
+            {labelCount} label(s)
+            {format === LabelOutputFormatEnum.PDF &&
+              labelsPerSheet &&
+              ` on ${Math.ceil((labelCount + startPosition - 1) / labelsPerSheet)} sheet(s) of ${labelsPerSheet}`}
+          </p>
+
+          {error && <p className="error-text">{error}</p>}
+
+          <div className="form-actions">
+            <button type="button" className="btn-secondary" onClick={onClose} disabled={isPrinting}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={handlePrint}
+              disabled={isPrinting || unitIds.length === 0}
+            >
+              {isPrinting ? '⏳ Generating…' : format === LabelOutputFormatEnum.PDF ? '🖨️ Open PDF' : '📥 Download ZPL'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
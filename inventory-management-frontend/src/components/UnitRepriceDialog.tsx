@@ -0,0 +1,170 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import {
+  PricingRulesService,
+  UnitBulkOperationEnum,
+  UnitsService,
+  type RepricePreviewRow,
+  type UnitBulkValuesRequest,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { queryKeys } from '../hooks/queryKeys';
+import type { BulkUndo } from './UnitBulkEditPanel';
+
+interface UnitRepriceDialogProps {
+  unitIds: number[];
+  onClose: () => void;
+  /** Called after a successful update with the request that restores the old prices. */
+  onApplied: (undo: BulkUndo) => void;
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const formatPrice = (value: string | null) => (value === null ? '—' : `KES ${Number(value).toLocaleString()}`);
+
+const isChange = (row: RepricePreviewRow) =>
+  row.suggested_price !== null && Number(row.suggested_price) !== Number(row.current_price ?? NaN);
+
+/**
+ * Reprice the selected units from the pricing rules: the API previews each unit's suggested
+ * price, the user unticks any they want to keep, and the rest are written with a `set_values`
+ * bulk update so the old prices can be restored in one undo request.
+ */
+export const UnitRepriceDialog: React.FC<UnitRepriceDialogProps> = ({ unitIds, onClose, onApplied, showToast }) => {
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+
+  const { data: rows = [], isLoading, error: loadError } = useQuery({
+    queryKey: [...queryKeys.pricingRules(), 'reprice-preview', unitIds],
+    queryFn: () => PricingRulesService.pricingRulesRepricePreviewCreate({ unit_ids: unitIds }),
+    staleTime: 0,
+  });
+
+  const changeRows = useMemo(() => rows.filter(isChange), [rows]);
+  const selectedRows = changeRows.filter((row) => !excluded.has(row.unit));
+
+  const applyMutation = useMutation({
+    mutationFn: () => {
+      const ids = selectedRows.map((row) => row.unit);
+      const toValues = (key: 'current_price' | 'suggested_price') =>
+        selectedRows.map((row) => ({ id: row.unit, selling_price: row[key] } as UnitBulkValuesRequest));
+      return UnitsService.unitsBulkUpdateCreate({
+        unit_ids: ids,
+        operation: UnitBulkOperationEnum.SET_VALUES,
+        values: toValues('suggested_price'),
+      }).then((result) => ({
+        result,
+        undo: {
+          label: `Repriced ${ids.length} unit(s) from pricing rules`,
+          request: { unit_ids: ids, operation: UnitBulkOperationEnum.SET_VALUES, values: toValues('current_price') },
+        },
+      }));
+    },
+    onSuccess: ({ result, undo }) => {
+      showToast(result.message || `Updated ${result.updated} unit(s)`, 'success');
+      onApplied(undo);
+      onClose();
+    },
+    onError: (err) => showToast(getErrorMessage(err, 'Reprice failed'), 'error'),
+  });
+
+  const toggleRow = (unitId: number) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(unitId)) next.delete(unitId);
+      else next.add(unitId);
+      return next;
+    });
+  };
+
+  const describeRow = (row: RepricePreviewRow) => {
+    if (row.suggested_price === null) return <em>No matching rule</em>;
+    if (!isChange(row)) return <em>Already at suggested price</em>;
+    return formatPrice(row.suggested_price);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={applyMutation.isPending ? undefined : onClose}>
+      <div className="modal-content modal-content-large bulk-edit-panel" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Reprice {unitIds.length} Unit{unitIds.length !== 1 ? 's' : ''}</h2>
+          <button className="modal-close" onClick={onClose} disabled={applyMutation.isPending}>×</button>
+        </div>
+
+        <div className="form-section">
+          {isLoading ? (
+            <p className="modal-description">Calculating suggested prices…</p>
+          ) : loadError ? (
+            <p className="bulk-edit-error">{getErrorMessage(loadError, 'Reprice failed')}</p>
+          ) : (
+            <>
+              <p className="modal-description">
+                <strong>{selectedRows.length}</strong> of {rows.length} unit(s) will be repriced. Untick a unit to keep
+                its current price.
+              </p>
+              <div className="colors-table-container bulk-edit-diff">
+                <table className="colors-table">
+                  <thead>
+                    <tr>
+                      <th></th>
+                      <th>Unit</th>
+                      <th>Rule</th>
+                      <th>Current</th>
+                      <th>Suggested</th>
+                      <th>Floor</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((row) => {
+                      const changes = isChange(row);
+                      const belowFloor =
+                        row.floor_price !== null &&
+                        row.current_price !== null &&
+                        Number(row.current_price) < Number(row.floor_price);
+                      return (
+                        <tr
+                          key={row.unit}
+                          className={changes && !excluded.has(row.unit) ? 'is-changed' : 'is-unchanged'}
+                        >
+                          <td>
+                            <input
+                              type="checkbox"
+                              checked={changes && !excluded.has(row.unit)}
+                              disabled={!changes || applyMutation.isPending}
+                              onChange={() => toggleRow(row.unit)}
+                              aria-label={`Reprice ${row.label}`}
+                            />
+                          </td>
+                          <td>{row.label}</td>
+                          <td>{row.rule_name || '—'}</td>
+                          <td>
+                            {formatPrice(row.current_price)}
+                            {belowFloor && <span className="unit-margin-badge" title="Below margin floor">⚠️</span>}
+                          </td>
+                          <td>{describeRow(row)}</td>
+                          <td>{formatPrice(row.floor_price)}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={applyMutation.isPending}>
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={() => applyMutation.mutate()}
+              disabled={applyMutation.isPending || selectedRows.length === 0}
+            >
+              {applyMutation.isPending ? 'Applying...' : `Reprice ${selectedRows.length} unit(s)`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { StockAdjustmentReasonEnum, UnitsService } from '../api/index';
+import { getErrorMessage } from '../api/client';
+
+export const STOCK_ADJUSTMENT_REASONS: Record<StockAdjustmentReasonEnum, { icon: string; label: string }> = {
+  [StockAdjustmentReasonEnum.RESTOCK]: { icon: '📦', label: 'Restock' },
+  [StockAdjustmentReasonEnum.DAMAGED]: { icon: '💥', label: 'Damaged' },
+  [StockAdjustmentReasonEnum.LOST]: { icon: '❓', label: 'Lost' },
+  [StockAdjustmentReasonEnum.CORRECTION]: { icon: '✏️', label: 'Correction' },
+  [StockAdjustmentReasonEnum.RETURNED]: { icon: '↩️', label: 'Returned' },
+};
+
+interface UnitStockAdjustmentsProps {
+  unitId: number;
+  quantity: number;
+  /** Show the adjust form (Inventory Managers / Superusers). */
+  canAdjust?: boolean;
+}
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+
+/**
+ * Stock adjustment ledger of one quantity-tracked (accessory) unit, with a form to add or remove
+ * stock. Every change goes through POST /units/{id}/adjust_stock/ so it is recorded with a reason.
+ */
+export const UnitStockAdjustments: React.FC<UnitStockAdjustmentsProps> = ({ unitId, quantity, canAdjust = false }) => {
+  const queryClient = useQueryClient();
+  const [direction, setDirection] = useState<'add' | 'remove'>('add');
+  const [amount, setAmount] = useState('1');
+  const [reason, setReason] = useState<StockAdjustmentReasonEnum>(StockAdjustmentReasonEnum.RESTOCK);
+  const [note, setNote] = useState('');
+  const [formError, setFormError] = useState('');
+
+  const { data: adjustments = [], isLoading, error } = useQuery({
+    queryKey: ['units', 'stock-adjustments', unitId],
+    queryFn: () => UnitsService.unitsStockAdjustmentsList(unitId),
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: (delta: number) =>
+      UnitsService.unitsAdjustStockCreate(unitId, { delta, reason, note: note.trim() || undefined }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['units'] });
+      queryClient.invalidateQueries({ queryKey: ['unit-details', unitId] });
+      setAmount('1');
+      setNote('');
+    },
+    onError: (err) => setFormError(getErrorMessage(err)),
+  });
+
+  const handleDirectionChange = (next: 'add' | 'remove') => {
+    setDirection(next);
+    setReason(next === 'add' ? StockAdjustmentReasonEnum.RESTOCK : StockAdjustmentReasonEnum.DAMAGED);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFormError('');
+    const value = parseInt(amount, 10);
+    if (!value || value < 1) {
+      setFormError('Enter a quantity of at least 1.');
+      return;
+    }
+    if (direction === 'remove' && value > quantity) {
+      setFormError(`Only ${quantity} in stock.`);
+      return;
+    }
+    adjustMutation.mutate(direction === 'add' ? value : -value);
+  };
+
+  return (
+    <div className="stock-adjustments">
+      {canAdjust && (
+        <form className="stock-adjustments-form" onSubmit={handleSubmit}>
+          <select
+            value={direction}
+            onChange={(e) => handleDirectionChange(e.target.value as 'add' | 'remove')}
+            disabled={adjustMutation.isPending}
+            aria-label="Add or remove stock"
+          >
+            <option value="add">Add</option>
+            <option value="remove">Remove</option>
+          </select>
+          <input
+            type="number"
+            min={1}
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            disabled={adjustMutation.isPending}
+            aria-label="Quantity"
+          />
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as StockAdjustmentReasonEnum)}
+            disabled={adjustMutation.isPending}
+            aria-label="Reason"
+          >
+            {Object.entries(STOCK_ADJUSTMENT_REASONS).map(([value, meta]) => (
+              <option key={value} value={value}>
+                {meta.label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder="Note (optional)"
+            maxLength={255}
+            disabled={adjustMutation.isPending}
+            aria-label="Note"
+          />
+          <button type="submit" className="btn-small btn-primary" disabled={adjustMutation.isPending}>
+            {adjustMutation.isPending ? 'Saving...' : 'Adjust'}
+          </button>
+          {formError && <p className="error-text">{formError}</p>}
+        </form>
+      )}
+
+      {isLoading ? (
+        <div className="loading">Loading adjustments...</div>
+      ) : error ? (
+        <p className="error-text">{getErrorMessage(error)}</p>
+      ) : adjustments.length === 0 ? (
+        <p className="form-help">No stock adjustments recorded for this unit yet.</p>
+      ) : (
+        <div className="colors-table-container">
+          <table className="colors-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Change</th>
+                <th>Quantity</th>
+                <th>Reason</th>
+                <th>By</th>
+              </tr>
+            </thead>
+            <tbody>
+              {adjustments.map((adjustment) => (
+                <tr key={adjustment.id}>
+                  <td>{new Date(adjustment.created_at).toLocaleString()}</td>
+                  <td className={adjustment.delta < 0 ? 'stock-adjustment-out' : 'stock-adjustment-in'}>
+                    {formatDelta(adjustment.delta)}
+                  </td>
+                  <td>
+                    {adjustment.quantity_before} → {adjustment.quantity_after}
+                  </td>
+                  <td>
+                    {STOCK_ADJUSTMENT_REASONS[adjustment.reason]?.icon} {STOCK_ADJUSTMENT_REASONS[adjustment.reason]?.label}
+                    {adjustment.note && <div className="form-help">{adjustment.note}</div>}
+                  </td>
+                  <td>{adjustment.created_by_username || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
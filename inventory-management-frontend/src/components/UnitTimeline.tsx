@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
+import {
+  UnitsService,
+  UnitTimelineCategoryEnum,
+  UnitTimelineRelatedModelEnum,
+  type UnitTimelineEvent,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+
+interface UnitTimelineProps {
+  unitId: number;
+  /** Called before following a link to a related record (e.g. to close the surrounding modal). */
+  onNavigate?: () => void;
+}
+
+const CATEGORY_META: Record<UnitTimelineCategoryEnum, { icon: string; label: string }> = {
+  [UnitTimelineCategoryEnum.CREATED]: { icon: '📦', label: 'Created' },
+  [UnitTimelineCategoryEnum.PRICE]: { icon: '💲', label: 'Price' },
+  [UnitTimelineCategoryEnum.STATUS]: { icon: '🔁', label: 'Status' },
+  [UnitTimelineCategoryEnum.EDIT]: { icon: '✏️', label: 'Edit' },
+  [UnitTimelineCategoryEnum.ARCHIVE]: { icon: '🗄️', label: 'Archive' },
+  [UnitTimelineCategoryEnum.RESERVATION]: { icon: '📌', label: 'Reservation' },
+  [UnitTimelineCategoryEnum.TRANSFER]: { icon: '🔄', label: 'Transfer' },
+  [UnitTimelineCategoryEnum.RETURN]: { icon: '↩️', label: 'Return' },
+  [UnitTimelineCategoryEnum.ORDER]: { icon: '🛒', label: 'Order' },
+  [UnitTimelineCategoryEnum.PAYMENT]: { icon: '💳', label: 'Payment' },
+  [UnitTimelineCategoryEnum.DELIVERY]: { icon: '🚚', label: 'Delivery' },
+  [UnitTimelineCategoryEnum.BUYBACK]: { icon: '🤝', label: 'Buyback' },
+  [UnitTimelineCategoryEnum.LANDED_COST]: { icon: '🚢', label: 'Landed cost' },
+};
+
+/** Deep link to the page that shows the record behind an event, if there is one. */
+const getRelatedLink = (event: UnitTimelineEvent): string | null => {
+  if (event.related_id == null) return null;
+  switch (event.related_model) {
+    case UnitTimelineRelatedModelEnum.RESERVATION_REQUEST:
+      return `/reservation-requests?requestId=${event.related_id}`;
+    case UnitTimelineRelatedModelEnum.UNIT_TRANSFER:
+      return `/unit-transfers?transferId=${event.related_id}`;
+    case UnitTimelineRelatedModelEnum.RETURN_REQUEST:
+      return `/return-requests?requestId=${event.related_id}`;
+    case UnitTimelineRelatedModelEnum.ORDER:
+      return `/orders?orderId=${event.related_id}`;
+    case UnitTimelineRelatedModelEnum.AUDIT_LOG:
+      return '/audit-logs?model_name=InventoryUnit';
+    case UnitTimelineRelatedModelEnum.IMPORT_SHIPMENT:
+      return `/import-shipments/${event.related_id}`;
+    default:
+      return null;
+  }
+};
+
+const formatTimestamp = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleString();
+};
+
+/**
+ * Everything that happened to one unit, oldest first: creation and source, edits from the audit
+ * log, reservations, transfers, returns, orders/payment/delivery, buyback decisions and landed
+ * cost allocations. Built server-side (GET /units/{id}/timeline/) so one request covers all of them.
+ */
+export const UnitTimeline: React.FC<UnitTimelineProps> = ({ unitId, onNavigate }) => {
+  const [category, setCategory] = useState<UnitTimelineCategoryEnum | ''>('');
+
+  const { data: events = [], isLoading, error } = useQuery({
+    queryKey: ['units', 'timeline', unitId],
+    queryFn: () => UnitsService.unitsTimelineList(unitId),
+  });
+
+  // Only offer filters for categories this unit actually has
+  const categories = useMemo(
+    () =>
+      (Object.keys(CATEGORY_META) as UnitTimelineCategoryEnum[]).filter((key) =>
+        events.some((event) => event.category === key)
+      ),
+    [events]
+  );
+  const visibleEvents = category ? events.filter((event) => event.category === category) : events;
+
+  if (isLoading) {
+    return <div className="loading">Loading history...</div>;
+  }
+
+  if (error) {
+    return <p className="error-text">{getErrorMessage(error, 'Failed to load history')}</p>;
+  }
+
+  if (events.length === 0) {
+    return <p className="form-help">No history recorded for this unit yet.</p>;
+  }
+
+  return (
+    <div className="unit-timeline">
+      {categories.length > 1 && (
+        <div className="unit-timeline-filters">
+          <button
+            type="button"
+            className={`unit-timeline-filter ${category === '' ? 'is-active' : ''}`}
+            onClick={() => setCategory('')}
+          >
+            All ({events.length})
+          </button>
+          {categories.map((key) => (
+            <button
+              key={key}
+              type="button"
+              className={`unit-timeline-filter ${category === key ? 'is-active' : ''}`}
+              onClick={() => setCategory(key)}
+            >
+              {CATEGORY_META[key].icon} {CATEGORY_META[key].label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <ol className="unit-timeline-list">
+        {visibleEvents.map((event, index) => {
+          const meta = CATEGORY_META[event.category];
+          const link = getRelatedLink(event);
+          return (
+            <li key={`${event.timestamp}-${index}`} className={`unit-timeline-event unit-timeline-event--${event.category}`}>
+              <span className="unit-timeline-icon" aria-hidden="true">
+                {meta?.icon ?? '•'}
+              </span>
+              <div className="unit-timeline-body">
+                <div className="unit-timeline-title">
+                  {event.title}
+                  {link && (
+                    <Link to={link} className="unit-timeline-link" onClick={onNavigate}>
+                      View
+                    </Link>
+                  )}
+                </div>
+                {event.detail && <div className="unit-timeline-detail">{event.detail}</div>}
+                <div className="unit-timeline-meta">
+                  {formatTimestamp(event.timestamp)}
+                  {event.actor ? ` · ${event.actor}` : ''}
+                </div>
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import {
+  WarrantiesService,
+  WarrantyClaimsService,
+  WarrantyStatusEnum,
+  type WarrantyClaim,
+  type WarrantyClaimOutcomeEnum,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { WARRANTY_CLAIM_OUTCOMES, WARRANTY_CLAIM_STATUSES, WarrantyClaimForm } from './WarrantyClaimForm';
+import { formatKes } from '../utils/format';
+
+interface UnitWarrantyProps {
+  unitId: number;
+  unitLabel: string;
+  /** Show the log / update claim buttons. */
+  canEdit?: boolean;
+}
+
+/** Warranty of one sold unit (started when its order was delivered) and the claims logged against it. */
+export const UnitWarranty: React.FC<UnitWarrantyProps> = ({ unitId, unitLabel, canEdit = false }) => {
+  const [editingClaim, setEditingClaim] = useState<WarrantyClaim | null>(null);
+  const [showClaimForm, setShowClaimForm] = useState(false);
+  const [message, setMessage] = useState('');
+
+  const { data: warranties, isLoading, error } = useQuery({
+    queryKey: ['warranties', 'unit', unitId],
+    queryFn: () => WarrantiesService.warrantiesList(undefined, undefined, undefined, undefined, undefined, undefined, unitId),
+  });
+  const warranty = warranties?.results[0];
+
+  const { data: claims } = useQuery({
+    queryKey: ['warranty-claims', 'unit', unitId],
+    queryFn: () => WarrantyClaimsService.warrantyClaimsList(undefined, undefined, undefined, unitId),
+    enabled: !!warranty,
+  });
+
+  if (isLoading) {
+    return <div className="loading">Loading warranty...</div>;
+  }
+
+  if (error) {
+    return <p className="error-text">{getErrorMessage(error)}</p>;
+  }
+
+  if (!warranty) {
+    return <p className="form-help">No warranty yet. It starts when an order containing this unit is delivered.</p>;
+  }
+
+  const isActive = warranty.status === WarrantyStatusEnum.ACTIVE;
+  const openForm = (claim: WarrantyClaim | null) => {
+    setEditingClaim(claim);
+    setShowClaimForm(true);
+  };
+
+  return (
+    <div className="unit-warranty">
+      <div className="report-section-header">
+        <p>
+          <span className={`warranty-status warranty-status--${warranty.status}`}>
+            {isActive ? `Active · ${warranty.days_remaining} day(s) left` : 'Expired'}
+          </span>{' '}
+          {new Date(warranty.start_date).toLocaleDateString()} – {new Date(warranty.end_date).toLocaleDateString()} (
+          {warranty.months} months)
+          {warranty.customer_name && <> · {warranty.customer_name}</>}
+          {warranty.order && <> · Order {warranty.order.slice(0, 8)}</>}
+        </p>
+        {canEdit && isActive && (
+          <button className="btn-small btn-secondary" onClick={() => openForm(null)}>
+            🛠️ Log Claim
+          </button>
+        )}
+      </div>
+
+      {message && <p className="form-help">{message}</p>}
+
+      {claims && claims.results.length > 0 ? (
+        <div className="colors-table-container">
+          <table className="colors-table">
+            <thead>
+              <tr>
+                <th>Logged</th>
+                <th>Issue</th>
+                <th>Status</th>
+                <th>Outcome</th>
+                <th>Cost</th>
+                {canEdit && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {claims.results.map((claim) => (
+                <tr key={claim.id}>
+                  <td>{new Date(claim.created_at).toLocaleDateString()}</td>
+                  <td>
+                    {claim.issue}
+                    {claim.diagnosis && <div className="form-help">{claim.diagnosis}</div>}
+                  </td>
+                  <td>{claim.status ? WARRANTY_CLAIM_STATUSES[claim.status] : '-'}</td>
+                  <td>{claim.outcome ? WARRANTY_CLAIM_OUTCOMES[claim.outcome as WarrantyClaimOutcomeEnum] : '-'}</td>
+                  <td>{formatKes(claim.cost)}</td>
+                  {canEdit && (
+                    <td>
+                      <button className="btn-action btn-edit" onClick={() => openForm(claim)}>
+                        Update
+                      </button>
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="form-help">No warranty claims.</p>
+      )}
+
+      {showClaimForm && (
+        <WarrantyClaimForm
+          warrantyId={warranty.id}
+          unitLabel={unitLabel}
+          claim={editingClaim}
+          onClose={() => setShowClaimForm(false)}
+          onSaved={(text) => {
+            setShowClaimForm(false);
+            setMessage(text);
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  WarrantyClaimOutcomeEnum,
+  WarrantyClaimStatusEnum,
+  WarrantyClaimsService,
+  type WarrantyClaim,
+  type WarrantyClaimRequest,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { listUnits } from '../api/unitsList';
+
+export const WARRANTY_CLAIM_STATUSES: Record<WarrantyClaimStatusEnum, string> = {
+  [WarrantyClaimStatusEnum.OPEN]: 'Open',
+  [WarrantyClaimStatusEnum.IN_REPAIR]: 'In repair',
+  [WarrantyClaimStatusEnum.RESOLVED]: 'Resolved',
+  [WarrantyClaimStatusEnum.REJECTED]: 'Rejected',
+};
+
+export const WARRANTY_CLAIM_OUTCOMES: Record<WarrantyClaimOutcomeEnum, string> = {
+  [WarrantyClaimOutcomeEnum.REPAIRED]: 'Repaired',
+  [WarrantyClaimOutcomeEnum.REPLACED]: 'Replaced',
+  [WarrantyClaimOutcomeEnum.REFUNDED]: 'Refunded',
+  [WarrantyClaimOutcomeEnum.NO_FAULT]: 'No fault found',
+};
+
+interface WarrantyClaimFormProps {
+  warrantyId: number;
+  /** Unit the warranty covers, for the modal title. */
+  unitLabel: string;
+  /** Claim to edit; omit to log a new claim. */
+  claim?: WarrantyClaim | null;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+/**
+ * Log or update a warranty claim: the reported issue, the diagnosis, and how it was settled.
+ * A replacement is looked up by IMEI or serial number among available units.
+ */
+export const WarrantyClaimForm: React.FC<WarrantyClaimFormProps> = ({ warrantyId, unitLabel, claim, onClose, onSaved }) => {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<WarrantyClaimRequest>({
+    warranty: warrantyId,
+    status: claim?.status ?? WarrantyClaimStatusEnum.OPEN,
+    issue: claim?.issue ?? '',
+    diagnosis: claim?.diagnosis ?? '',
+    outcome: claim?.outcome ?? null,
+    replacement_unit: claim?.replacement_unit ?? null,
+    cost: claim?.cost ?? '0',
+  });
+  const [replacementCode, setReplacementCode] = useState('');
+  const [replacementLabel, setReplacementLabel] = useState(
+    claim?.replacement_unit ? `Unit #${claim.replacement_unit}` : ''
+  );
+  const [isFindingReplacement, setIsFindingReplacement] = useState(false);
+  const [error, setError] = useState('');
+
+  const saveMutation = useMutation({
+    mutationFn: (body: WarrantyClaimRequest) =>
+      claim ? WarrantyClaimsService.warrantyClaimsUpdate(claim.id, body) : WarrantyClaimsService.warrantyClaimsCreate(body),
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: ['warranty-claims'] });
+      queryClient.invalidateQueries({ queryKey: ['warranties'] });
+      queryClient.invalidateQueries({ queryKey: ['reports-warranty-expiry'] });
+      if (saved.replacement_unit) {
+        // The replacement is marked Sold by the API
+        queryClient.invalidateQueries({ queryKey: ['units'] });
+        queryClient.invalidateQueries({ queryKey: ['unit-details', saved.replacement_unit] });
+      }
+      onSaved(claim ? 'Warranty claim updated' : 'Warranty claim logged');
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const update = (patch: Partial<WarrantyClaimRequest>) => setFormData((prev) => ({ ...prev, ...patch }));
+
+  const handleFindReplacement = async () => {
+    const code = replacementCode.trim();
+    if (!code) return;
+    setError('');
+    setIsFindingReplacement(true);
+    try {
+      const page = await listUnits({ search: code, sale_status: 'AV', page_size: 5 });
+      const match = page.results.find((unit) => unit.imei === code || unit.serial_number === code) ?? page.results[0];
+      if (!match?.id) {
+        setError(`No available unit matches "${code}".`);
+        return;
+      }
+      update({ replacement_unit: match.id });
+      setReplacementLabel(`${match.product_template_name ?? 'Unit'} · ${match.imei || match.serial_number || `#${match.id}`}`);
+      setReplacementCode('');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsFindingReplacement(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    if (formData.status === WarrantyClaimStatusEnum.RESOLVED && !formData.outcome) {
+      setError('Choose an outcome to resolve the claim.');
+      return;
+    }
+    if (formData.outcome === WarrantyClaimOutcomeEnum.REPLACED && !formData.replacement_unit) {
+      setError('Find the replacement unit first.');
+      return;
+    }
+    saveMutation.mutate({
+      ...formData,
+      issue: formData.issue.trim(),
+      replacement_unit: formData.outcome === WarrantyClaimOutcomeEnum.REPLACED ? formData.replacement_unit : null,
+      cost: formData.cost === '' ? '0' : formData.cost,
+    });
+  };
+
+  const isLoading = saveMutation.isPending;
+
+  return (
+    <div className="modal-overlay" onClick={isLoading ? undefined : onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{claim ? 'Update Warranty Claim' : 'Log Warranty Claim'}</h2>
+          <button className="modal-close" onClick={onClose} disabled={isLoading}>×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="form-section">
+          <p className="modal-description">{unitLabel}</p>
+
+          <div className="form-group">
+            <label htmlFor="warranty-claim-issue">Issue <span className="required">*</span></label>
+            <textarea
+              id="warranty-claim-issue"
+              value={formData.issue}
+              onChange={(e) => update({ issue: e.target.value })}
+              rows={2}
+              required
+              disabled={isLoading}
+              placeholder="What the customer reported"
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="warranty-claim-diagnosis">Diagnosis</label>
+            <textarea
+              id="warranty-claim-diagnosis"
+              value={formData.diagnosis}
+              onChange={(e) => update({ diagnosis: e.target.value })}
+              rows={2}
+              disabled={isLoading}
+              placeholder="What the technician found"
+            />
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="warranty-claim-status">Status</label>
+              <select
+                id="warranty-claim-status"
+                value={formData.status}
+                onChange={(e) => update({ status: e.target.value as WarrantyClaimStatusEnum })}
+                disabled={isLoading}
+              >
+                {Object.entries(WARRANTY_CLAIM_STATUSES).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="warranty-claim-outcome">Outcome</label>
+              <select
+                id="warranty-claim-outcome"
+                value={(formData.outcome as string | null) ?? ''}
+                onChange={(e) => update({ outcome: (e.target.value || null) as WarrantyClaimOutcomeEnum | null })}
+                disabled={isLoading}
+              >
+                <option value="">Not decided</option>
+                {Object.entries(WARRANTY_CLAIM_OUTCOMES).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="warranty-claim-cost">Cost (KES)</label>
+              <input
+                id="warranty-claim-cost"
+                type="number"
+                min={0}
+                step="0.01"
+                value={formData.cost}
+                onChange={(e) => update({ cost: e.target.value })}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          {formData.outcome === WarrantyClaimOutcomeEnum.REPLACED && (
+            <div className="form-group">
+              <label htmlFor="warranty-claim-replacement">Replacement unit</label>
+              {formData.replacement_unit && <p>{replacementLabel}</p>}
+              <div className="warranty-replacement-lookup">
+                <input
+                  id="warranty-claim-replacement"
+                  type="text"
+                  value={replacementCode}
+                  onChange={(e) => setReplacementCode(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') {
+                      e.preventDefault();
+                      handleFindReplacement();
+                    }
+                  }}
+                  placeholder="IMEI or serial number"
+                  disabled={isLoading || isFindingReplacement}
+                />
+                <button
+                  type="button"
+                  className="btn-small btn-secondary"
+                  onClick={handleFindReplacement}
+                  disabled={isLoading || isFindingReplacement || !replacementCode.trim()}
+                >
+                  {isFindingReplacement ? 'Finding...' : 'Find'}
+                </button>
+              </div>
+              <small className="form-help">
+                The replacement is marked Sold and covered for the rest of this warranty.
+              </small>
+            </div>
+          )}
+
+          {error && <p className="error-text">{error}</p>}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isLoading}>
+              {isLoading ? 'Saving...' : claim ? 'Update' : 'Log Claim'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,13 @@ import React, { createContext, useContext, useState, useEffect, useCallback } fr
 import { useQueryClient } from '@tanstack/react-query';
 import { ProfilesService, User } from '../api/index';
 import { setAuthToken, clearAuthToken, getAuthLoginUrl, getAuthLogoutUrl, getApiRoot } from '../api/config';
+import {
+  subscribeSessionExpired,
+  completeRelogin,
+  cancelRelogin,
+  rememberReturnTo,
+  takeReturnTo,
+} from '../api/session';
 import { queryKeys } from '../hooks/queryKeys';
 
 type ProfileForSync = {
@@ -21,6 +28,12 @@ interface AuthContextType {
   loading: boolean;
   /** Sync auth user from profile (e.g. when profile loads on dashboard so role/access is correct) */
   setUserFromProfile: (profile: ProfileForSync | null) => void;
+  /** True while the API has rejected the token and requests are waiting for a re-login */
+  sessionExpired: boolean;
+  /** Sign in again after session expiry; held requests are retried with the new token */
+  reauthenticate: (username: string, password: string) => Promise<void>;
+  /** Give up on re-login: held requests fail and the user is logged out */
+  cancelReauthentication: () => void;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -36,6 +49,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
   const [hasValidated, setHasValidated] = useState(false);
+  const [sessionExpired, setSessionExpired] = useState(false);
 
   // Check if user is already logged in on mount (only once)
   const validateToken = useCallback(async () => {
@@ -231,6 +245,23 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     return () => window.removeEventListener('storage', handleStorage);
   }, [queryClient, validateToken]);
 
+  // Only prompt for re-login once the session is established; startup validation handles its own 401s.
+  useEffect(() => {
+    if (!isAuthenticated || loading) {
+      return;
+    }
+    return subscribeSessionExpired(() => {
+      console.warn('Session expired, asking user to sign in again');
+      // Drop the stale credentials but keep isAuthenticated/user in memory so the current
+      // route and any unsaved form state stay mounted behind the re-login dialog.
+      clearAuthToken();
+      localStorage.removeItem(AUTH_USER_KEY);
+      localStorage.removeItem(AUTH_PROFILE_KEY);
+      rememberReturnTo(`${window.location.pathname}${window.location.search}`);
+      setSessionExpired(true);
+    });
+  }, [isAuthenticated, loading]);
+
   const login = async (username: string, password: string): Promise<ProfileForSync | null> => {
     try {
       const formData = new URLSearchParams();
@@ -400,8 +431,35 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
+  const reauthenticate = async (username: string, password: string) => {
+    await login(username, password);
+    setSessionExpired(false);
+    // The user stays on this page, so the route remembered for the login page no longer applies
+    takeReturnTo();
+    completeRelogin(localStorage.getItem('auth_token') || '');
+  };
+
+  const cancelReauthentication = () => {
+    setSessionExpired(false);
+    cancelRelogin();
+    logout();
+  };
+
   return (
-    <AuthContext.Provider value={{ isAuthenticated, isAdmin, user, login, logout, loading, setUserFromProfile }}>
+    <AuthContext.Provider
+      value={{
+        isAuthenticated,
+        isAdmin,
+        user,
+        login,
+        logout,
+        loading,
+        setUserFromProfile,
+        sessionExpired,
+        reauthenticate,
+        cancelReauthentication,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
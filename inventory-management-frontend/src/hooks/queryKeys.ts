@@ -9,12 +9,22 @@ export const queryKeys = {
   brands: () => ['brands'] as const,
   colorsAll: () => ['colors-all'] as const,
   sourcesAll: () => ['sources-all'] as const,
+  labelTemplates: () => ['label-templates'] as const,
+  /** Rules list; price suggestions are keyed under it so editing a rule refreshes them */
+  pricingRules: () => ['pricing-rules'] as const,
+  markdownSchedules: () => ['markdown-schedules'] as const,
+  inspectionItems: () => ['inspection-items'] as const,
+  warrantyPolicies: () => ['warranty-policies'] as const,
   productsAll: (search?: string): readonly ['products-all'] | readonly ['products-all', string] => {
     const s = search?.trim();
     if (s) return ['products-all', s] as readonly ['products-all', string];
     return ['products-all'] as const;
   },
+  /** Every page of products, unlike productsAll which holds the first page of a search */
+  productsAllPages: () => ['products-all-pages'] as const,
   orders: (page: number, pageSize: number) => ['orders', page, pageSize] as const,
   promotionsAll: () => ['promotions-all'] as const,
   promotionsAllForAttach: () => ['promotions-all-for-attach'] as const,
+  /** Saved list views belong to one admin – key by profile id so a different login never sees cached views */
+  savedViews: (adminId?: number) => ['saved-views', adminId ?? null] as const,
 };
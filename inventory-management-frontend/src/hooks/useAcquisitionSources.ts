@@ -0,0 +1,17 @@
+import { useQuery } from '@tanstack/react-query';
+import type { AcquisitionSource } from '../api/index';
+import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
+import { queryKeys } from './queryKeys';
+
+/**
+ * Every acquisition source (walks every page of the paginated API), for source pickers that must
+ * offer them all. Pass enabled: false to wait until it is needed.
+ */
+export function useAcquisitionSources(options?: { enabled?: boolean }) {
+  const { data, ...rest } = useQuery({
+    queryKey: queryKeys.sourcesAll(),
+    queryFn: () => fetchAllDrfPages<AcquisitionSource>('/sources/'),
+    enabled: options?.enabled !== false,
+  });
+  return { data: data ?? [], ...rest };
+}
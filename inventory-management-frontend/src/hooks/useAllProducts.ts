@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import type { ProductList } from '../api/index';
+import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
+import { queryKeys } from './queryKeys';
+
+/**
+ * Every product (walks every page of the paginated API), for pickers that must offer the whole
+ * catalogue such as the UnitsPage product filter. Pass enabled: false to wait until it is needed.
+ */
+export function useAllProducts(options?: { enabled?: boolean }) {
+  const { data, ...rest } = useQuery({
+    queryKey: queryKeys.productsAllPages(),
+    queryFn: () => fetchAllDrfPages<ProductList>('/products/'),
+    enabled: options?.enabled !== false,
+    staleTime: 2 * 60 * 1000,
+  });
+  return { data: data ?? [], ...rest };
+}
@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { ColorsService, Color } from '../api/index';
+import { queryKeys } from './queryKeys';
+
+/**
+ * All colors (walks every page of the paginated API). Same cache used by UnitForm's color picker
+ * and the UnitsPage color filter.
+ */
+export function useColorsList(options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: queryKeys.colorsAll(),
+    queryFn: async () => {
+      const results: Color[] = [];
+      let page = 1;
+      for (;;) {
+        const res = await ColorsService.colorsList(page);
+        if (res.results?.length) {
+          results.push(...res.results);
+        }
+        if (!res.next) break;
+        page += 1;
+        if (page > 200) break;
+      }
+      return { results };
+    },
+    enabled: options?.enabled !== false,
+  });
+}
@@ -0,0 +1,73 @@
+import { useQuery } from '@tanstack/react-query';
+import { UnitsService, type UnitImeiCheck } from '../api/index';
+import { getImeiError, normalizeImei } from '../utils/imei';
+import { useDebounce } from './useDebounce';
+
+const STATUS_LABELS: Record<string, string> = {
+  AV: 'available',
+  SD: 'sold',
+  RS: 'reserved',
+  RT: 'returned',
+  PP: 'pending payment',
+};
+
+/**
+ * Turn an IMEI check into user-facing messages: `duplicate` blocks saving, `tacWarning` only
+ * asks the user to double-check the product (the TAC differs from this product's other units).
+ */
+export function describeImeiCheck(check: UnitImeiCheck | undefined, productTemplateId?: number) {
+  if (!check) return { duplicate: null, tacWarning: null };
+
+  const duplicate = check.duplicates.length
+    ? `Already used by ${check.duplicates
+        .map(
+          (unit) =>
+            `Unit #${unit.id} (${unit.product_template_name}, ${
+              unit.is_archived ? 'archived' : STATUS_LABELS[unit.sale_status] || unit.sale_status
+            })`
+        )
+        .join(', ')}`
+    : null;
+
+  let tacWarning: string | null = null;
+  if (productTemplateId && check.product_tacs.length > 0 && !check.product_tacs.includes(check.tac)) {
+    const others = check.tac_products.filter((p) => p.product_template !== productTemplateId);
+    tacWarning = others.length
+      ? `TAC ${check.tac} is normally seen on ${others.map((p) => p.product_template_name).join(', ')} – is this the right product?`
+      : `TAC ${check.tac} doesn't match other units of this product (${check.product_tacs.join(', ')}) – is this the right product?`;
+  }
+
+  return { duplicate, tacWarning };
+}
+
+/**
+ * Live IMEI validation for a form field: checksum/format errors immediately, then (debounced) a
+ * server check for existing units with the same IMEI and a TAC/model consistency warning.
+ */
+export function useImeiCheck(
+  imei: string,
+  options: { productTemplateId?: number; excludeUnitId?: number; enabled?: boolean } = {}
+) {
+  const normalized = normalizeImei(imei);
+  const formatError = getImeiError(normalized);
+  const debouncedImei = useDebounce(normalized, 400);
+  const canCheck = options.enabled !== false && !!debouncedImei && !getImeiError(debouncedImei);
+
+  const query = useQuery({
+    queryKey: ['units', 'imei-check', debouncedImei, options.productTemplateId ?? null, options.excludeUnitId ?? null],
+    queryFn: () => UnitsService.unitsImeiCheckRetrieve(debouncedImei, options.excludeUnitId, options.productTemplateId),
+    enabled: canCheck,
+    staleTime: 30 * 1000,
+  });
+
+  // Ignore results for a value the user has already changed
+  const check = canCheck && debouncedImei === normalized ? query.data : undefined;
+  const { duplicate, tacWarning } = describeImeiCheck(check, options.productTemplateId);
+
+  return {
+    formatError,
+    duplicate,
+    tacWarning,
+    isChecking: !formatError && !!normalized && (debouncedImei !== normalized || query.isFetching),
+  };
+}
@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { InspectionItemsService } from '../api/index';
+import { queryKeys } from './queryKeys';
+
+/**
+ * Shared inspection checklist items. Same cache used by InspectionItemsPage and UnitInspectionForm.
+ */
+export function useInspectionItems(options?: { enabled?: boolean }) {
+  const { data, ...rest } = useQuery({
+    queryKey: queryKeys.inspectionItems(),
+    queryFn: () => InspectionItemsService.inspectionItemsList(),
+    enabled: options?.enabled !== false,
+    staleTime: 5 * 60 * 1000,
+  });
+  return { data: data ?? [], ...rest };
+}
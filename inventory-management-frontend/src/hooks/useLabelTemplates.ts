@@ -0,0 +1,16 @@
+import { useQuery } from '@tanstack/react-query';
+import { LabelTemplatesService } from '../api/index';
+import { queryKeys } from './queryKeys';
+
+/**
+ * Shared label templates list. Same cache used by LabelTemplatesPage and UnitLabelDialog.
+ */
+export function useLabelTemplates(options?: { enabled?: boolean }) {
+  const { data, ...rest } = useQuery({
+    queryKey: queryKeys.labelTemplates(),
+    queryFn: () => LabelTemplatesService.labelTemplatesList(),
+    enabled: options?.enabled !== false,
+    staleTime: 5 * 60 * 1000,
+  });
+  return { data: data ?? [], ...rest };
+}
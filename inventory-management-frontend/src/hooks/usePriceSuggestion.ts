@@ -0,0 +1,51 @@
+import { useQuery } from '@tanstack/react-query';
+import {
+  PricingRulesService,
+  type ConditionEnum,
+  type GradeEnum,
+  type NullEnum,
+  type SourceEnum,
+} from '../api/index';
+import { queryKeys } from './queryKeys';
+import { useDebounce } from './useDebounce';
+
+/**
+ * Selling price suggested by the pricing rules for a unit's product, condition, grade, source and
+ * cost. Debounced on the cost so typing doesn't send a request per keystroke; `data` is undefined
+ * until there is a product and a cost, and its `rule` is null when no rule matches.
+ */
+export function usePriceSuggestion(input: {
+  productTemplateId?: number;
+  condition?: ConditionEnum;
+  grade?: GradeEnum | NullEnum | null;
+  source?: SourceEnum;
+  cost?: string;
+  enabled?: boolean;
+}) {
+  const debouncedCost = useDebounce(input.cost ?? '', 400);
+  const cost = Number(debouncedCost);
+  const canSuggest =
+    input.enabled !== false && !!input.productTemplateId && debouncedCost !== '' && !Number.isNaN(cost) && cost > 0;
+
+  return useQuery({
+    queryKey: [
+      ...queryKeys.pricingRules(),
+      'suggest',
+      input.productTemplateId ?? null,
+      input.condition ?? null,
+      input.grade ?? null,
+      input.source ?? null,
+      debouncedCost,
+    ],
+    queryFn: () =>
+      PricingRulesService.pricingRulesSuggestCreate({
+        product_template: input.productTemplateId!,
+        condition: input.condition,
+        grade: input.grade,
+        source: input.source,
+        cost_of_unit: debouncedCost,
+      }),
+    enabled: canSuggest,
+    staleTime: 60 * 1000,
+  });
+}
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useSearchParams } from 'react-router-dom';
+import {
+  SavedViewsService,
+  ListKeyEnum,
+  type SavedView,
+  type SavedViewRequest,
+  type PatchedSavedViewRequest,
+} from '../api/index';
+import { useAdminProfile } from './useAdminProfile';
+import { queryKeys } from './queryKeys';
+
+/** Route of the list page each saved view belongs to. */
+export const SAVED_VIEW_PATHS: Record<ListKeyEnum, string> = {
+  [ListKeyEnum.UNITS]: '/units',
+  [ListKeyEnum.ORDERS]: '/orders',
+  [ListKeyEnum.UNIT_TRANSFERS]: '/unit-transfers',
+};
+
+export const getSavedViewHref = (view: SavedView) =>
+  `${SAVED_VIEW_PATHS[view.list_key]}${view.query ? `?${view.query}` : ''}`;
+
+/**
+ * The current admin's saved views (all lists in one request – there are only a handful per admin).
+ * Pass a listKey to get just that page's views; mutations keep the shared cache in sync.
+ */
+export function useSavedViews(listKey?: ListKeyEnum) {
+  const queryClient = useQueryClient();
+  const { data: adminProfile } = useAdminProfile();
+  const key = queryKeys.savedViews(adminProfile?.id);
+
+  const query = useQuery({
+    queryKey: key,
+    queryFn: () => SavedViewsService.savedViewsList(),
+    enabled: !!adminProfile?.id,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['saved-views'] });
+
+  const createView = useMutation({
+    mutationFn: (body: SavedViewRequest) => SavedViewsService.savedViewsCreate(body),
+    onSuccess: invalidate,
+  });
+
+  const updateView = useMutation({
+    mutationFn: ({ id, ...body }: PatchedSavedViewRequest & { id: number }) =>
+      SavedViewsService.savedViewsPartialUpdate(id, body),
+    onSuccess: invalidate,
+  });
+
+  const deleteView = useMutation({
+    mutationFn: (id: number) => SavedViewsService.savedViewsDestroy(id),
+    onSuccess: invalidate,
+  });
+
+  const allViews = query.data ?? [];
+  const views = listKey ? allViews.filter((view) => view.list_key === listKey) : allViews;
+
+  return { ...query, views, createView, updateView, deleteView };
+}
+
+/**
+ * Open the admin's default view when a list page is visited without any of its list params
+ * (e.g. from the sidebar). Runs once per mount so clearing filters afterwards sticks.
+ */
+export function useDefaultSavedView(listKey: ListKeyEnum, paramKeys: readonly string[]) {
+  const { views, isSuccess } = useSavedViews(listKey);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const checked = useRef(false);
+
+  useEffect(() => {
+    if (checked.current || !isSuccess) return;
+    checked.current = true;
+    const defaultView = views.find((view) => view.is_default);
+    if (!defaultView?.query || paramKeys.some((key) => searchParams.has(key))) return;
+    const next = new URLSearchParams(searchParams);
+    new URLSearchParams(defaultView.query).forEach((value, key) => next.set(key, value));
+    setSearchParams(next, { replace: true });
+  }, [isSuccess, views, paramKeys, searchParams, setSearchParams]);
+}
@@ -0,0 +1,75 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { useSearchParams } from 'react-router-dom';
+
+type ListStateValue = string | number;
+
+type ListStatePatch<T> = Partial<T> | ((prev: T) => Partial<T>);
+
+type SetListStateOptions = {
+  /** Replace the current history entry instead of pushing one (use for keystrokes, e.g. search). */
+  replace?: boolean;
+};
+
+const parseValue = (raw: string | null, fallback: ListStateValue): ListStateValue => {
+  if (raw === null) return fallback;
+  if (typeof fallback === 'number') {
+    const parsed = Number(raw);
+    return Number.isFinite(parsed) ? parsed : fallback;
+  }
+  return raw;
+};
+
+/**
+ * List page state (filters, search, page, page size) mirrored into the URL query string, so a
+ * filtered view survives refresh, can be shared as a link and works with back/forward.
+ *
+ * - `defaults` fixes the keys and their types (number defaults are parsed as numbers); it is read once.
+ * - Values equal to their default are left out of the URL; params not listed in `defaults`
+ *   (e.g. `orderId` deep links) are kept untouched.
+ * - Any update that does not set `page` resets it to its default, like the per-page
+ *   "reset to first page when a filter changes" effects this replaces.
+ */
+export function useUrlListState<T extends Record<string, ListStateValue>>(defaults: T) {
+  const defaultsRef = useRef(defaults);
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const state = useMemo(() => {
+    const next = { ...defaultsRef.current };
+    (Object.keys(next) as Array<keyof T>).forEach((key) => {
+      next[key] = parseValue(searchParams.get(String(key)), defaultsRef.current[key]) as T[keyof T];
+    });
+    return next;
+  }, [searchParams]);
+
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const setState = useCallback(
+    (patch: ListStatePatch<T>, options?: SetListStateOptions) => {
+      const initial = defaultsRef.current;
+      const changes: Record<string, ListStateValue | undefined> = {
+        ...(typeof patch === 'function' ? patch(stateRef.current) : patch),
+      };
+      if ('page' in initial && !('page' in changes)) {
+        changes.page = initial.page;
+      }
+      setSearchParams(
+        (prev) => {
+          const params = new URLSearchParams(prev);
+          Object.entries(changes).forEach(([key, value]) => {
+            if (value === undefined || value === null || value === '' || value === initial[key]) {
+              params.delete(key);
+            } else {
+              params.set(key, String(value));
+            }
+          });
+          return params;
+        },
+        { replace: options?.replace }
+      );
+    },
+    [setSearchParams]
+  );
+
+  return [state, setState] as const;
+}
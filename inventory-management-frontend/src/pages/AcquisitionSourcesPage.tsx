@@ -6,6 +6,7 @@ import {
   AcquisitionSource,
 } from '../api/index';
 import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
+import { SourcePerformanceReport } from '../components/SourcePerformanceReport';
 
 export const AcquisitionSourcesPage: React.FC = () => {
   const [page, setPage] = useState(1);
@@ -15,6 +16,7 @@ export const AcquisitionSourcesPage: React.FC = () => {
   const [showFilters, setShowFilters] = useState(false);
   const [editingSource, setEditingSource] = useState<AcquisitionSource | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [view, setView] = useState<'list' | 'performance'>('list');
   const queryClient = useQueryClient();
 
   const { data: allSources = [], isLoading, error } = useQuery({
@@ -134,16 +136,39 @@ export const AcquisitionSourcesPage: React.FC = () => {
     return <div className="error">Error loading sources: {(error as Error).message}</div>;
   }
 
+  const pageHeader = (
+    <div className="page-header">
+      <h1>Unit Acquisition Sources</h1>
+      <div className="page-header-actions">
+        <button className="btn-secondary" onClick={() => setView(view === 'list' ? 'performance' : 'list')}>
+          {view === 'list' ? '📊 Performance' : '📋 Sources'}
+        </button>
+        <button className="btn-primary" onClick={handleCreate}>
+          + Create Source
+        </button>
+      </div>
+    </div>
+  );
+
+  if (view === 'performance') {
+    return (
+      <div className="acquisition-sources-page">
+        {pageHeader}
+        <p className="page-description">
+          How the units from each supplier, import partner and the buyback channel sold: sell-through, time to sell,
+          realized margin, and the share that came back as returns or warranty claims.
+        </p>
+        <SourcePerformanceReport />
+        {showCreateModal && (
+          <AcquisitionSourceFormModal source={editingSource} onClose={handleFormClose} onSuccess={handleFormSuccess} />
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="acquisition-sources-page">
-      <div className="page-header">
-        <h1>Unit Acquisition Sources</h1>
-        <div className="page-header-actions">
-          <button className="btn-primary" onClick={handleCreate}>
-            + Create Source
-          </button>
-        </div>
-      </div>
+      {pageHeader}
 
       {/* Summary Statistics Cards */}
       {allSources.length > 0 && (
@@ -0,0 +1,675 @@
+import React, { useMemo, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Navigate } from 'react-router-dom';
+import {
+  MarkdownSchedulesService,
+  ProductTypesEnum,
+  ReportsService,
+  UnitBulkOperationEnum,
+  UnitsService,
+  type AgingInventoryBucket,
+  type AgingInventoryUnit,
+  type MarkdownSchedule,
+  type MarkdownScheduleRequest,
+  type MarkdownStepRequest,
+  type UnitBulkUpdateRequest,
+  type UnitBulkValuesRequest,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import type { BulkUndo } from '../components/UnitBulkEditPanel';
+import { useAdminProfile } from '../hooks/useAdminProfile';
+import { useBrandsList } from '../hooks/useBrandsList';
+import { queryKeys } from '../hooks/queryKeys';
+import { getMarkdownPrice } from '../utils/pricing';
+import { formatKes } from '../utils/format';
+
+/** summary-stat-button colour per age bucket, youngest to oldest. */
+const BUCKET_CLASSES = ['approved', 'pending', 'returned', 'rejected'];
+
+const PRODUCT_TYPE_LABELS: Record<ProductTypesEnum, string> = {
+  [ProductTypesEnum.PH]: 'Phones',
+  [ProductTypesEnum.LT]: 'Laptops',
+  [ProductTypesEnum.TB]: 'Tablets',
+  [ProductTypesEnum.AC]: 'Accessories',
+};
+
+const toMoney = (value: number) => (Math.round(value * 100) / 100).toFixed(2);
+
+const isInBucket = (unit: AgingInventoryUnit, bucket: AgingInventoryBucket) =>
+  unit.days_in_stock >= bucket.min_days && (bucket.max_days === null || unit.days_in_stock <= bucket.max_days);
+
+/** Price before any markdown: the compare-at price once a unit has been marked down. */
+const getOriginalPrice = (unit: AgingInventoryUnit) =>
+  unit.compare_at_price && Number(unit.compare_at_price) > Number(unit.selling_price)
+    ? Number(unit.compare_at_price)
+    : Number(unit.selling_price);
+
+const scheduleMatches = (schedule: MarkdownSchedule, unit: AgingInventoryUnit) =>
+  (!schedule.product_type || schedule.product_type === unit.product_type) &&
+  (!schedule.brand || schedule.brand === unit.brand);
+
+interface Proposal {
+  unit: AgingInventoryUnit;
+  originalPrice: number;
+  percentOff: number;
+  price: number;
+}
+
+/** Price cut `schedule` proposes for an available unit, if it is deeper than its current price. */
+const getProposal = (schedule: MarkdownSchedule | undefined, unit: AgingInventoryUnit): Proposal | null => {
+  if (!schedule || unit.sale_status !== 'AV' || !scheduleMatches(schedule, unit)) return null;
+  const originalPrice = getOriginalPrice(unit);
+  const markdown = getMarkdownPrice(originalPrice, unit.days_in_stock, schedule.steps, schedule.round_to ?? 0);
+  if (!markdown || markdown.price <= 0 || markdown.price >= Number(unit.selling_price)) return null;
+  return { unit, originalPrice, ...markdown };
+};
+
+const describeSteps = (schedule: Pick<MarkdownSchedule, 'steps'>) =>
+  [...schedule.steps]
+    .sort((a, b) => a.after_days - b.after_days)
+    .map((step) => `${Number(step.percent_off)}% after ${step.after_days}d`)
+    .join(', ');
+
+/**
+ * Unsold units bucketed by days since they were sourced, with the cost tied up in each bucket.
+ * Markdown schedules propose age-based price cuts; applying them writes the cut price and keeps
+ * the original as `compare_at_price` so the storefront shows the discount.
+ */
+export const AgingInventoryPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data: adminProfile, isLoading: isLoadingProfile } = useAdminProfile();
+  const { data: brands } = useBrandsList();
+  const [brandFilter, setBrandFilter] = useState<number | ''>('');
+  const [bucketLabel, setBucketLabel] = useState<string>('');
+  const [scheduleId, setScheduleId] = useState<number | ''>('');
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [editingSchedule, setEditingSchedule] = useState<MarkdownSchedule | null>(null);
+  const [showScheduleForm, setShowScheduleForm] = useState(false);
+  const [lastUndo, setLastUndo] = useState<BulkUndo | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const isSuperuser = adminProfile?.user?.is_superuser === true;
+  const isInventoryManager =
+    isSuperuser || !!adminProfile?.roles?.some((role) => role.name === 'IM' || role.role_code === 'IM');
+  const brand = brandFilter === '' ? undefined : brandFilter;
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const { data: report, isLoading, error } = useQuery({
+    queryKey: ['reports-aging-inventory', brand],
+    queryFn: () => ReportsService.reportsAgingInventoryRetrieve(brand),
+    enabled: isInventoryManager,
+  });
+
+  const { data: schedules = [] } = useQuery({
+    queryKey: queryKeys.markdownSchedules(),
+    queryFn: () => MarkdownSchedulesService.markdownSchedulesList(),
+    enabled: isInventoryManager,
+  });
+
+  const activeSchedules = schedules.filter((schedule) => schedule.is_active);
+  const schedule = activeSchedules.find((s) => s.id === scheduleId);
+
+  const visibleUnits = useMemo(() => {
+    const bucket = report?.buckets.find((b) => b.label === bucketLabel);
+    const units = report?.units ?? [];
+    return (bucket ? units.filter((unit) => isInBucket(unit, bucket)) : units)
+      .slice()
+      .sort((a, b) => b.days_in_stock - a.days_in_stock);
+  }, [report, bucketLabel]);
+
+  const proposals = useMemo(() => {
+    const byUnit = new Map<number, Proposal>();
+    visibleUnits.forEach((unit) => {
+      const proposal = getProposal(schedule, unit);
+      if (proposal) byUnit.set(unit.id, proposal);
+    });
+    return byUnit;
+  }, [visibleUnits, schedule]);
+
+  const selectedProposals = Array.from(proposals.values()).filter((p) => !excluded.has(p.unit.id));
+
+  const invalidateAfterPriceChange = () => {
+    queryClient.invalidateQueries({ queryKey: ['reports-aging-inventory'] });
+    queryClient.invalidateQueries({ queryKey: ['units'] });
+  };
+
+  const applyMutation = useMutation({
+    mutationFn: (request: UnitBulkUpdateRequest) => UnitsService.unitsBulkUpdateCreate(request),
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: (undo: BulkUndo) => UnitsService.unitsBulkUpdateCreate(undo.request),
+    onSuccess: () => {
+      invalidateAfterPriceChange();
+      showToast('Markdown undone', 'success');
+      setLastUndo(null);
+    },
+    onError: (err) => showToast(getErrorMessage(err), 'error'),
+  });
+
+  const deleteScheduleMutation = useMutation({
+    mutationFn: (id: number) => MarkdownSchedulesService.markdownSchedulesDestroy(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.markdownSchedules() });
+      showToast('Markdown schedule deleted', 'success');
+    },
+    onError: (err) => showToast(getErrorMessage(err), 'error'),
+  });
+
+  const handleApply = () => {
+    const ids = selectedProposals.map((p) => p.unit.id);
+    if (!window.confirm(`Mark down ${ids.length} unit(s) using "${schedule?.name}"?`)) return;
+    const values = selectedProposals.map(
+      (p) =>
+        ({ id: p.unit.id, selling_price: toMoney(p.price), compare_at_price: toMoney(p.originalPrice) } as UnitBulkValuesRequest)
+    );
+    const previous = selectedProposals.map(
+      (p) =>
+        ({
+          id: p.unit.id,
+          selling_price: p.unit.selling_price,
+          compare_at_price: p.unit.compare_at_price ?? null,
+        } as UnitBulkValuesRequest)
+    );
+    applyMutation.mutate(
+      { unit_ids: ids, operation: UnitBulkOperationEnum.SET_VALUES, values },
+      {
+        onSuccess: (result) => {
+          invalidateAfterPriceChange();
+          showToast(result.message || `Marked down ${result.updated} unit(s)`, 'success');
+          setLastUndo({
+            label: `Marked down ${ids.length} unit(s) with ${schedule?.name}`,
+            request: { unit_ids: ids, operation: UnitBulkOperationEnum.SET_VALUES, values: previous },
+          });
+          setExcluded(new Set());
+        },
+        onError: (err) => showToast(getErrorMessage(err), 'error'),
+      }
+    );
+  };
+
+  const toggleProposal = (unitId: number) => {
+    setExcluded((prev) => {
+      const next = new Set(prev);
+      if (next.has(unitId)) next.delete(unitId);
+      else next.add(unitId);
+      return next;
+    });
+  };
+
+  const handleDeleteSchedule = (target: MarkdownSchedule) => {
+    if (window.confirm(`Delete the markdown schedule "${target.name}"?`)) {
+      deleteScheduleMutation.mutate(target.id);
+    }
+  };
+
+  const openScheduleForm = (target: MarkdownSchedule | null) => {
+    setEditingSchedule(target);
+    setShowScheduleForm(true);
+  };
+
+  if (isLoadingProfile) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  if (!isInventoryManager) {
+    return <Navigate to="/units" replace />;
+  }
+
+  return (
+    <div className="aging-inventory-page">
+      {toast && <div className={`toast toast-${toast.type}`}>{toast.message}</div>}
+
+      <div className="page-header">
+        <h1>Aging Inventory</h1>
+        <div className="page-header-actions">
+          <select
+            value={brandFilter}
+            onChange={(e) => setBrandFilter(e.target.value ? Number(e.target.value) : '')}
+            aria-label="Brand"
+            className="filter-select"
+          >
+            <option value="">All brands</option>
+            {brands.map((b) => (
+              <option key={b.id} value={b.id}>
+                {b.name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <p className="page-description">
+        Unsold units by days since they were sourced, with the cost tied up in each age bracket. Pick a markdown
+        schedule to see the price cuts it proposes; applying them keeps the original price as the compare-at price so
+        the storefront shows the discount.
+      </p>
+
+      {lastUndo && (
+        <div className="bulk-actions-toolbar bulk-undo-bar">
+          <span className="selected-count">✅ {lastUndo.label}</span>
+          <div className="bulk-actions-buttons">
+            <button
+              className="btn-small btn-primary"
+              onClick={() => undoMutation.mutate(lastUndo)}
+              disabled={undoMutation.isPending}
+            >
+              {undoMutation.isPending ? 'Undoing...' : '↩️ Undo'}
+            </button>
+            <button className="btn-small btn-secondary" onClick={() => setLastUndo(null)} disabled={undoMutation.isPending}>
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="loading">Loading aging inventory...</div>
+      ) : error ? (
+        <div className="error">{getErrorMessage(error)}</div>
+      ) : report ? (
+        <>
+          <div className="summary-stats">
+            <button
+              type="button"
+              className={`summary-stat-button summary-stat-button--total ${bucketLabel === '' ? 'is-active' : ''}`}
+              onClick={() => setBucketLabel('')}
+              aria-pressed={bucketLabel === ''}
+            >
+              <span className="summary-stat-label">All · {formatKes(report.total_cost_value)}</span>
+              <span className="summary-stat-value">{report.total_units.toLocaleString()}</span>
+            </button>
+            {report.buckets.map((bucket, index) => (
+              <button
+                key={bucket.label}
+                type="button"
+                className={`summary-stat-button summary-stat-button--${BUCKET_CLASSES[index] ?? 'inactive'} ${
+                  bucketLabel === bucket.label ? 'is-active' : ''
+                }`}
+                onClick={() => setBucketLabel(bucket.label)}
+                aria-pressed={bucketLabel === bucket.label}
+              >
+                <span className="summary-stat-label">
+                  {bucket.label} days · {formatKes(bucket.cost_value)}
+                </span>
+                <span className="summary-stat-value">{bucket.unit_count.toLocaleString()}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="aging-markdown-bar">
+            <label htmlFor="aging-markdown-schedule">Markdown schedule</label>
+            <select
+              id="aging-markdown-schedule"
+              value={scheduleId}
+              onChange={(e) => {
+                setScheduleId(e.target.value ? Number(e.target.value) : '');
+                setExcluded(new Set());
+              }}
+              className="filter-select"
+            >
+              <option value="">None (no proposals)</option>
+              {activeSchedules.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.name} ({describeSteps(s)})
+                </option>
+              ))}
+            </select>
+            {schedule && (
+              <button
+                className="btn-primary"
+                onClick={handleApply}
+                disabled={applyMutation.isPending || selectedProposals.length === 0}
+              >
+                {applyMutation.isPending ? 'Applying...' : `Apply ${selectedProposals.length} price cut(s)`}
+              </button>
+            )}
+          </div>
+
+          {visibleUnits.length === 0 ? (
+            <div className="empty-state">
+              <div className="empty-state-icon">📦</div>
+              <h3>No unsold units in this bracket</h3>
+            </div>
+          ) : (
+            <div className="colors-table-container">
+              <table className="colors-table">
+                <thead>
+                  <tr>
+                    {schedule && <th></th>}
+                    <th>Unit</th>
+                    <th>Sourced</th>
+                    <th>Days</th>
+                    <th>Cost</th>
+                    <th>Price</th>
+                    {schedule && <th>Proposed</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {visibleUnits.map((unit) => {
+                    const proposal = proposals.get(unit.id);
+                    const identifier = unit.imei || unit.serial_number;
+                    const belowCost = proposal && proposal.price < Number(unit.cost_of_unit);
+                    return (
+                      <tr key={unit.id} className={proposal && !excluded.has(unit.id) ? 'is-changed' : undefined}>
+                        {schedule && (
+                          <td>
+                            <input
+                              type="checkbox"
+                              checked={!!proposal && !excluded.has(unit.id)}
+                              disabled={!proposal || applyMutation.isPending}
+                              onChange={() => toggleProposal(unit.id)}
+                              aria-label={`Mark down ${unit.product_name}`}
+                            />
+                          </td>
+                        )}
+                        <td>
+                          {unit.product_name}
+                          {identifier && <div className="aging-unit-meta">{identifier}</div>}
+                        </td>
+                        <td>{unit.date_sourced || '-'}</td>
+                        <td>{unit.days_in_stock}</td>
+                        <td>{formatKes(unit.cost_of_unit)}</td>
+                        <td>
+                          {formatKes(unit.selling_price)}
+                          {unit.compare_at_price && Number(unit.compare_at_price) > Number(unit.selling_price) && (
+                            <div className="aging-unit-meta">
+                              <s>{formatKes(unit.compare_at_price)}</s>
+                            </div>
+                          )}
+                        </td>
+                        {schedule && (
+                          <td>
+                            {proposal ? (
+                              <>
+                                {formatKes(proposal.price)} <span className="form-help">(−{proposal.percentOff}%)</span>
+                                {belowCost && <span className="unit-margin-badge">⚠️ Below cost</span>}
+                              </>
+                            ) : (
+                              '—'
+                            )}
+                          </td>
+                        )}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      ) : null}
+
+      <div className="report-section">
+        <div className="report-section-header">
+          <h2 className="section-title">Markdown Schedules</h2>
+          <button className="btn-secondary" onClick={() => openScheduleForm(null)}>
+            + Create Schedule
+          </button>
+        </div>
+        {schedules.length === 0 ? (
+          <p className="form-help">No markdown schedules yet, e.g. 5% off after 60 days and 10% after 90.</p>
+        ) : (
+          <div className="colors-table-container">
+            <table className="colors-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Applies To</th>
+                  <th>Steps</th>
+                  <th>Active</th>
+                  <th>Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {schedules.map((s) => (
+                  <tr key={s.id}>
+                    <td className="color-name-cell">{s.name}</td>
+                    <td>
+                      {[s.product_type && PRODUCT_TYPE_LABELS[s.product_type as ProductTypesEnum], s.brand_name]
+                        .filter(Boolean)
+                        .join(' · ') || 'All units'}
+                    </td>
+                    <td>{describeSteps(s)}</td>
+                    <td>{s.is_active ? 'Yes' : 'No'}</td>
+                    <td className="color-actions-cell">
+                      <button className="btn-action btn-edit" onClick={() => openScheduleForm(s)}>
+                        Edit
+                      </button>
+                      <button
+                        className="btn-action btn-delete"
+                        onClick={() => handleDeleteSchedule(s)}
+                        disabled={deleteScheduleMutation.isPending}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showScheduleForm && (
+        <MarkdownScheduleFormModal
+          schedule={editingSchedule}
+          onClose={() => setShowScheduleForm(false)}
+          onSaved={(message) => {
+            setShowScheduleForm(false);
+            showToast(message, 'success');
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface MarkdownScheduleFormModalProps {
+  schedule: MarkdownSchedule | null;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+const MarkdownScheduleFormModal: React.FC<MarkdownScheduleFormModalProps> = ({ schedule, onClose, onSaved }) => {
+  const queryClient = useQueryClient();
+  const { data: brands } = useBrandsList();
+  const [formData, setFormData] = useState<MarkdownScheduleRequest>({
+    name: schedule?.name ?? '',
+    is_active: schedule?.is_active ?? true,
+    product_type: schedule?.product_type ?? null,
+    brand: schedule?.brand ?? null,
+    round_to: schedule?.round_to ?? 100,
+    steps: schedule?.steps.map((step) => ({ ...step })) ?? [
+      { after_days: 60, percent_off: '5' },
+      { after_days: 90, percent_off: '10' },
+    ],
+  });
+  const [error, setError] = useState('');
+
+  const saveMutation = useMutation({
+    mutationFn: (body: MarkdownScheduleRequest) =>
+      schedule
+        ? MarkdownSchedulesService.markdownSchedulesUpdate(schedule.id, body)
+        : MarkdownSchedulesService.markdownSchedulesCreate(body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.markdownSchedules() });
+      onSaved(schedule ? 'Markdown schedule updated' : 'Markdown schedule created');
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const update = (patch: Partial<MarkdownScheduleRequest>) => setFormData((prev) => ({ ...prev, ...patch }));
+
+  const updateStep = (index: number, patch: Partial<MarkdownStepRequest>) =>
+    update({ steps: formData.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)) });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    saveMutation.mutate({
+      ...formData,
+      name: formData.name.trim(),
+      steps: [...formData.steps].sort((a, b) => a.after_days - b.after_days),
+    });
+  };
+
+  const isLoading = saveMutation.isPending;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{schedule ? 'Edit Markdown Schedule' : 'Create Markdown Schedule'}</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="form-section">
+          <div className="form-group">
+            <label htmlFor="markdown-name">Name <span className="required">*</span></label>
+            <input
+              id="markdown-name"
+              type="text"
+              value={formData.name}
+              onChange={(e) => update({ name: e.target.value })}
+              required
+              disabled={isLoading}
+              placeholder="e.g. Standard phone markdown"
+              maxLength={100}
+            />
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="markdown-product-type">Product type</label>
+              <select
+                id="markdown-product-type"
+                value={(formData.product_type as string | null) ?? ''}
+                onChange={(e) => update({ product_type: (e.target.value || null) as ProductTypesEnum | null })}
+                disabled={isLoading}
+              >
+                <option value="">Any</option>
+                {Object.entries(PRODUCT_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="markdown-brand">Brand</label>
+              <select
+                id="markdown-brand"
+                value={formData.brand ?? ''}
+                onChange={(e) => update({ brand: e.target.value ? Number(e.target.value) : null })}
+                disabled={isLoading}
+              >
+                <option value="">Any</option>
+                {brands.map((b) => (
+                  <option key={b.id} value={b.id}>
+                    {b.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="markdown-round-to">Round down to (KES)</label>
+              <input
+                id="markdown-round-to"
+                type="number"
+                min={0}
+                value={formData.round_to}
+                onChange={(e) => update({ round_to: Number(e.target.value) })}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Steps</label>
+            {formData.steps.map((step, index) => (
+              <div key={index} className="form-row">
+                <div className="form-group">
+                  <label htmlFor={`markdown-step-days-${index}`}>After (days)</label>
+                  <input
+                    id={`markdown-step-days-${index}`}
+                    type="number"
+                    min={1}
+                    value={step.after_days}
+                    onChange={(e) => updateStep(index, { after_days: Number(e.target.value) })}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+                <div className="form-group">
+                  <label htmlFor={`markdown-step-percent-${index}`}>% off</label>
+                  <input
+                    id={`markdown-step-percent-${index}`}
+                    type="number"
+                    step="0.01"
+                    min={0}
+                    max={99}
+                    value={step.percent_off}
+                    onChange={(e) => updateStep(index, { percent_off: e.target.value })}
+                    required
+                    disabled={isLoading}
+                  />
+                </div>
+                <button
+                  type="button"
+                  className="btn-action btn-delete"
+                  onClick={() => update({ steps: formData.steps.filter((_, i) => i !== index) })}
+                  disabled={isLoading || formData.steps.length === 1}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              className="btn-small btn-secondary"
+              onClick={() => {
+                const last = formData.steps[formData.steps.length - 1];
+                update({
+                  steps: [
+                    ...formData.steps,
+                    { after_days: (last?.after_days ?? 0) + 30, percent_off: String(Number(last?.percent_off ?? 0) + 5) },
+                  ],
+                });
+              }}
+              disabled={isLoading}
+            >
+              + Add step
+            </button>
+            <small className="form-help">Each unit gets the largest step it has reached, taken off its original price.</small>
+          </div>
+
+          <div className="form-group">
+            <label className="unit-export-option">
+              <input
+                type="checkbox"
+                checked={!!formData.is_active}
+                onChange={(e) => update({ is_active: e.target.checked })}
+                disabled={isLoading}
+              />
+              Active
+            </label>
+          </div>
+
+          {error && <p className="error-text">{error}</p>}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isLoading}>
+              {isLoading ? 'Saving...' : schedule ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
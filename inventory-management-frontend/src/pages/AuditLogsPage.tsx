@@ -3,6 +3,8 @@ import { useQuery } from '@tanstack/react-query';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { ProfilesService } from '../api/index';
+import { apiClient } from '../api/client';
+import { useUrlListState } from '../hooks/useUrlListState';
 import {
   Box,
   Typography,
@@ -60,13 +62,14 @@ interface AuditLogsResponse {
 
 export const AuditLogsPage: React.FC = () => {
   const { user } = useAuth();
-  const [page, setPage] = useState(1);
-  const [filters, setFilters] = useState({
+  const [listState, setListState] = useUrlListState({
+    page: 1,
     action: '',
     model_name: '',
     date_from: '',
     date_to: '',
   });
+  const { page, ...filters } = listState;
   const [viewDataDialog, setViewDataDialog] = useState<{ open: boolean; data: any; title: string }>({
     open: false,
     data: null,
@@ -81,29 +84,9 @@ export const AuditLogsPage: React.FC = () => {
     enabled: !!user?.is_staff,
   });
 
-  const buildQueryString = () => {
-    const params = new URLSearchParams();
-    if (filters.action) params.append('action', filters.action);
-    if (filters.model_name) params.append('model_name', filters.model_name);
-    if (filters.date_from) params.append('date_from', filters.date_from);
-    if (filters.date_to) params.append('date_to', filters.date_to);
-    params.append('page', page.toString());
-    return params.toString();
-  };
-
   const { data, isLoading, error } = useQuery<AuditLogsResponse>({
     queryKey: ['audit-logs', page, filters],
-    queryFn: async () => {
-      const queryString = buildQueryString();
-      const response = await fetch(`/api/inventory/audit-logs/?${queryString}`, {
-        headers: {
-          'Authorization': `Token ${localStorage.getItem('auth_token')}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      if (!response.ok) throw new Error('Failed to fetch audit logs');
-      return response.json();
-    },
+    queryFn: () => apiClient.get<AuditLogsResponse>('/audit-logs/', { ...filters, page }),
   });
 
   // Role checks and redirect (after all hooks are declared)
@@ -115,18 +98,11 @@ export const AuditLogsPage: React.FC = () => {
   }
 
   const handleFilterChange = (key: string, value: string) => {
-    setFilters({ ...filters, [key]: value });
-    setPage(1);
+    setListState({ [key]: value });
   };
 
   const clearFilters = () => {
-    setFilters({
-      action: '',
-      model_name: '',
-      date_from: '',
-      date_to: '',
-    });
-    setPage(1);
+    setListState({ action: '', model_name: '', date_from: '', date_to: '' });
   };
 
   const formatTimestamp = (timestamp: string) => {
@@ -212,6 +188,8 @@ export const AuditLogsPage: React.FC = () => {
               <MenuItem value="BU">Bulk Update</MenuItem>
               <MenuItem value="PC">Price Change</MenuItem>
               <MenuItem value="SC">Status Change</MenuItem>
+              <MenuItem value="CO">Counter Offer</MenuItem>
+              <MenuItem value="SK">Stock Take</MenuItem>
             </Select>
           </FormControl>
 
@@ -229,6 +207,7 @@ export const AuditLogsPage: React.FC = () => {
               <MenuItem value="UnitTransfer">Unit Transfer</MenuItem>
               <MenuItem value="Product">Product</MenuItem>
               <MenuItem value="Order">Order</MenuItem>
+              <MenuItem value="StockTake">Stock Take</MenuItem>
             </Select>
           </FormControl>
 
@@ -395,7 +374,7 @@ export const AuditLogsPage: React.FC = () => {
               <Stack direction="row" spacing={2} alignItems="center">
                 <Button
                   variant="outlined"
-                  onClick={() => setPage(p => Math.max(1, p - 1))}
+                  onClick={() => setListState({ page: Math.max(1, page - 1) })}
                   disabled={!data.previous || page === 1}
                 >
                   Previous
@@ -405,7 +384,7 @@ export const AuditLogsPage: React.FC = () => {
                 </Typography>
                 <Button
                   variant="outlined"
-                  onClick={() => setPage(p => p + 1)}
+                  onClick={() => setListState({ page: page + 1 })}
                   disabled={!data.next}
                 >
                   Next
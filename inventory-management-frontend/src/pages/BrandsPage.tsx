@@ -5,7 +5,7 @@ import {
   Brand,
   BrandRequest,
 } from '../api/index';
-import { getInventoryBaseUrl } from '../api/config';
+import { apiClient } from '../api/client';
 import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
 
 interface AdminRole {
@@ -501,17 +501,7 @@ export const BrandsPage: React.FC = () => {
   // Fetch all admins for assignment and statistics (always fetch)
   const { data: adminsData } = useQuery({
     queryKey: ['admins', 'all'],
-    queryFn: async () => {
-      const token = localStorage.getItem('auth_token');
-      const baseUrl = getInventoryBaseUrl();
-      const response = await fetch(`${baseUrl}/admins/`, {
-        headers: {
-          'Authorization': `Token ${token}`,
-        },
-      });
-      if (!response.ok) throw new Error('Failed to fetch admins');
-      return response.json();
-    },
+    queryFn: () => apiClient.get<{ results: AdminProfile[] }>('/admins/'),
   });
 
   // Calculate admin count per brand
@@ -871,22 +861,7 @@ const BrandFormModal: React.FC<BrandFormModalProps> = ({
         formDataToSend.append('is_active', data.is_active ? 'true' : 'false');
         formDataToSend.append('logo', formData.logo);
 
-        const token = localStorage.getItem('auth_token');
-        const baseUrl = getInventoryBaseUrl();
-        const response = await fetch(`${baseUrl}/brands/`, {
-          method: 'POST',
-          headers: {
-            'Authorization': `Token ${token}`,
-          },
-          body: formDataToSend,
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.detail || JSON.stringify(errorData));
-        }
-
-        return response.json();
+        return apiClient.post<Brand>('/brands/', formDataToSend);
       } else {
         return BrandsService.brandsCreate(data);
       }
@@ -916,22 +891,7 @@ const BrandFormModal: React.FC<BrandFormModalProps> = ({
         formDataToSend.append('is_active', data.is_active ? 'true' : 'false');
         formDataToSend.append('logo', formData.logo);
 
-        const token = localStorage.getItem('auth_token');
-        const baseUrl = getInventoryBaseUrl();
-        const response = await fetch(`${baseUrl}/brands/${brand.id}/`, {
-          method: 'PATCH',
-          headers: {
-            'Authorization': `Token ${token}`,
-          },
-          body: formDataToSend,
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.detail || JSON.stringify(errorData));
-        }
-
-        return response.json();
+        return apiClient.patch<Brand>(`/brands/${brand.id}/`, formDataToSend);
       } else {
         return BrandsService.brandsPartialUpdate(brand.id, data);
       }
@@ -1270,26 +1230,10 @@ const BrandAdminAssignmentModal: React.FC<BrandAdminAssignmentModalProps> = ({
             : currentBrandIds.filter((id: number) => id !== brand.id);
 
           // Create a promise for this admin's update
-          const token = localStorage.getItem('auth_token');
-          const baseUrl = getInventoryBaseUrl();
-          
           updatePromises.push(
-            fetch(`${baseUrl}/admins/${adminId}/brands/`, {
-              method: 'POST',
-              headers: {
-                'Authorization': `Token ${token}`,
-                'Content-Type': 'application/json',
-              },
-              body: JSON.stringify({ 
-                brand_ids: newBrandIds,
-                is_global_admin: isGlobalAdmin 
-              }),
-            }).then(async (response) => {
-              if (!response.ok) {
-                const errorData = await response.json();
-                throw new Error(errorData.error || JSON.stringify(errorData));
-              }
-              return response.json();
+            apiClient.post(`/admins/${adminId}/brands/`, {
+              brand_ids: newBrandIds,
+              is_global_admin: isGlobalAdmin,
             })
           );
         }
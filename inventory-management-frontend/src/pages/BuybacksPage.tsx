@@ -0,0 +1,415 @@
+import React, { Suspense, lazy, useState } from 'react';
+import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, useSearchParams } from 'react-router-dom';
+import { UnitsService, type InventoryUnit, type PaginatedInventoryUnitList } from '../api/index';
+import { getApiRoot } from '../api/config';
+import { getErrorMessage } from '../api/client';
+import { listUnits, type UnitsListParams } from '../api/unitsList';
+import { ModalLoader } from '../components/PageLoader';
+import { useAdminProfile } from '../hooks/useAdminProfile';
+import { useDebounce } from '../hooks/useDebounce';
+import { useUrlListState } from '../hooks/useUrlListState';
+import { formatKes } from '../utils/format';
+
+const UnitDetailsModal = lazy(() => import('../components/UnitDetailsModal').then((m) => ({ default: m.UnitDetailsModal })));
+
+type BuybackStatus = NonNullable<UnitsListParams['buyback_status']>;
+type Decision = 'approve' | 'reject' | 'counter';
+
+const PAGE_SIZE = 20;
+
+const STATUS_TABS: Array<{ value: BuybackStatus; label: string; className: string }> = [
+  { value: 'PE', label: 'Pending', className: 'pending' },
+  { value: 'CO', label: 'Countered', className: 'returned' },
+  { value: 'AP', label: 'Approved', className: 'approved' },
+  { value: 'RE', label: 'Rejected', className: 'rejected' },
+];
+
+const LIST_DEFAULTS = { status: 'PE', search: '', page: 1 };
+
+const CONDITION_LABELS: Record<string, string> = { N: 'New', R: 'Refurbished', P: 'Pre-owned', D: 'Defective' };
+
+/** Photo URLs of a unit (`images` is typed loosely but is an array of InventoryUnitImage). */
+const getImageUrls = (unit: InventoryUnit): string[] => {
+  const images = Array.isArray(unit.images) ? unit.images : [];
+  return images
+    .map((image) => (image.image_url || image.image || '') as string)
+    .filter(Boolean)
+    .map((url) => (url.startsWith('http') || url.startsWith('//') ? url : `${getApiRoot()}${url.startsWith('/') ? '' : '/'}${url}`));
+};
+
+/**
+ * Trade-in (source=BB) units waiting for an inventory manager's decision. Approving makes the unit
+ * available; rejecting or countering needs a reason. The server writes each decision to the audit
+ * log and notifies the salesperson who submitted the buyback.
+ */
+export const BuybacksPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [listState, setListState] = useUrlListState(LIST_DEFAULTS);
+  const { status, search, page } = listState;
+  const debouncedSearch = useDebounce(search, 300);
+  const [decision, setDecision] = useState<{ unit: InventoryUnit; type: Decision } | null>(null);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const { data: adminProfile } = useAdminProfile();
+  const isSuperuser = adminProfile?.user?.is_superuser === true;
+  const canDecide =
+    isSuperuser || !!adminProfile?.roles?.some((role) => role.name === 'IM' || role.role_code === 'IM');
+
+  const detailsUnitId = Number(searchParams.get('unitId')) || null;
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const listParams: UnitsListParams = {
+    source: 'BB',
+    buyback_status: status as BuybackStatus,
+    search: debouncedSearch || undefined,
+  };
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['units', 'buybacks', page, listParams],
+    queryFn: () => listUnits({ ...listParams, page, page_size: PAGE_SIZE, ordering: 'date_sourced' }),
+    placeholderData: (previous) => previous,
+  });
+
+  const countQueries = useQueries({
+    queries: STATUS_TABS.map((tab) => ({
+      queryKey: ['units', 'buybacks', 'count', tab.value, debouncedSearch],
+      queryFn: () =>
+        listUnits({ source: 'BB', buyback_status: tab.value, search: debouncedSearch || undefined, page_size: 1 }),
+      select: (result: { count: number }) => result.count,
+      placeholderData: (previous?: PaginatedInventoryUnitList) => previous,
+    })),
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: ({ unitId, type, reason, amount }: { unitId: number; type: Decision; reason: string; amount?: string }) => {
+      if (type === 'approve') return UnitsService.unitsApproveBuybackCreate(unitId, { reason: reason || undefined });
+      if (type === 'reject') return UnitsService.unitsRejectBuybackCreate(unitId, { reason });
+      return UnitsService.unitsCounterOfferBuybackCreate(unitId, { amount: amount!, reason });
+    },
+    onSuccess: (_unit, { type }) => {
+      queryClient.invalidateQueries({ queryKey: ['units'] });
+      queryClient.invalidateQueries({ queryKey: ['audit-logs'] });
+      setDecision(null);
+      showToast(
+        type === 'approve'
+          ? 'Buyback approved – the unit is now available'
+          : type === 'reject'
+            ? 'Buyback rejected'
+            : 'Counter-offer sent',
+        'success'
+      );
+    },
+    onError: (err) => showToast(getErrorMessage(err), 'error'),
+  });
+
+  const units = data?.results ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.count ?? 0) / PAGE_SIZE));
+
+  const openDetails = (unitId: number) => {
+    const next = new URLSearchParams(searchParams);
+    next.set('unitId', String(unitId));
+    setSearchParams(next);
+  };
+
+  const closeDetails = () => {
+    const next = new URLSearchParams(searchParams);
+    next.delete('unitId');
+    setSearchParams(next, { replace: true });
+  };
+
+  return (
+    <div className="buybacks-page">
+      {toast && <div className={`toast toast-${toast.type}`}>{toast.message}</div>}
+
+      <div className="page-header">
+        <h1>Buybacks</h1>
+      </div>
+
+      <div className="summary-stats">
+        {STATUS_TABS.map((tab, index) => (
+          <button
+            key={tab.value}
+            type="button"
+            className={`summary-stat-button summary-stat-button--${tab.className} ${status === tab.value ? 'is-active' : ''}`}
+            onClick={() => setListState({ status: tab.value })}
+            aria-pressed={status === tab.value}
+          >
+            <span className="summary-stat-label">{tab.label}</span>
+            <span className="summary-stat-value">{(countQueries[index].data ?? 0).toLocaleString()}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="filters-bar">
+        <div className="search-row">
+          <input
+            type="text"
+            className="search-input"
+            placeholder="Search by IMEI, serial number, product or seller…"
+            value={search}
+            onChange={(e) => setListState({ search: e.target.value }, { replace: true })}
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="loading">Loading buybacks…</div>
+      ) : error ? (
+        <div className="error">{getErrorMessage(error)}</div>
+      ) : units.length === 0 ? (
+        <div className="empty-state">
+          <p>No {STATUS_TABS.find((tab) => tab.value === status)?.label.toLowerCase()} buybacks.</p>
+        </div>
+      ) : (
+        <div className="colors-table-container">
+          <table className="colors-table buybacks-table">
+            <thead>
+              <tr>
+                <th>Photos</th>
+                <th>Unit</th>
+                <th>Seller</th>
+                <th>Condition</th>
+                <th>Offered Cost</th>
+                <th>Submitted By</th>
+                <th>Decision</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {units.map((unit) => {
+                const photos = getImageUrls(unit);
+                const isOpen = unit.buyback_status === 'PE' || unit.buyback_status === 'CO';
+                return (
+                  <tr key={unit.id}>
+                    <td>
+                      <div className="buyback-photos">
+                        {photos.length === 0 ? (
+                          <span className="buyback-no-photo">No photos</span>
+                        ) : (
+                          photos.slice(0, 3).map((url) => (
+                            <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                              <img src={url} alt="" loading="lazy" />
+                            </a>
+                          ))
+                        )}
+                        {photos.length > 3 && <span className="buyback-more-photos">+{photos.length - 3}</span>}
+                      </div>
+                    </td>
+                    <td>
+                      <button type="button" className="buyback-unit-link" onClick={() => openDetails(unit.id!)}>
+                        {unit.product_template_name || `Unit #${unit.id}`}
+                      </button>
+                      <div className="buyback-meta">
+                        {unit.imei ? `IMEI ${unit.imei}` : unit.serial_number ? `S/N ${unit.serial_number}` : 'No IMEI'}
+                        {unit.storage_gb ? ` · ${unit.storage_gb}GB` : ''}
+                        {unit.color_name ? ` · ${unit.color_name}` : ''}
+                      </div>
+                    </td>
+                    <td>
+                      {unit.acquisition_source_details?.name || '-'}
+                      {unit.acquisition_source_details?.phone_number && (
+                        <div className="buyback-meta">{unit.acquisition_source_details.phone_number}</div>
+                      )}
+                    </td>
+                    <td>
+                      {CONDITION_LABELS[unit.condition || ''] || unit.condition || '-'}
+                      {unit.grade ? ` · Grade ${unit.grade}` : ''}
+                    </td>
+                    <td>
+                      {formatKes(unit.cost_of_unit)}
+                      {unit.buyback_counter_offer && (
+                        <div className="buyback-meta">Countered: {formatKes(unit.buyback_counter_offer)}</div>
+                      )}
+                    </td>
+                    <td>
+                      {unit.buyback_submitted_by_username || '-'}
+                      {unit.date_sourced && <div className="buyback-meta">{unit.date_sourced}</div>}
+                    </td>
+                    <td>
+                      {unit.buyback_decision_reason || '-'}
+                      <div className="buyback-meta">
+                        <Link to="/audit-logs?model_name=InventoryUnit">History</Link>
+                      </div>
+                    </td>
+                    <td>
+                      {canDecide && isOpen && (
+                        <div className="buyback-actions">
+                          <button
+                            type="button"
+                            className="btn-action btn-approve"
+                            onClick={() => setDecision({ unit, type: 'approve' })}
+                          >
+                            Approve
+                          </button>
+                          {unit.buyback_status === 'PE' && (
+                            <button
+                              type="button"
+                              className="btn-action btn-return"
+                              onClick={() => setDecision({ unit, type: 'counter' })}
+                            >
+                              Counter
+                            </button>
+                          )}
+                          <button
+                            type="button"
+                            className="btn-action btn-reject"
+                            onClick={() => setDecision({ unit, type: 'reject' })}
+                          >
+                            Reject
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {units.length > 0 && (
+        <div className="pagination">
+          <button
+            onClick={() => setListState({ page: Math.max(1, page - 1) })}
+            disabled={page <= 1}
+            className="btn-secondary"
+          >
+            Previous
+          </button>
+          <span className="page-info">
+            Page {page} of {totalPages} ({data?.count ?? 0} buybacks)
+          </span>
+          <button
+            onClick={() => setListState({ page: Math.min(totalPages, page + 1) })}
+            disabled={page >= totalPages}
+            className="btn-secondary"
+          >
+            Next
+          </button>
+        </div>
+      )}
+
+      {decision && (
+        <BuybackDecisionModal
+          unit={decision.unit}
+          type={decision.type}
+          isLoading={decisionMutation.isPending}
+          onClose={() => setDecision(null)}
+          onConfirm={(reason, amount) =>
+            decisionMutation.mutate({ unitId: decision.unit.id!, type: decision.type, reason, amount })
+          }
+        />
+      )}
+
+      {detailsUnitId && (
+        <Suspense fallback={<ModalLoader />}>
+          <UnitDetailsModal unitId={detailsUnitId} onClose={closeDetails} isEditable={canDecide} />
+        </Suspense>
+      )}
+    </div>
+  );
+};
+
+// Buyback Decision Modal Component
+interface BuybackDecisionModalProps {
+  unit: InventoryUnit;
+  type: Decision;
+  isLoading: boolean;
+  onClose: () => void;
+  onConfirm: (reason: string, amount?: string) => void;
+}
+
+const DECISION_TITLES: Record<Decision, string> = {
+  approve: 'Approve Buyback',
+  reject: 'Reject Buyback',
+  counter: 'Counter-offer',
+};
+
+const BuybackDecisionModal: React.FC<BuybackDecisionModalProps> = ({ unit, type, isLoading, onClose, onConfirm }) => {
+  const [reason, setReason] = useState('');
+  const [amount, setAmount] = useState('');
+  const reasonRequired = type !== 'approve';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onConfirm(reason.trim(), type === 'counter' ? amount : undefined);
+  };
+
+  return (
+    <div className="modal-overlay" onClick={isLoading ? undefined : onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{DECISION_TITLES[type]}</h2>
+          <button className="modal-close" onClick={onClose} disabled={isLoading}>×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="form-section">
+          <p className="modal-description">
+            <strong>{unit.product_template_name}</strong>
+            {unit.imei ? ` (IMEI ${unit.imei})` : ''} from {unit.acquisition_source_details?.name || 'unknown seller'},
+            offered at {formatKes(unit.cost_of_unit)}.
+            {' '}
+            {unit.buyback_submitted_by_username
+              ? `${unit.buyback_submitted_by_username} will be notified of this decision.`
+              : 'The submitting salesperson will be notified of this decision.'}
+          </p>
+          {type === 'counter' && (
+            <div className="form-group">
+              <label htmlFor="counter_amount">Counter-offer (KES) <span className="required">*</span></label>
+              <input
+                id="counter_amount"
+                type="number"
+                step="0.01"
+                min="0"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+                disabled={isLoading}
+                autoFocus
+              />
+            </div>
+          )}
+          <div className="form-group">
+            <label htmlFor="decision_reason">
+              Reason {reasonRequired ? <span className="required">*</span> : '(optional)'}
+            </label>
+            <textarea
+              id="decision_reason"
+              rows={3}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required={reasonRequired}
+              disabled={isLoading}
+              placeholder={
+                type === 'reject'
+                  ? 'e.g. Screen replaced with non-original part'
+                  : type === 'counter'
+                    ? 'e.g. Battery health 78%, needs replacement'
+                    : ''
+              }
+              autoFocus={type !== 'counter'}
+            />
+          </div>
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className={type === 'reject' ? 'btn-danger' : 'btn-primary'}
+              disabled={isLoading || (reasonRequired && !reason.trim()) || (type === 'counter' && !amount)}
+            >
+              {isLoading ? 'Saving...' : DECISION_TITLES[type]}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -3,14 +3,14 @@ import { Navigate, useNavigate } from 'react-router-dom';
 import { useQuery } from '@tanstack/react-query';
 import { useAuth } from '../contexts/AuthContext';
 import {
-  OrdersService,
   ReservationRequestsService,
   ReturnRequestsService,
   UnitTransfersService,
   NotificationsService,
   LeadsService,
-  UnitsService,
 } from '../api/index';
+import { listOrders } from '../api/ordersList';
+import { listUnits } from '../api/unitsList';
 import { useAdminProfile } from '../hooks/useAdminProfile';
 import { useProductsList } from '../hooks/useProductsList';
 import { queryKeys } from '../hooks/queryKeys';
@@ -122,7 +122,7 @@ export const DashboardPage: React.FC = () => {
   const DASHBOARD_ORDERS_PAGE_SIZE = 25;
   const { data: orders, isLoading: ordersLoading } = useQuery({
     queryKey: queryKeys.orders(DASHBOARD_ORDERS_PAGE, DASHBOARD_ORDERS_PAGE_SIZE),
-    queryFn: () => OrdersService.ordersList(DASHBOARD_ORDERS_PAGE),
+    queryFn: () => listOrders({ page: DASHBOARD_ORDERS_PAGE, page_size: DASHBOARD_ORDERS_PAGE_SIZE }),
   });
 
   // Fetch all units - fetch multiple pages if needed to get all units
@@ -135,7 +135,7 @@ export const DashboardPage: React.FC = () => {
     queryKey: ['units', 'all'],
     queryFn: async () => {
       // Fetch first page
-      const firstPage = await UnitsService.unitsList(undefined, undefined, 1);
+      const firstPage = await listUnits({ page: 1 });
       console.log('📦 First page response:', firstPage);
       
       // If there are more pages, fetch them all
@@ -147,7 +147,7 @@ export const DashboardPage: React.FC = () => {
         // Fetch remaining pages (DRF typically has max 100 per page, so fetch up to 10 pages)
         while (hasMore && currentPage <= 10) {
           try {
-            const nextPage = await UnitsService.unitsList(undefined, undefined, currentPage);
+            const nextPage = await listUnits({ page: currentPage });
             if (nextPage.results && nextPage.results.length > 0) {
               allResults.push(...nextPage.results);
             }
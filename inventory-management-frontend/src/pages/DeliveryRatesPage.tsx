@@ -1,7 +1,6 @@
 import React, { useMemo, useState } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import { OpenAPI } from '../api/index';
-import { getDefaultApiHeaders } from '../api/config';
+import { apiClient } from '../api/client';
 import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
 import {
   Box,
@@ -41,27 +40,6 @@ const isWardAllowedCounty = (county: string | undefined | null) => {
   return normalized === 'nairobi' || normalized === 'kiambu';
 };
 
-const extractApiErrorMessage = async (response: Response): Promise<string> => {
-  const fallback = `${response.status} ${response.statusText}`.trim() || 'Request failed';
-  const body = await response.json().catch(() => null);
-  if (!body || typeof body !== 'object') return fallback;
-
-  const anyBody = body as any;
-  if (typeof anyBody.detail === 'string' && anyBody.detail.trim()) return anyBody.detail.trim();
-
-  // DRF ValidationError commonly returns: { field: ["msg"] } or { non_field_errors: ["msg"] }
-  const messages: string[] = [];
-  for (const [key, value] of Object.entries(anyBody)) {
-    if (typeof value === 'string') {
-      messages.push(`${key}: ${value}`);
-    } else if (Array.isArray(value)) {
-      const joined = value.filter((v) => typeof v === 'string').join(', ');
-      if (joined) messages.push(`${key}: ${joined}`);
-    }
-  }
-  return messages.length ? messages.join(' | ') : fallback;
-};
-
 type DeliveryRate = {
   id?: number;
   county?: string;
@@ -72,13 +50,6 @@ type DeliveryRate = {
   updated_at?: string;
 };
 
-const getAuthHeaders = () => {
-  const token = localStorage.getItem('auth_token');
-  return getDefaultApiHeaders(token, {
-    'Content-Type': 'application/json',
-  });
-};
-
 const fetchDeliveryRates = () => fetchAllDrfPages<DeliveryRate>('/delivery-rates/');
 
 export const DeliveryRatesPage: React.FC = () => {
@@ -107,17 +78,7 @@ export const DeliveryRatesPage: React.FC = () => {
   }, [data, search]);
 
   const createMutation = useMutation({
-    mutationFn: async (payload: DeliveryRate) => {
-      const response = await fetch(`${OpenAPI.BASE}/delivery-rates/`, {
-        method: 'POST',
-        headers: getAuthHeaders(),
-        body: JSON.stringify(payload),
-      });
-      if (!response.ok) {
-        throw new Error(await extractApiErrorMessage(response));
-      }
-      return response.json();
-    },
+    mutationFn: (payload: DeliveryRate) => apiClient.post<DeliveryRate>('/delivery-rates/', payload),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['delivery-rates'] });
       setShowModal(false);
@@ -130,15 +91,7 @@ export const DeliveryRatesPage: React.FC = () => {
   const updateMutation = useMutation({
     mutationFn: async (payload: DeliveryRate) => {
       if (!payload.id) throw new Error('Missing delivery rate id');
-      const response = await fetch(`${OpenAPI.BASE}/delivery-rates/${payload.id}/`, {
-        method: 'PUT',
-        headers: getAuthHeaders(),
-        body: JSON.stringify(payload),
-      });
-      if (!response.ok) {
-        throw new Error(await extractApiErrorMessage(response));
-      }
-      return response.json();
+      return apiClient.put<DeliveryRate>(`/delivery-rates/${payload.id}/`, payload);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['delivery-rates'] });
@@ -150,15 +103,7 @@ export const DeliveryRatesPage: React.FC = () => {
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async (id: number) => {
-      const response = await fetch(`${OpenAPI.BASE}/delivery-rates/${id}/`, {
-        method: 'DELETE',
-        headers: getAuthHeaders(),
-      });
-      if (!response.ok) {
-        throw new Error('Failed to delete rate');
-      }
-    },
+    mutationFn: (id: number) => apiClient.delete(`/delivery-rates/${id}/`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['delivery-rates'] });
       setDeleteTarget(null);
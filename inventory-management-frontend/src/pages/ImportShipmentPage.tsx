@@ -0,0 +1,392 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import {
+  AllocationMethodEnum,
+  ImportShipmentsService,
+  ImportShipmentStatusEnum,
+  type ImportShipment,
+  type InventoryUnit,
+} from '../api/index';
+import { buildQueryString, getErrorMessage } from '../api/client';
+import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
+import { listUnits } from '../api/unitsList';
+import { ALLOCATION_METHODS, ImportShipmentForm, LANDED_COST_KINDS } from '../components/ImportShipmentForm';
+import { useAdminProfile } from '../hooks/useAdminProfile';
+import { allocateLandedCosts } from '../utils/landedCost';
+import { formatKes } from '../utils/format';
+
+const formatDateTime = (value?: string | null) => (value ? new Date(value).toLocaleString() : '-');
+
+const describeUnit = (unit: InventoryUnit) =>
+  `${unit.product_template_name ?? 'Unit'}${unit.product_color?.name ? ` · ${unit.product_color.name}` : ''}`;
+
+/**
+ * One import shipment: its costs in KES, the units it brought in with a preview of each unit's
+ * landed cost, allocation (and reversal) into cost_of_unit, and the allocation audit trail.
+ */
+export const ImportShipmentPage: React.FC = () => {
+  const { shipmentId } = useParams<{ shipmentId: string }>();
+  const id = Number(shipmentId);
+  const queryClient = useQueryClient();
+  const { data: adminProfile, isLoading: isLoadingProfile } = useAdminProfile();
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [unitCode, setUnitCode] = useState('');
+  const [isFindingUnit, setIsFindingUnit] = useState(false);
+  const [actionError, setActionError] = useState('');
+
+  const isSuperuser = adminProfile?.user?.is_superuser === true;
+  const isInventoryManager =
+    isSuperuser || !!adminProfile?.roles?.some((role) => role.name === 'IM' || role.role_code === 'IM');
+
+  const { data: shipment, isLoading, error } = useQuery({
+    queryKey: ['import-shipments', 'detail', id],
+    queryFn: () => ImportShipmentsService.importShipmentsRetrieve(id),
+    enabled: !!id && isInventoryManager,
+  });
+
+  const { data: units = [] } = useQuery({
+    queryKey: ['units', 'import-shipment', id],
+    queryFn: () => fetchAllDrfPages<InventoryUnit>(`/units/${buildQueryString({ import_shipment: id, page_size: 100 })}`),
+    enabled: !!id && isInventoryManager,
+  });
+
+  const { data: allocations = [] } = useQuery({
+    queryKey: ['import-shipments', 'detail', id, 'allocations'],
+    queryFn: () => ImportShipmentsService.importShipmentsAllocationsList(id),
+    enabled: !!id && isInventoryManager,
+  });
+
+  const onUpdated = (updated: ImportShipment) => {
+    setActionError('');
+    queryClient.setQueryData(['import-shipments', 'detail', id], updated);
+    queryClient.invalidateQueries({ queryKey: ['import-shipments'] });
+    queryClient.invalidateQueries({ queryKey: ['units'] });
+  };
+
+  const unitsMutation = useMutation({
+    mutationFn: (unitIds: number[]) => ImportShipmentsService.importShipmentsPartialUpdate(id, { units: unitIds }),
+    onSuccess: onUpdated,
+    onError: (err) => setActionError(getErrorMessage(err)),
+  });
+
+  const allocateMutation = useMutation({
+    mutationFn: () => ImportShipmentsService.importShipmentsAllocateCreate(id),
+    onSuccess: onUpdated,
+    onError: (err) => setActionError(getErrorMessage(err)),
+  });
+
+  const reverseMutation = useMutation({
+    mutationFn: () => ImportShipmentsService.importShipmentsReverseCreate(id),
+    onSuccess: onUpdated,
+    onError: (err) => setActionError(getErrorMessage(err)),
+  });
+
+  if (isLoadingProfile) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  if (!isInventoryManager) {
+    return <Navigate to="/units" replace />;
+  }
+
+  if (isLoading) {
+    return <div className="loading">Loading import shipment...</div>;
+  }
+
+  if (error || !shipment) {
+    return <div className="error">{error ? getErrorMessage(error) : 'Import shipment not found'}</div>;
+  }
+
+  const isOpen = shipment.status === ImportShipmentStatusEnum.OPEN;
+  const shipmentUnitIds = shipment.units ?? [];
+  const costs = shipment.costs ?? [];
+  const totalCosts = Number(shipment.total_costs_kes);
+  const goodsValue = Number(shipment.goods_value);
+  const method = shipment.allocation_method ?? AllocationMethodEnum.VALUE;
+  const preview = allocateLandedCosts(
+    units.map((unit) => ({ id: unit.id!, quantity: unit.quantity ?? 1, cost: Number(unit.cost_of_unit) })),
+    totalCosts,
+    method
+  );
+  const isBusy = unitsMutation.isPending || allocateMutation.isPending || reverseMutation.isPending;
+
+  const handleAddUnit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const code = unitCode.trim();
+    if (!code) return;
+    setActionError('');
+    setIsFindingUnit(true);
+    try {
+      const page = await listUnits({ search: code, source: 'IM', page_size: 10 });
+      const matches = page.results ?? [];
+      const match = matches.find((unit) => unit.imei === code || unit.serial_number === code) ?? (matches.length === 1 ? matches[0] : undefined);
+      if (!match?.id) {
+        setActionError(
+          matches.length > 1
+            ? `${matches.length} imported units match "${code}". Scan the full IMEI or serial number.`
+            : `No imported unit matches "${code}".`
+        );
+        return;
+      }
+      if (shipmentUnitIds.includes(match.id)) {
+        setActionError(`${describeUnit(match)} is already in this shipment.`);
+        return;
+      }
+      unitsMutation.mutate([...shipmentUnitIds, match.id]);
+      setUnitCode('');
+    } catch (err) {
+      setActionError(getErrorMessage(err));
+    } finally {
+      setIsFindingUnit(false);
+    }
+  };
+
+  const handleAllocate = () => {
+    const pieces = units.reduce((sum, unit) => sum + (unit.quantity ?? 1), 0);
+    if (
+      window.confirm(
+        `Add ${formatKes(totalCosts)} of landed costs to the cost of ${pieces} piece(s), ${ALLOCATION_METHODS[method].toLowerCase()}?\n\nEach unit's cost_of_unit is updated and the change recorded.`
+      )
+    ) {
+      allocateMutation.mutate();
+    }
+  };
+
+  const handleReverse = () => {
+    if (
+      window.confirm(
+        `Reverse the allocation of ${shipment.reference}? The landed costs are taken back off each unit's cost and the shipment reopens for editing.`
+      )
+    ) {
+      reverseMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="import-shipment-page">
+      <div className="page-header">
+        <div>
+          <Link to="/import-shipments" className="import-shipment-back">
+            ← Import Shipments
+          </Link>
+          <h1>{shipment.reference}</h1>
+          <div className="import-shipment-meta">
+            {shipment.acquisition_source_name || 'Import partner not recorded'}
+            {shipment.arrival_date ? ` · arrived ${new Date(shipment.arrival_date).toLocaleDateString()}` : ''}
+            {` · spread ${ALLOCATION_METHODS[method].toLowerCase()}`}
+            {shipment.allocated_at
+              ? ` · allocated ${formatDateTime(shipment.allocated_at)}${shipment.allocated_by_username ? ` by ${shipment.allocated_by_username}` : ''}`
+              : ' · not allocated'}
+          </div>
+        </div>
+        <div className="page-header-actions">
+          {isOpen ? (
+            <>
+              <button className="btn-secondary" onClick={() => setShowEditForm(true)} disabled={isBusy}>
+                Edit
+              </button>
+              <button
+                className="btn-primary"
+                onClick={handleAllocate}
+                disabled={isBusy || units.length === 0 || totalCosts <= 0}
+                title={units.length === 0 || totalCosts <= 0 ? 'Add units and costs first' : undefined}
+              >
+                {allocateMutation.isPending ? 'Allocating...' : 'Allocate Landed Costs'}
+              </button>
+            </>
+          ) : (
+            <button className="btn-secondary" onClick={handleReverse} disabled={isBusy}>
+              {reverseMutation.isPending ? 'Reversing...' : 'Reverse Allocation'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {actionError && <p className="error-text">{actionError}</p>}
+      {shipment.notes && <p className="page-description">{shipment.notes}</p>}
+
+      <div className="summary-stats">
+        <div className="summary-stat-button summary-stat-button--total">
+          <span className="summary-stat-label">Goods value</span>
+          <span className="summary-stat-value">{formatKes(goodsValue)}</span>
+        </div>
+        <div className="summary-stat-button summary-stat-button--pending">
+          <span className="summary-stat-label">Landed costs</span>
+          <span className="summary-stat-value">{formatKes(totalCosts)}</span>
+        </div>
+        <div className="summary-stat-button summary-stat-button--approved">
+          <span className="summary-stat-label">Landed value</span>
+          <span className="summary-stat-value">{formatKes(goodsValue + totalCosts)}</span>
+        </div>
+        <div className="summary-stat-button summary-stat-button--returned">
+          <span className="summary-stat-label">Uplift</span>
+          <span className="summary-stat-value">
+            {goodsValue > 0 ? `+${((totalCosts / goodsValue) * 100).toFixed(1)}%` : '-'}
+          </span>
+        </div>
+      </div>
+
+      <section className="report-section">
+        <div className="report-section-header">
+          <h3 className="section-title">Costs</h3>
+        </div>
+        {costs.length > 0 ? (
+          <div className="colors-table-container">
+            <table className="colors-table">
+              <thead>
+                <tr>
+                  <th>Kind</th>
+                  <th>Description</th>
+                  <th>Amount</th>
+                  <th>Rate to KES</th>
+                  <th>KES</th>
+                </tr>
+              </thead>
+              <tbody>
+                {costs.map((cost) => (
+                  <tr key={cost.id}>
+                    <td>{LANDED_COST_KINDS[cost.kind]}</td>
+                    <td>{cost.description || '-'}</td>
+                    <td>
+                      {cost.currency} {Number(cost.amount).toLocaleString()}
+                    </td>
+                    <td>{Number(cost.exchange_rate).toLocaleString()}</td>
+                    <td>{formatKes(cost.amount_kes)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="form-help">No costs recorded yet.{isOpen ? ' Use Edit to add them.' : ''}</p>
+        )}
+      </section>
+
+      <section className="report-section">
+        <div className="report-section-header">
+          <h3 className="section-title">Units ({shipment.total_quantity.toLocaleString()} pieces)</h3>
+        </div>
+        {isOpen && (
+          <form className="unit-intake-scan-form" onSubmit={handleAddUnit}>
+            <input
+              type="text"
+              autoComplete="off"
+              placeholder="Scan or type an IMEI / serial number of an imported unit and press Enter"
+              value={unitCode}
+              onChange={(e) => setUnitCode(e.target.value)}
+              disabled={isBusy || isFindingUnit}
+            />
+            <button type="submit" className="btn-secondary" disabled={isBusy || isFindingUnit || !unitCode.trim()}>
+              {isFindingUnit ? 'Finding...' : 'Add'}
+            </button>
+          </form>
+        )}
+        {units.length > 0 ? (
+          <div className="colors-table-container">
+            <table className="colors-table">
+              <thead>
+                <tr>
+                  <th>Unit</th>
+                  <th>IMEI / Serial</th>
+                  <th>Quantity</th>
+                  <th>{isOpen ? 'Cost' : 'Landed cost'}</th>
+                  {isOpen && <th>Landed share</th>}
+                  {isOpen && <th>Landed cost</th>}
+                  {isOpen && <th></th>}
+                </tr>
+              </thead>
+              <tbody>
+                {units.map((unit) => (
+                  <tr key={unit.id}>
+                    <td className="color-name-cell">{describeUnit(unit)}</td>
+                    <td>{unit.imei || unit.serial_number || '-'}</td>
+                    <td>{unit.quantity ?? 1}</td>
+                    <td>{formatKes(unit.cost_of_unit)}</td>
+                    {isOpen && <td>+{formatKes(preview[unit.id!] ?? 0)}</td>}
+                    {isOpen && <td>{formatKes(Number(unit.cost_of_unit) + (preview[unit.id!] ?? 0))}</td>}
+                    {isOpen && (
+                      <td>
+                        <button
+                          className="btn-small btn-secondary"
+                          onClick={() => unitsMutation.mutate(shipmentUnitIds.filter((unitId) => unitId !== unit.id))}
+                          disabled={isBusy}
+                          title="Remove from shipment"
+                        >
+                          ✕
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="form-help">No units in this shipment yet.</p>
+        )}
+        {isOpen && units.length > 0 && (
+          <p className="form-help">Landed share is per piece, previewed from the current costs; allocating applies it.</p>
+        )}
+      </section>
+
+      {allocations.length > 0 && (
+        <section className="report-section">
+          <div className="report-section-header">
+            <h3 className="section-title">Allocation history</h3>
+          </div>
+          <div className="colors-table-container">
+            <table className="colors-table">
+              <thead>
+                <tr>
+                  <th>When</th>
+                  <th>Unit</th>
+                  <th>Previous cost</th>
+                  <th>Landed share</th>
+                  <th>New cost</th>
+                </tr>
+              </thead>
+              <tbody>
+                {allocations.map((allocation) => (
+                  <tr key={allocation.id} className={allocation.is_reversal ? 'import-shipment-reversal' : undefined}>
+                    <td>
+                      {formatDateTime(allocation.created_at)}
+                      <div className="import-shipment-meta">
+                        {allocation.is_reversal ? 'Reversal' : ALLOCATION_METHODS[allocation.method]}
+                        {allocation.created_by_username ? ` · ${allocation.created_by_username}` : ''}
+                      </div>
+                    </td>
+                    <td className="color-name-cell">
+                      {allocation.unit_label}
+                      <div className="import-shipment-meta">
+                        {allocation.imei || allocation.serial_number || `Unit #${allocation.unit}`}
+                        {allocation.quantity > 1 ? ` · ${allocation.quantity} pieces` : ''}
+                      </div>
+                    </td>
+                    <td>{formatKes(allocation.previous_cost)}</td>
+                    <td>
+                      {Number(allocation.allocated_cost) >= 0 ? '+' : ''}
+                      {formatKes(allocation.allocated_cost)}
+                    </td>
+                    <td>{formatKes(allocation.new_cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      {showEditForm && (
+        <ImportShipmentForm
+          shipment={shipment}
+          onClose={() => setShowEditForm(false)}
+          onSaved={(saved) => {
+            setShowEditForm(false);
+            onUpdated(saved);
+          }}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { ImportShipmentsService, ImportShipmentStatusEnum } from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { ImportShipmentForm } from '../components/ImportShipmentForm';
+import { useAdminProfile } from '../hooks/useAdminProfile';
+import { useDebounce } from '../hooks/useDebounce';
+import { useUrlListState } from '../hooks/useUrlListState';
+import { formatKes } from '../utils/format';
+
+const PAGE_SIZE = 20;
+
+const STATUS_TABS = [
+  { value: ImportShipmentStatusEnum.OPEN, label: 'Open', className: 'pending' },
+  { value: ImportShipmentStatusEnum.ALLOCATED, label: 'Allocated', className: 'approved' },
+];
+
+/** Landed costs as a percentage of the goods value, or null before any units are added. */
+const getUplift = (goodsValue: string, totalCosts: string) =>
+  Number(goodsValue) > 0 ? (Number(totalCosts) / Number(goodsValue)) * 100 : null;
+
+/**
+ * Import shipments: imported units grouped with the shipping, clearing, duty and forex costs of
+ * bringing them in. Open one to add units and allocate the costs into their cost_of_unit.
+ */
+export const ImportShipmentsPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { data: adminProfile, isLoading: isLoadingProfile } = useAdminProfile();
+  const [listState, setListState] = useUrlListState({ status: ImportShipmentStatusEnum.OPEN as string, page: 1 });
+  const { status, page } = listState;
+  const [search, setSearch] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const debouncedSearch = useDebounce(search, 300);
+
+  const isSuperuser = adminProfile?.user?.is_superuser === true;
+  const isInventoryManager =
+    isSuperuser || !!adminProfile?.roles?.some((role) => role.name === 'IM' || role.role_code === 'IM');
+
+  // A search looks across both statuses
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['import-shipments', debouncedSearch ? 'search' : status, debouncedSearch, page],
+    queryFn: () =>
+      ImportShipmentsService.importShipmentsList(
+        page,
+        PAGE_SIZE,
+        debouncedSearch || undefined,
+        debouncedSearch ? undefined : (status as ImportShipmentStatusEnum)
+      ),
+    placeholderData: (previous) => previous,
+    enabled: isInventoryManager,
+  });
+
+  const countQueries = useQueries({
+    queries: STATUS_TABS.map((tab) => ({
+      queryKey: ['import-shipments', 'count', tab.value],
+      queryFn: () => ImportShipmentsService.importShipmentsList(1, 1, undefined, tab.value),
+      select: (result: { count: number }) => result.count,
+      enabled: isInventoryManager,
+    })),
+  });
+
+  if (isLoadingProfile) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  if (!isInventoryManager) {
+    return <Navigate to="/units" replace />;
+  }
+
+  const shipments = data?.results ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.count ?? 0) / PAGE_SIZE));
+
+  return (
+    <div className="import-shipments-page">
+      <div className="page-header">
+        <h1>Import Shipments</h1>
+        <div className="page-header-actions">
+          <button className="btn-primary" onClick={() => setShowForm(true)}>
+            + New Shipment
+          </button>
+        </div>
+      </div>
+
+      <p className="page-description">
+        Group imported units by shipment and record what it cost to land them: shipping, clearing, duty and forex, each
+        in the currency it was paid in. Allocating spreads those costs into each unit's cost, with an audit trail.
+      </p>
+
+      <div className="summary-stats">
+        {STATUS_TABS.map((tab, index) => (
+          <button
+            key={tab.value}
+            type="button"
+            className={`summary-stat-button summary-stat-button--${tab.className} ${!debouncedSearch && status === tab.value ? 'is-active' : ''}`}
+            onClick={() => {
+              setSearch('');
+              setListState({ status: tab.value });
+            }}
+            aria-pressed={!debouncedSearch && status === tab.value}
+          >
+            <span className="summary-stat-label">{tab.label}</span>
+            <span className="summary-stat-value">{(countQueries[index].data ?? 0).toLocaleString()}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="filters-bar">
+        <div className="search-row">
+          <input
+            type="text"
+            className="search-input"
+            placeholder="Search by reference, import partner or notes…"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setListState({ page: 1 }, { replace: true });
+            }}
+          />
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="loading">Loading import shipments...</div>
+      ) : error ? (
+        <div className="error">{getErrorMessage(error)}</div>
+      ) : shipments.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">🚢</div>
+          <h3>
+            {debouncedSearch
+              ? 'No shipments match your search'
+              : status === ImportShipmentStatusEnum.OPEN
+                ? 'No open shipments'
+                : 'No allocated shipments'}
+          </h3>
+        </div>
+      ) : (
+        <div className="colors-table-container">
+          <table className="colors-table">
+            <thead>
+              <tr>
+                <th>Reference</th>
+                <th>Import partner</th>
+                <th>Arrived</th>
+                <th>Units</th>
+                <th>Goods value</th>
+                <th>Landed costs</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {shipments.map((shipment) => {
+                const uplift = getUplift(shipment.goods_value, shipment.total_costs_kes);
+                return (
+                  <tr key={shipment.id}>
+                    <td className="color-name-cell">
+                      {shipment.reference}
+                      {shipment.status === ImportShipmentStatusEnum.ALLOCATED && shipment.allocated_at && (
+                        <div className="import-shipment-meta">
+                          Allocated {new Date(shipment.allocated_at).toLocaleDateString()}
+                        </div>
+                      )}
+                    </td>
+                    <td>{shipment.acquisition_source_name || '-'}</td>
+                    <td>{shipment.arrival_date ? new Date(shipment.arrival_date).toLocaleDateString() : '-'}</td>
+                    <td>{shipment.total_quantity.toLocaleString()}</td>
+                    <td>{formatKes(shipment.goods_value)}</td>
+                    <td>
+                      {formatKes(shipment.total_costs_kes)}
+                      {uplift !== null && <div className="import-shipment-meta">+{uplift.toFixed(1)}% on goods</div>}
+                    </td>
+                    <td>
+                      <button className="btn-small btn-primary" onClick={() => navigate(`/import-shipments/${shipment.id}`)}>
+                        {shipment.status === ImportShipmentStatusEnum.OPEN ? 'Open' : 'View'}
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {shipments.length > 0 && (
+        <div className="pagination">
+          <button
+            onClick={() => setListState({ page: Math.max(1, page - 1) })}
+            disabled={page <= 1}
+            className="btn-secondary"
+          >
+            Previous
+          </button>
+          <span className="page-info">
+            Page {page} of {totalPages} ({data?.count ?? 0} shipments)
+          </span>
+          <button
+            onClick={() => setListState({ page: Math.min(totalPages, page + 1) })}
+            disabled={page >= totalPages}
+            className="btn-secondary"
+          >
+            Next
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <ImportShipmentForm
+          onClose={() => setShowForm(false)}
+          onSaved={(shipment) => navigate(`/import-shipments/${shipment.id}`)}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,430 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  InspectionItemKindEnum,
+  InspectionItemsService,
+  ProductTypesEnum,
+  type InspectionItem,
+  type InspectionItemRequest,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { queryKeys } from '../hooks/queryKeys';
+import { useInspectionItems } from '../hooks/useInspectionItems';
+
+const PRODUCT_TYPE_LABELS: Record<ProductTypesEnum, string> = {
+  [ProductTypesEnum.PH]: 'Phone',
+  [ProductTypesEnum.LT]: 'Laptop',
+  [ProductTypesEnum.TB]: 'Tablet',
+  [ProductTypesEnum.AC]: 'Accessory',
+};
+
+const KIND_LABELS: Record<InspectionItemKindEnum, string> = {
+  [InspectionItemKindEnum.PASS_FAIL]: 'Pass / fail',
+  [InspectionItemKindEnum.PERCENT]: 'Percentage',
+  [InspectionItemKindEnum.LOCK_STATUS]: 'Lock status',
+};
+
+const DEVICES = [ProductTypesEnum.PH, ProductTypesEnum.TB, ProductTypesEnum.LT];
+const MOBILE = [ProductTypesEnum.PH, ProductTypesEnum.TB];
+
+/** The checklist offered when none has been set up yet. */
+const STANDARD_ITEMS: InspectionItemRequest[] = [
+  { key: 'screen', label: 'Screen', kind: InspectionItemKindEnum.PASS_FAIL, product_types: DEVICES },
+  {
+    key: 'battery_health',
+    label: 'Battery health',
+    kind: InspectionItemKindEnum.PERCENT,
+    product_types: DEVICES,
+    min_value: 85,
+  },
+  { key: 'cameras', label: 'Cameras', kind: InspectionItemKindEnum.PASS_FAIL, product_types: DEVICES },
+  { key: 'buttons', label: 'Buttons', kind: InspectionItemKindEnum.PASS_FAIL, product_types: DEVICES },
+  { key: 'biometrics', label: 'Face ID / fingerprint', kind: InspectionItemKindEnum.PASS_FAIL, product_types: DEVICES },
+  { key: 'charging_port', label: 'Charging port', kind: InspectionItemKindEnum.PASS_FAIL, product_types: DEVICES },
+  {
+    key: 'activation_lock',
+    label: 'iCloud / FRP lock',
+    kind: InspectionItemKindEnum.LOCK_STATUS,
+    product_types: MOBILE,
+    critical: true,
+  },
+  {
+    key: 'water_damage',
+    label: 'No water damage',
+    kind: InspectionItemKindEnum.PASS_FAIL,
+    product_types: DEVICES,
+    critical: true,
+  },
+].map((item, index) => ({ ...item, sort_order: (index + 1) * 10, is_active: true }));
+
+const describeProductTypes = (item: InspectionItem) =>
+  item.product_types?.length
+    ? item.product_types.map((type) => PRODUCT_TYPE_LABELS[type]).join(', ')
+    : 'All';
+
+export const InspectionItemsPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data: items, isLoading, error } = useInspectionItems();
+  const [editingItem, setEditingItem] = useState<InspectionItem | null>(null);
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const sortedItems = [...items].sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0));
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => InspectionItemsService.inspectionItemsDestroy(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.inspectionItems() });
+      showToast('Inspection item deleted', 'success');
+    },
+    onError: (err) => showToast(getErrorMessage(err), 'error'),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (item: InspectionItem) =>
+      InspectionItemsService.inspectionItemsPartialUpdate(item.id, { is_active: !item.is_active }),
+    onSuccess: (item) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.inspectionItems() });
+      showToast(`"${item.label}" ${item.is_active ? 'enabled' : 'disabled'}`, 'success');
+    },
+    onError: (err) => showToast(getErrorMessage(err), 'error'),
+  });
+
+  const standardMutation = useMutation({
+    mutationFn: async () => {
+      for (const item of STANDARD_ITEMS) {
+        await InspectionItemsService.inspectionItemsCreate(item);
+      }
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.inspectionItems() }),
+    onSuccess: () => showToast(`Added ${STANDARD_ITEMS.length} standard checks`, 'success'),
+    onError: (err) => showToast(getErrorMessage(err), 'error'),
+  });
+
+  const handleDelete = (item: InspectionItem) => {
+    if (window.confirm(`Delete the inspection item "${item.label}"? Past inspections keep their results.`)) {
+      deleteMutation.mutate(item.id);
+    }
+  };
+
+  const openForm = (item: InspectionItem | null) => {
+    setEditingItem(item);
+    setShowFormModal(true);
+  };
+
+  const closeForm = () => {
+    setShowFormModal(false);
+    setEditingItem(null);
+  };
+
+  if (isLoading) {
+    return <div className="loading">Loading inspection checklist...</div>;
+  }
+
+  if (error) {
+    return <div className="error">Error loading inspection checklist: {getErrorMessage(error)}</div>;
+  }
+
+  return (
+    <div className="inspection-items-page">
+      {toast && <div className={`toast toast-${toast.type}`}>{toast.message}</div>}
+
+      <div className="page-header">
+        <h1>Inspection Checklist</h1>
+        <div className="page-header-actions">
+          <button className="btn-primary" onClick={() => openForm(null)}>
+            + Add Check
+          </button>
+        </div>
+      </div>
+
+      <p className="page-description">
+        Checks recorded when inspecting refurbished, pre-owned and defective units (🔍 Inspect in a unit's details). A
+        unit with every check passed is suggested Grade A, one with failed checks Grade B, and a failed critical check
+        means it cannot be graded.
+      </p>
+
+      {sortedItems.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">🔍</div>
+          <h3>No inspection checks</h3>
+          <p>
+            Start from the standard checklist: screen, battery health, cameras, buttons, Face ID / fingerprint, charging
+            port, iCloud / FRP lock and water damage.
+          </p>
+          <button
+            className="btn-primary"
+            onClick={() => standardMutation.mutate()}
+            disabled={standardMutation.isPending}
+          >
+            {standardMutation.isPending ? 'Adding...' : 'Add Standard Checklist'}
+          </button>
+        </div>
+      ) : (
+        <div className="colors-table-container">
+          <table className="colors-table">
+            <thead>
+              <tr>
+                <th>Order</th>
+                <th>Check</th>
+                <th>Type</th>
+                <th>Applies To</th>
+                <th>Critical</th>
+                <th>Active</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedItems.map((item) => (
+                <tr key={item.id} className={item.is_active ? undefined : 'is-unchanged'}>
+                  <td>{item.sort_order ?? 0}</td>
+                  <td className="color-name-cell">
+                    {item.label}
+                    <div className="form-help">{item.key}</div>
+                  </td>
+                  <td>
+                    {KIND_LABELS[item.kind ?? InspectionItemKindEnum.PASS_FAIL]}
+                    {item.kind === InspectionItemKindEnum.PERCENT && item.min_value != null && ` (min ${item.min_value}%)`}
+                  </td>
+                  <td>{describeProductTypes(item)}</td>
+                  <td>{item.critical ? '⚠️ Yes' : 'No'}</td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={!!item.is_active}
+                      onChange={() => toggleMutation.mutate(item)}
+                      disabled={toggleMutation.isPending}
+                      aria-label={`${item.label} active`}
+                    />
+                  </td>
+                  <td className="color-actions-cell">
+                    <button className="btn-action btn-edit" onClick={() => openForm(item)}>
+                      Edit
+                    </button>
+                    <button
+                      className="btn-action btn-delete"
+                      onClick={() => handleDelete(item)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showFormModal && (
+        <InspectionItemFormModal
+          item={editingItem}
+          nextSortOrder={sortedItems.length ? (sortedItems[sortedItems.length - 1].sort_order ?? 0) + 10 : 10}
+          onClose={closeForm}
+          onSaved={(message) => {
+            closeForm();
+            showToast(message, 'success');
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface InspectionItemFormModalProps {
+  item: InspectionItem | null;
+  /** Order offered for a new check, after all existing ones. */
+  nextSortOrder: number;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+const InspectionItemFormModal: React.FC<InspectionItemFormModalProps> = ({ item, nextSortOrder, onClose, onSaved }) => {
+  const queryClient = useQueryClient();
+  const [formData, setFormData] = useState<InspectionItemRequest>({
+    key: item?.key ?? '',
+    label: item?.label ?? '',
+    kind: item?.kind ?? InspectionItemKindEnum.PASS_FAIL,
+    product_types: item?.product_types ?? [],
+    min_value: item?.min_value ?? null,
+    critical: item?.critical ?? false,
+    sort_order: item?.sort_order ?? nextSortOrder,
+    is_active: item?.is_active ?? true,
+  });
+  const [error, setError] = useState('');
+
+  const saveMutation = useMutation({
+    mutationFn: (body: InspectionItemRequest) =>
+      item ? InspectionItemsService.inspectionItemsUpdate(item.id, body) : InspectionItemsService.inspectionItemsCreate(body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.inspectionItems() });
+      onSaved(item ? 'Inspection item updated' : 'Inspection item created');
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const update = (patch: Partial<InspectionItemRequest>) => setFormData((prev) => ({ ...prev, ...patch }));
+
+  const toggleProductType = (type: ProductTypesEnum) => {
+    const current = formData.product_types ?? [];
+    update({ product_types: current.includes(type) ? current.filter((t) => t !== type) : [...current, type] });
+  };
+
+  const handleLabelChange = (label: string) => {
+    // Derive the key from the label until the item is saved; saved keys stay stable
+    const patch: Partial<InspectionItemRequest> = { label };
+    if (!item) {
+      patch.key = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    }
+    update(patch);
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    saveMutation.mutate({
+      ...formData,
+      label: formData.label.trim(),
+      min_value: formData.kind === InspectionItemKindEnum.PERCENT ? formData.min_value : null,
+    });
+  };
+
+  const isLoading = saveMutation.isPending;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{item ? 'Edit Inspection Check' : 'Add Inspection Check'}</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="form-section">
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="inspection-item-label">Label <span className="required">*</span></label>
+              <input
+                id="inspection-item-label"
+                type="text"
+                value={formData.label}
+                onChange={(e) => handleLabelChange(e.target.value)}
+                required
+                disabled={isLoading}
+                placeholder="e.g. Speakers"
+                maxLength={100}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="inspection-item-key">Key <span className="required">*</span></label>
+              <input
+                id="inspection-item-key"
+                type="text"
+                value={formData.key}
+                onChange={(e) => update({ key: e.target.value })}
+                required
+                disabled={isLoading}
+                pattern="[-a-zA-Z0-9_]+"
+                maxLength={50}
+              />
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="inspection-item-kind">Type</label>
+              <select
+                id="inspection-item-kind"
+                value={formData.kind}
+                onChange={(e) => update({ kind: e.target.value as InspectionItemKindEnum })}
+                disabled={isLoading}
+              >
+                {Object.entries(KIND_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+            </div>
+            {formData.kind === InspectionItemKindEnum.PERCENT && (
+              <div className="form-group">
+                <label htmlFor="inspection-item-min">Minimum to pass (%)</label>
+                <input
+                  id="inspection-item-min"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={formData.min_value ?? ''}
+                  onChange={(e) => update({ min_value: e.target.value === '' ? null : Number(e.target.value) })}
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+            <div className="form-group">
+              <label htmlFor="inspection-item-order">Order</label>
+              <input
+                id="inspection-item-order"
+                type="number"
+                min={0}
+                value={formData.sort_order}
+                onChange={(e) => update({ sort_order: Number(e.target.value) })}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label>Applies to</label>
+            <div className="inspection-result-options">
+              {Object.entries(PRODUCT_TYPE_LABELS).map(([value, label]) => (
+                <label key={value} className="unit-export-option">
+                  <input
+                    type="checkbox"
+                    checked={formData.product_types?.includes(value as ProductTypesEnum) ?? false}
+                    onChange={() => toggleProductType(value as ProductTypesEnum)}
+                    disabled={isLoading}
+                  />
+                  {label}
+                </label>
+              ))}
+            </div>
+            <small className="form-help">Leave all unticked to apply to every product type.</small>
+          </div>
+
+          <div className="form-group">
+            <label className="unit-export-option">
+              <input
+                type="checkbox"
+                checked={!!formData.critical}
+                onChange={(e) => update({ critical: e.target.checked })}
+                disabled={isLoading}
+              />
+              Critical — a fail means the unit cannot be graded
+            </label>
+            <label className="unit-export-option">
+              <input
+                type="checkbox"
+                checked={!!formData.is_active}
+                onChange={(e) => update({ is_active: e.target.checked })}
+                disabled={isLoading}
+              />
+              Active
+            </label>
+          </div>
+
+          {error && <p className="error-text">{error}</p>}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isLoading}>
+              {isLoading ? 'Saving...' : item ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
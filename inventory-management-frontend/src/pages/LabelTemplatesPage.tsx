@@ -0,0 +1,421 @@
+import React, { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  LabelTemplatesService,
+  LabelBarcodeTypeEnum,
+  type LabelTemplate,
+  type LabelTemplateRequest,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { queryKeys } from '../hooks/queryKeys';
+import { useBrandsList } from '../hooks/useBrandsList';
+import { useLabelTemplates } from '../hooks/useLabelTemplates';
+
+/** Common A4 sticker sheet layouts, to save looking up label sizes. */
+const SHEET_PRESETS: Array<{ label: string; width: number; height: number; columns: number; rows: number }> = [
+  { label: '65 per sheet (38 × 21 mm)', width: 38, height: 21, columns: 5, rows: 13 },
+  { label: '40 per sheet (52 × 29 mm)', width: 52, height: 29, columns: 4, rows: 10 },
+  { label: '24 per sheet (70 × 37 mm)', width: 70, height: 37, columns: 3, rows: 8 },
+  { label: '21 per sheet (70 × 42 mm)', width: 70, height: 42, columns: 3, rows: 7 },
+  { label: '14 per sheet (99 × 38 mm)', width: 99, height: 38, columns: 2, rows: 7 },
+];
+
+export const LabelTemplatesPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data: templates, isLoading, error } = useLabelTemplates();
+  const [editingTemplate, setEditingTemplate] = useState<LabelTemplate | null>(null);
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => LabelTemplatesService.labelTemplatesDestroy(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.labelTemplates() });
+      showToast('Label template deleted', 'success');
+    },
+    onError: (err) => showToast(getErrorMessage(err), 'error'),
+  });
+
+  const handleDelete = (template: LabelTemplate) => {
+    if (window.confirm(`Delete the label template "${template.name}"?`)) {
+      deleteMutation.mutate(template.id);
+    }
+  };
+
+  const openForm = (template: LabelTemplate | null) => {
+    setEditingTemplate(template);
+    setShowFormModal(true);
+  };
+
+  const closeForm = () => {
+    setShowFormModal(false);
+    setEditingTemplate(null);
+  };
+
+  if (isLoading) {
+    return <div className="loading">Loading label templates...</div>;
+  }
+
+  if (error) {
+    return <div className="error">Error loading label templates: {getErrorMessage(error)}</div>;
+  }
+
+  return (
+    <div className="label-templates-page">
+      {toast && <div className={`toast toast-${toast.type}`}>{toast.message}</div>}
+
+      <div className="page-header">
+        <h1>Label Templates</h1>
+        <div className="page-header-actions">
+          <button className="btn-primary" onClick={() => openForm(null)}>
+            + Create Template
+          </button>
+        </div>
+      </div>
+
+      <p className="page-description">
+        Templates control the size and content of printed price tags. Units use their brand's template; units of
+        brands without one use the <strong>default</strong> template. Print labels from the Inventory Units selection
+        toolbar or a unit's details.
+      </p>
+
+      {templates.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">🏷️</div>
+          <h3>No label templates</h3>
+          <p>Create a default template before printing price tags.</p>
+          <button className="btn-primary" onClick={() => openForm(null)}>
+            Create Template
+          </button>
+        </div>
+      ) : (
+        <div className="colors-table-container">
+          <table className="colors-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Brand</th>
+                <th>Label Size</th>
+                <th>A4 Sheet</th>
+                <th>Barcode</th>
+                <th>Shows</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map((template) => (
+                <tr key={template.id}>
+                  <td className="color-name-cell">
+                    {template.name}
+                    {template.is_default && <span className="label-template-default">Default</span>}
+                  </td>
+                  <td>{template.brand_name || 'All brands'}</td>
+                  <td>
+                    {template.label_width_mm} × {template.label_height_mm} mm
+                  </td>
+                  <td>
+                    {template.sheet_columns ?? 1} × {template.sheet_rows ?? 1}
+                  </td>
+                  <td>{template.barcode_type === LabelBarcodeTypeEnum.CODE128 ? 'Code 128' : 'QR code'}</td>
+                  <td>
+                    {[
+                      template.show_storage_ram && 'Storage/RAM',
+                      template.show_condition_grade && 'Condition/grade',
+                      template.show_compare_at_price && 'Compare-at price',
+                    ]
+                      .filter(Boolean)
+                      .join(', ') || 'Name, price'}
+                  </td>
+                  <td className="color-actions-cell">
+                    <button className="btn-action btn-edit" onClick={() => openForm(template)}>
+                      Edit
+                    </button>
+                    <button
+                      className="btn-action btn-delete"
+                      onClick={() => handleDelete(template)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showFormModal && (
+        <LabelTemplateFormModal
+          template={editingTemplate}
+          onClose={closeForm}
+          onSaved={(message) => {
+            closeForm();
+            showToast(message, 'success');
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface LabelTemplateFormModalProps {
+  template: LabelTemplate | null;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+const LabelTemplateFormModal: React.FC<LabelTemplateFormModalProps> = ({ template, onClose, onSaved }) => {
+  const queryClient = useQueryClient();
+  const { data: brands } = useBrandsList();
+  const [formData, setFormData] = useState<LabelTemplateRequest>({
+    name: template?.name ?? '',
+    brand: template?.brand ?? null,
+    label_width_mm: template?.label_width_mm ?? 52,
+    label_height_mm: template?.label_height_mm ?? 29,
+    sheet_columns: template?.sheet_columns ?? 4,
+    sheet_rows: template?.sheet_rows ?? 10,
+    barcode_type: template?.barcode_type ?? LabelBarcodeTypeEnum.QR,
+    show_storage_ram: template?.show_storage_ram ?? true,
+    show_condition_grade: template?.show_condition_grade ?? true,
+    show_compare_at_price: template?.show_compare_at_price ?? false,
+    footer_text: template?.footer_text ?? '',
+    is_default: template?.is_default ?? false,
+  });
+  const [error, setError] = useState('');
+
+  const saveMutation = useMutation({
+    mutationFn: (body: LabelTemplateRequest) =>
+      template
+        ? LabelTemplatesService.labelTemplatesUpdate(template.id, body)
+        : LabelTemplatesService.labelTemplatesCreate(body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.labelTemplates() });
+      onSaved(template ? 'Label template updated' : 'Label template created');
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const update = (patch: Partial<LabelTemplateRequest>) => setFormData((prev) => ({ ...prev, ...patch }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    saveMutation.mutate({ ...formData, name: formData.name.trim(), footer_text: formData.footer_text?.trim() });
+  };
+
+  const isLoading = saveMutation.isPending;
+  const preset = SHEET_PRESETS.findIndex(
+    (p) =>
+      p.width === formData.label_width_mm &&
+      p.height === formData.label_height_mm &&
+      p.columns === formData.sheet_columns &&
+      p.rows === formData.sheet_rows
+  );
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{template ? 'Edit Label Template' : 'Create Label Template'}</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="form-section">
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="label-template-name">Name <span className="required">*</span></label>
+              <input
+                id="label-template-name"
+                type="text"
+                value={formData.name}
+                onChange={(e) => update({ name: e.target.value })}
+                required
+                disabled={isLoading}
+                placeholder="e.g. Samsung shelf tag"
+                maxLength={100}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="label-template-brand">Brand</label>
+              <select
+                id="label-template-brand"
+                value={formData.brand ?? ''}
+                onChange={(e) => update({ brand: e.target.value ? Number(e.target.value) : null })}
+                disabled={isLoading}
+              >
+                <option value="">All brands</option>
+                {brands.map((brand) => (
+                  <option key={brand.id} value={brand.id}>
+                    {brand.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="label-template-preset">Sticker sheet</label>
+            <select
+              id="label-template-preset"
+              value={preset}
+              onChange={(e) => {
+                const p = SHEET_PRESETS[Number(e.target.value)];
+                if (p) {
+                  update({ label_width_mm: p.width, label_height_mm: p.height, sheet_columns: p.columns, sheet_rows: p.rows });
+                }
+              }}
+              disabled={isLoading}
+            >
+              <option value={-1}>Custom</option>
+              {SHEET_PRESETS.map((p, index) => (
+                <option key={p.label} value={index}>
+                  {p.label}
+                </option>
+              ))}
+            </select>
+            <small className="form-help">Thermal (ZPL) labels use the label size only.</small>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="label-template-width">Width (mm) <span className="required">*</span></label>
+              <input
+                id="label-template-width"
+                type="number"
+                min={10}
+                max={210}
+                value={formData.label_width_mm}
+                onChange={(e) => update({ label_width_mm: Number(e.target.value) })}
+                required
+                disabled={isLoading}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="label-template-height">Height (mm) <span className="required">*</span></label>
+              <input
+                id="label-template-height"
+                type="number"
+                min={10}
+                max={297}
+                value={formData.label_height_mm}
+                onChange={(e) => update({ label_height_mm: Number(e.target.value) })}
+                required
+                disabled={isLoading}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="label-template-columns">Columns</label>
+              <input
+                id="label-template-columns"
+                type="number"
+                min={1}
+                max={10}
+                value={formData.sheet_columns}
+                onChange={(e) => update({ sheet_columns: Number(e.target.value) })}
+                disabled={isLoading}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="label-template-rows">Rows</label>
+              <input
+                id="label-template-rows"
+                type="number"
+                min={1}
+                max={20}
+                value={formData.sheet_rows}
+                onChange={(e) => update({ sheet_rows: Number(e.target.value) })}
+                disabled={isLoading}
+              />
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="label-template-barcode">Barcode</label>
+            <select
+              id="label-template-barcode"
+              value={formData.barcode_type}
+              onChange={(e) => update({ barcode_type: e.target.value as LabelBarcodeTypeEnum })}
+              disabled={isLoading}
+            >
+              <option value={LabelBarcodeTypeEnum.QR}>QR code</option>
+              <option value={LabelBarcodeTypeEnum.CODE128}>Code 128</option>
+            </select>
+            <small className="form-help">Encodes the IMEI, or the serial number for units without one.</small>
+          </div>
+
+          <div className="form-group">
+            <label>Show on label</label>
+            <label className="unit-export-option">
+              <input
+                type="checkbox"
+                checked={!!formData.show_storage_ram}
+                onChange={(e) => update({ show_storage_ram: e.target.checked })}
+                disabled={isLoading}
+              />
+              Storage / RAM
+            </label>
+            <label className="unit-export-option">
+              <input
+                type="checkbox"
+                checked={!!formData.show_condition_grade}
+                onChange={(e) => update({ show_condition_grade: e.target.checked })}
+                disabled={isLoading}
+              />
+              Condition / grade
+            </label>
+            <label className="unit-export-option">
+              <input
+                type="checkbox"
+                checked={!!formData.show_compare_at_price}
+                onChange={(e) => update({ show_compare_at_price: e.target.checked })}
+                disabled={isLoading}
+              />
+              Compare-at price (struck through)
+            </label>
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="label-template-footer">Footer text</label>
+            <input
+              id="label-template-footer"
+              type="text"
+              value={formData.footer_text}
+              onChange={(e) => update({ footer_text: e.target.value })}
+              disabled={isLoading}
+              placeholder="e.g. Shop name · 0700 000 000"
+              maxLength={60}
+            />
+          </div>
+
+          <div className="form-group">
+            <label className="unit-export-option">
+              <input
+                type="checkbox"
+                checked={!!formData.is_default}
+                onChange={(e) => update({ is_default: e.target.checked })}
+                disabled={isLoading}
+              />
+              Default template (for brands without their own)
+            </label>
+          </div>
+
+          {error && <p className="error-text">{error}</p>}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isLoading}>
+              {isLoading ? 'Saving...' : template ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
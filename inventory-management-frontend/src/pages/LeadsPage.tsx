@@ -5,15 +5,19 @@ import { useAuth } from '../contexts/AuthContext';
 import { LeadsService, ProfilesService, type LeadAdmin } from '../api/index';
 import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
 import { ModalLoader } from '../components/PageLoader';
+import { useUrlListState } from '../hooks/useUrlListState';
 
 const LeadDetailsModal = lazy(() => import('../components/LeadDetailsModal').then((m) => ({ default: m.LeadDetailsModal })));
 
 export const LeadsPage: React.FC = () => {
-  const [page, setPage] = useState(1);
-  const [pageSize, setPageSize] = useState(25);
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [assignedFilter, setAssignedFilter] = useState<string>('all'); // 'all', 'my', 'unclaimed'
-  const [search, setSearch] = useState('');
+  const [listState, setListState] = useUrlListState({
+    page: 1,
+    page_size: 25,
+    status: 'all',
+    assigned: 'all', // 'all', 'my', 'unclaimed'
+    search: '',
+  });
+  const { page, page_size: pageSize, status: statusFilter, assigned: assignedFilter, search } = listState;
   const [selectedLead, setSelectedLead] = useState<LeadAdmin | null>(null);
   const [showDetailsModal, setShowDetailsModal] = useState(false);
   const [toast, setToast] = useState<{message: string; type: 'success' | 'error'} | null>(null);
@@ -52,8 +56,8 @@ export const LeadsPage: React.FC = () => {
       const leadId = Number(leadIdParam);
       if (!Number.isNaN(leadId)) {
         setLeadIdToOpen(leadId);
-        setSearch(leadIdParam);
-        setPage(1);
+        searchParams.set('search', leadIdParam);
+        searchParams.delete('page');
       }
       searchParams.delete('leadId');
       setSearchParams(searchParams, { replace: true });
@@ -112,12 +116,8 @@ export const LeadsPage: React.FC = () => {
   const totalPages = Math.max(1, Math.ceil(filteredLeads.length / pageSize));
 
   useEffect(() => {
-    setPage(1);
-  }, [statusFilter, assignedFilter, search]);
-
-  useEffect(() => {
-    if (page > totalPages) setPage(totalPages);
-  }, [page, totalPages]);
+    if (!isLoading && page > totalPages) setListState({ page: totalPages }, { replace: true });
+  }, [isLoading, page, totalPages, setListState]);
 
   const paginatedLeads = useMemo(() => {
     const start = (page - 1) * pageSize;
@@ -316,14 +316,11 @@ export const LeadsPage: React.FC = () => {
   }
 
   const clearFilters = () => {
-    setStatusFilter('all');
-    setAssignedFilter('all');
-    setSearch('');
+    setListState({ status: 'all', assigned: 'all', search: '' });
   };
 
   const handlePageSizeChange = (newSize: number) => {
-    setPageSize(newSize);
-    setPage(1);
+    setListState({ page_size: newSize });
   };
 
   return (
@@ -363,7 +360,7 @@ export const LeadsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--total ${statusFilter === 'all' && assignedFilter === 'all' ? 'is-active' : ''}`}
-            onClick={() => { setStatusFilter('all'); setAssignedFilter('all'); }}
+            onClick={() => setListState({ status: 'all', assigned: 'all' })}
             title={`Total Leads: ${stats.total}`}
             aria-pressed={statusFilter === 'all' && assignedFilter === 'all'}
           >
@@ -373,7 +370,7 @@ export const LeadsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--new ${statusFilter === 'NEW' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('NEW')}
+            onClick={() => setListState({ status: 'NEW' })}
             title={`New Leads: ${stats.new}`}
             aria-pressed={statusFilter === 'NEW'}
           >
@@ -383,7 +380,7 @@ export const LeadsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--contacted ${statusFilter === 'CONTACTED' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('CONTACTED')}
+            onClick={() => setListState({ status: 'CONTACTED' })}
             title={`Contacted Leads: ${stats.contacted}`}
             aria-pressed={statusFilter === 'CONTACTED'}
           >
@@ -393,7 +390,7 @@ export const LeadsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--converted ${statusFilter === 'CONVERTED' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('CONVERTED')}
+            onClick={() => setListState({ status: 'CONVERTED' })}
             title={`Converted Leads: ${stats.converted}`}
             aria-pressed={statusFilter === 'CONVERTED'}
           >
@@ -403,7 +400,7 @@ export const LeadsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--closed ${statusFilter === 'CLOSED' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('CLOSED')}
+            onClick={() => setListState({ status: 'CLOSED' })}
             title={`Closed Leads: ${stats.closed} (Items returned to stock)`}
             aria-pressed={statusFilter === 'CLOSED'}
           >
@@ -413,7 +410,7 @@ export const LeadsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--expired ${statusFilter === 'EXPIRED' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('EXPIRED')}
+            onClick={() => setListState({ status: 'EXPIRED' })}
             title={`Expired Leads: ${stats.expired}`}
             aria-pressed={statusFilter === 'EXPIRED'}
           >
@@ -424,7 +421,7 @@ export const LeadsPage: React.FC = () => {
             <button
               type="button"
               className={`summary-stat-button summary-stat-button--unclaimed ${assignedFilter === 'unclaimed' ? 'is-active' : ''}`}
-              onClick={() => { setAssignedFilter('unclaimed'); setStatusFilter('all'); }}
+              onClick={() => setListState({ assigned: 'unclaimed', status: 'all' })}
               title={`Unclaimed Leads: ${stats.unclaimed}`}
               aria-pressed={assignedFilter === 'unclaimed'}
             >
@@ -436,7 +433,7 @@ export const LeadsPage: React.FC = () => {
             <button
               type="button"
               className={`summary-stat-button summary-stat-button--my ${assignedFilter === 'my' ? 'is-active' : ''}`}
-              onClick={() => { setAssignedFilter('my'); setStatusFilter('all'); }}
+              onClick={() => setListState({ assigned: 'my', status: 'all' })}
               title="My Leads"
               aria-pressed={assignedFilter === 'my'}
             >
@@ -454,7 +451,7 @@ export const LeadsPage: React.FC = () => {
             type="text"
             placeholder="Search by customer name, phone, or lead reference..."
             value={search}
-            onChange={(e) => setSearch(e.target.value)}
+            onChange={(e) => setListState({ search: e.target.value }, { replace: true })}
             className="search-input"
           />
           {(statusFilter !== 'all' || assignedFilter !== 'all' || search) && (
@@ -598,7 +595,7 @@ export const LeadsPage: React.FC = () => {
         <div className="pagination">
           <button
             className="btn-secondary"
-            onClick={() => setPage(p => Math.max(1, p - 1))}
+            onClick={() => setListState({ page: Math.max(1, page - 1) })}
             disabled={page <= 1}
           >
             Previous
@@ -608,7 +605,7 @@ export const LeadsPage: React.FC = () => {
           </span>
           <button
             className="btn-secondary"
-            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+            onClick={() => setListState({ page: Math.min(totalPages, page + 1) })}
             disabled={page >= totalPages}
           >
             Next
@@ -1,7 +1,8 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useAdminProfile } from '../hooks/useAdminProfile';
+import { takeReturnTo } from '../api/session';
 import '../styles/pages/Login/base.css';
 
 type ProfileForRedirect = { user?: { is_superuser?: boolean }; roles?: Array<{ name?: string; role_code?: string }> };
@@ -14,6 +15,14 @@ export const LoginPage: React.FC = () => {
   const { login, user, isAuthenticated } = useAuth();
   const { data: adminProfile } = useAdminProfile();
   const navigate = useNavigate();
+  const location = useLocation();
+  // Page to go back to after login: set by ProtectedRoute (deep link) or by session expiry.
+  const returnToRef = useRef<string | null | undefined>(undefined);
+  if (returnToRef.current === undefined) {
+    const from = (location.state as { from?: { pathname?: string; search?: string } } | null)?.from;
+    const fromPath = from?.pathname && from.pathname !== '/' ? `${from.pathname}${from.search || ''}` : null;
+    returnToRef.current = takeReturnTo() ?? fromPath;
+  }
 
   const redirectByRole = useCallback((profile: ProfileForRedirect) => {
     const isSuperuser =
@@ -26,7 +35,9 @@ export const LoginPage: React.FC = () => {
       );
     };
     const state = { adminProfile: profile };
-    if (hasRole('CC') && !isSuperuser) {
+    if (returnToRef.current) {
+      navigate(returnToRef.current, { state, replace: true });
+    } else if (hasRole('CC') && !isSuperuser) {
       navigate('/content-creator/dashboard', { state, replace: true });
     } else if (hasRole('SP') && !isSuperuser) {
       navigate('/products', { state, replace: true });
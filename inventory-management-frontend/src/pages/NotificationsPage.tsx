@@ -4,12 +4,12 @@ import { useNavigate } from 'react-router-dom';
 import { NotificationsService, Notification } from '../api/index';
 import { getInventoryBaseUrl } from '../api/config';
 import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
+import { useUrlListState } from '../hooks/useUrlListState';
 
 export const NotificationsPage: React.FC = () => {
-  const [page, setPage] = useState(1);
-  const [pageSize, setPageSize] = useState(25);
-  const [filter, setFilter] = useState<'all' | 'unread' | 'read'>('all');
-  const [search, setSearch] = useState('');
+  const [listState, setListState] = useUrlListState({ page: 1, page_size: 25, filter: 'all', search: '' });
+  const { page, page_size: pageSize, search } = listState;
+  const filter = listState.filter as 'all' | 'unread' | 'read';
   const [showFilters, setShowFilters] = useState(false);
   const queryClient = useQueryClient();
   const navigate = useNavigate();
@@ -82,6 +82,11 @@ export const NotificationsPage: React.FC = () => {
           return `/unit-transfers?transferId=${notification.object_id}`;
         case 'inventory.lead':
           return `/leads?leadId=${notification.object_id}`;
+        case 'inventory.inventoryunit':
+          if (['BA', 'BR', 'BC'].includes(notification.notification_type || '')) {
+            return `/buybacks?unitId=${notification.object_id}`;
+          }
+          break;
         default:
           break;
       }
@@ -104,6 +109,10 @@ export const NotificationsPage: React.FC = () => {
         return notification.object_id ? `/leads?leadId=${notification.object_id}` : '/leads';
       case 'OC':
         return '/orders';
+      case 'BA':
+      case 'BR':
+      case 'BC':
+        return notification.object_id ? `/buybacks?unitId=${notification.object_id}` : '/buybacks';
       default:
         return null;
     }
@@ -144,12 +153,8 @@ export const NotificationsPage: React.FC = () => {
   const totalPages = Math.max(1, Math.ceil(filteredNotifications.length / pageSize));
 
   useEffect(() => {
-    setPage(1);
-  }, [search, filter]);
-
-  useEffect(() => {
-    if (page > totalPages) setPage(totalPages);
-  }, [page, totalPages]);
+    if (!isLoading && page > totalPages) setListState({ page: totalPages }, { replace: true });
+  }, [isLoading, page, totalPages, setListState]);
 
   const paginatedNotifications = useMemo(() => {
     const start = (page - 1) * pageSize;
@@ -195,6 +200,9 @@ export const NotificationsPage: React.FC = () => {
       case 'OC': return '🛒';
       case 'UR': return '📦';
       case 'RP': return '⏳';
+      case 'BA': return '✅';
+      case 'BR': return '❌';
+      case 'BC': return '💬';
       default: return '🔔';
     }
   };
@@ -203,12 +211,15 @@ export const NotificationsPage: React.FC = () => {
     switch (type) {
       case 'RA':
       case 'TA':
-      case 'FA': return 'var(--md-tertiary-container)';
+      case 'FA':
+      case 'BA': return 'var(--md-tertiary-container)';
       case 'RR':
       case 'TR':
-      case 'FR': return 'var(--md-error-container)';
+      case 'FR':
+      case 'BR': return 'var(--md-error-container)';
       case 'RE':
-      case 'RP': return 'var(--md-secondary-container)';
+      case 'RP':
+      case 'BC': return 'var(--md-secondary-container)';
       case 'OC':
       case 'UR': return 'var(--md-primary-container)';
       case 'NL': return 'var(--md-primary-container)';
@@ -217,8 +228,7 @@ export const NotificationsPage: React.FC = () => {
   };
 
   const clearFilters = () => {
-    setFilter('all');
-    setSearch('');
+    setListState({ filter: 'all', search: '' });
     setShowFilters(false);
   };
 
@@ -230,12 +240,11 @@ export const NotificationsPage: React.FC = () => {
   }, [search, filter]);
 
   const handlePageSizeChange = (newSize: number) => {
-    setPageSize(newSize);
-    setPage(1); // Reset to first page when page size changes
+    setListState({ page_size: newSize }); // Also resets to the first page
   };
 
   const handleFilterClick = (newFilter: 'all' | 'unread' | 'read') => {
-    setFilter(newFilter);
+    setListState({ filter: newFilter });
     setShowFilters(false); // Close filters on selection
   };
 
@@ -317,7 +326,7 @@ export const NotificationsPage: React.FC = () => {
             type="text"
             placeholder="Search notifications by title, message, or type..."
             value={search}
-            onChange={(e) => setSearch(e.target.value)}
+            onChange={(e) => setListState({ search: e.target.value }, { replace: true })}
             className="search-input"
           />
           <button 
@@ -408,7 +417,7 @@ export const NotificationsPage: React.FC = () => {
         <div className="pagination-section">
           <div className="pagination">
             <button
-              onClick={() => setPage(p => Math.max(1, p - 1))}
+              onClick={() => setListState({ page: Math.max(1, page - 1) })}
               disabled={page <= 1}
               className="btn-secondary"
             >
@@ -418,7 +427,7 @@ export const NotificationsPage: React.FC = () => {
               Page {page} of {totalPages} ({filteredNotifications.length} matching)
             </span>
             <button
-              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              onClick={() => setListState({ page: Math.min(totalPages, page + 1) })}
               disabled={page >= totalPages}
               className="btn-secondary"
             >
@@ -467,12 +476,15 @@ const NotificationCard: React.FC<NotificationCardProps> = ({
     switch (type) {
       case 'RA':
       case 'TA':
-      case 'FA': return 'var(--md-on-tertiary-container)';
+      case 'FA':
+      case 'BA': return 'var(--md-on-tertiary-container)';
       case 'RR':
       case 'TR':
-      case 'FR': return 'var(--md-on-error-container)';
+      case 'FR':
+      case 'BR': return 'var(--md-on-error-container)';
       case 'RE':
-      case 'RP': return 'var(--md-on-secondary-container)';
+      case 'RP':
+      case 'BC': return 'var(--md-on-secondary-container)';
       case 'OC':
       case 'UR':
       case 'NL': return 'var(--md-on-primary-container)';
@@ -1,19 +1,25 @@
 import React, { useState, useEffect, useMemo, Suspense, lazy } from 'react';
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
 import { Navigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { useAdminProfile } from '../hooks/useAdminProfile';
 import {
   ApiError,
+  ListKeyEnum,
   OrdersService,
   OrderStatusEnum,
   type InitiatePaymentRequestRequest,
   type OrderResponse,
+  type PaginatedOrderList,
 } from '../api/index';
 import { getInventoryBaseUrl } from '../api/config';
-import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
+import { listOrders, OrdersListParams } from '../api/ordersList';
 import { ModalLoader } from '../components/PageLoader';
+import { SavedViewsMenu } from '../components/SavedViewsMenu';
 import { useDebounce } from '../hooks/useDebounce';
+import { useBrandsList } from '../hooks/useBrandsList';
+import { useUrlListState } from '../hooks/useUrlListState';
+import { useDefaultSavedView } from '../hooks/useSavedViews';
 
 /** OpenAPI client throws ApiError with server JSON in .body; axios uses .response.data */
 function getMutationErrorPayload(err: unknown): unknown {
@@ -41,15 +47,53 @@ function formatBackendError(err: unknown, fallback: string): string {
   return fallback;
 }
 
+const STATUS_FILTERS = ['Pending', 'Paid', 'Delivered', 'Canceled'] as const;
+
+const EMPTY_ORDER_FILTERS = {
+  created_from: '',
+  created_to: '',
+  order_source: '',
+  brand: '',
+  is_items_paid: '',
+  is_delivery_paid: '',
+  delivery_county: '',
+};
+
+type OrderFilters = typeof EMPTY_ORDER_FILTERS;
+
+const LIST_DEFAULTS = {
+  page: 1,
+  page_size: 25,
+  status: 'all',
+  search: '',
+  ...EMPTY_ORDER_FILTERS,
+};
+
+const LIST_PARAM_KEYS = Object.keys(LIST_DEFAULTS);
+
+const toBoolean = (value: string) => (value === '' ? undefined : value === 'true');
+
+/** Map the filter form onto GET /orders/ query params (status and paging are added per query). */
+const toOrdersListParams = (filters: OrderFilters, search: string): OrdersListParams => ({
+  search: search.trim() || undefined,
+  created_at__date__gte: filters.created_from || undefined,
+  created_at__date__lte: filters.created_to || undefined,
+  order_source: (filters.order_source || undefined) as OrdersListParams['order_source'],
+  brand: filters.brand ? Number(filters.brand) : undefined,
+  is_items_paid: toBoolean(filters.is_items_paid),
+  is_delivery_paid: toBoolean(filters.is_delivery_paid),
+  delivery_county: filters.delivery_county.trim() || undefined,
+});
+
 const OrderDetailsModal = lazy(() => import('../components/OrderDetailsModal').then((m) => ({ default: m.OrderDetailsModal })));
 
 export const OrdersPage: React.FC = () => {
   const { user } = useAuth();
-  const [page, setPage] = useState(1);
-  const [pageSize, setPageSize] = useState(25);
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [search, setSearch] = useState('');
+  const [listState, setListState] = useUrlListState(LIST_DEFAULTS);
+  const { page, page_size: pageSize, status: statusFilter, search } = listState;
   const debouncedSearch = useDebounce(search, 300);
+  const debouncedCounty = useDebounce(listState.delivery_county, 300);
+  useDefaultSavedView(ListKeyEnum.ORDERS, LIST_PARAM_KEYS);
   const [showFilters, setShowFilters] = useState(false);
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -59,20 +103,33 @@ export const OrdersPage: React.FC = () => {
   
   const { data: adminProfile, isLoading: isLoadingProfile } = useAdminProfile();
 
+  const { data: brands } = useBrandsList({ enabled: showFilters });
+
+  // Typed filters (search, county) reach the query only once typing pauses
+  const listParams = useMemo(
+    () => toOrdersListParams({ ...listState, delivery_county: debouncedCounty }, debouncedSearch),
+    [listState, debouncedCounty, debouncedSearch]
+  );
+  const status = statusFilter === 'all' ? undefined : (statusFilter as OrdersListParams['status']);
+
   const { data: ordersListData, isLoading, error } = useQuery({
-    queryKey: ['orders'],
-    queryFn: async () => {
-      const results = await fetchAllDrfPages<OrderResponse>('/orders/');
-      return {
-        results,
-        count: results.length,
-        next: null as string | null,
-        previous: null as string | null,
-      };
-    },
+    queryKey: ['orders', 'list', page, pageSize, status, listParams],
+    queryFn: () => listOrders({ ...listParams, status, page, page_size: pageSize }),
+    placeholderData: (previous) => previous,
     enabled: !!user?.is_staff || !!user,
   });
 
+  // Per-status totals for the current filters: one page_size=1 request each, reading DRF's `count`
+  const statusCountQueries = useQueries({
+    queries: [undefined, ...STATUS_FILTERS].map((countStatus) => ({
+      queryKey: ['orders', 'count', countStatus ?? 'all', listParams],
+      queryFn: () => listOrders({ ...listParams, status: countStatus, page_size: 1 }),
+      select: (data: { count: number }) => data.count,
+      placeholderData: (previous?: PaginatedOrderList) => previous,
+      enabled: !!user?.is_staff || !!user,
+    })),
+  });
+
   useEffect(() => {
     const orderIdParam = searchParams.get('orderId');
     const orderMerchantReference = searchParams.get('OrderMerchantReference');
@@ -213,57 +270,25 @@ export const OrdersPage: React.FC = () => {
     };
   }, [pendingPaymentKey, queryClient, searchParams, setSearchParams]);
 
-  // Client-side filtering
-  const filteredOrders = useMemo(() => {
-    if (!ordersListData?.results) return [];
-    let filtered = ordersListData.results;
-
-    if (statusFilter !== 'all') {
-      filtered = filtered.filter((order) => order.status === statusFilter);
-    }
-
-    if (debouncedSearch.trim()) {
-      const searchLower = debouncedSearch.trim().toLowerCase();
-      filtered = filtered.filter((order) => {
-        const idMatch = order.order_id?.toString().toLowerCase().includes(searchLower);
-        const customerMatch = order.customer_username?.toLowerCase().includes(searchLower);
-        const statusMatch = order.status?.toLowerCase().includes(searchLower);
-        return idMatch || customerMatch || statusMatch;
-      });
-    }
-
-    return filtered;
-  }, [ordersListData, statusFilter, debouncedSearch]);
-
-  const totalPages = Math.max(1, Math.ceil(filteredOrders.length / pageSize));
+  const paginatedOrders = useMemo(() => ordersListData?.results ?? [], [ordersListData]);
+  const matchingCount = ordersListData?.count ?? 0;
+  const totalPages = Math.max(1, Math.ceil(matchingCount / pageSize));
 
   useEffect(() => {
-    setPage(1);
-  }, [debouncedSearch, statusFilter]);
+    if (ordersListData && page > totalPages) setListState({ page: totalPages }, { replace: true });
+  }, [ordersListData, page, totalPages, setListState]);
 
-  useEffect(() => {
-    if (page > totalPages) setPage(totalPages);
-  }, [page, totalPages]);
-
-  const paginatedOrders = useMemo(() => {
-    const start = (page - 1) * pageSize;
-    return filteredOrders.slice(start, start + pageSize);
-  }, [filteredOrders, page, pageSize]);
-
-  // Calculate statistics
-  const stats = useMemo(() => {
-    if (!ordersListData?.results) {
-      return { total: 0, pending: 0, paid: 0, delivered: 0, canceled: 0 };
-    }
-    const results = ordersListData.results;
-    return {
-      total: results.length,
-      pending: results.filter((order) => order.status === 'Pending').length,
-      paid: results.filter((order) => order.status === 'Paid').length,
-      delivered: results.filter((order) => order.status === 'Delivered').length,
-      canceled: results.filter((order) => order.status === 'Canceled').length,
-    };
-  }, [ordersListData]);
+  // Summary statistics (server counts for the current search and filters)
+  const [totalCount, pendingCount, paidCount, deliveredCount, canceledCount] = statusCountQueries.map(
+    (query) => query.data ?? 0
+  );
+  const stats = {
+    total: totalCount,
+    pending: pendingCount,
+    paid: paidCount,
+    delivered: deliveredCount,
+    canceled: canceledCount,
+  };
 
   const getStatusBadgeClass = (status?: string) => {
     if (!status) return '';
@@ -440,6 +465,11 @@ export const OrdersPage: React.FC = () => {
       
       // Invalidate to trigger a refetch and ensure consistency
       queryClient.invalidateQueries({ queryKey: ['orders'] });
+      // Delivering an order starts the warranties of its units
+      if (nextStatus === OrderStatusEnum.DELIVERED) {
+        queryClient.invalidateQueries({ queryKey: ['warranties'] });
+        queryClient.invalidateQueries({ queryKey: ['reports-warranty-expiry'] });
+      }
     },
     onError: (err: any, variables, context) => {
       console.error('Update order status error:', err);
@@ -454,18 +484,23 @@ export const OrdersPage: React.FC = () => {
     },
   });
 
+  const handleFilterChange = (key: keyof OrderFilters, value: string, options?: { replace?: boolean }) => {
+    setListState({ [key]: value }, options);
+  };
+
   const clearFilters = () => {
-    setStatusFilter('all');
-    setSearch('');
+    setListState({ status: 'all', search: '', ...EMPTY_ORDER_FILTERS });
     setShowFilters(false);
   };
 
   const activeFilterCount = useMemo(() => {
-    let count = 0;
+    let count = (Object.keys(EMPTY_ORDER_FILTERS) as Array<keyof OrderFilters>).filter(
+      (key) => listState[key] !== ''
+    ).length;
     if (search) count++;
     if (statusFilter !== 'all') count++;
     return count;
-  }, [search, statusFilter]);
+  }, [listState, search, statusFilter]);
 
   // Role checks and redirect (after all hooks are declared)
   const isSuperuser = adminProfile?.user?.is_superuser === true;
@@ -494,8 +529,7 @@ export const OrdersPage: React.FC = () => {
   }
 
   const handlePageSizeChange = (newSize: number) => {
-    setPageSize(newSize);
-    setPage(1); // Reset to first page when page size changes
+    setListState({ page_size: newSize }); // Also resets to the first page
   };
 
   if (isLoading) {
@@ -530,7 +564,7 @@ export const OrdersPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--total ${statusFilter === 'all' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('all')}
+            onClick={() => setListState({ status: 'all' })}
             title={`Total Orders: ${stats.total}`}
             aria-pressed={statusFilter === 'all'}
           >
@@ -540,7 +574,7 @@ export const OrdersPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--pending ${statusFilter === 'Pending' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('Pending')}
+            onClick={() => setListState({ status: 'Pending' })}
             title={`Pending Orders: ${stats.pending}`}
             aria-pressed={statusFilter === 'Pending'}
           >
@@ -550,7 +584,7 @@ export const OrdersPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--paid ${statusFilter === 'Paid' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('Paid')}
+            onClick={() => setListState({ status: 'Paid' })}
             title={`Paid Orders: ${stats.paid}`}
             aria-pressed={statusFilter === 'Paid'}
           >
@@ -560,7 +594,7 @@ export const OrdersPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--delivered ${statusFilter === 'Delivered' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('Delivered')}
+            onClick={() => setListState({ status: 'Delivered' })}
             title={`Delivered Orders: ${stats.delivered}`}
             aria-pressed={statusFilter === 'Delivered'}
           >
@@ -570,7 +604,7 @@ export const OrdersPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--canceled ${statusFilter === 'Canceled' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('Canceled')}
+            onClick={() => setListState({ status: 'Canceled' })}
             title={`Canceled Orders: ${stats.canceled}`}
             aria-pressed={statusFilter === 'Canceled'}
           >
@@ -585,9 +619,9 @@ export const OrdersPage: React.FC = () => {
         <div className="search-row">
           <input
             type="text"
-            placeholder="Search by order ID, customer, or status..."
+            placeholder="Search by order ID, customer name, phone or email..."
             value={search}
-            onChange={(e) => setSearch(e.target.value)}
+            onChange={(e) => setListState({ search: e.target.value }, { replace: true })}
             className="search-input"
           />
                     <button
@@ -600,6 +634,7 @@ export const OrdersPage: React.FC = () => {
               <span className="filter-badge">{activeFilterCount}</span>
             )}
           </button>
+          <SavedViewsMenu listKey={ListKeyEnum.ORDERS} paramKeys={LIST_PARAM_KEYS} />
           {activeFilterCount > 0 && (
             <button className="btn-clear-filters" onClick={clearFilters}>
               Clear Filters
@@ -615,36 +650,127 @@ export const OrdersPage: React.FC = () => {
               <div className="filter-chips">
                 <button
                   className={`filter-chip ${statusFilter === 'all' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('all')}
+                  onClick={() => setListState({ status: 'all' })}
                 >
                   All
                 </button>
                 <button
                   className={`filter-chip ${statusFilter === 'Pending' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('Pending')}
+                  onClick={() => setListState({ status: 'Pending' })}
                 >
                   Pending ({stats.pending})
                 </button>
                 <button
                   className={`filter-chip ${statusFilter === 'Paid' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('Paid')}
+                  onClick={() => setListState({ status: 'Paid' })}
                 >
                   Paid ({stats.paid})
                 </button>
                 <button
                   className={`filter-chip ${statusFilter === 'Delivered' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('Delivered')}
+                  onClick={() => setListState({ status: 'Delivered' })}
                 >
                   Delivered ({stats.delivered})
                 </button>
                 <button
                   className={`filter-chip ${statusFilter === 'Canceled' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('Canceled')}
+                  onClick={() => setListState({ status: 'Canceled' })}
                 >
                   Canceled ({stats.canceled})
                 </button>
               </div>
             </div>
+
+            <div className="filter-group">
+              <label htmlFor="order-filter-created-from">Created From</label>
+              <input
+                id="order-filter-created-from"
+                type="date"
+                value={listState.created_from}
+                onChange={(e) => handleFilterChange('created_from', e.target.value)}
+                className="filter-select"
+              />
+            </div>
+
+            <div className="filter-group">
+              <label htmlFor="order-filter-created-to">Created To</label>
+              <input
+                id="order-filter-created-to"
+                type="date"
+                value={listState.created_to}
+                onChange={(e) => handleFilterChange('created_to', e.target.value)}
+                className="filter-select"
+              />
+            </div>
+
+            <div className="filter-group">
+              <label htmlFor="order-filter-source">Source</label>
+              <select
+                id="order-filter-source"
+                value={listState.order_source}
+                onChange={(e) => handleFilterChange('order_source', e.target.value)}
+                className="filter-select"
+              >
+                <option value="">All Sources</option>
+                <option value="ONLINE">Online</option>
+                <option value="WALK_IN">Walk-in</option>
+              </select>
+            </div>
+
+            <div className="filter-group">
+              <label htmlFor="order-filter-brand">Brand</label>
+              <select
+                id="order-filter-brand"
+                value={listState.brand}
+                onChange={(e) => handleFilterChange('brand', e.target.value)}
+                className="filter-select"
+              >
+                <option value="">All Brands</option>
+                {brands.map((brand) => (
+                  <option key={brand.id} value={brand.id}>{brand.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="filter-group">
+              <label htmlFor="order-filter-items-paid">Items Paid</label>
+              <select
+                id="order-filter-items-paid"
+                value={listState.is_items_paid}
+                onChange={(e) => handleFilterChange('is_items_paid', e.target.value)}
+                className="filter-select"
+              >
+                <option value="">Any</option>
+                <option value="true">Paid</option>
+                <option value="false">Unpaid</option>
+              </select>
+            </div>
+
+            <div className="filter-group">
+              <label htmlFor="order-filter-delivery-paid">Delivery Paid</label>
+              <select
+                id="order-filter-delivery-paid"
+                value={listState.is_delivery_paid}
+                onChange={(e) => handleFilterChange('is_delivery_paid', e.target.value)}
+                className="filter-select"
+              >
+                <option value="">Any</option>
+                <option value="true">Paid</option>
+                <option value="false">Unpaid</option>
+              </select>
+            </div>
+
+            <div className="filter-group">
+              <label htmlFor="order-filter-county">Delivery County</label>
+              <input
+                id="order-filter-county"
+                type="text"
+                placeholder="e.g. Nairobi"
+                value={listState.delivery_county}
+                onChange={(e) => handleFilterChange('delivery_county', e.target.value, { replace: true })}
+                className="filter-select"
+              />
+            </div>
           </div>
         )}
       </div>
@@ -654,16 +780,16 @@ export const OrdersPage: React.FC = () => {
         <div className="empty-state">
           <div className="empty-state-icon">📭</div>
           <h3>
-            {search || statusFilter !== 'all' 
+            {activeFilterCount > 0
               ? 'No matching orders found' 
               : 'No orders'}
           </h3>
           <p>
-            {search || statusFilter !== 'all'
+            {activeFilterCount > 0
               ? 'Try adjusting your search terms or filters to see more orders.'
               : 'There are no orders in the system. Create one to get started.'}
           </p>
-          {(search || statusFilter !== 'all') && (
+          {activeFilterCount > 0 && (
             <button className="btn-secondary" onClick={clearFilters}>
               Clear Filters
             </button>
@@ -704,21 +830,21 @@ export const OrdersPage: React.FC = () => {
       )}
 
       {/* Pagination */}
-      {filteredOrders.length > 0 ? (
+      {matchingCount > 0 ? (
       <div className="pagination">
           <div className="pagination-controls">
         <button
-              onClick={() => setPage(p => Math.max(1, p - 1))}
+              onClick={() => setListState({ page: Math.max(1, page - 1) })}
           disabled={page <= 1}
           className="btn-secondary"
         >
           Previous
         </button>
         <span className="page-info">
-              Page {page} of {totalPages} ({filteredOrders.length} matching)
+              Page {page} of {totalPages} ({matchingCount} matching)
         </span>
         <button
-              onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+              onClick={() => setListState({ page: Math.min(totalPages, page + 1) })}
           disabled={page >= totalPages}
           className="btn-secondary"
         >
@@ -0,0 +1,512 @@
+import React, { useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ConditionEnum,
+  GradeEnum,
+  PricingRoundingEnum,
+  PricingRulesService,
+  ProductTypesEnum,
+  SourceEnum,
+  type PricingRule,
+  type PricingRuleRequest,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { queryKeys } from '../hooks/queryKeys';
+import { useBrandsList } from '../hooks/useBrandsList';
+import { getSuggestedPrice } from '../utils/pricing';
+import { formatKes } from '../utils/format';
+
+const PRODUCT_TYPE_LABELS: Record<ProductTypesEnum, string> = {
+  [ProductTypesEnum.PH]: 'Phone',
+  [ProductTypesEnum.LT]: 'Laptop',
+  [ProductTypesEnum.TB]: 'Tablet',
+  [ProductTypesEnum.AC]: 'Accessory',
+};
+
+const CONDITION_LABELS: Record<ConditionEnum, string> = {
+  [ConditionEnum.N]: 'New',
+  [ConditionEnum.R]: 'Refurbished',
+  [ConditionEnum.P]: 'Pre-owned',
+  [ConditionEnum.D]: 'Defective',
+};
+
+const SOURCE_LABELS: Record<SourceEnum, string> = {
+  [SourceEnum.BB]: 'Buyback',
+  [SourceEnum.SU]: 'Supplier',
+  [SourceEnum.IM]: 'Import',
+};
+
+const ROUNDING_LABELS: Record<PricingRoundingEnum, string> = {
+  [PricingRoundingEnum.UP]: 'up',
+  [PricingRoundingEnum.NEAREST]: 'to nearest',
+  [PricingRoundingEnum.DOWN]: 'down',
+};
+
+/** Example cost used to show what a rule does to a price. */
+const EXAMPLE_COST = 20000;
+
+/** One-line summary of what a rule does, e.g. "Cost + 18%, rounded up to 500 · floor 10%". */
+const describeFormula = (rule: Pick<PricingRule, 'markup_percent' | 'round_to' | 'rounding' | 'min_margin_percent'>) => {
+  let text = `Cost + ${Number(rule.markup_percent)}%`;
+  if (rule.round_to) {
+    text += `, rounded ${ROUNDING_LABELS[rule.rounding ?? PricingRoundingEnum.UP]} to ${rule.round_to.toLocaleString()}`;
+  }
+  if (rule.min_margin_percent !== null && rule.min_margin_percent !== undefined && rule.min_margin_percent !== '') {
+    text += ` · floor ${Number(rule.min_margin_percent)}%`;
+  }
+  return text;
+};
+
+const describeFilters = (rule: PricingRule) =>
+  [
+    rule.product_type && PRODUCT_TYPE_LABELS[rule.product_type as ProductTypesEnum],
+    rule.brand_name,
+    rule.condition && CONDITION_LABELS[rule.condition as ConditionEnum],
+    rule.grade && `Grade ${rule.grade}`,
+    rule.source && SOURCE_LABELS[rule.source as SourceEnum],
+  ]
+    .filter(Boolean)
+    .join(' · ') || 'All units';
+
+export const PricingRulesPage: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { data: rules = [], isLoading, error } = useQuery({
+    queryKey: queryKeys.pricingRules(),
+    queryFn: () => PricingRulesService.pricingRulesList(),
+  });
+  const [editingRule, setEditingRule] = useState<PricingRule | null>(null);
+  const [showFormModal, setShowFormModal] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => PricingRulesService.pricingRulesDestroy(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.pricingRules() });
+      showToast('Pricing rule deleted', 'success');
+    },
+    onError: (err) => showToast(getErrorMessage(err), 'error'),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: (rule: PricingRule) =>
+      PricingRulesService.pricingRulesPartialUpdate(rule.id, { is_active: !rule.is_active }),
+    onSuccess: (rule) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.pricingRules() });
+      queryClient.invalidateQueries({ queryKey: ['units'] });
+      showToast(`Rule "${rule.name}" ${rule.is_active ? 'enabled' : 'disabled'}`, 'success');
+    },
+    onError: (err) => showToast(getErrorMessage(err), 'error'),
+  });
+
+  const handleDelete = (rule: PricingRule) => {
+    if (window.confirm(`Delete the pricing rule "${rule.name}"?`)) {
+      deleteMutation.mutate(rule.id);
+    }
+  };
+
+  const openForm = (rule: PricingRule | null) => {
+    setEditingRule(rule);
+    setShowFormModal(true);
+  };
+
+  const closeForm = () => {
+    setShowFormModal(false);
+    setEditingRule(null);
+  };
+
+  if (isLoading) {
+    return <div className="loading">Loading pricing rules...</div>;
+  }
+
+  if (error) {
+    return <div className="error">Error loading pricing rules: {getErrorMessage(error)}</div>;
+  }
+
+  return (
+    <div className="pricing-rules-page">
+      {toast && <div className={`toast toast-${toast.type}`}>{toast.message}</div>}
+
+      <div className="page-header">
+        <h1>Pricing Rules</h1>
+        <div className="page-header-actions">
+          <button className="btn-primary" onClick={() => openForm(null)}>
+            + Create Rule
+          </button>
+        </div>
+      </div>
+
+      <p className="page-description">
+        Rules suggest a selling price from a unit's cost when it is created, and flag units priced below their margin
+        floor. The first active rule (lowest priority number) whose filters all match a unit is used; empty filters
+        match anything. Reprice existing units from the Inventory Units selection toolbar.
+      </p>
+
+      {rules.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">💲</div>
+          <h3>No pricing rules</h3>
+          <p>Create a catch-all rule first, then add more specific rules with a lower priority number.</p>
+          <button className="btn-primary" onClick={() => openForm(null)}>
+            Create Rule
+          </button>
+        </div>
+      ) : (
+        <div className="colors-table-container">
+          <table className="colors-table">
+            <thead>
+              <tr>
+                <th>Priority</th>
+                <th>Name</th>
+                <th>Applies To</th>
+                <th>Formula</th>
+                <th>On {formatKes(EXAMPLE_COST)} cost</th>
+                <th>Active</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => {
+                const example = getSuggestedPrice(EXAMPLE_COST, {
+                  markupPercent: Number(rule.markup_percent),
+                  roundTo: rule.round_to ?? 0,
+                  rounding: rule.rounding ?? PricingRoundingEnum.UP,
+                  minMarginPercent: rule.min_margin_percent ? Number(rule.min_margin_percent) : null,
+                });
+                return (
+                  <tr key={rule.id} className={rule.is_active ? undefined : 'is-unchanged'}>
+                    <td>{rule.priority ?? 0}</td>
+                    <td className="color-name-cell">{rule.name}</td>
+                    <td className="pricing-rule-filters">{describeFilters(rule)}</td>
+                    <td>{describeFormula(rule)}</td>
+                    <td>{formatKes(example.suggested)}</td>
+                    <td>
+                      <input
+                        type="checkbox"
+                        checked={!!rule.is_active}
+                        onChange={() => toggleMutation.mutate(rule)}
+                        disabled={toggleMutation.isPending}
+                        aria-label={`${rule.name} active`}
+                      />
+                    </td>
+                    <td className="color-actions-cell">
+                      <button className="btn-action btn-edit" onClick={() => openForm(rule)}>
+                        Edit
+                      </button>
+                      <button
+                        className="btn-action btn-delete"
+                        onClick={() => handleDelete(rule)}
+                        disabled={deleteMutation.isPending}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {showFormModal && (
+        <PricingRuleFormModal
+          rule={editingRule}
+          nextPriority={rules.length ? Math.max(...rules.map((r) => r.priority ?? 0)) + 10 : 100}
+          onClose={closeForm}
+          onSaved={(message) => {
+            closeForm();
+            showToast(message, 'success');
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+interface PricingRuleFormModalProps {
+  rule: PricingRule | null;
+  /** Priority offered for a new rule, after all existing ones. */
+  nextPriority: number;
+  onClose: () => void;
+  onSaved: (message: string) => void;
+}
+
+const PricingRuleFormModal: React.FC<PricingRuleFormModalProps> = ({ rule, nextPriority, onClose, onSaved }) => {
+  const queryClient = useQueryClient();
+  const { data: brands } = useBrandsList();
+  const [formData, setFormData] = useState<PricingRuleRequest>({
+    name: rule?.name ?? '',
+    priority: rule?.priority ?? nextPriority,
+    is_active: rule?.is_active ?? true,
+    product_type: rule?.product_type ?? null,
+    brand: rule?.brand ?? null,
+    condition: rule?.condition ?? null,
+    grade: rule?.grade ?? null,
+    source: rule?.source ?? null,
+    markup_percent: rule?.markup_percent ?? '18',
+    round_to: rule?.round_to ?? 500,
+    rounding: rule?.rounding ?? PricingRoundingEnum.UP,
+    min_margin_percent: rule?.min_margin_percent ?? '10',
+  });
+  const [exampleCost, setExampleCost] = useState(String(EXAMPLE_COST));
+  const [error, setError] = useState('');
+
+  const saveMutation = useMutation({
+    mutationFn: (body: PricingRuleRequest) =>
+      rule ? PricingRulesService.pricingRulesUpdate(rule.id, body) : PricingRulesService.pricingRulesCreate(body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.pricingRules() });
+      // Margin floor flags on units depend on the rules
+      queryClient.invalidateQueries({ queryKey: ['units'] });
+      onSaved(rule ? 'Pricing rule updated' : 'Pricing rule created');
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const update = (patch: Partial<PricingRuleRequest>) => setFormData((prev) => ({ ...prev, ...patch }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    saveMutation.mutate({
+      ...formData,
+      name: formData.name.trim(),
+      min_margin_percent: formData.min_margin_percent === '' ? null : formData.min_margin_percent,
+    });
+  };
+
+  const isLoading = saveMutation.isPending;
+  const cost = Number(exampleCost);
+  const example =
+    exampleCost !== '' && cost > 0 && formData.markup_percent !== ''
+      ? getSuggestedPrice(cost, {
+          markupPercent: Number(formData.markup_percent),
+          roundTo: formData.round_to ?? 0,
+          rounding: formData.rounding ?? PricingRoundingEnum.UP,
+          minMarginPercent: formData.min_margin_percent ? Number(formData.min_margin_percent) : null,
+        })
+      : null;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>{rule ? 'Edit Pricing Rule' : 'Create Pricing Rule'}</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="form-section">
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="pricing-rule-name">Name <span className="required">*</span></label>
+              <input
+                id="pricing-rule-name"
+                type="text"
+                value={formData.name}
+                onChange={(e) => update({ name: e.target.value })}
+                required
+                disabled={isLoading}
+                placeholder="e.g. Refurbished phones"
+                maxLength={100}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="pricing-rule-priority">Priority</label>
+              <input
+                id="pricing-rule-priority"
+                type="number"
+                min={0}
+                value={formData.priority}
+                onChange={(e) => update({ priority: Number(e.target.value) })}
+                disabled={isLoading}
+              />
+              <small className="form-help">Lower numbers are tried first.</small>
+            </div>
+          </div>
+
+          <div className="form-subsection">
+            <h3>Applies to</h3>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="pricing-rule-product-type">Product type</label>
+                <select
+                  id="pricing-rule-product-type"
+                  value={(formData.product_type as string | null) ?? ''}
+                  onChange={(e) => update({ product_type: (e.target.value || null) as ProductTypesEnum | null })}
+                  disabled={isLoading}
+                >
+                  <option value="">Any</option>
+                  {Object.entries(PRODUCT_TYPE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="pricing-rule-brand">Brand</label>
+                <select
+                  id="pricing-rule-brand"
+                  value={formData.brand ?? ''}
+                  onChange={(e) => update({ brand: e.target.value ? Number(e.target.value) : null })}
+                  disabled={isLoading}
+                >
+                  <option value="">Any</option>
+                  {brands.map((brand) => (
+                    <option key={brand.id} value={brand.id}>
+                      {brand.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="pricing-rule-condition">Condition</label>
+                <select
+                  id="pricing-rule-condition"
+                  value={(formData.condition as string | null) ?? ''}
+                  onChange={(e) => update({ condition: (e.target.value || null) as ConditionEnum | null })}
+                  disabled={isLoading}
+                >
+                  <option value="">Any</option>
+                  {Object.entries(CONDITION_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="pricing-rule-grade">Grade</label>
+                <select
+                  id="pricing-rule-grade"
+                  value={(formData.grade as string | null) ?? ''}
+                  onChange={(e) => update({ grade: (e.target.value || null) as GradeEnum | null })}
+                  disabled={isLoading}
+                >
+                  <option value="">Any</option>
+                  <option value={GradeEnum.A}>Grade A</option>
+                  <option value={GradeEnum.B}>Grade B</option>
+                </select>
+              </div>
+              <div className="form-group">
+                <label htmlFor="pricing-rule-source">Source</label>
+                <select
+                  id="pricing-rule-source"
+                  value={(formData.source as string | null) ?? ''}
+                  onChange={(e) => update({ source: (e.target.value || null) as SourceEnum | null })}
+                  disabled={isLoading}
+                >
+                  <option value="">Any</option>
+                  {Object.entries(SOURCE_LABELS).map(([value, label]) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          <div className="form-subsection">
+            <h3>Price</h3>
+            <div className="form-row">
+              <div className="form-group">
+                <label htmlFor="pricing-rule-markup">Markup (%) <span className="required">*</span></label>
+                <input
+                  id="pricing-rule-markup"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={formData.markup_percent}
+                  onChange={(e) => update({ markup_percent: e.target.value })}
+                  required
+                  disabled={isLoading}
+                />
+              </div>
+              <div className="form-group">
+                <label htmlFor="pricing-rule-round-to">Round to (KES)</label>
+                <input
+                  id="pricing-rule-round-to"
+                  type="number"
+                  min={0}
+                  value={formData.round_to}
+                  onChange={(e) => update({ round_to: Number(e.target.value) })}
+                  disabled={isLoading}
+                />
+                <small className="form-help">0 keeps the exact price.</small>
+              </div>
+              <div className="form-group">
+                <label htmlFor="pricing-rule-rounding">Rounding</label>
+                <select
+                  id="pricing-rule-rounding"
+                  value={formData.rounding}
+                  onChange={(e) => update({ rounding: e.target.value as PricingRoundingEnum })}
+                  disabled={isLoading || !formData.round_to}
+                >
+                  <option value={PricingRoundingEnum.UP}>Round up</option>
+                  <option value={PricingRoundingEnum.NEAREST}>Round to nearest</option>
+                  <option value={PricingRoundingEnum.DOWN}>Round down</option>
+                </select>
+              </div>
+            </div>
+            <div className="form-group">
+              <label htmlFor="pricing-rule-floor">Minimum margin (%)</label>
+              <input
+                id="pricing-rule-floor"
+                type="number"
+                step="0.01"
+                min={0}
+                value={formData.min_margin_percent ?? ''}
+                onChange={(e) => update({ min_margin_percent: e.target.value })}
+                disabled={isLoading}
+              />
+              <small className="form-help">
+                Units priced below cost plus this margin are flagged. Leave empty for no floor.
+              </small>
+            </div>
+
+            <div className="pricing-rule-example">
+              <label htmlFor="pricing-rule-example-cost">Try it: cost (KES)</label>{' '}
+              <input
+                id="pricing-rule-example-cost"
+                type="number"
+                min={0}
+                value={exampleCost}
+                onChange={(e) => setExampleCost(e.target.value)}
+              />
+              {example && (
+                <p>
+                  Suggested <strong>{formatKes(example.suggested)}</strong>
+                  {example.floor !== null && <> · floor {formatKes(example.floor)}</>}
+                </p>
+              )}
+            </div>
+          </div>
+
+          <div className="form-group">
+            <label className="unit-export-option">
+              <input
+                type="checkbox"
+                checked={!!formData.is_active}
+                onChange={(e) => update({ is_active: e.target.checked })}
+                disabled={isLoading}
+              />
+              Active
+            </label>
+          </div>
+
+          {error && <p className="error-text">{error}</p>}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isLoading}>
+              {isLoading ? 'Saving...' : rule ? 'Update' : 'Create'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -2,19 +2,8 @@ import React, { useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { useNavigate, Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { ProfilesService } from '../api/index';
-
-interface ProductPerformance {
-  id: number;
-  product_name: string;
-  total_units: number;
-  available_units: number;
-  sold_units: number;
-  reserved_units: number;
-  sell_through_rate: string;
-  avg_selling_price: string;
-  total_revenue: string;
-}
+import { ProfilesService, ReportsService } from '../api/index';
+import type { ProductPerformance } from '../api/index';
 
 export const ProductAnalyticsPage: React.FC = () => {
   const { user } = useAuth();
@@ -30,18 +19,9 @@ export const ProductAnalyticsPage: React.FC = () => {
     enabled: !!user?.is_staff,
   });
 
-  const { data: products, isLoading } = useQuery<ProductPerformance[]>({
+  const { data: products, isLoading } = useQuery({
     queryKey: ['product-performance'],
-    queryFn: async () => {
-      const response = await fetch('/api/inventory/reports/product_performance/', {
-        headers: {
-          'Authorization': `Token ${localStorage.getItem('auth_token')}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      if (!response.ok) throw new Error('Failed to fetch product performance');
-      return response.json();
-    },
+    queryFn: () => ReportsService.reportsProductPerformanceRetrieve(),
   });
 
   // Role checks and redirect (after all hooks are declared)
@@ -0,0 +1,466 @@
+import React, { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Navigate, useNavigate } from 'react-router-dom';
+import {
+  ProductsService,
+  TagsService,
+  type PatchedProductRequest,
+  type ProductList,
+  type Tag,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { useAdminProfile } from '../hooks/useAdminProfile';
+import { useDebounce } from '../hooks/useDebounce';
+import { queryKeys } from '../hooks/queryKeys';
+import { parseClipboardGrid } from '../utils/csv';
+
+type ColumnKey =
+  | 'brand'
+  | 'model_series'
+  | 'default_selling_price'
+  | 'min_stock_threshold'
+  | 'reorder_point'
+  | 'release_date'
+  | 'is_published'
+  | 'is_discontinued'
+  | 'is_global'
+  | 'tags';
+
+type ColumnKind = 'text' | 'price' | 'integer' | 'date' | 'boolean' | 'tags';
+
+interface Column {
+  key: ColumnKey;
+  label: string;
+  kind: ColumnKind;
+}
+
+const COLUMNS: Column[] = [
+  { key: 'brand', label: 'Brand', kind: 'text' },
+  { key: 'model_series', label: 'Model series', kind: 'text' },
+  { key: 'default_selling_price', label: 'Default price', kind: 'price' },
+  { key: 'min_stock_threshold', label: 'Min stock', kind: 'integer' },
+  { key: 'reorder_point', label: 'Reorder point', kind: 'integer' },
+  { key: 'release_date', label: 'Release date', kind: 'date' },
+  { key: 'is_published', label: 'Published', kind: 'boolean' },
+  { key: 'is_discontinued', label: 'Discontinued', kind: 'boolean' },
+  { key: 'is_global', label: 'All brands', kind: 'boolean' },
+  { key: 'tags', label: 'Tags', kind: 'tags' },
+];
+
+/** Rows saved at once; each batch finishes before the next starts. */
+const SAVE_BATCH_SIZE = 5;
+
+/** An edited product: the row as loaded plus the cells changed since, as typed. */
+interface RowDraft {
+  product: ProductList;
+  values: Partial<Record<ColumnKey, string>>;
+}
+
+type RowStatus = { state: 'saving' } | { state: 'saved' } | { state: 'failed'; message: string };
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'x', '✓'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', ''];
+
+/**
+ * The product PATCH is multipart, where an empty `tag_ids` list adds no form fields at all: the
+ * server would keep the old tags while the row reports saved. So every tag cannot be removed here.
+ */
+const NO_TAGS_ERROR = 'A product cannot be left without tags here';
+
+/** A product's value for a column as the grid shows it. */
+const getCellValue = (product: ProductList, column: Column): string => {
+  if (column.key === 'tags') return (product.tags ?? []).map((tag) => tag.name).join(', ');
+  const value = product[column.key];
+  if (column.kind === 'boolean') return value ? 'true' : 'false';
+  return value === null || value === undefined ? '' : String(value);
+};
+
+const splitTagNames = (value: string) =>
+  value
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+/**
+ * Normalise a typed or pasted cell for comparison and saving ("Yes" → "true", "1,500" → "1500"),
+ * or explain why it cannot be saved.
+ */
+const parseCell = (column: Column, raw: string, tags: Tag[]): { value: string } | { error: string } => {
+  const value = raw.trim();
+  switch (column.kind) {
+    case 'boolean': {
+      const lower = value.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: 'true' };
+      if (FALSE_VALUES.includes(lower)) return { value: 'false' };
+      return { error: 'Use yes or no' };
+    }
+    case 'price': {
+      const amount = value.replace(/,/g, '');
+      if (amount && !/^\d+(\.\d{1,2})?$/.test(amount)) return { error: 'Enter an amount like 45000 or 45000.50' };
+      return { value: amount };
+    }
+    case 'integer': {
+      const count = value.replace(/,/g, '');
+      if (count && !/^\d+$/.test(count)) return { error: 'Enter a whole number' };
+      return { value: count };
+    }
+    case 'date':
+      if (value && !/^\d{4}-\d{2}-\d{2}$/.test(value)) return { error: 'Use YYYY-MM-DD' };
+      return { value };
+    case 'tags': {
+      const names = splitTagNames(value);
+      const unknown = names.filter((name) => !tags.some((tag) => tag.name.toLowerCase() === name.toLowerCase()));
+      if (unknown.length > 0) return { error: `Unknown tag${unknown.length > 1 ? 's' : ''}: ${unknown.join(', ')}` };
+      return { value: names.join(', ') };
+    }
+    default:
+      return { value };
+  }
+};
+
+/**
+ * Spreadsheet-style catalogue editor: the product list as a grid of inline-editable cells for the
+ * stock, pricing and listing fields. Blocks of cells can be pasted from Excel; changed cells are
+ * highlighted and saved a few products at a time, with a result per row.
+ */
+export const ProductBulkEditorPage: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: adminProfile, isLoading: isLoadingProfile } = useAdminProfile();
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [drafts, setDrafts] = useState<Record<number, RowDraft>>({});
+  const [rowStatus, setRowStatus] = useState<Record<number, RowStatus>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const debouncedSearch = useDebounce(search.trim(), 300);
+
+  const isSuperuser = adminProfile?.user?.is_superuser === true;
+  const isInventoryManager =
+    isSuperuser || !!adminProfile?.roles?.some((role) => role.name === 'IM' || role.role_code === 'IM');
+  // Same rule as the product form: inventory managers cannot change tags
+  const canEditTags = isSuperuser;
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['products', 'bulk-editor', debouncedSearch, page],
+    queryFn: () => ProductsService.productsList(undefined, page, debouncedSearch || undefined),
+    placeholderData: (previous) => previous,
+    enabled: isInventoryManager,
+  });
+
+  const { data: tags = [] } = useQuery({
+    queryKey: ['tags-all'],
+    queryFn: () => TagsService.tagsList(),
+    enabled: isInventoryManager,
+  });
+
+  const isColumnEditable = (column: Column) => column.kind !== 'tags' || canEditTags;
+
+  /** Why an edited cell cannot be saved, if it cannot. */
+  const getCellError = (column: Column, value: string) => {
+    const parsed = parseCell(column, value, tags);
+    if ('error' in parsed) return parsed.error;
+    if (column.kind === 'tags' && !parsed.value) return NO_TAGS_ERROR;
+    return undefined;
+  };
+
+  const dirtyCells = Object.values(drafts).flatMap((draft) =>
+    (Object.keys(draft.values) as ColumnKey[]).map((key) => ({ draft, column: COLUMNS.find((c) => c.key === key)! }))
+  );
+  const invalidCount = dirtyCells.filter(({ draft, column }) => !!getCellError(column, draft.values[column.key] ?? ''))
+    .length;
+  const dirtyRowCount = Object.keys(drafts).length;
+
+  // Unsaved edits survive paging and searching, but not leaving the site
+  useEffect(() => {
+    if (dirtyRowCount === 0) return undefined;
+    const warn = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', warn);
+    return () => window.removeEventListener('beforeunload', warn);
+  }, [dirtyRowCount]);
+
+  if (isLoadingProfile) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  if (!isInventoryManager) {
+    return <Navigate to="/products" replace />;
+  }
+
+  const products = data?.results ?? [];
+  const totalCount = data?.count ?? 0;
+
+  const getDisplayValue = (product: ProductList, column: Column) =>
+    drafts[product.id!]?.values[column.key] ?? getCellValue(product, column);
+
+  /** Apply typed or pasted values; a cell set back to what was loaded is no longer dirty. */
+  const setCells = (changes: { product: ProductList; column: Column; value: string }[]) => {
+    setDrafts((prev) => {
+      const next = { ...prev };
+      changes.forEach(({ product, column, value }) => {
+        const id = product.id!;
+        const draft = next[id] ?? { product, values: {} };
+        const values = { ...draft.values };
+        const parsed = parseCell(column, value, tags);
+        const original = parseCell(column, getCellValue(draft.product, column), tags);
+        if ('value' in parsed && 'value' in original && parsed.value === original.value) {
+          delete values[column.key];
+        } else {
+          values[column.key] = value;
+        }
+        if (Object.keys(values).length > 0) {
+          next[id] = { ...draft, values };
+        } else {
+          delete next[id];
+        }
+      });
+      return next;
+    });
+    setRowStatus((prev) => {
+      const next = { ...prev };
+      changes.forEach(({ product }) => delete next[product.id!]);
+      return next;
+    });
+  };
+
+  const handlePaste = (e: React.ClipboardEvent, rowIndex: number, columnIndex: number) => {
+    const text = e.clipboardData.getData('text/plain');
+    // A single value pastes into the cell as normal
+    if (!/[\t\n]/.test(text.replace(/\r?\n$/, ''))) return;
+    e.preventDefault();
+    const grid = parseClipboardGrid(text);
+    const changes: { product: ProductList; column: Column; value: string }[] = [];
+    grid.forEach((cells, r) => {
+      const product = products[rowIndex + r];
+      if (!product?.id) return;
+      cells.forEach((value, c) => {
+        const column = COLUMNS[columnIndex + c];
+        if (column && isColumnEditable(column)) changes.push({ product, column, value });
+      });
+    });
+    setCells(changes);
+  };
+
+  const discardChanges = () => {
+    if (window.confirm(`Discard unsaved changes to ${dirtyRowCount} product(s)?`)) {
+      setDrafts({});
+      setRowStatus({});
+    }
+  };
+
+  /** Only the changed fields go in the PATCH. */
+  const buildPayload = (draft: RowDraft): PatchedProductRequest => {
+    const payload: Record<string, string | number | boolean | number[]> = {};
+    (Object.keys(draft.values) as ColumnKey[]).forEach((key) => {
+      const column = COLUMNS.find((c) => c.key === key)!;
+      const parsed = parseCell(column, draft.values[key] ?? '', tags);
+      if (!('value' in parsed)) return;
+      if (column.kind === 'tags') {
+        const names = splitTagNames(parsed.value).map((name) => name.toLowerCase());
+        const tagIds = tags.filter((tag) => names.includes(tag.name.toLowerCase())).map((tag) => tag.id!);
+        if (tagIds.length === 0) throw new Error(NO_TAGS_ERROR);
+        payload.tag_ids = tagIds;
+      } else if (column.kind === 'boolean') {
+        payload[key] = parsed.value === 'true';
+      } else if (column.kind === 'integer' && parsed.value) {
+        payload[key] = Number(parsed.value);
+      } else {
+        // The PATCH is multipart, which drops nulls; DRF reads an empty string as null instead
+        payload[key] = parsed.value;
+      }
+    });
+    return payload as PatchedProductRequest;
+  };
+
+  const handleSave = async () => {
+    const rows = Object.values(drafts);
+    if (rows.length === 0 || invalidCount > 0) return;
+    setIsSaving(true);
+    let saved = 0;
+    for (let start = 0; start < rows.length; start += SAVE_BATCH_SIZE) {
+      const batch = rows.slice(start, start + SAVE_BATCH_SIZE);
+      setRowStatus((prev) => ({
+        ...prev,
+        ...Object.fromEntries(batch.map((draft) => [draft.product.id!, { state: 'saving' } as RowStatus])),
+      }));
+      const results = await Promise.allSettled(
+        // async so a payload that cannot be built fails its row rather than the batch
+        batch.map(async (draft) => ProductsService.productsPartialUpdate(draft.product.id!, buildPayload(draft)))
+      );
+      results.forEach((result, index) => {
+        const id = batch[index].product.id!;
+        if (result.status === 'fulfilled') {
+          setDrafts((prev) => {
+            const next = { ...prev };
+            delete next[id];
+            return next;
+          });
+          setRowStatus((prev) => ({ ...prev, [id]: { state: 'saved' } }));
+        } else {
+          setRowStatus((prev) => ({ ...prev, [id]: { state: 'failed', message: getErrorMessage(result.reason) } }));
+        }
+      });
+      saved += results.filter((result) => result.status === 'fulfilled').length;
+    }
+    setIsSaving(false);
+    if (saved > 0) {
+      queryClient.invalidateQueries({ queryKey: ['products'] });
+      queryClient.invalidateQueries({ queryKey: queryKeys.productsAll() });
+    }
+  };
+
+  const failedCount = Object.values(rowStatus).filter((status) => status.state === 'failed').length;
+
+  const renderCell = (product: ProductList, column: Column, rowIndex: number, columnIndex: number) => {
+    const value = getDisplayValue(product, column);
+    const isDirty = drafts[product.id!]?.values[column.key] !== undefined;
+    const cellError = isDirty ? getCellError(column, value) : undefined;
+    const className = `product-bulk-cell${isDirty ? ' product-bulk-cell--dirty' : ''}${cellError ? ' product-bulk-cell--invalid' : ''}`;
+    const editable = isColumnEditable(column) && !isSaving;
+
+    if (column.kind === 'boolean' && (value === 'true' || value === 'false')) {
+      return (
+        <td key={column.key} className={className}>
+          <input
+            type="checkbox"
+            checked={value === 'true'}
+            onChange={(e) => setCells([{ product, column, value: e.target.checked ? 'true' : 'false' }])}
+            onPaste={(e) => handlePaste(e, rowIndex, columnIndex)}
+            disabled={!editable}
+            aria-label={`${column.label} for ${product.product_name}`}
+          />
+        </td>
+      );
+    }
+
+    return (
+      <td key={column.key} className={className} title={cellError}>
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => setCells([{ product, column, value: e.target.value }])}
+          onPaste={(e) => handlePaste(e, rowIndex, columnIndex)}
+          readOnly={!editable}
+          placeholder={column.kind === 'date' ? 'YYYY-MM-DD' : column.kind === 'tags' ? 'tag, tag' : undefined}
+          aria-label={`${column.label} for ${product.product_name}`}
+          aria-invalid={!!cellError}
+        />
+      </td>
+    );
+  };
+
+  return (
+    <div className="product-bulk-editor-page">
+      <div className="page-header">
+        <h1>Bulk Edit Products</h1>
+        <div className="page-header-actions">
+          <button className="btn-secondary" onClick={() => navigate('/products')} disabled={isSaving}>
+            ← Products
+          </button>
+          {dirtyRowCount > 0 && (
+            <button className="btn-secondary" onClick={discardChanges} disabled={isSaving}>
+              Discard Changes
+            </button>
+          )}
+          <button
+            className="btn-primary"
+            onClick={handleSave}
+            disabled={isSaving || dirtyRowCount === 0 || invalidCount > 0}
+            title={invalidCount > 0 ? 'Fix the highlighted cells first' : undefined}
+          >
+            {isSaving ? 'Saving...' : `Save ${dirtyRowCount || ''} Product${dirtyRowCount === 1 ? '' : 's'}`}
+          </button>
+        </div>
+      </div>
+
+      <p className="page-description">
+        Edit cells in place, or copy a block of cells from Excel or Google Sheets and paste it into the first cell it
+        should fill. Changed cells are highlighted until saved; changes are kept while you page and search.
+        {!canEditTags && ' Tags are shown for reference and can only be changed by an administrator.'}
+      </p>
+
+      <div className="filters-bar">
+        <div className="search-row">
+          <input
+            type="text"
+            className="search-input"
+            placeholder="Search products by name, brand, model, or description..."
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+          />
+        </div>
+      </div>
+
+      {(dirtyRowCount > 0 || failedCount > 0) && (
+        <div className="product-bulk-summary">
+          {dirtyRowCount > 0 && `${dirtyCells.length} changed cell(s) across ${dirtyRowCount} product(s)`}
+          {invalidCount > 0 && ` · ${invalidCount} need fixing`}
+          {failedCount > 0 && (
+            <span className="error-text"> · {failedCount} product(s) failed to save; their changes are kept</span>
+          )}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="loading">Loading products...</div>
+      ) : error ? (
+        <div className="error">{getErrorMessage(error)}</div>
+      ) : products.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">📦</div>
+          <h3>{debouncedSearch ? 'No products match your search' : 'No products yet'}</h3>
+        </div>
+      ) : (
+        <div className="colors-table-container">
+          <table className="colors-table product-bulk-grid">
+            <thead>
+              <tr>
+                <th>Product</th>
+                {COLUMNS.map((column) => (
+                  <th key={column.key}>{column.label}</th>
+                ))}
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {products.map((product, rowIndex) => {
+                const status = rowStatus[product.id!];
+                return (
+                  <tr key={product.id}>
+                    <td className="color-name-cell">{product.product_name}</td>
+                    {COLUMNS.map((column, columnIndex) => renderCell(product, column, rowIndex, columnIndex))}
+                    <td className="product-bulk-status">
+                      {status?.state === 'saving' && 'Saving...'}
+                      {status?.state === 'saved' && <span className="product-bulk-status--saved">✓ Saved</span>}
+                      {status?.state === 'failed' && <span className="error-text">{status.message}</span>}
+                      {!status && drafts[product.id!] && 'Unsaved'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {products.length > 0 && (
+        <div className="pagination">
+          <button onClick={() => setPage((p) => Math.max(1, p - 1))} disabled={page <= 1} className="btn-secondary">
+            Previous
+          </button>
+          <span className="page-info">
+            Page {page} ({totalCount} products)
+          </span>
+          <button onClick={() => setPage((p) => p + 1)} disabled={!data?.next} className="btn-secondary">
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
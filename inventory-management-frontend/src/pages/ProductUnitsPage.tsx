@@ -5,10 +5,10 @@ import { useAuth } from '../contexts/AuthContext';
 import {
   ProductsService,
   ProfilesService,
-  UnitsService,
   InventoryUnitRW,
 } from '../api/index';
 import { getApiRoot } from '../api/config';
+import { listUnits } from '../api/unitsList';
 import { ModalLoader } from '../components/PageLoader';
 
 const UnitForm = lazy(() => import('../components/UnitForm').then((m) => ({ default: m.UnitForm })));
@@ -73,23 +73,7 @@ export const ProductUnitsPage: React.FC = () => {
     placeholderData: keepPreviousData,
     staleTime: 30 * 1000,
     queryFn: async () => {
-      const result = await UnitsService.unitsList(
-        undefined, // condition
-        undefined, // ordering
-        page,
-        Number(productId), // product_template filter
-        undefined, // product_template__brand
-        undefined, // product_template__product_type
-        undefined, // ram_gb
-        undefined, // ram_gb__gte
-        undefined, // sale_status
-        undefined, // search
-        undefined, // selling_price
-        undefined, // selling_price_gte
-        undefined, // selling_price_lte
-        undefined, // storage_gb
-        undefined, // storage_gb_gte
-      );
+      const result = await listUnits({ page, product_template: Number(productId) });
       return result;
     },
     enabled: !authLoading && isAuthenticated && !!productId,
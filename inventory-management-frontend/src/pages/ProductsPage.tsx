@@ -904,6 +904,11 @@ export const ProductsPage: React.FC = () => {
               <span className="filter-badge">{activeFilterCount}</span>
             )}
           </button>
+        {canCreateProducts && (
+          <button className="btn-secondary" onClick={() => navigate('/products/bulk-edit')} style={{ marginLeft: '0.5rem' }}>
+            Bulk Edit
+          </button>
+        )}
         {canCreateProducts && (
           <button className="btn-primary" onClick={handleCreate} style={{ marginLeft: '0.5rem' }}>
             + Create Product
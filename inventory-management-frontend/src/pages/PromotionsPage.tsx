@@ -5,9 +5,10 @@ import {
   Brand,
   PromotionsService,
   ProfilesService,
+  type PaginatedPromotionTypeList,
 } from '../api/index';
 import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
-import { getDefaultApiHeaders, getInventoryBaseUrl } from '../api/config';
+import { apiClient } from '../api/client';
 import { useAuth } from '../contexts/AuthContext';
 import { ModalLoader } from '../components/PageLoader';
 import {
@@ -110,29 +111,7 @@ export const PromotionsPage: React.FC = () => {
   // Fetch promotion types
   const { data: promotionTypesData } = useQuery({
     queryKey: ['promotion-types'],
-    queryFn: async () => {
-      const token = localStorage.getItem('auth_token');
-      let baseUrl = getInventoryBaseUrl();
-      
-      if (typeof window !== 'undefined' && window.location) {
-        const hostname = window.location.hostname;
-        if (hostname !== 'localhost' && hostname !== '127.0.0.1' && baseUrl.includes('localhost')) {
-          baseUrl = baseUrl.replace('localhost', hostname).replace('127.0.0.1', hostname);
-        }
-      }
-      
-      const response = await fetch(`${baseUrl}/promotion-types/`, {
-        headers: {
-          ...getDefaultApiHeaders(token),
-        },
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to fetch promotion types');
-      }
-      
-      return await response.json();
-    },
+    queryFn: () => apiClient.get<PaginatedPromotionTypeList>('/promotion-types/'),
   });
 
   const { data: allPromotions = [], isLoading, error } = useQuery({
@@ -1048,30 +1027,7 @@ const PromotionTypesModal: React.FC<PromotionTypesModalProps> = ({ promotionType
   const queryClient = useQueryClient();
 
   const createMutation = useMutation({
-    mutationFn: async (data: any) => {
-      const token = localStorage.getItem('auth_token');
-      let baseUrl = getInventoryBaseUrl();
-      
-      if (typeof window !== 'undefined' && window.location) {
-        const hostname = window.location.hostname;
-        if (hostname !== 'localhost' && hostname !== '127.0.0.1' && baseUrl.includes('localhost')) {
-          baseUrl = baseUrl.replace('localhost', hostname).replace('127.0.0.1', hostname);
-        }
-      }
-      
-      const response = await fetch(`${baseUrl}/promotion-types/`, {
-        method: 'POST',
-        headers: getDefaultApiHeaders(token, { 'Content-Type': 'application/json' }),
-        body: JSON.stringify(data),
-      });
-      
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || 'Failed to create promotion type');
-      }
-      
-      return await response.json();
-    },
+    mutationFn: (data: any) => apiClient.post('/promotion-types/', data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['promotion-types'] });
       setFormData({ name: '', code: '', description: '', is_active: true, display_order: 0 });
@@ -1080,30 +1036,8 @@ const PromotionTypesModal: React.FC<PromotionTypesModalProps> = ({ promotionType
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: any }) => {
-      const token = localStorage.getItem('auth_token');
-      let baseUrl = getInventoryBaseUrl();
-      
-      if (typeof window !== 'undefined' && window.location) {
-        const hostname = window.location.hostname;
-        if (hostname !== 'localhost' && hostname !== '127.0.0.1' && baseUrl.includes('localhost')) {
-          baseUrl = baseUrl.replace('localhost', hostname).replace('127.0.0.1', hostname);
-        }
-      }
-      
-      const response = await fetch(`${baseUrl}/promotion-types/${id}/`, {
-        method: 'PATCH',
-        headers: getDefaultApiHeaders(token, { 'Content-Type': 'application/json' }),
-        body: JSON.stringify(data),
-      });
-      
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.detail || 'Failed to update promotion type');
-      }
-      
-      return await response.json();
-    },
+    mutationFn: ({ id, data }: { id: number; data: any }) =>
+      apiClient.patch(`/promotion-types/${id}/`, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['promotion-types'] });
       setEditingType(null);
@@ -1112,26 +1046,7 @@ const PromotionTypesModal: React.FC<PromotionTypesModalProps> = ({ promotionType
   });
 
   const deleteMutation = useMutation({
-    mutationFn: async (id: number) => {
-      const token = localStorage.getItem('auth_token');
-      let baseUrl = getInventoryBaseUrl();
-      
-      if (typeof window !== 'undefined' && window.location) {
-        const hostname = window.location.hostname;
-        if (hostname !== 'localhost' && hostname !== '127.0.0.1' && baseUrl.includes('localhost')) {
-          baseUrl = baseUrl.replace('localhost', hostname).replace('127.0.0.1', hostname);
-        }
-      }
-      
-      const response = await fetch(`${baseUrl}/promotion-types/${id}/`, {
-        method: 'DELETE',
-        headers: getDefaultApiHeaders(token),
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to delete promotion type');
-      }
-    },
+    mutationFn: (id: number) => apiClient.delete(`/promotion-types/${id}/`),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['promotion-types'] });
     },
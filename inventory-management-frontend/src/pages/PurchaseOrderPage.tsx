@@ -0,0 +1,753 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import {
+  ProductsService,
+  ProductTypesEnum,
+  PurchaseOrderLineDeliveryEnum,
+  PurchaseOrderStatusEnum,
+  PurchaseOrdersService,
+  SourceEnum,
+  SourceTypeEnum,
+  UnitsService,
+  type GradeEnum,
+  type InventoryUnitRequest,
+  type PurchaseOrder,
+  type PurchaseOrderLine,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { listUnits } from '../api/unitsList';
+import { BarcodeCameraScanner, isCameraScanSupported } from '../components/BarcodeCameraScanner';
+import { CONDITION_LABELS, PURCHASE_ORDER_STATUSES, PurchaseOrderForm } from '../components/PurchaseOrderForm';
+import { useAcquisitionSources } from '../hooks/useAcquisitionSources';
+import { useAdminProfile } from '../hooks/useAdminProfile';
+import { useColorsList } from '../hooks/useColorsList';
+import { describeImeiCheck } from '../hooks/useImeiCheck';
+import { getImeiError, normalizeImei } from '../utils/imei';
+import { formatKes } from '../utils/format';
+
+type IdentifierField = 'imei' | 'serial_number';
+
+type QueueStatus = 'checking' | 'ready' | 'invalid' | 'duplicate' | 'submitting' | 'created' | 'failed';
+
+interface QueuedUnit {
+  key: number;
+  code: string;
+  status: QueueStatus;
+  message?: string;
+  unitId?: number;
+}
+
+const STATUS_LABELS: Record<QueueStatus, string> = {
+  checking: 'Checking…',
+  ready: 'Ready',
+  invalid: 'Invalid',
+  duplicate: 'Duplicate',
+  submitting: 'Saving…',
+  created: 'Created',
+  failed: 'Failed',
+};
+
+const DELIVERY_LABELS: Record<PurchaseOrderLineDeliveryEnum, string> = {
+  [PurchaseOrderLineDeliveryEnum.PENDING]: 'Pending',
+  [PurchaseOrderLineDeliveryEnum.PARTIAL]: 'Partially received',
+  [PurchaseOrderLineDeliveryEnum.COMPLETE]: 'Complete',
+  [PurchaseOrderLineDeliveryEnum.OVER]: 'Over-delivered',
+  [PurchaseOrderLineDeliveryEnum.SHORT]: 'Short-delivered',
+};
+
+/** Units received from a purchase order carry the unit source matching the order's acquisition source. */
+const UNIT_SOURCE_BY_TYPE: Record<SourceTypeEnum, SourceEnum> = {
+  [SourceTypeEnum.SU]: SourceEnum.SU,
+  [SourceTypeEnum.IM]: SourceEnum.IM,
+};
+
+const formatDateTime = (value?: string | null) => (value ? new Date(value).toLocaleString() : '-');
+
+const describeVariant = (line: PurchaseOrderLine) =>
+  [
+    line.storage_gb ? `${line.storage_gb} GB` : '',
+    line.ram_gb ? `${line.ram_gb} GB RAM` : '',
+    line.condition ? CONDITION_LABELS[line.condition] : '',
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+/** Look for an existing unit whose serial number is exactly `code`. */
+const findUnitBySerial = async (code: string) => {
+  const page = await listUnits({ search: code, page_size: 5 });
+  return page.results?.find((unit) => (unit.serial_number || '').trim() === code);
+};
+
+const isReceivable = (purchaseOrder: PurchaseOrder) =>
+  purchaseOrder.status === PurchaseOrderStatusEnum.ORDERED ||
+  purchaseOrder.status === PurchaseOrderStatusEnum.PARTIALLY_RECEIVED;
+
+/**
+ * One purchase order: its lines with expected against received quantities, the status actions
+ * (order, cancel, close receipt) and goods receipt against a chosen line.
+ */
+export const PurchaseOrderPage: React.FC = () => {
+  const { purchaseOrderId } = useParams<{ purchaseOrderId: string }>();
+  const id = Number(purchaseOrderId);
+  const queryClient = useQueryClient();
+  const { data: adminProfile, isLoading: isLoadingProfile } = useAdminProfile();
+  const [receivingLineId, setReceivingLineId] = useState<number | null>(null);
+  const [showEditForm, setShowEditForm] = useState(false);
+  const [actionError, setActionError] = useState('');
+
+  const isSuperuser = adminProfile?.user?.is_superuser === true;
+  const isInventoryManager =
+    isSuperuser || !!adminProfile?.roles?.some((role) => role.name === 'IM' || role.role_code === 'IM');
+
+  const { data: purchaseOrder, isLoading, error } = useQuery({
+    queryKey: ['purchase-orders', 'detail', id],
+    queryFn: () => PurchaseOrdersService.purchaseOrdersRetrieve(id),
+    enabled: !!id && isInventoryManager,
+  });
+
+  const { data: receivedUnits } = useQuery({
+    queryKey: ['units', 'purchase-order', id],
+    queryFn: () => listUnits({ purchase_order: id, page_size: 100 }),
+    enabled: !!id && isInventoryManager,
+  });
+
+  const onUpdated = (updated: PurchaseOrder) => {
+    setActionError('');
+    queryClient.setQueryData(['purchase-orders', 'detail', id], updated);
+    queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+  };
+
+  const statusMutation = useMutation({
+    mutationFn: (status: PurchaseOrderStatusEnum) => PurchaseOrdersService.purchaseOrdersPartialUpdate(id, { status }),
+    onSuccess: onUpdated,
+    onError: (err) => setActionError(getErrorMessage(err)),
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: () => PurchaseOrdersService.purchaseOrdersCloseCreate(id),
+    onSuccess: (closed) => {
+      setReceivingLineId(null);
+      onUpdated(closed);
+    },
+    onError: (err) => setActionError(getErrorMessage(err)),
+  });
+
+  if (isLoadingProfile) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  if (!isInventoryManager) {
+    return <Navigate to="/units" replace />;
+  }
+
+  if (isLoading) {
+    return <div className="loading">Loading purchase order...</div>;
+  }
+
+  if (error || !purchaseOrder) {
+    return <div className="error">{error ? getErrorMessage(error) : 'Purchase order not found'}</div>;
+  }
+
+  const isDraft = purchaseOrder.status === PurchaseOrderStatusEnum.DRAFT;
+  const canCancel =
+    (isDraft || purchaseOrder.status === PurchaseOrderStatusEnum.ORDERED) && purchaseOrder.received_quantity === 0;
+  const receivingLine = purchaseOrder.lines.find((line) => line.id === receivingLineId) ?? null;
+  const isBusy = statusMutation.isPending || closeMutation.isPending;
+
+  const handleCancel = () => {
+    if (window.confirm(`Cancel ${purchaseOrder.reference}? Nothing can be received against it afterwards.`)) {
+      statusMutation.mutate(PurchaseOrderStatusEnum.CANCELLED);
+    }
+  };
+
+  const handleClose = () => {
+    const shortLines = purchaseOrder.lines
+      .filter((line) => line.received_quantity < line.quantity)
+      .map((line) => `${line.product_template_name}: ${line.received_quantity} of ${line.quantity} received`);
+    const warning = shortLines.length > 0 ? `\n\nThese lines will be flagged as short-delivered:\n${shortLines.join('\n')}` : '';
+    if (window.confirm(`Close receipt on ${purchaseOrder.reference}? No more units can be received against it.${warning}`)) {
+      closeMutation.mutate();
+    }
+  };
+
+  return (
+    <div className="purchase-order-page">
+      <div className="page-header">
+        <div>
+          <Link to="/purchase-orders" className="purchase-order-back">
+            ← Purchase Orders
+          </Link>
+          <h1>{purchaseOrder.reference}</h1>
+          <div className="purchase-order-meta">
+            {purchaseOrder.acquisition_source_name} · {purchaseOrder.status ? PURCHASE_ORDER_STATUSES[purchaseOrder.status] : '-'}
+            {purchaseOrder.expected_date ? ` · expected ${new Date(purchaseOrder.expected_date).toLocaleDateString()}` : ''}
+            {` · raised ${formatDateTime(purchaseOrder.created_at)}`}
+            {purchaseOrder.created_by_username ? ` by ${purchaseOrder.created_by_username}` : ''}
+            {purchaseOrder.received_at ? ` · received ${formatDateTime(purchaseOrder.received_at)}` : ''}
+          </div>
+        </div>
+        <div className="page-header-actions">
+          {isDraft && (
+            <>
+              <button className="btn-secondary" onClick={() => setShowEditForm(true)} disabled={isBusy}>
+                Edit
+              </button>
+              <button
+                className="btn-primary"
+                onClick={() => statusMutation.mutate(PurchaseOrderStatusEnum.ORDERED)}
+                disabled={isBusy}
+              >
+                Mark as Ordered
+              </button>
+            </>
+          )}
+          {canCancel && (
+            <button className="btn-secondary" onClick={handleCancel} disabled={isBusy}>
+              Cancel Order
+            </button>
+          )}
+          {isReceivable(purchaseOrder) && (
+            <button className="btn-secondary" onClick={handleClose} disabled={isBusy}>
+              {closeMutation.isPending ? 'Closing...' : 'Close Receipt'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {actionError && <p className="error-text">{actionError}</p>}
+      {purchaseOrder.notes && <p className="page-description">{purchaseOrder.notes}</p>}
+
+      <div className="summary-stats">
+        <div className="summary-stat-button summary-stat-button--total">
+          <span className="summary-stat-label">Ordered</span>
+          <span className="summary-stat-value">{purchaseOrder.ordered_quantity.toLocaleString()}</span>
+        </div>
+        <div className="summary-stat-button summary-stat-button--approved">
+          <span className="summary-stat-label">Received</span>
+          <span className="summary-stat-value">{purchaseOrder.received_quantity.toLocaleString()}</span>
+        </div>
+        <div className="summary-stat-button summary-stat-button--pending">
+          <span className="summary-stat-label">Total cost</span>
+          <span className="summary-stat-value">{formatKes(purchaseOrder.total_cost)}</span>
+        </div>
+      </div>
+
+      {purchaseOrder.has_discrepancy && (
+        <p className="warning-text">⚠️ Some lines were over- or short-delivered. Check them against the supplier invoice.</p>
+      )}
+
+      <section className="report-section">
+        <div className="report-section-header">
+          <h3 className="section-title">Lines</h3>
+        </div>
+        <div className="colors-table-container">
+          <table className="colors-table">
+            <thead>
+              <tr>
+                <th>Product</th>
+                <th>Unit cost</th>
+                <th>Received / Ordered</th>
+                <th>Delivery</th>
+                <th>Line total</th>
+                {isReceivable(purchaseOrder) && <th></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {purchaseOrder.lines.map((line) => {
+                const difference = line.received_quantity - line.quantity;
+                return (
+                  <tr key={line.id}>
+                    <td className="color-name-cell">
+                      {line.product_template_name}
+                      <div className="purchase-order-meta">{describeVariant(line)}</div>
+                    </td>
+                    <td>{formatKes(line.unit_cost)}</td>
+                    <td>
+                      {line.received_quantity} / {line.quantity}
+                    </td>
+                    <td className={`purchase-order-delivery--${line.delivery_status}`}>
+                      {DELIVERY_LABELS[line.delivery_status]}
+                      {line.delivery_status === PurchaseOrderLineDeliveryEnum.OVER && ` (+${difference})`}
+                      {line.delivery_status === PurchaseOrderLineDeliveryEnum.SHORT && ` (${difference})`}
+                    </td>
+                    <td>{formatKes(Number(line.unit_cost) * line.quantity)}</td>
+                    {isReceivable(purchaseOrder) && (
+                      <td>
+                        <button
+                          className={`btn-small ${receivingLineId === line.id ? 'btn-secondary' : 'btn-primary'}`}
+                          onClick={() => setReceivingLineId(receivingLineId === line.id ? null : line.id)}
+                        >
+                          {receivingLineId === line.id ? 'Hide' : 'Receive'}
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </section>
+
+      {receivingLine && (
+        <GoodsReceipt key={receivingLine.id} purchaseOrder={purchaseOrder} line={receivingLine} />
+      )}
+
+      <section className="report-section">
+        <div className="report-section-header">
+          <h3 className="section-title">Received units ({receivedUnits?.count ?? 0})</h3>
+        </div>
+        {receivedUnits && receivedUnits.results.length > 0 ? (
+          <div className="colors-table-container">
+            <table className="colors-table">
+              <thead>
+                <tr>
+                  <th>Product</th>
+                  <th>IMEI / Serial</th>
+                  <th>Quantity</th>
+                  <th>Cost</th>
+                  <th>Received</th>
+                </tr>
+              </thead>
+              <tbody>
+                {receivedUnits.results.map((unit) => (
+                  <tr key={unit.id}>
+                    <td className="color-name-cell">
+                      {unit.product_template_name}
+                      {unit.product_color?.name && <div className="purchase-order-meta">{unit.product_color.name}</div>}
+                    </td>
+                    <td>{unit.imei || unit.serial_number || '-'}</td>
+                    <td>{unit.quantity ?? 1}</td>
+                    <td>{formatKes(unit.cost_of_unit)}</td>
+                    <td>{unit.date_sourced ? new Date(unit.date_sourced).toLocaleDateString() : '-'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className="form-help">
+            {isReceivable(purchaseOrder)
+              ? 'Nothing received yet. Choose Receive on a line to scan its units in.'
+              : 'No units have been received against this order.'}
+          </p>
+        )}
+      </section>
+
+      {showEditForm && (
+        <PurchaseOrderForm
+          purchaseOrder={purchaseOrder}
+          onClose={() => setShowEditForm(false)}
+          onSaved={(saved) => {
+            setShowEditForm(false);
+            onUpdated(saved);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+// Goods receipt against one line
+interface GoodsReceiptProps {
+  purchaseOrder: PurchaseOrder;
+  line: PurchaseOrderLine;
+}
+
+const GoodsReceipt: React.FC<GoodsReceiptProps> = ({ purchaseOrder, line }) => {
+  const queryClient = useQueryClient();
+  const [colorId, setColorId] = useState<number | undefined>();
+  const [grade, setGrade] = useState<GradeEnum | ''>('');
+  const [costOfUnit, setCostOfUnit] = useState(line.unit_cost);
+  const [sellingPrice, setSellingPrice] = useState('');
+  const [identifierField, setIdentifierField] = useState<IdentifierField>('imei');
+  const [accessoryQuantity, setAccessoryQuantity] = useState('');
+  const [scanValue, setScanValue] = useState('');
+  const [queue, setQueue] = useState<QueuedUnit[]>([]);
+  const [showCamera, setShowCamera] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error' } | null>(null);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const nextKeyRef = useRef(1);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+
+  const isAccessory = line.product_type === ProductTypesEnum.AC;
+  const remaining = Math.max(0, line.quantity - line.received_quantity);
+
+  const { data: colorsData } = useColorsList();
+  const colors = colorsData?.results ?? [];
+  const { data: sources, isLoading: isLoadingSources } = useAcquisitionSources();
+  const acquisitionSource = sources.find((source) => source.id === purchaseOrder.acquisition_source);
+  // Never guess: a unit received with the wrong source misses landed costs and source analytics
+  const unitSource = acquisitionSource ? UNIT_SOURCE_BY_TYPE[acquisitionSource.source_type] : undefined;
+
+  const { data: product } = useQuery({
+    queryKey: ['product-detail', line.product_template],
+    queryFn: () => ProductsService.productsRetrieve(line.product_template),
+  });
+
+  useEffect(() => {
+    if (product?.default_selling_price) {
+      setSellingPrice((prev) => prev || product.default_selling_price || '');
+    }
+  }, [product]);
+
+  useEffect(() => {
+    scanInputRef.current?.focus();
+  }, []);
+
+  const updateRow = (key: number, patch: Partial<QueuedUnit>) => {
+    setQueue((prev) => prev.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+  };
+
+  const checkCode = (code: string): Promise<Partial<QueuedUnit>> => {
+    if (identifierField === 'imei') {
+      return UnitsService.unitsImeiCheckRetrieve(code, undefined, line.product_template).then((check) => {
+        const { duplicate, tacWarning } = describeImeiCheck(check, line.product_template);
+        return duplicate
+          ? { status: 'duplicate', message: duplicate }
+          : { status: 'ready', message: tacWarning ? `⚠️ ${tacWarning}` : undefined };
+      });
+    }
+    return findUnitBySerial(code).then((existing) =>
+      existing
+        ? { status: 'duplicate', message: `Already in inventory (Unit #${existing.id}, ${existing.product_template_name || 'unknown product'})` }
+        : { status: 'ready' }
+    );
+  };
+
+  const addCode = (raw: string) => {
+    const code = identifierField === 'imei' ? normalizeImei(raw) : raw.trim();
+    if (!code) return;
+    const key = nextKeyRef.current++;
+    const formatError = identifierField === 'imei' ? getImeiError(code) : null;
+    const alreadyQueued = queueRef.current.some((row) => row.code === code && row.status !== 'failed');
+    const rejection: Partial<QueuedUnit> | null = formatError
+      ? { status: 'invalid', message: formatError }
+      : alreadyQueued
+        ? { status: 'duplicate', message: 'Already scanned in this delivery' }
+        : null;
+    setQueue((prev) => [{ key, code, status: 'checking', ...rejection }, ...prev]);
+    if (rejection) return;
+
+    checkCode(code)
+      .then((patch) => updateRow(key, patch))
+      // The server rejects real duplicates on create anyway, so a failed check should not block the row
+      .catch(() => updateRow(key, { status: 'ready', message: 'Could not check for duplicates' }));
+  };
+
+  const handleScanSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    addCode(scanValue);
+    setScanValue('');
+    scanInputRef.current?.focus();
+  };
+
+  const buildPayload = (source: SourceEnum, identifier: Partial<InventoryUnitRequest>): InventoryUnitRequest => ({
+    product_template_id: line.product_template,
+    product_color_id: colorId,
+    condition: line.condition,
+    grade: grade || undefined,
+    source,
+    acquisition_source_details_id: purchaseOrder.acquisition_source,
+    purchase_order_line: line.id,
+    storage_gb: line.storage_gb ?? undefined,
+    ram_gb: line.ram_gb ?? undefined,
+    cost_of_unit: costOfUnit || '0',
+    selling_price: sellingPrice || undefined,
+    quantity: 1,
+    ...identifier,
+  });
+
+  const onReceived = () => {
+    queryClient.invalidateQueries({ queryKey: ['purchase-orders'] });
+    queryClient.invalidateQueries({ queryKey: ['units'] });
+  };
+
+  const handleSubmitBatch = async () => {
+    const rows = queueRef.current.filter((row) => row.status === 'ready');
+    // Receiving stays disabled until the source is known
+    if (rows.length === 0 || !unitSource) return;
+    setIsSubmitting(true);
+    let created = 0;
+    // One request at a time keeps the server's duplicate checks and received counts reliable
+    for (const row of [...rows].reverse()) {
+      updateRow(row.key, { status: 'submitting', message: undefined });
+      try {
+        const unit = await UnitsService.unitsCreate(buildPayload(unitSource, { [identifierField]: row.code }));
+        updateRow(row.key, { status: 'created', unitId: unit.id });
+        created++;
+      } catch (err) {
+        updateRow(row.key, { status: 'failed', message: getErrorMessage(err) });
+      }
+    }
+    setIsSubmitting(false);
+    if (created > 0) {
+      onReceived();
+    }
+  };
+
+  const handleReceiveAccessories = async () => {
+    if (!unitSource) return;
+    setMessage(null);
+    setIsSubmitting(true);
+    try {
+      await UnitsService.unitsCreate(buildPayload(unitSource, { quantity: Number(accessoryQuantity) }));
+      setMessage({ text: `Received ${accessoryQuantity} × ${line.product_template_name}`, type: 'success' });
+      setAccessoryQuantity('');
+      onReceived();
+    } catch (err) {
+      setMessage({ text: getErrorMessage(err), type: 'error' });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const counts = queue.reduce(
+    (acc, row) => ({ ...acc, [row.status]: (acc[row.status] || 0) + 1 }),
+    {} as Partial<Record<QueueStatus, number>>
+  );
+  const incoming = isAccessory ? Number(accessoryQuantity) || 0 : counts.ready || 0;
+  const detailsComplete = !!costOfUnit && !!sellingPrice && !!unitSource;
+
+  return (
+    <section className="form-section purchase-order-receipt">
+      <h3>
+        Receive {line.product_template_name}
+        {describeVariant(line) && <span className="purchase-order-meta"> · {describeVariant(line)}</span>}
+      </h3>
+      <p className="form-help">
+        {line.received_quantity} of {line.quantity} received
+        {remaining > 0 ? `, ${remaining} still expected.` : '.'}
+      </p>
+      {!isLoadingSources && !unitSource && (
+        <p className="error-text">
+          Could not load this order's acquisition source, so received units cannot be given a source. Reload the page
+          to try again.
+        </p>
+      )}
+
+      <div className="form-row">
+        <div className="form-group">
+          <label htmlFor="receipt_cost">Cost of Unit (KES) <span className="required">*</span></label>
+          <input
+            id="receipt_cost"
+            type="number"
+            step="0.01"
+            min="0"
+            value={costOfUnit}
+            onChange={(e) => setCostOfUnit(e.target.value)}
+            disabled={isSubmitting}
+          />
+          {costOfUnit !== line.unit_cost && (
+            <small className="warning-text">Differs from the agreed {formatKes(line.unit_cost)}.</small>
+          )}
+        </div>
+        <div className="form-group">
+          <label htmlFor="receipt_price">Selling Price (KES) <span className="required">*</span></label>
+          <input
+            id="receipt_price"
+            type="number"
+            step="0.01"
+            min="0"
+            value={sellingPrice}
+            onChange={(e) => setSellingPrice(e.target.value)}
+            disabled={isSubmitting}
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="receipt_color">Color</label>
+          <select
+            id="receipt_color"
+            value={colorId ?? ''}
+            onChange={(e) => setColorId(e.target.value ? Number(e.target.value) : undefined)}
+            disabled={isSubmitting}
+          >
+            <option value="">No color</option>
+            {colors.map((color) => (
+              <option key={color.id} value={color.id}>{color.name}</option>
+            ))}
+          </select>
+        </div>
+        {!isAccessory && (
+          <div className="form-group">
+            <label htmlFor="receipt_grade">Grade</label>
+            <select
+              id="receipt_grade"
+              value={grade}
+              onChange={(e) => setGrade(e.target.value as GradeEnum | '')}
+              disabled={isSubmitting}
+            >
+              <option value="">No grade</option>
+              <option value="A">Grade A</option>
+              <option value="B">Grade B</option>
+            </select>
+          </div>
+        )}
+      </div>
+
+      {incoming > remaining && (
+        <p className="warning-text">
+          ⚠️ Receiving {incoming} when {remaining} {remaining === 1 ? 'is' : 'are'} still expected. The line will be
+          flagged as over-delivered.
+        </p>
+      )}
+
+      {message && <p className={message.type === 'error' ? 'error-text' : 'form-help'}>{message.text}</p>}
+
+      {isAccessory ? (
+        <div className="form-row">
+          <div className="form-group">
+            <label htmlFor="receipt_quantity">Quantity received</label>
+            <input
+              id="receipt_quantity"
+              type="number"
+              min="1"
+              value={accessoryQuantity}
+              onChange={(e) => setAccessoryQuantity(e.target.value)}
+              disabled={isSubmitting}
+              placeholder={remaining > 0 ? String(remaining) : undefined}
+            />
+          </div>
+          <div className="form-actions">
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={handleReceiveAccessories}
+              disabled={isSubmitting || !detailsComplete || !(Number(accessoryQuantity) > 0)}
+            >
+              {isSubmitting ? 'Receiving…' : 'Receive'}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          <div className="unit-intake-identifier">
+            <label>
+              <input
+                type="radio"
+                name="receipt-identifier"
+                checked={identifierField === 'imei'}
+                onChange={() => setIdentifierField('imei')}
+                disabled={isSubmitting || queue.length > 0}
+              />
+              IMEI
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="receipt-identifier"
+                checked={identifierField === 'serial_number'}
+                onChange={() => setIdentifierField('serial_number')}
+                disabled={isSubmitting || queue.length > 0}
+              />
+              Serial number
+            </label>
+          </div>
+
+          <form className="unit-intake-scan-form" onSubmit={handleScanSubmit}>
+            <input
+              ref={scanInputRef}
+              type="text"
+              inputMode="numeric"
+              autoComplete="off"
+              placeholder={`Scan or type ${identifierField === 'imei' ? 'an IMEI' : 'a serial number'} and press Enter`}
+              value={scanValue}
+              onChange={(e) => setScanValue(e.target.value)}
+              disabled={isSubmitting}
+            />
+            <button type="submit" className="btn-secondary" disabled={isSubmitting || !scanValue.trim()}>
+              Add
+            </button>
+            {isCameraScanSupported() && !showCamera && (
+              <button type="button" className="btn-secondary" onClick={() => setShowCamera(true)} disabled={isSubmitting}>
+                📷 Camera
+              </button>
+            )}
+          </form>
+          {showCamera && <BarcodeCameraScanner onDetected={addCode} onClose={() => setShowCamera(false)} />}
+
+          <div className="unit-intake-summary">
+            <span>{queue.length} scanned</span>
+            <span>{counts.ready || 0} ready</span>
+            {!!counts.invalid && <span className="is-error">{counts.invalid} invalid</span>}
+            {!!counts.duplicate && <span className="is-warning">{counts.duplicate} duplicate</span>}
+            {!!counts.created && <span className="is-success">{counts.created} received</span>}
+            {!!counts.failed && <span className="is-error">{counts.failed} failed</span>}
+          </div>
+
+          {queue.length > 0 && (
+            <div className="colors-table-container unit-intake-queue">
+              <table className="colors-table">
+                <thead>
+                  <tr>
+                    <th>{identifierField === 'imei' ? 'IMEI' : 'Serial Number'}</th>
+                    <th>Status</th>
+                    <th>Details</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {queue.map((row) => (
+                    <tr key={row.key} className={`intake-row-${row.status}`}>
+                      <td><code>{row.code}</code></td>
+                      <td>{STATUS_LABELS[row.status]}</td>
+                      <td>{row.status === 'created' && row.unitId ? `Unit #${row.unitId}` : row.message || ''}</td>
+                      <td>
+                        {row.status !== 'submitting' && row.status !== 'created' && (
+                          <button
+                            type="button"
+                            className="btn-small btn-secondary"
+                            onClick={() => setQueue((prev) => prev.filter((r) => r.key !== row.key))}
+                            disabled={isSubmitting}
+                            title="Remove from delivery"
+                          >
+                            ✕
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="form-actions">
+            {!!counts.failed && (
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={() =>
+                  setQueue((prev) =>
+                    prev.map((row) => (row.status === 'failed' ? { ...row, status: 'ready', message: undefined } : row))
+                  )
+                }
+                disabled={isSubmitting}
+              >
+                Retry failed
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={handleSubmitBatch}
+              disabled={isSubmitting || !detailsComplete || !counts.ready}
+              title={
+                detailsComplete
+                  ? undefined
+                  : unitSource
+                    ? 'Fill in the cost and selling price first'
+                    : 'Waiting for the acquisition source'
+              }
+            >
+              {isSubmitting ? 'Receiving units…' : `Receive ${counts.ready || 0} unit(s)`}
+            </button>
+          </div>
+        </>
+      )}
+    </section>
+  );
+};
@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { useQueries, useQuery } from '@tanstack/react-query';
+import { Navigate, useNavigate } from 'react-router-dom';
+import { PurchaseOrderStatusEnum, PurchaseOrdersService } from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { PURCHASE_ORDER_STATUSES, PurchaseOrderForm } from '../components/PurchaseOrderForm';
+import { useAcquisitionSources } from '../hooks/useAcquisitionSources';
+import { useAdminProfile } from '../hooks/useAdminProfile';
+import { useDebounce } from '../hooks/useDebounce';
+import { useUrlListState } from '../hooks/useUrlListState';
+import { formatKes } from '../utils/format';
+
+const PAGE_SIZE = 20;
+
+const STATUS_TABS = [
+  { value: PurchaseOrderStatusEnum.DRAFT, className: 'inactive' },
+  { value: PurchaseOrderStatusEnum.ORDERED, className: 'pending' },
+  { value: PurchaseOrderStatusEnum.PARTIALLY_RECEIVED, className: 'returned' },
+  { value: PurchaseOrderStatusEnum.RECEIVED, className: 'approved' },
+  { value: PurchaseOrderStatusEnum.CANCELLED, className: 'rejected' },
+];
+
+/**
+ * Purchase orders raised against suppliers and import partners, by status. Open one to receive
+ * the delivery against its lines.
+ */
+export const PurchaseOrdersPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { data: adminProfile, isLoading: isLoadingProfile } = useAdminProfile();
+  const [listState, setListState] = useUrlListState({
+    status: PurchaseOrderStatusEnum.ORDERED as string,
+    source: '',
+    page: 1,
+  });
+  const { status, source, page } = listState;
+  const [search, setSearch] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const debouncedSearch = useDebounce(search, 300);
+
+  const isSuperuser = adminProfile?.user?.is_superuser === true;
+  const isInventoryManager =
+    isSuperuser || !!adminProfile?.roles?.some((role) => role.name === 'IM' || role.role_code === 'IM');
+
+  const acquisitionSource = source ? Number(source) : undefined;
+
+  const { data: sources } = useAcquisitionSources({ enabled: isInventoryManager });
+
+  // A search looks across every status
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['purchase-orders', debouncedSearch ? 'search' : status, acquisitionSource, debouncedSearch, page],
+    queryFn: () =>
+      PurchaseOrdersService.purchaseOrdersList(
+        acquisitionSource,
+        page,
+        PAGE_SIZE,
+        debouncedSearch || undefined,
+        debouncedSearch ? undefined : (status as PurchaseOrderStatusEnum)
+      ),
+    placeholderData: (previous) => previous,
+    enabled: isInventoryManager,
+  });
+
+  const countQueries = useQueries({
+    queries: STATUS_TABS.map((tab) => ({
+      queryKey: ['purchase-orders', 'count', tab.value, acquisitionSource],
+      queryFn: () => PurchaseOrdersService.purchaseOrdersList(acquisitionSource, 1, 1, undefined, tab.value),
+      select: (result: { count: number }) => result.count,
+      enabled: isInventoryManager,
+    })),
+  });
+
+  if (isLoadingProfile) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  if (!isInventoryManager) {
+    return <Navigate to="/units" replace />;
+  }
+
+  const purchaseOrders = data?.results ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.count ?? 0) / PAGE_SIZE));
+
+  return (
+    <div className="purchase-orders-page">
+      <div className="page-header">
+        <h1>Purchase Orders</h1>
+        <div className="page-header-actions">
+          <button className="btn-primary" onClick={() => setShowForm(true)}>
+            + New Purchase Order
+          </button>
+        </div>
+      </div>
+
+      <p className="page-description">
+        Record what was ordered from each supplier or import partner, then receive the delivery against the order:
+        scanned units are created with the agreed cost, and short or over deliveries are flagged.
+      </p>
+
+      <div className="summary-stats">
+        {STATUS_TABS.map((tab, index) => (
+          <button
+            key={tab.value}
+            type="button"
+            className={`summary-stat-button summary-stat-button--${tab.className} ${!debouncedSearch && status === tab.value ? 'is-active' : ''}`}
+            onClick={() => {
+              setSearch('');
+              setListState({ status: tab.value });
+            }}
+            aria-pressed={!debouncedSearch && status === tab.value}
+          >
+            <span className="summary-stat-label">{PURCHASE_ORDER_STATUSES[tab.value]}</span>
+            <span className="summary-stat-value">{(countQueries[index].data ?? 0).toLocaleString()}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="filters-bar">
+        <div className="search-row">
+          <input
+            type="text"
+            className="search-input"
+            placeholder="Search by reference, source or notes…"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setListState({ page: 1 }, { replace: true });
+            }}
+          />
+          <select value={source} onChange={(e) => setListState({ source: e.target.value })} aria-label="Acquisition source">
+            <option value="">All sources</option>
+            {sources.map((s) => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="loading">Loading purchase orders...</div>
+      ) : error ? (
+        <div className="error">{getErrorMessage(error)}</div>
+      ) : purchaseOrders.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">📦</div>
+          <h3>
+            {debouncedSearch
+              ? 'No purchase orders match your search'
+              : `No ${PURCHASE_ORDER_STATUSES[status as PurchaseOrderStatusEnum].toLowerCase()} purchase orders`}
+          </h3>
+        </div>
+      ) : (
+        <div className="colors-table-container">
+          <table className="colors-table">
+            <thead>
+              <tr>
+                <th>Reference</th>
+                <th>Source</th>
+                <th>Status</th>
+                <th>Expected</th>
+                <th>Received / Ordered</th>
+                <th>Total cost</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {purchaseOrders.map((purchaseOrder) => (
+                <tr key={purchaseOrder.id}>
+                  <td className="color-name-cell">
+                    {purchaseOrder.reference}
+                    <div className="purchase-order-meta">
+                      {new Date(purchaseOrder.created_at).toLocaleDateString()}
+                      {purchaseOrder.created_by_username ? ` by ${purchaseOrder.created_by_username}` : ''}
+                    </div>
+                  </td>
+                  <td>{purchaseOrder.acquisition_source_name}</td>
+                  <td>
+                    {purchaseOrder.status ? PURCHASE_ORDER_STATUSES[purchaseOrder.status] : '-'}
+                    {purchaseOrder.has_discrepancy && <div className="warning-text">⚠️ Delivery discrepancy</div>}
+                  </td>
+                  <td>{purchaseOrder.expected_date ? new Date(purchaseOrder.expected_date).toLocaleDateString() : '-'}</td>
+                  <td>
+                    {purchaseOrder.received_quantity} / {purchaseOrder.ordered_quantity}
+                  </td>
+                  <td>{formatKes(purchaseOrder.total_cost)}</td>
+                  <td>
+                    <button
+                      className="btn-small btn-primary"
+                      onClick={() => navigate(`/purchase-orders/${purchaseOrder.id}`)}
+                    >
+                      {purchaseOrder.status === PurchaseOrderStatusEnum.ORDERED ||
+                      purchaseOrder.status === PurchaseOrderStatusEnum.PARTIALLY_RECEIVED
+                        ? 'Receive'
+                        : 'View'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {purchaseOrders.length > 0 && (
+        <div className="pagination">
+          <button
+            onClick={() => setListState({ page: Math.max(1, page - 1) })}
+            disabled={page <= 1}
+            className="btn-secondary"
+          >
+            Previous
+          </button>
+          <span className="page-info">
+            Page {page} of {totalPages} ({data?.count ?? 0} purchase orders)
+          </span>
+          <button
+            onClick={() => setListState({ page: Math.min(totalPages, page + 1) })}
+            disabled={page >= totalPages}
+            className="btn-secondary"
+          >
+            Next
+          </button>
+        </div>
+      )}
+
+      {showForm && (
+        <PurchaseOrderForm
+          onClose={() => setShowForm(false)}
+          onSaved={(purchaseOrder) => navigate(`/purchase-orders/${purchaseOrder.id}`)}
+        />
+      )}
+    </div>
+  );
+};
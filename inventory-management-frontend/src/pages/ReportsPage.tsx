@@ -1,52 +1,32 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { ProfilesService } from '../api/index';
-
-interface InventoryValueReport {
-  total_value: string;
-  available_value: string;
-  by_product: Array<{
-    product_template__id: number;
-    product_template__product_name: string;
-    unit_count: number;
-    available_count: number;
-    total_value: string;
-    avg_price: string;
-  }>;
-  by_status: Array<{
-    sale_status: string;
-    unit_count: number;
-    total_value: string;
-  }>;
-}
-
-interface StockMovementReport {
-  summary: {
-    units_sourced: number;
-    units_sold: number;
-    net_change: number;
-  };
-  daily_sourced: Array<{ date: string; count: number }>;
-  daily_sold: Array<{ date: string; count: number }>;
-}
-
-interface ProductPerformance {
-  id: number;
-  product_name: string;
-  total_units: number;
-  available_units: number;
-  sold_units: number;
-  reserved_units: number;
-  sell_through_rate: string;
-  avg_selling_price: string;
-  total_revenue: string;
-}
+import { ProfilesService, ReportsService } from '../api/index';
+import { useBrandsList } from '../hooks/useBrandsList';
+import { toIsoDate } from '../utils/format';
 
 export const ReportsPage: React.FC = () => {
   const { user } = useAuth();
-  const [dateRange, setDateRange] = useState(30);
+  const [dateRange, setDateRange] = useState<number | 'custom'>(30);
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [brandFilter, setBrandFilter] = useState<number | ''>('');
+  const { data: brands } = useBrandsList();
+
+  const { dateFrom, dateTo } = useMemo(() => {
+    if (dateRange === 'custom') {
+      return { dateFrom: customFrom || undefined, dateTo: customTo || undefined };
+    }
+    const to = new Date();
+    const from = new Date();
+    from.setDate(to.getDate() - dateRange);
+    return { dateFrom: toIsoDate(from), dateTo: toIsoDate(to) };
+  }, [dateRange, customFrom, customTo]);
+  const brand = brandFilter === '' ? undefined : brandFilter;
+  const periodLabel = dateRange === 'custom'
+    ? [customFrom || '…', customTo || 'today'].join(' – ')
+    : `${dateRange}d`;
   
   // Fetch admin profile to check roles
   const { data: adminProfile, isLoading: isLoadingProfile } = useQuery({
@@ -56,46 +36,19 @@ export const ReportsPage: React.FC = () => {
     enabled: !!user?.is_staff,
   });
 
-  const { data: inventoryValue, isLoading: loadingInventory } = useQuery<InventoryValueReport>({
-    queryKey: ['reports-inventory-value'],
-    queryFn: async () => {
-      const response = await fetch('/api/inventory/reports/inventory_value/', {
-        headers: {
-          'Authorization': `Token ${localStorage.getItem('auth_token')}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      if (!response.ok) throw new Error('Failed to fetch inventory value report');
-      return response.json();
-    },
+  const { data: inventoryValue, isLoading: loadingInventory } = useQuery({
+    queryKey: ['reports-inventory-value', brand],
+    queryFn: () => ReportsService.reportsInventoryValueRetrieve(brand),
   });
 
-  const { data: stockMovement, isLoading: loadingMovement } = useQuery<StockMovementReport>({
-    queryKey: ['reports-stock-movement', dateRange],
-    queryFn: async () => {
-      const response = await fetch(`/api/inventory/reports/stock_movement/?days=${dateRange}`, {
-        headers: {
-          'Authorization': `Token ${localStorage.getItem('auth_token')}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      if (!response.ok) throw new Error('Failed to fetch stock movement report');
-      return response.json();
-    },
+  const { data: stockMovement, isLoading: loadingMovement } = useQuery({
+    queryKey: ['reports-stock-movement', brand, dateFrom, dateTo],
+    queryFn: () => ReportsService.reportsStockMovementRetrieve(brand, dateFrom, dateTo),
   });
 
-  const { data: productPerformance, isLoading: loadingPerformance } = useQuery<ProductPerformance[]>({
-    queryKey: ['reports-product-performance'],
-    queryFn: async () => {
-      const response = await fetch('/api/inventory/reports/product_performance/', {
-        headers: {
-          'Authorization': `Token ${localStorage.getItem('auth_token')}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      if (!response.ok) throw new Error('Failed to fetch product performance report');
-      return response.json();
-    },
+  const { data: productPerformance, isLoading: loadingPerformance } = useQuery({
+    queryKey: ['reports-product-performance', brand, dateFrom, dateTo],
+    queryFn: () => ReportsService.reportsProductPerformanceRetrieve(brand, dateFrom, dateTo),
   });
 
   // Role checks and redirect (after all hooks are declared)
@@ -145,14 +98,47 @@ export const ReportsPage: React.FC = () => {
           <h1>Reports & Analytics</h1>
           <p className="page-subtitle">Comprehensive inventory insights and performance metrics</p>
         </div>
-        <div className="date-range-selector">
+        <div className="date-range-selector" style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+          <label>Brand:</label>
+          <select
+            value={brandFilter}
+            onChange={(e) => setBrandFilter(e.target.value ? Number(e.target.value) : '')}
+          >
+            <option value="">All brands</option>
+            {brands.map((b) => (
+              <option key={b.id} value={b.id}>{b.name}</option>
+            ))}
+          </select>
           <label>Time Period:</label>
-          <select value={dateRange} onChange={(e) => setDateRange(Number(e.target.value))}>
+          <select
+            value={dateRange}
+            onChange={(e) => setDateRange(e.target.value === 'custom' ? 'custom' : Number(e.target.value))}
+          >
             <option value={7}>Last 7 days</option>
             <option value={30}>Last 30 days</option>
             <option value={60}>Last 60 days</option>
             <option value={90}>Last 90 days</option>
+            <option value="custom">Custom range</option>
           </select>
+          {dateRange === 'custom' && (
+            <>
+              <input
+                type="date"
+                value={customFrom}
+                max={customTo || undefined}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                aria-label="Date from"
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={customTo}
+                min={customFrom || undefined}
+                onChange={(e) => setCustomTo(e.target.value)}
+                aria-label="Date to"
+              />
+            </>
+          )}
         </div>
       </div>
 
@@ -185,7 +171,7 @@ export const ReportsPage: React.FC = () => {
             <div className="metric-card metric-info">
               <div className="metric-icon">📦</div>
               <div className="metric-content">
-                <div className="metric-label">Units Sourced ({dateRange}d)</div>
+                <div className="metric-label">Units Sourced ({periodLabel})</div>
                 <div className="metric-value">
                   {stockMovement?.summary.units_sourced || 0}
                 </div>
@@ -195,7 +181,7 @@ export const ReportsPage: React.FC = () => {
             <div className="metric-card metric-warning">
               <div className="metric-icon">🛒</div>
               <div className="metric-content">
-                <div className="metric-label">Units Sold ({dateRange}d)</div>
+                <div className="metric-label">Units Sold ({periodLabel})</div>
                 <div className="metric-value">
                   {stockMovement?.summary.units_sold || 0}
                 </div>
@@ -4,16 +4,16 @@ import { useAuth } from '../contexts/AuthContext';
 import { useSearchParams } from 'react-router-dom';
 import { ReservationRequestsService, ReturnRequestsService, ReservationRequestStatusEnum, type InventoryUnitRW } from '../api/index';
 import { useAdminProfile } from '../hooks/useAdminProfile';
+import { useUrlListState } from '../hooks/useUrlListState';
 import { ModalLoader } from '../components/PageLoader';
 
 const ReservationRequestDetailsModal = lazy(() => import('../components/ReservationRequestDetailsModal').then((m) => ({ default: m.ReservationRequestDetailsModal })));
 
 export const ReservationRequestsPage: React.FC = () => {
   const [searchParams, setSearchParams] = useSearchParams();
-  const [page, setPage] = useState(1);
-  const [pageSize, setPageSize] = useState(25);
-  const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [search, setSearch] = useState('');
+  // Filters live in the URL, so notification links like ?status=PE land on the filtered list
+  const [listState, setListState] = useUrlListState({ page: 1, page_size: 25, status: 'all', search: '' });
+  const { page, page_size: pageSize, status: statusFilter, search } = listState;
   const [showFilters, setShowFilters] = useState(false);
   const [selectedRequests, setSelectedRequests] = useState<Set<number>>(new Set());
   const [toast, setToast] = useState<{message: string; type: 'success' | 'error'} | null>(null);
@@ -23,17 +23,6 @@ export const ReservationRequestsPage: React.FC = () => {
   const queryClient = useQueryClient();
   const { user } = useAuth();
 
-  // Read status filter from URL query params (e.g., when navigating from notification)
-  useEffect(() => {
-    const statusParam = searchParams.get('status');
-    if (statusParam && ['PE', 'AP', 'RE', 'EX', 'RT'].includes(statusParam)) {
-      setStatusFilter(statusParam);
-      // Remove the query param after reading it
-      searchParams.delete('status');
-      setSearchParams(searchParams, { replace: true });
-    }
-  }, [searchParams, setSearchParams]);
-
   useEffect(() => {
     const requestIdParam = searchParams.get('requestId');
     if (requestIdParam) {
@@ -46,11 +35,6 @@ export const ReservationRequestsPage: React.FC = () => {
     }
   }, [searchParams, setSearchParams]);
 
-  // Reset page to 1 when status filter changes
-  useEffect(() => {
-    setPage(1);
-  }, [statusFilter]);
-
   const { data: adminProfile } = useAdminProfile();
 
   const isSuperuser = adminProfile?.user?.is_superuser === true;
@@ -320,7 +304,7 @@ export const ReservationRequestsPage: React.FC = () => {
         
         // Change the filter AFTER updating the queries
         // This keeps the approved/rejected request visible so user can see the result
-        setStatusFilter('all');
+        setListState({ status: 'all' }, { replace: true });
       }
 
       // Also update all other matching queries (by prefix) for consistency
@@ -743,14 +727,12 @@ export const ReservationRequestsPage: React.FC = () => {
   const activeFilterCount = (statusFilter !== 'all' ? 1 : 0) + (search ? 1 : 0);
 
   const clearFilters = () => {
-    setStatusFilter('all');
-    setSearch('');
+    setListState({ status: 'all', search: '' });
     setSelectedRequests(new Set());
   };
 
   const handlePageSizeChange = (newSize: number) => {
-    setPageSize(newSize);
-    setPage(1); // Reset to first page when changing page size
+    setListState({ page_size: newSize }); // Also resets to the first page
     setSelectedRequests(new Set());
   };
 
@@ -783,7 +765,7 @@ export const ReservationRequestsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--total ${statusFilter === 'all' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('all')}
+            onClick={() => setListState({ status: 'all' })}
             title={`Total Requests: ${stats.total}`}
             aria-pressed={statusFilter === 'all'}
           >
@@ -793,7 +775,7 @@ export const ReservationRequestsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--pending ${statusFilter === 'PE' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('PE')}
+            onClick={() => setListState({ status: 'PE' })}
             title={`Pending Requests: ${stats.pending}`}
             aria-pressed={statusFilter === 'PE'}
           >
@@ -803,7 +785,7 @@ export const ReservationRequestsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--approved ${statusFilter === 'AP' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('AP')}
+            onClick={() => setListState({ status: 'AP' })}
             title={`Approved Requests: ${stats.approved}`}
             aria-pressed={statusFilter === 'AP'}
           >
@@ -813,7 +795,7 @@ export const ReservationRequestsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--returned ${statusFilter === 'RT' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('RT')}
+            onClick={() => setListState({ status: 'RT' })}
             title={`Returned Requests: ${stats.returned}`}
             aria-pressed={statusFilter === 'RT'}
           >
@@ -823,7 +805,7 @@ export const ReservationRequestsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--rejected ${statusFilter === 'RE' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('RE')}
+            onClick={() => setListState({ status: 'RE' })}
             title={`Rejected Requests: ${stats.rejected}`}
             aria-pressed={statusFilter === 'RE'}
           >
@@ -833,7 +815,7 @@ export const ReservationRequestsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--expired ${statusFilter === 'EX' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('EX')}
+            onClick={() => setListState({ status: 'EX' })}
             title={`Expired Requests: ${stats.expired}`}
             aria-pressed={statusFilter === 'EX'}
           >
@@ -880,7 +862,7 @@ export const ReservationRequestsPage: React.FC = () => {
             type="text"
             placeholder="Search by unit name, salesperson, or request ID..."
             value={search}
-            onChange={(e) => setSearch(e.target.value)}
+            onChange={(e) => setListState({ search: e.target.value }, { replace: true })}
           />
           <div className="search-actions">
             <button
@@ -907,37 +889,37 @@ export const ReservationRequestsPage: React.FC = () => {
             <div className="filters-pill-group">
               <button
                 className={`filter-pill ${statusFilter === 'all' ? 'active' : ''}`}
-                onClick={() => setStatusFilter('all')}
+                onClick={() => setListState({ status: 'all' })}
               >
                 All
               </button>
               <button
                 className={`filter-pill ${statusFilter === 'PE' ? 'active' : ''}`}
-                onClick={() => setStatusFilter('PE')}
+                onClick={() => setListState({ status: 'PE' })}
               >
                 Pending ({stats.pending})
               </button>
               <button
                 className={`filter-pill ${statusFilter === 'AP' ? 'active' : ''}`}
-                onClick={() => setStatusFilter('AP')}
+                onClick={() => setListState({ status: 'AP' })}
               >
                 Approved ({stats.approved})
               </button>
               <button
                 className={`filter-pill ${statusFilter === 'RT' ? 'active' : ''}`}
-                onClick={() => setStatusFilter('RT')}
+                onClick={() => setListState({ status: 'RT' })}
               >
                 Returned ({stats.returned})
               </button>
               <button
                 className={`filter-pill ${statusFilter === 'RE' ? 'active' : ''}`}
-                onClick={() => setStatusFilter('RE')}
+                onClick={() => setListState({ status: 'RE' })}
               >
                 Rejected ({stats.rejected})
               </button>
               <button
                 className={`filter-pill ${statusFilter === 'EX' ? 'active' : ''}`}
-                onClick={() => setStatusFilter('EX')}
+                onClick={() => setListState({ status: 'EX' })}
               >
                 Expired ({stats.expired})
               </button>
@@ -1038,7 +1020,7 @@ export const ReservationRequestsPage: React.FC = () => {
           <div className="pagination">
             <button
               className="btn-secondary"
-              onClick={() => setPage((p) => Math.max(1, p - 1))}
+              onClick={() => setListState({ page: Math.max(1, page - 1) })}
               disabled={!requestsData?.previous || page === 1}
             >
               Previous
@@ -1048,7 +1030,7 @@ export const ReservationRequestsPage: React.FC = () => {
             </span>
             <button
               className="btn-secondary"
-              onClick={() => setPage((p) => p + 1)}
+              onClick={() => setListState({ page: page + 1 })}
               disabled={!requestsData?.next}
             >
               Next
@@ -5,13 +5,13 @@ import { useSearchParams } from 'react-router-dom';
 import { ReturnRequestsService, ReturnRequestStatusEnum } from '../api/index';
 import { getInventoryBaseUrl } from '../api/config';
 import { useAdminProfile } from '../hooks/useAdminProfile';
+import { useUrlListState } from '../hooks/useUrlListState';
 
 export const ReturnRequestsPage: React.FC = () => {
-  const [page, setPage] = useState(1);
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [listState, setListState] = useUrlListState({ page: 1, status: 'all', search: '' });
+  const { page, status: statusFilter, search } = listState;
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedRequestIds, setSelectedRequestIds] = useState<Set<number>>(new Set());
-  const [search, setSearch] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const queryClient = useQueryClient();
   const { user } = useAuth();
@@ -31,16 +31,11 @@ export const ReturnRequestsPage: React.FC = () => {
   const isInventoryManager = hasRole('IM');
   const isSalesperson = hasRole('SP');
 
-  // Reset page to 1 when status filter changes
-  useEffect(() => {
-    setPage(1);
-  }, [statusFilter]);
-
   useEffect(() => {
     const requestIdParam = searchParams.get('requestId');
     if (requestIdParam) {
-      setSearch(requestIdParam);
-      setPage(1);
+      searchParams.set('search', requestIdParam);
+      searchParams.delete('page');
       searchParams.delete('requestId');
       setSearchParams(searchParams, { replace: true });
     }
@@ -293,8 +288,7 @@ export const ReturnRequestsPage: React.FC = () => {
   };
 
   const clearFilters = () => {
-    setStatusFilter('all');
-    setSearch('');
+    setListState({ status: 'all', search: '' });
     setShowFilters(false);
   };
 
@@ -328,7 +322,7 @@ export const ReturnRequestsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--total ${statusFilter === 'all' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('all')}
+            onClick={() => setListState({ status: 'all' })}
             title={`Total Requests: ${stats.total}`}
             aria-pressed={statusFilter === 'all'}
           >
@@ -338,7 +332,7 @@ export const ReturnRequestsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--pending ${statusFilter === 'PE' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('PE')}
+            onClick={() => setListState({ status: 'PE' })}
             title={`Pending Requests: ${stats.pending}`}
             aria-pressed={statusFilter === 'PE'}
           >
@@ -348,7 +342,7 @@ export const ReturnRequestsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--approved ${statusFilter === 'AP' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('AP')}
+            onClick={() => setListState({ status: 'AP' })}
             title={`Approved Requests: ${stats.approved}`}
             aria-pressed={statusFilter === 'AP'}
           >
@@ -358,7 +352,7 @@ export const ReturnRequestsPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--rejected ${statusFilter === 'RE' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('RE')}
+            onClick={() => setListState({ status: 'RE' })}
             title={`Rejected Requests: ${stats.rejected}`}
             aria-pressed={statusFilter === 'RE'}
           >
@@ -399,7 +393,7 @@ export const ReturnRequestsPage: React.FC = () => {
             type="text"
             placeholder="Search by ID, salesperson, or units count..."
             value={search}
-            onChange={(e) => setSearch(e.target.value)}
+            onChange={(e) => setListState({ search: e.target.value }, { replace: true })}
             className="search-input"
           />
           <button 
@@ -427,25 +421,25 @@ export const ReturnRequestsPage: React.FC = () => {
               <div className="filter-chips">
                 <button
                   className={`filter-chip ${statusFilter === 'all' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('all')}
+                  onClick={() => setListState({ status: 'all' })}
                 >
                   All
                 </button>
                 <button
                   className={`filter-chip ${statusFilter === 'PE' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('PE')}
+                  onClick={() => setListState({ status: 'PE' })}
                 >
                   Pending ({stats.pending})
                 </button>
                 <button
                   className={`filter-chip ${statusFilter === 'AP' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('AP')}
+                  onClick={() => setListState({ status: 'AP' })}
                 >
                   Approved ({stats.approved})
                 </button>
                 <button
                   className={`filter-chip ${statusFilter === 'RE' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('RE')}
+                  onClick={() => setListState({ status: 'RE' })}
                 >
                   Rejected ({stats.rejected})
                 </button>
@@ -508,7 +502,7 @@ export const ReturnRequestsPage: React.FC = () => {
       {requestsData && requestsData.count && requestsData.count > 25 ? (
         <div className="pagination">
           <button
-            onClick={() => setPage(p => Math.max(1, p - 1))}
+            onClick={() => setListState({ page: Math.max(1, page - 1) })}
             disabled={!requestsData?.previous || page === 1}
             className="btn-secondary"
           >
@@ -518,7 +512,7 @@ export const ReturnRequestsPage: React.FC = () => {
             Page {page} of {Math.ceil((requestsData.count || 0) / 25)} ({requestsData.count || 0} total)
           </span>
           <button
-            onClick={() => setPage(p => p + 1)}
+            onClick={() => setListState({ page: page + 1 })}
             disabled={!requestsData?.next}
             className="btn-secondary"
           >
@@ -0,0 +1,319 @@
+import React, { Suspense, lazy, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Navigate } from 'react-router-dom';
+import { ReportsService, StockAdjustmentReasonEnum, StockAdjustmentsService } from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { ModalLoader } from '../components/PageLoader';
+import { STOCK_ADJUSTMENT_REASONS } from '../components/UnitStockAdjustments';
+import { useAdminProfile } from '../hooks/useAdminProfile';
+import { useBrandsList } from '../hooks/useBrandsList';
+import { downloadCsv } from '../utils/csv';
+import { formatKes, toIsoDate } from '../utils/format';
+
+const UnitDetailsModal = lazy(() => import('../components/UnitDetailsModal').then((m) => ({ default: m.UnitDetailsModal })));
+
+const PAGE_SIZE = 25;
+
+/** summary-stat-button colour per reason: stock in is green, write-offs red. */
+const REASON_CLASSES: Record<StockAdjustmentReasonEnum, string> = {
+  [StockAdjustmentReasonEnum.RESTOCK]: 'approved',
+  [StockAdjustmentReasonEnum.RETURNED]: 'returned',
+  [StockAdjustmentReasonEnum.CORRECTION]: 'pending',
+  [StockAdjustmentReasonEnum.DAMAGED]: 'rejected',
+  [StockAdjustmentReasonEnum.LOST]: 'expired',
+};
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta}` : String(delta));
+
+/**
+ * Stock adjustment ledger across all accessory units, with the shrinkage report for a period:
+ * damaged and lost stock by reason and by product, valued at cost.
+ */
+export const StockAdjustmentsPage: React.FC = () => {
+  const { data: adminProfile, isLoading: isLoadingProfile } = useAdminProfile();
+  const { data: brands } = useBrandsList();
+  const [dateRange, setDateRange] = useState<number | 'custom'>(30);
+  const [customFrom, setCustomFrom] = useState('');
+  const [customTo, setCustomTo] = useState('');
+  const [brandFilter, setBrandFilter] = useState<number | ''>('');
+  const [reason, setReason] = useState<StockAdjustmentReasonEnum | ''>('');
+  const [page, setPage] = useState(1);
+  const [selectedUnitId, setSelectedUnitId] = useState<number | null>(null);
+
+  const isSuperuser = adminProfile?.user?.is_superuser === true;
+  const isInventoryManager =
+    isSuperuser || !!adminProfile?.roles?.some((role) => role.name === 'IM' || role.role_code === 'IM');
+
+  const { dateFrom, dateTo } = useMemo(() => {
+    if (dateRange === 'custom') {
+      return { dateFrom: customFrom || undefined, dateTo: customTo || undefined };
+    }
+    const to = new Date();
+    const from = new Date();
+    from.setDate(to.getDate() - dateRange);
+    return { dateFrom: toIsoDate(from), dateTo: toIsoDate(to) };
+  }, [dateRange, customFrom, customTo]);
+  const brand = brandFilter === '' ? undefined : brandFilter;
+
+  const { data: report, isLoading: loadingReport, error: reportError } = useQuery({
+    queryKey: ['reports-shrinkage', brand, dateFrom, dateTo],
+    queryFn: () => ReportsService.reportsShrinkageRetrieve(brand, dateFrom, dateTo),
+    enabled: isInventoryManager,
+  });
+
+  const { data: ledger, isLoading: loadingLedger, error: ledgerError } = useQuery({
+    queryKey: ['stock-adjustments', brand, dateFrom, dateTo, reason, page],
+    queryFn: () =>
+      StockAdjustmentsService.stockAdjustmentsList(brand, dateFrom, dateTo, page, PAGE_SIZE, reason || undefined),
+    placeholderData: (previous) => previous,
+    enabled: isInventoryManager,
+  });
+
+  if (isLoadingProfile) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  if (!isInventoryManager) {
+    return <Navigate to="/units" replace />;
+  }
+
+  const adjustments = ledger?.results ?? [];
+  const totalPages = Math.max(1, Math.ceil((ledger?.count ?? 0) / PAGE_SIZE));
+  const totalAdjustments = report?.by_reason.reduce((sum, row) => sum + row.adjustment_count, 0) ?? 0;
+
+  const selectReason = (next: StockAdjustmentReasonEnum | '') => {
+    setReason(next);
+    setPage(1);
+  };
+
+  const handleExport = () => {
+    if (!report) return;
+    downloadCsv(
+      ['Product', 'Brand', 'Damaged', 'Lost', 'Cost (KES)'],
+      report.by_product.map((row) => [row.product_name, row.brand_name ?? '', row.damaged, row.lost, row.cost_value]),
+      `shrinkage-${dateFrom ?? 'start'}-to-${dateTo ?? 'today'}.csv`
+    );
+  };
+
+  return (
+    <div className="stock-adjustments-page">
+      <div className="page-header">
+        <h1>Stock Adjustments</h1>
+        <div className="date-range-selector" style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', flexWrap: 'wrap' }}>
+          <label>Brand:</label>
+          <select
+            value={brandFilter}
+            onChange={(e) => {
+              setBrandFilter(e.target.value ? Number(e.target.value) : '');
+              setPage(1);
+            }}
+          >
+            <option value="">All brands</option>
+            {brands.map((b) => (
+              <option key={b.id} value={b.id}>{b.name}</option>
+            ))}
+          </select>
+          <label>Period:</label>
+          <select
+            value={dateRange}
+            onChange={(e) => {
+              setDateRange(e.target.value === 'custom' ? 'custom' : Number(e.target.value));
+              setPage(1);
+            }}
+          >
+            <option value={7}>Last 7 days</option>
+            <option value={30}>Last 30 days</option>
+            <option value={90}>Last 90 days</option>
+            <option value={365}>Last 12 months</option>
+            <option value="custom">Custom range</option>
+          </select>
+          {dateRange === 'custom' && (
+            <>
+              <input
+                type="date"
+                value={customFrom}
+                max={customTo || undefined}
+                onChange={(e) => setCustomFrom(e.target.value)}
+                aria-label="Date from"
+              />
+              <span>to</span>
+              <input
+                type="date"
+                value={customTo}
+                min={customFrom || undefined}
+                onChange={(e) => setCustomTo(e.target.value)}
+                aria-label="Date to"
+              />
+            </>
+          )}
+        </div>
+      </div>
+
+      <p className="page-description">
+        Every change to an accessory's quantity, with its reason and who made it. Adjust stock from a unit's details;
+        stock-take corrections are recorded here too.
+      </p>
+
+      {loadingReport ? (
+        <div className="loading">Loading shrinkage report...</div>
+      ) : reportError ? (
+        <div className="error">{getErrorMessage(reportError)}</div>
+      ) : report ? (
+        <>
+          <div className="summary-stats">
+            <button
+              type="button"
+              className={`summary-stat-button summary-stat-button--total ${reason === '' ? 'is-active' : ''}`}
+              onClick={() => selectReason('')}
+              aria-pressed={reason === ''}
+            >
+              <span className="summary-stat-label">All adjustments</span>
+              <span className="summary-stat-value">{totalAdjustments.toLocaleString()}</span>
+            </button>
+            {report.by_reason.map((row) => (
+              <button
+                key={row.reason}
+                type="button"
+                className={`summary-stat-button summary-stat-button--${REASON_CLASSES[row.reason]} ${
+                  reason === row.reason ? 'is-active' : ''
+                }`}
+                onClick={() => selectReason(row.reason)}
+                aria-pressed={reason === row.reason}
+              >
+                <span className="summary-stat-label">
+                  {STOCK_ADJUSTMENT_REASONS[row.reason].label} · {formatDelta(row.quantity)} ·{' '}
+                  {formatKes(row.cost_value)}
+                </span>
+                <span className="summary-stat-value">{row.adjustment_count.toLocaleString()}</span>
+              </button>
+            ))}
+          </div>
+
+          <div className="report-section">
+            <div className="report-section-header">
+              <h2 className="section-title">
+                Shrinkage: {report.shrinkage_units.toLocaleString()} unit(s) · {formatKes(report.shrinkage_cost_value)}
+              </h2>
+              {report.by_product.length > 0 && (
+                <button className="btn-secondary" onClick={handleExport}>
+                  📥 Export CSV
+                </button>
+              )}
+            </div>
+            {report.by_product.length === 0 ? (
+              <p className="form-help">No damaged or lost stock in this period.</p>
+            ) : (
+              <div className="colors-table-container">
+                <table className="colors-table">
+                  <thead>
+                    <tr>
+                      <th>Product</th>
+                      <th>Brand</th>
+                      <th>Damaged</th>
+                      <th>Lost</th>
+                      <th>Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.by_product.map((row) => (
+                      <tr key={row.product_template}>
+                        <td className="color-name-cell">{row.product_name}</td>
+                        <td>{row.brand_name || '-'}</td>
+                        <td>{row.damaged}</td>
+                        <td>{row.lost}</td>
+                        <td>{formatKes(row.cost_value)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      ) : null}
+
+      <div className="report-section">
+        <h2 className="section-title">
+          Ledger{reason ? `: ${STOCK_ADJUSTMENT_REASONS[reason].label}` : ''}
+        </h2>
+        {loadingLedger ? (
+          <div className="loading">Loading adjustments...</div>
+        ) : ledgerError ? (
+          <div className="error">{getErrorMessage(ledgerError)}</div>
+        ) : adjustments.length === 0 ? (
+          <div className="empty-state">
+            <div className="empty-state-icon">📒</div>
+            <h3>No stock adjustments in this period</h3>
+          </div>
+        ) : (
+          <>
+            <div className="colors-table-container">
+              <table className="colors-table">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Unit</th>
+                    <th>Change</th>
+                    <th>Quantity</th>
+                    <th>Reason</th>
+                    <th>Cost</th>
+                    <th>By</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {adjustments.map((adjustment) => (
+                    <tr key={adjustment.id}>
+                      <td>{new Date(adjustment.created_at).toLocaleString()}</td>
+                      <td>
+                        <button
+                          type="button"
+                          className="stock-adjustment-unit-link"
+                          onClick={() => setSelectedUnitId(adjustment.unit)}
+                        >
+                          {adjustment.unit_label}
+                        </button>
+                      </td>
+                      <td className={adjustment.delta < 0 ? 'stock-adjustment-out' : 'stock-adjustment-in'}>
+                        {formatDelta(adjustment.delta)}
+                      </td>
+                      <td>
+                        {adjustment.quantity_before} → {adjustment.quantity_after}
+                      </td>
+                      <td>
+                        {STOCK_ADJUSTMENT_REASONS[adjustment.reason]?.label}
+                        {adjustment.note && <div className="form-help">{adjustment.note}</div>}
+                      </td>
+                      <td>{formatKes(adjustment.cost_value)}</td>
+                      <td>{adjustment.created_by_username || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="pagination">
+              <button onClick={() => setPage(Math.max(1, page - 1))} disabled={page <= 1} className="btn-secondary">
+                Previous
+              </button>
+              <span className="page-info">
+                Page {page} of {totalPages} ({ledger?.count ?? 0} adjustments)
+              </span>
+              <button
+                onClick={() => setPage(Math.min(totalPages, page + 1))}
+                disabled={page >= totalPages}
+                className="btn-secondary"
+              >
+                Next
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+
+      {selectedUnitId && (
+        <Suspense fallback={<ModalLoader />}>
+          <UnitDetailsModal unitId={selectedUnitId} onClose={() => setSelectedUnitId(null)} isEditable />
+        </Suspense>
+      )}
+    </div>
+  );
+};
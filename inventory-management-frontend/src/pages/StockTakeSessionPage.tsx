@@ -0,0 +1,700 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Link, Navigate, useParams } from 'react-router-dom';
+import {
+  StockTakeFindingKindEnum,
+  StockTakeResolutionEnum,
+  StockTakeScanResultEnum,
+  StockTakesService,
+  StockTakeStatusEnum,
+  type StockTake,
+  type StockTakeAccessoryCount,
+  type StockTakeFinding,
+  type StockTakeScan,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { BarcodeCameraScanner, isCameraScanSupported } from '../components/BarcodeCameraScanner';
+import { useAdminProfile } from '../hooks/useAdminProfile';
+import { downloadCsv } from '../utils/csv';
+import { normalizeImei } from '../utils/imei';
+
+const SALE_STATUS_LABELS: Record<string, string> = {
+  AV: 'Available',
+  SD: 'Sold',
+  RS: 'Reserved',
+  RT: 'Returned',
+  PP: 'Pending payment',
+};
+
+const SCAN_RESULT_META: Record<StockTakeScanResultEnum, { icon: string; label: string; className: string }> = {
+  [StockTakeScanResultEnum.MATCHED]: { icon: '✅', label: 'Matched', className: 'is-success' },
+  [StockTakeScanResultEnum.UNEXPECTED]: { icon: '⚠️', label: 'Not in this count', className: 'is-warning' },
+  [StockTakeScanResultEnum.STATUS_MISMATCH]: { icon: '⚠️', label: 'Sold/reserved in system', className: 'is-warning' },
+  [StockTakeScanResultEnum.UNKNOWN]: { icon: '❓', label: 'Unknown code', className: 'is-error' },
+  [StockTakeScanResultEnum.DUPLICATE]: { icon: '🔁', label: 'Already scanned', className: 'is-muted' },
+};
+
+const FINDING_KIND_META: Record<StockTakeFindingKindEnum, { label: string; className: string }> = {
+  [StockTakeFindingKindEnum.MISSING]: { label: 'Missing', className: 'rejected' },
+  [StockTakeFindingKindEnum.UNEXPECTED]: { label: 'Unexpected', className: 'pending' },
+  [StockTakeFindingKindEnum.STATUS_MISMATCH]: { label: 'Status mismatch', className: 'returned' },
+  [StockTakeFindingKindEnum.UNKNOWN_CODE]: { label: 'Unknown code', className: 'expired' },
+  [StockTakeFindingKindEnum.QUANTITY_MISMATCH]: { label: 'Quantity mismatch', className: 'inactive' },
+};
+
+const RESOLUTION_LABELS: Record<StockTakeResolutionEnum, string> = {
+  [StockTakeResolutionEnum.UPDATE_STATUS]: 'Update sale status',
+  [StockTakeResolutionEnum.ARCHIVE]: 'Write off (archive unit)',
+  [StockTakeResolutionEnum.ADJUST_QUANTITY]: 'Set quantity to counted',
+  [StockTakeResolutionEnum.ACKNOWLEDGE]: 'Acknowledge only (audit note)',
+};
+
+/** Resolutions that make sense for each kind of finding, the most likely first. */
+const RESOLUTIONS_BY_KIND: Record<StockTakeFindingKindEnum, StockTakeResolutionEnum[]> = {
+  [StockTakeFindingKindEnum.MISSING]: [
+    StockTakeResolutionEnum.ARCHIVE,
+    StockTakeResolutionEnum.UPDATE_STATUS,
+    StockTakeResolutionEnum.ACKNOWLEDGE,
+  ],
+  [StockTakeFindingKindEnum.UNEXPECTED]: [StockTakeResolutionEnum.ACKNOWLEDGE, StockTakeResolutionEnum.UPDATE_STATUS],
+  [StockTakeFindingKindEnum.STATUS_MISMATCH]: [
+    StockTakeResolutionEnum.UPDATE_STATUS,
+    StockTakeResolutionEnum.ACKNOWLEDGE,
+  ],
+  [StockTakeFindingKindEnum.UNKNOWN_CODE]: [StockTakeResolutionEnum.ACKNOWLEDGE],
+  [StockTakeFindingKindEnum.QUANTITY_MISMATCH]: [
+    StockTakeResolutionEnum.ADJUST_QUANTITY,
+    StockTakeResolutionEnum.ACKNOWLEDGE,
+  ],
+};
+
+const formatDateTime = (value?: string | null) => (value ? new Date(value).toLocaleString() : '-');
+
+/** IMEIs come off box labels with spaces/dashes; serial numbers are kept as scanned. */
+const normalizeCode = (raw: string) => {
+  const code = raw.trim();
+  return /^[\d\s\-/]+$/.test(code) ? normalizeImei(code) : code;
+};
+
+/**
+ * One stock-take session: while open, scan units and count accessories; once closed, the
+ * discrepancy report with a resolution for each finding.
+ */
+export const StockTakeSessionPage: React.FC = () => {
+  const { stockTakeId } = useParams<{ stockTakeId: string }>();
+  const id = Number(stockTakeId);
+  const { data: adminProfile, isLoading: isLoadingProfile } = useAdminProfile();
+
+  const isSuperuser = adminProfile?.user?.is_superuser === true;
+  const isInventoryManager =
+    isSuperuser || !!adminProfile?.roles?.some((role) => role.name === 'IM' || role.role_code === 'IM');
+
+  const { data: stockTake, isLoading, error } = useQuery({
+    queryKey: ['stock-takes', 'detail', id],
+    queryFn: () => StockTakesService.stockTakesRetrieve(id),
+    enabled: !!id && isInventoryManager,
+  });
+
+  if (isLoadingProfile) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  if (!isInventoryManager) {
+    return <Navigate to="/units" replace />;
+  }
+
+  if (isLoading) {
+    return <div className="loading">Loading stock-take...</div>;
+  }
+
+  if (error || !stockTake) {
+    return <div className="error">{error ? getErrorMessage(error) : 'Stock-take not found'}</div>;
+  }
+
+  return (
+    <div className="stock-take-session-page">
+      <div className="page-header">
+        <div>
+          <Link to="/stock-takes" className="stock-take-back">
+            ← Stock-takes
+          </Link>
+          <h1>{stockTake.name}</h1>
+          <div className="stock-take-meta">
+            {stockTake.scope_label} · started {formatDateTime(stockTake.created_at)}
+            {stockTake.started_by_username ? ` by ${stockTake.started_by_username}` : ''}
+            {stockTake.closed_at ? ` · closed ${formatDateTime(stockTake.closed_at)}` : ''}
+          </div>
+        </div>
+      </div>
+
+      {stockTake.status === StockTakeStatusEnum.OPEN ? (
+        <StockTakeCount stockTake={stockTake} />
+      ) : (
+        <StockTakeReport stockTake={stockTake} />
+      )}
+    </div>
+  );
+};
+
+// Counting (open session)
+const StockTakeCount: React.FC<{ stockTake: StockTake }> = ({ stockTake }) => {
+  const queryClient = useQueryClient();
+  const [scanValue, setScanValue] = useState('');
+  const [showCamera, setShowCamera] = useState(false);
+  const [lastScan, setLastScan] = useState<StockTakeScan | null>(null);
+  const [scanError, setScanError] = useState('');
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const scansKey = ['stock-takes', 'detail', stockTake.id, 'scans'];
+
+  useEffect(() => {
+    scanInputRef.current?.focus();
+  }, []);
+
+  const { data: scans = [] } = useQuery({
+    queryKey: scansKey,
+    queryFn: () => StockTakesService.stockTakesScansList(stockTake.id),
+  });
+
+  const { data: accessoryCounts = [] } = useQuery({
+    queryKey: ['stock-takes', 'detail', stockTake.id, 'accessory-counts'],
+    queryFn: () => StockTakesService.stockTakesAccessoryCountsList(stockTake.id),
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: (code: string) => StockTakesService.stockTakesScanCreate(stockTake.id, { code }),
+    onSuccess: (scan) => {
+      setLastScan(scan);
+      setScanError('');
+      queryClient.setQueryData<StockTakeScan[]>(scansKey, (prev = []) => [scan, ...prev]);
+      queryClient.invalidateQueries({ queryKey: ['stock-takes', 'detail', stockTake.id], exact: true });
+    },
+    onError: (err) => setScanError(getErrorMessage(err)),
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: (scanId: number) => StockTakesService.stockTakesUndoScanCreate(stockTake.id, { scan: scanId }),
+    onSuccess: (_result, scanId) => {
+      queryClient.setQueryData<StockTakeScan[]>(scansKey, (prev = []) => prev.filter((scan) => scan.id !== scanId));
+      setLastScan((prev) => (prev?.id === scanId ? null : prev));
+      queryClient.invalidateQueries({ queryKey: ['stock-takes', 'detail', stockTake.id], exact: true });
+    },
+    onError: (err) => setScanError(getErrorMessage(err)),
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: () => StockTakesService.stockTakesCloseCreate(stockTake.id),
+    onSuccess: (closed) => {
+      queryClient.setQueryData(['stock-takes', 'detail', stockTake.id], closed);
+      queryClient.invalidateQueries({ queryKey: ['stock-takes'] });
+    },
+    onError: (err) => setScanError(getErrorMessage(err)),
+  });
+
+  const addCode = (raw: string) => {
+    const code = normalizeCode(raw);
+    if (!code) return;
+    scanMutation.mutate(code);
+  };
+
+  const handleScanSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    addCode(scanValue);
+    setScanValue('');
+    scanInputRef.current?.focus();
+  };
+
+  const uncountedAccessories = accessoryCounts.filter((count) => count.counted_quantity === null).length;
+
+  const handleClose = () => {
+    const warnings = [
+      `${stockTake.expected_count - scans.filter((scan) => scan.result === StockTakeScanResultEnum.MATCHED).length} expected unit(s) have not been scanned and will be reported missing.`,
+      uncountedAccessories > 0 ? `${uncountedAccessories} accessory line(s) have not been counted.` : '',
+    ].filter(Boolean);
+    if (window.confirm(`Close this stock-take? Scanning stops once it is closed.\n\n${warnings.join('\n')}`)) {
+      closeMutation.mutate();
+    }
+  };
+
+  const resultCounts = scans.reduce<Record<string, number>>((acc, scan) => {
+    acc[scan.result] = (acc[scan.result] || 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <>
+      <div className="summary-stats">
+        <div className="summary-stat-button summary-stat-button--total">
+          <span className="summary-stat-label">Expected</span>
+          <span className="summary-stat-value">{stockTake.expected_count.toLocaleString()}</span>
+        </div>
+        <div className="summary-stat-button summary-stat-button--approved">
+          <span className="summary-stat-label">Matched</span>
+          <span className="summary-stat-value">{(resultCounts[StockTakeScanResultEnum.MATCHED] || 0).toLocaleString()}</span>
+        </div>
+        <div className="summary-stat-button summary-stat-button--pending">
+          <span className="summary-stat-label">Flagged</span>
+          <span className="summary-stat-value">
+            {(
+              (resultCounts[StockTakeScanResultEnum.UNEXPECTED] || 0) +
+              (resultCounts[StockTakeScanResultEnum.STATUS_MISMATCH] || 0) +
+              (resultCounts[StockTakeScanResultEnum.UNKNOWN] || 0)
+            ).toLocaleString()}
+          </span>
+        </div>
+      </div>
+
+      <section className="form-section stock-take-scan">
+        <h3>Scan units</h3>
+        <form className="unit-intake-scan-form" onSubmit={handleScanSubmit}>
+          <input
+            ref={scanInputRef}
+            type="text"
+            autoComplete="off"
+            placeholder="Scan or type a serial number / IMEI and press Enter"
+            value={scanValue}
+            onChange={(e) => setScanValue(e.target.value)}
+            disabled={closeMutation.isPending}
+          />
+          <button type="submit" className="btn-secondary" disabled={!scanValue.trim() || closeMutation.isPending}>
+            Add
+          </button>
+          {isCameraScanSupported() && !showCamera && (
+            <button type="button" className="btn-secondary" onClick={() => setShowCamera(true)}>
+              📷 Camera
+            </button>
+          )}
+        </form>
+        {showCamera && <BarcodeCameraScanner onDetected={addCode} onClose={() => setShowCamera(false)} />}
+
+        {lastScan && (
+          <div className={`stock-take-last-scan ${SCAN_RESULT_META[lastScan.result].className}`}>
+            <strong>
+              {SCAN_RESULT_META[lastScan.result].icon} {SCAN_RESULT_META[lastScan.result].label}
+            </strong>{' '}
+            {lastScan.code}
+            {lastScan.unit_label && ` – ${lastScan.unit_label}`}
+            {lastScan.sale_status && lastScan.result === StockTakeScanResultEnum.STATUS_MISMATCH &&
+              ` (${SALE_STATUS_LABELS[lastScan.sale_status] || lastScan.sale_status})`}
+          </div>
+        )}
+        {scanError && <p className="error-text">{scanError}</p>}
+
+        {scans.length > 0 && (
+          <div className="colors-table-container unit-intake-queue">
+            <table className="colors-table">
+              <thead>
+                <tr>
+                  <th>Code</th>
+                  <th>Result</th>
+                  <th>Unit</th>
+                  <th>Scanned</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {scans.map((scan) => (
+                  <tr key={scan.id} className={`stock-take-scan-row ${SCAN_RESULT_META[scan.result].className}`}>
+                    <td>
+                      <code>{scan.code}</code>
+                    </td>
+                    <td>
+                      {SCAN_RESULT_META[scan.result].icon} {SCAN_RESULT_META[scan.result].label}
+                    </td>
+                    <td>
+                      {scan.unit ? `#${scan.unit} ` : ''}
+                      {scan.unit_label || '-'}
+                      {scan.sale_status && scan.result === StockTakeScanResultEnum.STATUS_MISMATCH && (
+                        <div className="stock-take-meta">
+                          System: {SALE_STATUS_LABELS[scan.sale_status] || scan.sale_status}
+                        </div>
+                      )}
+                    </td>
+                    <td>
+                      {formatDateTime(scan.scanned_at)}
+                      {scan.scanned_by_username && <div className="stock-take-meta">{scan.scanned_by_username}</div>}
+                    </td>
+                    <td>
+                      <button
+                        type="button"
+                        className="btn-small btn-secondary"
+                        onClick={() => undoMutation.mutate(scan.id)}
+                        disabled={undoMutation.isPending}
+                      >
+                        Undo
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {accessoryCounts.length > 0 && (
+        <section className="form-section">
+          <h3>Count accessories</h3>
+          <p className="form-help">Accessories are tracked by quantity; enter how many are on hand.</p>
+          <div className="colors-table-container">
+            <table className="colors-table">
+              <thead>
+                <tr>
+                  <th>Accessory</th>
+                  <th>Expected</th>
+                  <th>Counted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {accessoryCounts.map((count) => (
+                  <AccessoryCountRow key={count.unit} stockTakeId={stockTake.id} count={count} />
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+
+      <div className="form-actions">
+        <button type="button" className="btn-primary" onClick={handleClose} disabled={closeMutation.isPending}>
+          {closeMutation.isPending ? 'Closing...' : '🔒 Close & build report'}
+        </button>
+      </div>
+    </>
+  );
+};
+
+const AccessoryCountRow: React.FC<{ stockTakeId: number; count: StockTakeAccessoryCount }> = ({
+  stockTakeId,
+  count,
+}) => {
+  const queryClient = useQueryClient();
+  const [value, setValue] = useState(count.counted_quantity === null ? '' : String(count.counted_quantity));
+  const [error, setError] = useState('');
+
+  const saveMutation = useMutation({
+    mutationFn: (countedQuantity: number) =>
+      StockTakesService.stockTakesCountAccessoryCreate(stockTakeId, { unit: count.unit, counted_quantity: countedQuantity }),
+    onSuccess: (saved) => {
+      setError('');
+      queryClient.setQueryData<StockTakeAccessoryCount[]>(
+        ['stock-takes', 'detail', stockTakeId, 'accessory-counts'],
+        (prev = []) => prev.map((row) => (row.unit === saved.unit ? saved : row))
+      );
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const save = () => {
+    if (value === '' || Number(value) === count.counted_quantity) return;
+    saveMutation.mutate(Math.max(0, Math.floor(Number(value))));
+  };
+
+  const counted = count.counted_quantity;
+  return (
+    <tr>
+      <td>{count.unit_label}</td>
+      <td>{count.expected_quantity}</td>
+      <td>
+        <input
+          type="number"
+          min={0}
+          className="stock-take-quantity-input"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          onBlur={save}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              save();
+            }
+          }}
+          disabled={saveMutation.isPending}
+        />
+        {counted !== null && counted !== count.expected_quantity && (
+          <span className="warning-text"> {counted > count.expected_quantity ? '+' : ''}{counted - count.expected_quantity}</span>
+        )}
+        {error && <div className="error-text">{error}</div>}
+      </td>
+    </tr>
+  );
+};
+
+// Discrepancy report (closed session)
+const StockTakeReport: React.FC<{ stockTake: StockTake }> = ({ stockTake }) => {
+  const [kind, setKind] = useState<StockTakeFindingKindEnum | ''>('');
+  const [showResolved, setShowResolved] = useState(true);
+  const [resolving, setResolving] = useState<StockTakeFinding | null>(null);
+
+  const { data: findings = [], isLoading, error } = useQuery({
+    queryKey: ['stock-takes', 'detail', stockTake.id, 'findings'],
+    queryFn: () => StockTakesService.stockTakesFindingsList(stockTake.id),
+  });
+
+  const visibleFindings = findings.filter(
+    (finding) => (!kind || finding.kind === kind) && (showResolved || !finding.resolution)
+  );
+
+  const handleExport = () => {
+    downloadCsv(
+      ['Kind', 'Unit ID', 'Unit', 'Code', 'System status', 'Held by', 'Expected qty', 'Counted qty', 'Resolution', 'Note', 'Resolved by', 'Resolved at'],
+      findings.map((finding) => [
+        FINDING_KIND_META[finding.kind].label,
+        finding.unit ?? '',
+        finding.unit_label ?? '',
+        finding.code ?? '',
+        finding.sale_status ? SALE_STATUS_LABELS[finding.sale_status] || finding.sale_status : '',
+        finding.holder_username ?? '',
+        finding.expected_quantity ?? '',
+        finding.counted_quantity ?? '',
+        finding.resolution ? RESOLUTION_LABELS[finding.resolution as StockTakeResolutionEnum] : '',
+        finding.resolution_note ?? '',
+        finding.resolved_by_username ?? '',
+        finding.resolved_at ?? '',
+      ]),
+      `stock_take_${stockTake.id}_discrepancies.csv`
+    );
+  };
+
+  if (isLoading) {
+    return <div className="loading">Loading discrepancy report...</div>;
+  }
+
+  if (error) {
+    return <div className="error">{getErrorMessage(error)}</div>;
+  }
+
+  const countByKind = (value: StockTakeFindingKindEnum) => findings.filter((finding) => finding.kind === value).length;
+
+  return (
+    <>
+      <div className="summary-stats">
+        <button
+          type="button"
+          className={`summary-stat-button summary-stat-button--total ${kind === '' ? 'is-active' : ''}`}
+          onClick={() => setKind('')}
+        >
+          <span className="summary-stat-label">All findings</span>
+          <span className="summary-stat-value">{findings.length.toLocaleString()}</span>
+        </button>
+        {(Object.keys(FINDING_KIND_META) as StockTakeFindingKindEnum[]).map((value) => (
+          <button
+            key={value}
+            type="button"
+            className={`summary-stat-button summary-stat-button--${FINDING_KIND_META[value].className} ${kind === value ? 'is-active' : ''}`}
+            onClick={() => setKind(value)}
+          >
+            <span className="summary-stat-label">{FINDING_KIND_META[value].label}</span>
+            <span className="summary-stat-value">{countByKind(value).toLocaleString()}</span>
+          </button>
+        ))}
+      </div>
+
+      <div className="stock-take-report-toolbar">
+        <span>
+          {stockTake.scanned_count} scanned of {stockTake.expected_count} expected ·{' '}
+          <strong>{stockTake.unresolved_count}</strong> unresolved
+        </span>
+        <label className="unit-export-option">
+          <input type="checkbox" checked={showResolved} onChange={(e) => setShowResolved(e.target.checked)} />
+          Show resolved
+        </label>
+        <button type="button" className="btn-small btn-secondary" onClick={handleExport} disabled={findings.length === 0}>
+          📥 Export CSV
+        </button>
+      </div>
+
+      {findings.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">✅</div>
+          <h3>No discrepancies</h3>
+          <p>Everything counted matches the system.</p>
+        </div>
+      ) : (
+        <div className="colors-table-container">
+          <table className="colors-table">
+            <thead>
+              <tr>
+                <th>Finding</th>
+                <th>Unit</th>
+                <th>Code</th>
+                <th>System</th>
+                <th>Resolution</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {visibleFindings.map((finding) => (
+                <tr key={finding.id}>
+                  <td>{FINDING_KIND_META[finding.kind].label}</td>
+                  <td>
+                    {finding.unit ? `#${finding.unit} ` : ''}
+                    {finding.unit_label || '-'}
+                  </td>
+                  <td>{finding.code ? <code>{finding.code}</code> : '-'}</td>
+                  <td>
+                    {finding.kind === StockTakeFindingKindEnum.QUANTITY_MISMATCH
+                      ? `Expected ${finding.expected_quantity ?? '-'}, counted ${finding.counted_quantity ?? '-'}`
+                      : finding.sale_status
+                        ? SALE_STATUS_LABELS[finding.sale_status] || finding.sale_status
+                        : '-'}
+                    {finding.holder_username && <div className="stock-take-meta">Held by {finding.holder_username}</div>}
+                  </td>
+                  <td>
+                    {finding.resolution ? (
+                      <>
+                        {RESOLUTION_LABELS[finding.resolution as StockTakeResolutionEnum]}
+                        {finding.resolution_note && <div>{finding.resolution_note}</div>}
+                        <div className="stock-take-meta">
+                          {finding.resolved_by_username} · {formatDateTime(finding.resolved_at)}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="stock-take-unresolved">Unresolved</span>
+                    )}
+                  </td>
+                  <td>
+                    {!finding.resolution && (
+                      <button type="button" className="btn-small btn-primary" onClick={() => setResolving(finding)}>
+                        Resolve
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {resolving && (
+        <ResolveFindingModal stockTakeId={stockTake.id} finding={resolving} onClose={() => setResolving(null)} />
+      )}
+    </>
+  );
+};
+
+// Resolve Finding Modal Component
+interface ResolveFindingModalProps {
+  stockTakeId: number;
+  finding: StockTakeFinding;
+  onClose: () => void;
+}
+
+const ResolveFindingModal: React.FC<ResolveFindingModalProps> = ({ stockTakeId, finding, onClose }) => {
+  const queryClient = useQueryClient();
+  const options = RESOLUTIONS_BY_KIND[finding.kind];
+  const [resolution, setResolution] = useState<StockTakeResolutionEnum>(options[0]);
+  const [saleStatus, setSaleStatus] = useState(finding.kind === StockTakeFindingKindEnum.MISSING ? 'SD' : 'AV');
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const resolveMutation = useMutation({
+    mutationFn: () =>
+      StockTakesService.stockTakesResolveFindingCreate(stockTakeId, {
+        finding: finding.id,
+        resolution,
+        sale_status: resolution === StockTakeResolutionEnum.UPDATE_STATUS ? saleStatus : undefined,
+        note: note.trim() || undefined,
+      }),
+    onSuccess: (resolved) => {
+      queryClient.setQueryData<StockTakeFinding[]>(['stock-takes', 'detail', stockTakeId, 'findings'], (prev = []) =>
+        prev.map((row) => (row.id === resolved.id ? resolved : row))
+      );
+      queryClient.invalidateQueries({ queryKey: ['stock-takes'] });
+      queryClient.invalidateQueries({ queryKey: ['units'] });
+      onClose();
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const noteRequired = resolution === StockTakeResolutionEnum.ACKNOWLEDGE;
+  const isLoading = resolveMutation.isPending;
+
+  return (
+    <div className="modal-overlay" onClick={isLoading ? undefined : onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Resolve: {FINDING_KIND_META[finding.kind].label}</h2>
+          <button className="modal-close" onClick={onClose} disabled={isLoading}>×</button>
+        </div>
+        <form
+          className="form-section"
+          onSubmit={(e) => {
+            e.preventDefault();
+            setError('');
+            resolveMutation.mutate();
+          }}
+        >
+          <p className="modal-description">
+            {finding.unit ? `Unit #${finding.unit} ` : ''}
+            {finding.unit_label || finding.code}
+            {finding.sale_status && ` – ${SALE_STATUS_LABELS[finding.sale_status] || finding.sale_status} in the system`}
+            {finding.kind === StockTakeFindingKindEnum.QUANTITY_MISMATCH &&
+              ` – expected ${finding.expected_quantity}, counted ${finding.counted_quantity}`}
+            . The resolution is recorded in the audit log.
+          </p>
+
+          <div className="form-group">
+            <label>Resolution</label>
+            {options.map((option) => (
+              <label key={option} className="unit-export-option">
+                <input
+                  type="radio"
+                  name="finding-resolution"
+                  checked={resolution === option}
+                  onChange={() => setResolution(option)}
+                  disabled={isLoading}
+                />
+                {RESOLUTION_LABELS[option]}
+              </label>
+            ))}
+          </div>
+
+          {resolution === StockTakeResolutionEnum.UPDATE_STATUS && (
+            <div className="form-group">
+              <label htmlFor="finding-sale-status">New sale status</label>
+              <select
+                id="finding-sale-status"
+                value={saleStatus}
+                onChange={(e) => setSaleStatus(e.target.value)}
+                disabled={isLoading}
+              >
+                {Object.entries(SALE_STATUS_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label htmlFor="finding-note">
+              Note {noteRequired ? <span className="required">*</span> : '(optional)'}
+            </label>
+            <textarea
+              id="finding-note"
+              rows={2}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              required={noteRequired}
+              disabled={isLoading}
+              placeholder="e.g. Found in the repair drawer; sold offline on 12/03"
+            />
+          </div>
+
+          {error && <p className="error-text">{error}</p>}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isLoading || (noteRequired && !note.trim())}>
+              {isLoading ? 'Saving...' : 'Resolve'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,385 @@
+import React, { useState } from 'react';
+import { useMutation, useQueries, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Navigate, useNavigate } from 'react-router-dom';
+import {
+  ProductTypesEnum,
+  StockTakeScopeEnum,
+  StockTakesService,
+  StockTakeStatusEnum,
+  type Admin,
+  type StockTakeRequest,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
+import { useAdminProfile } from '../hooks/useAdminProfile';
+import { useBrandsList } from '../hooks/useBrandsList';
+import { useUrlListState } from '../hooks/useUrlListState';
+
+const PAGE_SIZE = 20;
+
+const STATUS_TABS = [
+  { value: StockTakeStatusEnum.OPEN, label: 'Open', className: 'pending' },
+  { value: StockTakeStatusEnum.CLOSED, label: 'Closed', className: 'approved' },
+];
+
+const PRODUCT_TYPE_LABELS: Record<ProductTypesEnum, string> = {
+  [ProductTypesEnum.PH]: 'Phones',
+  [ProductTypesEnum.LT]: 'Laptops',
+  [ProductTypesEnum.TB]: 'Tablets',
+  [ProductTypesEnum.AC]: 'Accessories',
+};
+
+const formatDateTime = (value?: string | null) => (value ? new Date(value).toLocaleString() : '-');
+
+/**
+ * Stock-take sessions: start a count for a brand, product type or a salesperson's holdings,
+ * then open it to scan and, once closed, to work through the discrepancy report.
+ */
+export const StockTakesPage: React.FC = () => {
+  const navigate = useNavigate();
+  const { data: adminProfile, isLoading: isLoadingProfile } = useAdminProfile();
+  const [listState, setListState] = useUrlListState({ status: StockTakeStatusEnum.OPEN as string, page: 1 });
+  const { status, page } = listState;
+  const [showStartModal, setShowStartModal] = useState(false);
+
+  const isSuperuser = adminProfile?.user?.is_superuser === true;
+  const isInventoryManager =
+    isSuperuser || !!adminProfile?.roles?.some((role) => role.name === 'IM' || role.role_code === 'IM');
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['stock-takes', status, page],
+    queryFn: () => StockTakesService.stockTakesList(page, PAGE_SIZE, status as StockTakeStatusEnum),
+    placeholderData: (previous) => previous,
+    enabled: isInventoryManager,
+  });
+
+  const countQueries = useQueries({
+    queries: STATUS_TABS.map((tab) => ({
+      queryKey: ['stock-takes', 'count', tab.value],
+      queryFn: () => StockTakesService.stockTakesList(1, 1, tab.value),
+      select: (result: { count: number }) => result.count,
+      enabled: isInventoryManager,
+    })),
+  });
+
+  if (isLoadingProfile) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  if (!isInventoryManager) {
+    return <Navigate to="/units" replace />;
+  }
+
+  const stockTakes = data?.results ?? [];
+  const totalPages = Math.max(1, Math.ceil((data?.count ?? 0) / PAGE_SIZE));
+
+  return (
+    <div className="stock-takes-page">
+      <div className="page-header">
+        <h1>Stock-takes</h1>
+        <div className="page-header-actions">
+          <button className="btn-primary" onClick={() => setShowStartModal(true)}>
+            + Start Stock-take
+          </button>
+        </div>
+      </div>
+
+      <p className="page-description">
+        Count what is physically on the shelves (or with a salesperson) and compare it with the system. Scan each
+        serial/IMEI, enter accessory quantities, then close the session to get the discrepancy report.
+      </p>
+
+      <div className="summary-stats">
+        {STATUS_TABS.map((tab, index) => (
+          <button
+            key={tab.value}
+            type="button"
+            className={`summary-stat-button summary-stat-button--${tab.className} ${status === tab.value ? 'is-active' : ''}`}
+            onClick={() => setListState({ status: tab.value })}
+            aria-pressed={status === tab.value}
+          >
+            <span className="summary-stat-label">{tab.label}</span>
+            <span className="summary-stat-value">{(countQueries[index].data ?? 0).toLocaleString()}</span>
+          </button>
+        ))}
+      </div>
+
+      {isLoading ? (
+        <div className="loading">Loading stock-takes...</div>
+      ) : error ? (
+        <div className="error">{getErrorMessage(error)}</div>
+      ) : stockTakes.length === 0 ? (
+        <div className="empty-state">
+          <div className="empty-state-icon">📋</div>
+          <h3>{status === StockTakeStatusEnum.OPEN ? 'No open stock-takes' : 'No closed stock-takes'}</h3>
+          {status === StockTakeStatusEnum.OPEN && (
+            <button className="btn-primary" onClick={() => setShowStartModal(true)}>
+              Start Stock-take
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="colors-table-container">
+          <table className="colors-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Scope</th>
+                <th>Started</th>
+                <th>Scanned / Expected</th>
+                <th>{status === StockTakeStatusEnum.OPEN ? '' : 'Findings'}</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {stockTakes.map((stockTake) => (
+                <tr key={stockTake.id}>
+                  <td className="color-name-cell">{stockTake.name}</td>
+                  <td>{stockTake.scope_label}</td>
+                  <td>
+                    {formatDateTime(stockTake.created_at)}
+                    {stockTake.started_by_username && (
+                      <div className="stock-take-meta">by {stockTake.started_by_username}</div>
+                    )}
+                  </td>
+                  <td>
+                    {stockTake.scanned_count} / {stockTake.expected_count}
+                  </td>
+                  <td>
+                    {stockTake.status === StockTakeStatusEnum.CLOSED && (
+                      <>
+                        {stockTake.finding_count}
+                        {stockTake.unresolved_count > 0 && (
+                          <span className="stock-take-unresolved"> ({stockTake.unresolved_count} unresolved)</span>
+                        )}
+                      </>
+                    )}
+                  </td>
+                  <td>
+                    <button className="btn-small btn-primary" onClick={() => navigate(`/stock-takes/${stockTake.id}`)}>
+                      {stockTake.status === StockTakeStatusEnum.OPEN ? 'Continue counting' : 'View report'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {stockTakes.length > 0 && (
+        <div className="pagination">
+          <button
+            onClick={() => setListState({ page: Math.max(1, page - 1) })}
+            disabled={page <= 1}
+            className="btn-secondary"
+          >
+            Previous
+          </button>
+          <span className="page-info">
+            Page {page} of {totalPages} ({data?.count ?? 0} stock-takes)
+          </span>
+          <button
+            onClick={() => setListState({ page: Math.min(totalPages, page + 1) })}
+            disabled={page >= totalPages}
+            className="btn-secondary"
+          >
+            Next
+          </button>
+        </div>
+      )}
+
+      {showStartModal && (
+        <StartStockTakeModal
+          onClose={() => setShowStartModal(false)}
+          onStarted={(id) => navigate(`/stock-takes/${id}`)}
+        />
+      )}
+    </div>
+  );
+};
+
+// Start Stock-take Modal Component
+interface StartStockTakeModalProps {
+  onClose: () => void;
+  onStarted: (id: number) => void;
+}
+
+const StartStockTakeModal: React.FC<StartStockTakeModalProps> = ({ onClose, onStarted }) => {
+  const queryClient = useQueryClient();
+  const { data: brands } = useBrandsList();
+  const [formData, setFormData] = useState<StockTakeRequest>({
+    name: `Stock-take ${new Date().toLocaleDateString()}`,
+    scope: StockTakeScopeEnum.BRAND,
+    brand: null,
+    product_type: null,
+    salesperson: null,
+    notes: '',
+  });
+  const [error, setError] = useState('');
+
+  const { data: salespersons = [] } = useQuery({
+    queryKey: ['admins', 'salespersons'],
+    queryFn: async () => {
+      const admins = await fetchAllDrfPages<Admin>('/admins/?page_size=100');
+      return admins.filter((admin) => admin.roles?.some((role) => role.name === 'SP'));
+    },
+    enabled: formData.scope === StockTakeScopeEnum.SALESPERSON,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  const startMutation = useMutation({
+    mutationFn: (body: StockTakeRequest) => StockTakesService.stockTakesCreate(body),
+    onSuccess: (stockTake) => {
+      queryClient.invalidateQueries({ queryKey: ['stock-takes'] });
+      onStarted(stockTake.id);
+    },
+    onError: (err) => setError(getErrorMessage(err)),
+  });
+
+  const scopeIncomplete =
+    (formData.scope === StockTakeScopeEnum.BRAND && !formData.brand) ||
+    (formData.scope === StockTakeScopeEnum.PRODUCT_TYPE && !formData.product_type) ||
+    (formData.scope === StockTakeScopeEnum.SALESPERSON && !formData.salesperson);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    // Only send the selector that belongs to the chosen scope
+    startMutation.mutate({
+      name: formData.name.trim(),
+      scope: formData.scope,
+      brand: formData.scope === StockTakeScopeEnum.BRAND ? formData.brand : null,
+      product_type: formData.scope === StockTakeScopeEnum.PRODUCT_TYPE ? formData.product_type : null,
+      salesperson: formData.scope === StockTakeScopeEnum.SALESPERSON ? formData.salesperson : null,
+      notes: formData.notes?.trim(),
+    });
+  };
+
+  const isLoading = startMutation.isPending;
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Start Stock-take</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+        <form onSubmit={handleSubmit} className="form-section">
+          <div className="form-group">
+            <label htmlFor="stock-take-name">Name <span className="required">*</span></label>
+            <input
+              id="stock-take-name"
+              type="text"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+              disabled={isLoading}
+              maxLength={100}
+            />
+          </div>
+
+          <div className="form-group">
+            <label htmlFor="stock-take-scope">Count</label>
+            <select
+              id="stock-take-scope"
+              value={formData.scope}
+              onChange={(e) => setFormData({ ...formData, scope: e.target.value as StockTakeScopeEnum })}
+              disabled={isLoading}
+            >
+              <option value={StockTakeScopeEnum.BRAND}>One brand</option>
+              <option value={StockTakeScopeEnum.PRODUCT_TYPE}>One product type</option>
+              <option value={StockTakeScopeEnum.SALESPERSON}>A salesperson's holdings</option>
+              <option value={StockTakeScopeEnum.ALL}>All stock</option>
+            </select>
+          </div>
+
+          {formData.scope === StockTakeScopeEnum.BRAND && (
+            <div className="form-group">
+              <label htmlFor="stock-take-brand">Brand <span className="required">*</span></label>
+              <select
+                id="stock-take-brand"
+                value={formData.brand ?? ''}
+                onChange={(e) => setFormData({ ...formData, brand: e.target.value ? Number(e.target.value) : null })}
+                disabled={isLoading}
+              >
+                <option value="">Select a brand</option>
+                {brands.map((brand) => (
+                  <option key={brand.id} value={brand.id}>
+                    {brand.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {formData.scope === StockTakeScopeEnum.PRODUCT_TYPE && (
+            <div className="form-group">
+              <label htmlFor="stock-take-product-type">Product type <span className="required">*</span></label>
+              <select
+                id="stock-take-product-type"
+                value={(formData.product_type as string | null) ?? ''}
+                onChange={(e) =>
+                  setFormData({ ...formData, product_type: (e.target.value || null) as ProductTypesEnum | null })
+                }
+                disabled={isLoading}
+              >
+                <option value="">Select a product type</option>
+                {Object.entries(PRODUCT_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {formData.scope === StockTakeScopeEnum.SALESPERSON && (
+            <div className="form-group">
+              <label htmlFor="stock-take-salesperson">Salesperson <span className="required">*</span></label>
+              <select
+                id="stock-take-salesperson"
+                value={formData.salesperson ?? ''}
+                onChange={(e) =>
+                  setFormData({ ...formData, salesperson: e.target.value ? Number(e.target.value) : null })
+                }
+                disabled={isLoading}
+              >
+                <option value="">Select a salesperson</option>
+                {salespersons.map((admin) => (
+                  <option key={admin.id} value={admin.id}>
+                    {admin.user?.username || `Admin #${admin.id}`}
+                  </option>
+                ))}
+              </select>
+              <small className="form-help">Counts the units currently reserved by this salesperson.</small>
+            </div>
+          )}
+
+          <div className="form-group">
+            <label htmlFor="stock-take-notes">Notes</label>
+            <textarea
+              id="stock-take-notes"
+              rows={2}
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              disabled={isLoading}
+              placeholder="e.g. Monthly count, main shop display cabinet"
+            />
+          </div>
+
+          {error && <p className="error-text">{error}</p>}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
+              Cancel
+            </button>
+            <button type="submit" className="btn-primary" disabled={isLoading || !formData.name.trim() || scopeIncomplete}>
+              {isLoading ? 'Starting...' : 'Start counting'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
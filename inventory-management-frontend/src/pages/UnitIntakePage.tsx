@@ -0,0 +1,512 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Navigate, useNavigate } from 'react-router-dom';
+import {
+  UnitsService,
+  type ConditionEnum,
+  type GradeEnum,
+  type InventoryUnitRequest,
+  type ProductList,
+  type SourceEnum,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { listUnits } from '../api/unitsList';
+import { BarcodeCameraScanner, isCameraScanSupported } from '../components/BarcodeCameraScanner';
+import { useAcquisitionSources } from '../hooks/useAcquisitionSources';
+import { useAdminProfile } from '../hooks/useAdminProfile';
+import { useColorsList } from '../hooks/useColorsList';
+import { useDebounce } from '../hooks/useDebounce';
+import { describeImeiCheck } from '../hooks/useImeiCheck';
+import { useProductsList } from '../hooks/useProductsList';
+import { getImeiError, normalizeImei } from '../utils/imei';
+
+type IdentifierField = 'imei' | 'serial_number';
+
+type QueueStatus = 'checking' | 'ready' | 'invalid' | 'duplicate' | 'submitting' | 'created' | 'failed';
+
+interface QueuedUnit {
+  key: number;
+  code: string;
+  status: QueueStatus;
+  message?: string;
+  unitId?: number;
+}
+
+interface BatchSettings {
+  product_template_id?: number;
+  product_color_id?: number;
+  condition: ConditionEnum;
+  grade: GradeEnum | '';
+  source: SourceEnum;
+  acquisition_source_details_id?: number;
+  storage_gb: string;
+  ram_gb: string;
+  cost_of_unit: string;
+  selling_price: string;
+}
+
+const INITIAL_SETTINGS: BatchSettings = {
+  condition: 'N' as ConditionEnum,
+  grade: '',
+  source: 'SU' as SourceEnum,
+  storage_gb: '',
+  ram_gb: '',
+  cost_of_unit: '',
+  selling_price: '',
+};
+
+const STATUS_LABELS: Record<QueueStatus, string> = {
+  checking: 'Checking…',
+  ready: 'Ready',
+  invalid: 'Invalid',
+  duplicate: 'Duplicate',
+  submitting: 'Saving…',
+  created: 'Created',
+  failed: 'Failed',
+};
+
+/** Look for an existing unit whose serial number is exactly `code`. */
+const findUnitBySerial = async (code: string) => {
+  const page = await listUnits({ search: code, page_size: 5 });
+  return page.results?.find((unit) => (unit.serial_number || '').trim() === code);
+};
+
+/**
+ * Rapid intake: choose the shared details of a delivery once, then scan IMEIs or serial numbers
+ * (keyboard-wedge scanner or camera). Each scan is queued and checked for duplicates straight away;
+ * the batch is then created one unit at a time with a per-row result.
+ */
+export const UnitIntakePage: React.FC = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { data: adminProfile, isLoading: isLoadingProfile } = useAdminProfile();
+  const [settings, setSettings] = useState<BatchSettings>(INITIAL_SETTINGS);
+  const [productSearch, setProductSearch] = useState('');
+  const [identifierField, setIdentifierField] = useState<IdentifierField>('imei');
+  const [scanValue, setScanValue] = useState('');
+  const [queue, setQueue] = useState<QueuedUnit[]>([]);
+  const [showCamera, setShowCamera] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+  const nextKeyRef = useRef(1);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+
+  const debouncedProductSearch = useDebounce(productSearch, 300);
+  const { data: productsData } = useProductsList(debouncedProductSearch);
+  const { data: colorsData } = useColorsList();
+  const colors = colorsData?.results ?? [];
+  const { data: sources } = useAcquisitionSources();
+  const products: ProductList[] = productsData?.results ?? [];
+
+  const isSuperuser = adminProfile?.user?.is_superuser === true;
+  const isInventoryManager =
+    isSuperuser || !!adminProfile?.roles?.some((role) => role.name === 'IM' || role.role_code === 'IM');
+
+  useEffect(() => {
+    scanInputRef.current?.focus();
+  }, []);
+
+  const updateRow = (key: number, patch: Partial<QueuedUnit>) => {
+    setQueue((prev) => prev.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+  };
+
+  const checkCode = (code: string): Promise<Partial<QueuedUnit>> => {
+    if (identifierField === 'imei') {
+      return UnitsService.unitsImeiCheckRetrieve(code, undefined, settings.product_template_id).then((check) => {
+        const { duplicate, tacWarning } = describeImeiCheck(check, settings.product_template_id);
+        return duplicate
+          ? { status: 'duplicate', message: duplicate }
+          : { status: 'ready', message: tacWarning ? `⚠️ ${tacWarning}` : undefined };
+      });
+    }
+    return findUnitBySerial(code).then((existing) =>
+      existing
+        ? { status: 'duplicate', message: `Already in inventory (Unit #${existing.id}, ${existing.product_template_name || 'unknown product'})` }
+        : { status: 'ready' }
+    );
+  };
+
+  const addCode = (raw: string) => {
+    const code = identifierField === 'imei' ? normalizeImei(raw) : raw.trim();
+    if (!code) return;
+    const key = nextKeyRef.current++;
+    const formatError = identifierField === 'imei' ? getImeiError(code) : null;
+    const alreadyQueued = queueRef.current.some((row) => row.code === code && row.status !== 'failed');
+    const rejection: Partial<QueuedUnit> | null = formatError
+      ? { status: 'invalid', message: formatError }
+      : alreadyQueued
+        ? { status: 'duplicate', message: 'Already scanned in this batch' }
+        : null;
+    setQueue((prev) => [{ key, code, status: 'checking', ...rejection }, ...prev]);
+    if (rejection) return;
+
+    checkCode(code)
+      .then((patch) => updateRow(key, patch))
+      // The server rejects real duplicates on create anyway, so a failed check should not block the row
+      .catch(() => updateRow(key, { status: 'ready', message: 'Could not check for duplicates' }));
+  };
+
+  const handleScanSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    addCode(scanValue);
+    setScanValue('');
+    scanInputRef.current?.focus();
+  };
+
+  const handleProductChange = (productId: string) => {
+    const product = products.find((p) => p.id === Number(productId));
+    setSettings((prev) => ({
+      ...prev,
+      product_template_id: product?.id,
+      selling_price: prev.selling_price || product?.default_selling_price || '',
+    }));
+  };
+
+  const buildPayload = (code: string): InventoryUnitRequest => ({
+    product_template_id: settings.product_template_id!,
+    product_color_id: settings.product_color_id,
+    condition: settings.condition,
+    grade: settings.grade || undefined,
+    source: settings.source,
+    acquisition_source_details_id: settings.source === 'BB' ? undefined : settings.acquisition_source_details_id,
+    storage_gb: settings.storage_gb ? Number(settings.storage_gb) : undefined,
+    ram_gb: settings.ram_gb ? Number(settings.ram_gb) : undefined,
+    cost_of_unit: settings.cost_of_unit || '0',
+    selling_price: settings.selling_price || undefined,
+    quantity: 1,
+    [identifierField]: code,
+  });
+
+  const handleSubmitBatch = async () => {
+    const rows = queueRef.current.filter((row) => row.status === 'ready');
+    if (rows.length === 0) return;
+    setIsSubmitting(true);
+    let created = 0;
+    // One request at a time keeps the server's duplicate checks reliable and the order readable
+    for (const row of [...rows].reverse()) {
+      updateRow(row.key, { status: 'submitting', message: undefined });
+      try {
+        const unit = await UnitsService.unitsCreate(buildPayload(row.code));
+        updateRow(row.key, { status: 'created', unitId: unit.id });
+        created++;
+      } catch (err) {
+        updateRow(row.key, { status: 'failed', message: getErrorMessage(err) });
+      }
+    }
+    setIsSubmitting(false);
+    if (created > 0) {
+      queryClient.invalidateQueries({ queryKey: ['units'] });
+    }
+  };
+
+  const retryFailed = () => {
+    setQueue((prev) => prev.map((row) => (row.status === 'failed' ? { ...row, status: 'ready', message: undefined } : row)));
+  };
+
+  const clearCreated = () => {
+    setQueue((prev) => prev.filter((row) => row.status !== 'created'));
+  };
+
+  if (!isLoadingProfile && !isInventoryManager) {
+    return <Navigate to="/units" replace />;
+  }
+
+  const counts = queue.reduce(
+    (acc, row) => ({ ...acc, [row.status]: (acc[row.status] || 0) + 1 }),
+    {} as Partial<Record<QueueStatus, number>>
+  );
+  const settingsComplete =
+    !!settings.product_template_id &&
+    !!settings.cost_of_unit &&
+    !!settings.selling_price &&
+    (settings.source === 'BB' || !!settings.acquisition_source_details_id);
+
+  return (
+    <div className="unit-intake-page">
+      <div className="page-header">
+        <h1>Rapid Intake</h1>
+        <div className="page-header-actions">
+          <button className="btn-secondary" onClick={() => navigate('/units')}>
+            ← Inventory Units
+          </button>
+        </div>
+      </div>
+
+      <div className="unit-intake-layout">
+        <section className="form-section unit-intake-settings">
+          <h3>1. Batch details</h3>
+          <div className="form-group">
+            <label htmlFor="intake_product_search">Product <span className="required">*</span></label>
+            <input
+              id="intake_product_search"
+              type="text"
+              placeholder="Search products…"
+              value={productSearch}
+              onChange={(e) => setProductSearch(e.target.value)}
+              disabled={isSubmitting}
+            />
+            <select
+              value={settings.product_template_id ?? ''}
+              onChange={(e) => handleProductChange(e.target.value)}
+              disabled={isSubmitting}
+            >
+              <option value="">Select product</option>
+              {products.map((product) => (
+                <option key={product.id} value={product.id}>
+                  {product.brand ? `${product.brand} ` : ''}{product.product_name}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="intake_color">Color</label>
+              <select
+                id="intake_color"
+                value={settings.product_color_id ?? ''}
+                onChange={(e) => setSettings({ ...settings, product_color_id: e.target.value ? Number(e.target.value) : undefined })}
+                disabled={isSubmitting}
+              >
+                <option value="">No color</option>
+                {colors.map((color) => (
+                  <option key={color.id} value={color.id}>{color.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="intake_condition">Condition</label>
+              <select
+                id="intake_condition"
+                value={settings.condition}
+                onChange={(e) => setSettings({ ...settings, condition: e.target.value as ConditionEnum })}
+                disabled={isSubmitting}
+              >
+                <option value="N">New</option>
+                <option value="R">Refurbished</option>
+                <option value="P">Pre-owned</option>
+                <option value="D">Defective</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="intake_grade">Grade</label>
+              <select
+                id="intake_grade"
+                value={settings.grade}
+                onChange={(e) => setSettings({ ...settings, grade: e.target.value as GradeEnum | '' })}
+                disabled={isSubmitting}
+              >
+                <option value="">No grade</option>
+                <option value="A">Grade A</option>
+                <option value="B">Grade B</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="intake_source">Source Type</label>
+              <select
+                id="intake_source"
+                value={settings.source}
+                onChange={(e) => setSettings({ ...settings, source: e.target.value as SourceEnum })}
+                disabled={isSubmitting}
+              >
+                <option value="SU">Supplier (SU)</option>
+                <option value="IM">Import (IM)</option>
+                <option value="BB">Buyback (BB)</option>
+              </select>
+            </div>
+            <div className="form-group">
+              <label htmlFor="intake_acquisition_source">
+                Acquisition Source {settings.source !== 'BB' && <span className="required">*</span>}
+              </label>
+              <select
+                id="intake_acquisition_source"
+                value={settings.acquisition_source_details_id ?? ''}
+                onChange={(e) =>
+                  setSettings({ ...settings, acquisition_source_details_id: e.target.value ? Number(e.target.value) : undefined })
+                }
+                disabled={isSubmitting || settings.source === 'BB'}
+              >
+                <option value="">Select source</option>
+                {sources.map((source) => (
+                  <option key={source.id} value={source.id}>{source.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="intake_storage">Storage (GB)</label>
+              <input
+                id="intake_storage"
+                type="number"
+                min="0"
+                value={settings.storage_gb}
+                onChange={(e) => setSettings({ ...settings, storage_gb: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="intake_ram">RAM (GB)</label>
+              <input
+                id="intake_ram"
+                type="number"
+                min="0"
+                value={settings.ram_gb}
+                onChange={(e) => setSettings({ ...settings, ram_gb: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+
+          <div className="form-row">
+            <div className="form-group">
+              <label htmlFor="intake_cost">Cost of Unit (KES) <span className="required">*</span></label>
+              <input
+                id="intake_cost"
+                type="number"
+                step="0.01"
+                min="0"
+                value={settings.cost_of_unit}
+                onChange={(e) => setSettings({ ...settings, cost_of_unit: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="form-group">
+              <label htmlFor="intake_price">Selling Price (KES) <span className="required">*</span></label>
+              <input
+                id="intake_price"
+                type="number"
+                step="0.01"
+                min="0"
+                value={settings.selling_price}
+                onChange={(e) => setSettings({ ...settings, selling_price: e.target.value })}
+                disabled={isSubmitting}
+              />
+            </div>
+          </div>
+        </section>
+
+        <section className="form-section unit-intake-scan">
+          <h3>2. Scan units</h3>
+          <div className="unit-intake-identifier">
+            <label>
+              <input
+                type="radio"
+                name="intake-identifier"
+                checked={identifierField === 'imei'}
+                onChange={() => setIdentifierField('imei')}
+                disabled={isSubmitting || queue.length > 0}
+              />
+              IMEI
+            </label>
+            <label>
+              <input
+                type="radio"
+                name="intake-identifier"
+                checked={identifierField === 'serial_number'}
+                onChange={() => setIdentifierField('serial_number')}
+                disabled={isSubmitting || queue.length > 0}
+              />
+              Serial number
+            </label>
+          </div>
+
+          <form className="unit-intake-scan-form" onSubmit={handleScanSubmit}>
+            <input
+              ref={scanInputRef}
+              type="text"
+              inputMode="numeric"
+              autoComplete="off"
+              placeholder={`Scan or type ${identifierField === 'imei' ? 'an IMEI' : 'a serial number'} and press Enter`}
+              value={scanValue}
+              onChange={(e) => setScanValue(e.target.value)}
+              disabled={isSubmitting}
+            />
+            <button type="submit" className="btn-secondary" disabled={isSubmitting || !scanValue.trim()}>
+              Add
+            </button>
+            {isCameraScanSupported() && !showCamera && (
+              <button type="button" className="btn-secondary" onClick={() => setShowCamera(true)} disabled={isSubmitting}>
+                📷 Camera
+              </button>
+            )}
+          </form>
+          {showCamera && <BarcodeCameraScanner onDetected={addCode} onClose={() => setShowCamera(false)} />}
+
+          <div className="unit-intake-summary">
+            <span>{queue.length} scanned</span>
+            <span>{counts.ready || 0} ready</span>
+            {!!counts.invalid && <span className="is-error">{counts.invalid} invalid</span>}
+            {!!counts.duplicate && <span className="is-warning">{counts.duplicate} duplicate</span>}
+            {!!counts.created && <span className="is-success">{counts.created} created</span>}
+            {!!counts.failed && <span className="is-error">{counts.failed} failed</span>}
+          </div>
+
+          {queue.length > 0 && (
+            <div className="colors-table-container unit-intake-queue">
+              <table className="colors-table">
+                <thead>
+                  <tr>
+                    <th>{identifierField === 'imei' ? 'IMEI' : 'Serial Number'}</th>
+                    <th>Status</th>
+                    <th>Details</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {queue.map((row) => (
+                    <tr key={row.key} className={`intake-row-${row.status}`}>
+                      <td><code>{row.code}</code></td>
+                      <td>{STATUS_LABELS[row.status]}</td>
+                      <td>{row.status === 'created' && row.unitId ? `Unit #${row.unitId}` : row.message || ''}</td>
+                      <td>
+                        {row.status !== 'submitting' && row.status !== 'created' && (
+                          <button
+                            type="button"
+                            className="btn-small btn-secondary"
+                            onClick={() => setQueue((prev) => prev.filter((r) => r.key !== row.key))}
+                            disabled={isSubmitting}
+                            title="Remove from batch"
+                          >
+                            ✕
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <div className="form-actions">
+            {!!counts.failed && (
+              <button type="button" className="btn-secondary" onClick={retryFailed} disabled={isSubmitting}>
+                Retry failed
+              </button>
+            )}
+            {!!counts.created && (
+              <button type="button" className="btn-secondary" onClick={clearCreated} disabled={isSubmitting}>
+                Clear created
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn-primary"
+              onClick={handleSubmitBatch}
+              disabled={isSubmitting || !settingsComplete || !counts.ready}
+              title={settingsComplete ? undefined : 'Fill in the batch details first'}
+            >
+              {isSubmitting ? 'Creating units…' : `Create ${counts.ready || 0} unit(s)`}
+            </button>
+          </div>
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -2,17 +2,23 @@ import React, { useState, useEffect, useMemo } from 'react';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '../contexts/AuthContext';
 import { useSearchParams } from 'react-router-dom';
-import { UnitTransfersService, ProfilesService, type UnitTransfer } from '../api/index';
+import { UnitTransfersService, ProfilesService, ListKeyEnum, type UnitTransfer } from '../api/index';
 import { getInventoryBaseUrl } from '../api/config';
 import { fetchAllDrfPages } from '../api/fetchAllDrfPages';
+import { useUrlListState } from '../hooks/useUrlListState';
+import { useDefaultSavedView } from '../hooks/useSavedViews';
+import { SavedViewsMenu } from '../components/SavedViewsMenu';
+
+const LIST_DEFAULTS = { page: 1, page_size: 25, status: 'all', search: '' };
+
+const LIST_PARAM_KEYS = Object.keys(LIST_DEFAULTS);
 
 export const UnitTransfersPage: React.FC = () => {
-  const [page, setPage] = useState(1);
-  const [pageSize] = useState(25);
-  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [listState, setListState] = useUrlListState(LIST_DEFAULTS);
+  const { page, page_size: pageSize, status: statusFilter, search } = listState;
+  useDefaultSavedView(ListKeyEnum.UNIT_TRANSFERS, LIST_PARAM_KEYS);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedTransferIds, setSelectedTransferIds] = useState<Set<number>>(new Set());
-  const [search, setSearch] = useState('');
   const [showFilters, setShowFilters] = useState(false);
   const queryClient = useQueryClient();
   const { user } = useAuth();
@@ -40,8 +46,8 @@ export const UnitTransfersPage: React.FC = () => {
   useEffect(() => {
     const transferIdParam = searchParams.get('transferId');
     if (transferIdParam) {
-      setSearch(transferIdParam);
-      setPage(1);
+      searchParams.set('search', transferIdParam);
+      searchParams.delete('page');
       searchParams.delete('transferId');
       setSearchParams(searchParams, { replace: true });
     }
@@ -200,12 +206,8 @@ export const UnitTransfersPage: React.FC = () => {
   const totalPages = Math.max(1, Math.ceil(filteredTransfers.length / pageSize));
 
   useEffect(() => {
-    setPage(1);
-  }, [search, statusFilter]);
-
-  useEffect(() => {
-    if (page > totalPages) setPage(totalPages);
-  }, [page, totalPages]);
+    if (!isLoading && page > totalPages) setListState({ page: totalPages }, { replace: true });
+  }, [isLoading, page, totalPages, setListState]);
 
   const paginatedTransfers = useMemo(() => {
     const start = (page - 1) * pageSize;
@@ -245,8 +247,7 @@ export const UnitTransfersPage: React.FC = () => {
   };
 
   const clearFilters = () => {
-    setStatusFilter('all');
-    setSearch('');
+    setListState({ status: 'all', search: '' });
     setShowFilters(false);
   };
 
@@ -298,7 +299,7 @@ export const UnitTransfersPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--total ${statusFilter === 'all' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('all')}
+            onClick={() => setListState({ status: 'all' })}
             title={`Total Transfers: ${stats.total}`}
             aria-pressed={statusFilter === 'all'}
           >
@@ -308,7 +309,7 @@ export const UnitTransfersPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--pending ${statusFilter === 'PE' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('PE')}
+            onClick={() => setListState({ status: 'PE' })}
             title={`Pending Transfers: ${stats.pending}`}
             aria-pressed={statusFilter === 'PE'}
           >
@@ -318,7 +319,7 @@ export const UnitTransfersPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--approved ${statusFilter === 'AP' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('AP')}
+            onClick={() => setListState({ status: 'AP' })}
             title={`Approved Transfers: ${stats.approved}`}
             aria-pressed={statusFilter === 'AP'}
           >
@@ -328,7 +329,7 @@ export const UnitTransfersPage: React.FC = () => {
           <button
             type="button"
             className={`summary-stat-button summary-stat-button--rejected ${statusFilter === 'RE' ? 'is-active' : ''}`}
-            onClick={() => setStatusFilter('RE')}
+            onClick={() => setListState({ status: 'RE' })}
             title={`Rejected Transfers: ${stats.rejected}`}
             aria-pressed={statusFilter === 'RE'}
           >
@@ -376,7 +377,7 @@ export const UnitTransfersPage: React.FC = () => {
             type="text"
             placeholder="Search by ID, unit, from, or to salesperson..."
             value={search}
-            onChange={(e) => setSearch(e.target.value)}
+            onChange={(e) => setListState({ search: e.target.value }, { replace: true })}
             className="search-input"
           />
           <button 
@@ -389,6 +390,7 @@ export const UnitTransfersPage: React.FC = () => {
               <span className="filter-badge">{activeFilterCount}</span>
             )}
           </button>
+          <SavedViewsMenu listKey={ListKeyEnum.UNIT_TRANSFERS} paramKeys={LIST_PARAM_KEYS} />
           {activeFilterCount > 0 && (
             <button className="btn-clear-filters" onClick={clearFilters}>
               Clear Filters
@@ -404,25 +406,25 @@ export const UnitTransfersPage: React.FC = () => {
               <div className="filter-chips">
                 <button
                   className={`filter-chip ${statusFilter === 'all' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('all')}
+                  onClick={() => setListState({ status: 'all' })}
                 >
                   All
                 </button>
                 <button
                   className={`filter-chip ${statusFilter === 'PE' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('PE')}
+                  onClick={() => setListState({ status: 'PE' })}
                 >
                   Pending ({stats.pending})
                 </button>
                 <button
                   className={`filter-chip ${statusFilter === 'AP' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('AP')}
+                  onClick={() => setListState({ status: 'AP' })}
                 >
                   Approved ({stats.approved})
                 </button>
                 <button
                   className={`filter-chip ${statusFilter === 'RE' ? 'active' : ''}`}
-                  onClick={() => setStatusFilter('RE')}
+                  onClick={() => setListState({ status: 'RE' })}
                 >
                   Rejected ({stats.rejected})
                 </button>
@@ -484,7 +486,7 @@ export const UnitTransfersPage: React.FC = () => {
       {filteredTransfers.length > 0 ? (
         <div className="pagination">
           <button
-            onClick={() => setPage(p => Math.max(1, p - 1))}
+            onClick={() => setListState({ page: Math.max(1, page - 1) })}
             disabled={page <= 1}
             className="btn-secondary"
           >
@@ -494,7 +496,7 @@ export const UnitTransfersPage: React.FC = () => {
             Page {page} of {totalPages} ({filteredTransfers.length} matching)
           </span>
           <button
-            onClick={() => setPage(p => Math.min(totalPages, p + 1))}
+            onClick={() => setListState({ page: Math.min(totalPages, page + 1) })}
             disabled={page >= totalPages}
             className="btn-secondary"
           >
@@ -3,31 +3,98 @@ import { useQuery, useQueryClient, useMutation } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import {
-  UnitsService,
   InventoryUnitRW,
   ProfilesService,
-  OpenAPI,
+  UnitsService,
+  ListKeyEnum,
 } from '../api/index';
-import { getApiRoot, getInventoryBaseUrl } from '../api/config';
+import { getApiRoot } from '../api/config';
+import { getDrfErrorMessage } from '../api/client';
+import { listUnits, UnitsListParams } from '../api/unitsList';
 import { ModalLoader } from '../components/PageLoader';
+import { SavedViewsMenu } from '../components/SavedViewsMenu';
+import { UnitBulkEditPanel, type BulkUndo } from '../components/UnitBulkEditPanel';
+import { UnitExportDialog } from '../components/UnitExportDialog';
+import { UnitLabelDialog } from '../components/UnitLabelDialog';
+import { UnitRepriceDialog } from '../components/UnitRepriceDialog';
+import { UnitImportWizard } from '../components/UnitImportWizard';
 import { useDebounce } from '../hooks/useDebounce';
+import { useBrandsList } from '../hooks/useBrandsList';
+import { useAllProducts } from '../hooks/useAllProducts';
+import { useColorsList } from '../hooks/useColorsList';
+import { useUrlListState } from '../hooks/useUrlListState';
+import { useDefaultSavedView } from '../hooks/useSavedViews';
 
 const UnitForm = lazy(() => import('../components/UnitForm').then((m) => ({ default: m.UnitForm })));
 const UnitDetailsModal = lazy(() => import('../components/UnitDetailsModal').then((m) => ({ default: m.UnitDetailsModal })));
 
+const PAGE_SIZE = 25;
+
+const EMPTY_FILTERS = {
+  product_type: '',
+  brand: '',
+  product: '',
+  color: '',
+  condition: '',
+  grade: '',
+  sale_status: '',
+  source: '',
+  min_price: '',
+  max_price: '',
+  date_from: '',
+  date_to: '',
+  available_online: '',
+  below_margin_floor: '',
+};
+
+type UnitFilters = typeof EMPTY_FILTERS;
+
+const LIST_DEFAULTS = {
+  page: 1,
+  page_size: PAGE_SIZE,
+  search: '',
+  ...EMPTY_FILTERS,
+};
+
+const LIST_PARAM_KEYS = Object.keys(LIST_DEFAULTS);
+
+const toNumber = (value: string) => (value === '' || isNaN(Number(value)) ? undefined : Number(value));
+
+/** Map the filter form onto GET /units/ query params (empty fields are left out). */
+const toUnitsListParams = (filters: UnitFilters, search: string): UnitsListParams => ({
+  search: search.trim() || undefined,
+  product_template__product_type: (filters.product_type || undefined) as UnitsListParams['product_template__product_type'],
+  product_template__brand: filters.brand || undefined,
+  product_template: toNumber(filters.product),
+  product_color: toNumber(filters.color),
+  condition: (filters.condition || undefined) as UnitsListParams['condition'],
+  grade: (filters.grade || undefined) as UnitsListParams['grade'],
+  sale_status: (filters.sale_status || undefined) as UnitsListParams['sale_status'],
+  source: (filters.source || undefined) as UnitsListParams['source'],
+  selling_price__gte: toNumber(filters.min_price),
+  selling_price__lte: toNumber(filters.max_price),
+  date_sourced__gte: filters.date_from || undefined,
+  date_sourced__lte: filters.date_to || undefined,
+  available_online: filters.available_online === '' ? undefined : filters.available_online === 'true',
+  below_margin_floor: filters.below_margin_floor === 'true' || undefined,
+});
+
 export const UnitsPage: React.FC = () => {
-  const [page, setPage] = useState(1);
-  const [search, setSearch] = useState('');
+  const [listState, setListState] = useUrlListState(LIST_DEFAULTS);
+  const { page, page_size: pageSize, search } = listState;
   const debouncedSearch = useDebounce(search, 300);
+  useDefaultSavedView(ListKeyEnum.UNITS, LIST_PARAM_KEYS);
   const [showFilters, setShowFilters] = useState(false);
   const [editingUnit, setEditingUnit] = useState<InventoryUnitRW | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedUnitId, setSelectedUnitId] = useState<number | null>(null);
   const [selectedUnits, setSelectedUnits] = useState<Set<number>>(new Set());
-  const [showBulkPriceModal, setShowBulkPriceModal] = useState(false);
-  const [showBulkStatusModal, setShowBulkStatusModal] = useState(false);
+  const [showBulkEdit, setShowBulkEdit] = useState(false);
+  const [lastBulkUndo, setLastBulkUndo] = useState<BulkUndo | null>(null);
   const [showImportModal, setShowImportModal] = useState(false);
-  const [isExporting, setIsExporting] = useState(false);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [showLabelDialog, setShowLabelDialog] = useState(false);
+  const [showRepriceDialog, setShowRepriceDialog] = useState(false);
   const [toast, setToast] = useState<{message: string; type: 'success' | 'error'} | null>(null);
   const [imageLoadingStates, setImageLoadingStates] = useState<Record<number, { loading: boolean; error: boolean }>>({});
   const queryClient = useQueryClient();
@@ -56,25 +123,29 @@ export const UnitsPage: React.FC = () => {
     return adminProfile.roles.some((role) => role.name === roleName || role.role_code === roleName);
   };
 
-  // Filters state
-  const [filters, setFilters] = useState({
-    product_type: '',
-    brand: '',
-    condition: '',
-    sale_status: '',
-    min_price: '',
-    max_price: '',
-  });
+  // Filters state (lives in the URL alongside search and page)
+  const filters: UnitFilters = listState;
 
   // Count active filters
-  const activeFilterCount = useMemo(() => {
-    let count = 0;
-    if (filters.condition) count++;
-    if (filters.sale_status) count++;
-    if (filters.min_price) count++;
-    if (filters.max_price) count++;
-    return count;
-  }, [filters]);
+  const activeFilterCount = useMemo(
+    () => (Object.keys(EMPTY_FILTERS) as Array<keyof UnitFilters>).filter((key) => listState[key] !== '').length,
+    [listState]
+  );
+
+  // Filter option lists (only fetched once the filter panel is opened)
+  const { data: brands } = useBrandsList({ enabled: showFilters });
+  const { data: products } = useAllProducts({ enabled: showFilters });
+  const { data: colorsData } = useColorsList({ enabled: showFilters });
+  const colors = colorsData?.results ?? [];
+
+  // Typed filters (search, price range) reach the query only once typing pauses
+  const debouncedMinPrice = useDebounce(listState.min_price, 300);
+  const debouncedMaxPrice = useDebounce(listState.max_price, 300);
+  const listParams = useMemo(
+    () =>
+      toUnitsListParams({ ...listState, min_price: debouncedMinPrice, max_price: debouncedMaxPrice }, debouncedSearch),
+    [listState, debouncedMinPrice, debouncedMaxPrice, debouncedSearch]
+  );
 
   // Role checks and redirect (after all hooks are declared)
   // const isSalesperson = hasRole('SP'); // Unused - all actions now in modal
@@ -82,13 +153,9 @@ export const UnitsPage: React.FC = () => {
   // const isMarketingManager = hasRole('MM') && !isSuperuser; // Unused
 
   const { data, isLoading, error } = useQuery({
-    queryKey: ['units', page, filters],
-    queryFn: async () => {
-      // Note: The API supports filtering via query params, but we'll do client-side for now
-      // You can enhance this to use actual API filtering
-      const result = await UnitsService.unitsList(undefined, undefined, page);
-      return result;
-    },
+    queryKey: ['units', page, pageSize, listParams],
+    queryFn: () => listUnits({ ...listParams, page, page_size: pageSize }),
+    placeholderData: (previous) => previous,
     enabled: !authLoading && isAuthenticated, // Only run query when authenticated
     retry: (failureCount, error: any) => {
       // Don't retry on authentication errors
@@ -116,79 +183,12 @@ export const UnitsPage: React.FC = () => {
     queryClient.invalidateQueries({ queryKey: ['units'] });
   };
 
-  const handleFilterChange = (key: string, value: string) => {
-    setFilters({ ...filters, [key]: value });
-    setPage(1); // Reset to first page when filter changes
-  };
-
-  const buildQueryString = () => {
-    const params = new URLSearchParams();
-    if (search) params.append('search', search);
-    if (filters.condition) params.append('condition', filters.condition);
-    if (filters.sale_status) params.append('sale_status', filters.sale_status);
-    if (filters.min_price) params.append('selling_price__gte', filters.min_price);
-    if (filters.max_price) params.append('selling_price__lte', filters.max_price);
-    return params.toString();
-  };
-
-  // CSV Export: fetch blob and trigger download so the file downloads instead of opening in a new tab
-  const handleExport = async () => {
-    const queryString = buildQueryString();
-    const baseUrl = (OpenAPI.BASE || '').replace(/\/$/, '');
-    const url = `${baseUrl}/units/export_csv/${queryString ? `?${queryString}` : ''}`;
-    const token = localStorage.getItem('auth_token');
-    setIsExporting(true);
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: token ? { Authorization: `Token ${token}` } : {},
-      });
-      if (!response.ok) {
-        const text = await response.text();
-        let message = 'Export failed';
-        try {
-          const json = JSON.parse(text);
-          message = json.error || json.detail || message;
-        } catch {
-          if (text) message = text.slice(0, 100);
-        }
-        showToast(message, 'error');
-        return;
-      }
-      const blob = await response.blob();
-      const disposition = response.headers.get('Content-Disposition');
-      let filename = 'inventory_units_export.csv';
-      if (disposition) {
-        const match = disposition.match(/filename="?([^";\n]+)"?/);
-        if (match) filename = match[1].trim();
-      }
-      const objectUrl = URL.createObjectURL(blob);
-      const link = document.createElement('a');
-      link.href = objectUrl;
-      link.download = filename;
-      document.body.appendChild(link);
-      link.click();
-      document.body.removeChild(link);
-      URL.revokeObjectURL(objectUrl);
-      showToast('Units exported successfully', 'success');
-    } catch (err) {
-      showToast(err instanceof Error ? err.message : 'Export failed', 'error');
-    } finally {
-      setIsExporting(false);
-    }
+  const handleFilterChange = (key: keyof UnitFilters, value: string, options?: { replace?: boolean }) => {
+    setListState({ [key]: value }, options); // Also resets to the first page
   };
 
   const clearFilters = () => {
-    setFilters({
-      product_type: '',
-      brand: '',
-      condition: '',
-      sale_status: '',
-      min_price: '',
-      max_price: '',
-    });
-    setSearch('');
-    setPage(1);
+    setListState({ search: '', ...EMPTY_FILTERS });
   };
 
   // Helper function to get sale status badge info
@@ -206,38 +206,16 @@ export const UnitsPage: React.FC = () => {
     return statusMap[status] || null;
   };
 
-  // Bulk operations mutation
-  const bulkUpdateMutation = useMutation({
-    mutationFn: async ({ operation, data }: { operation: string; data: any }) => {
-      const token = localStorage.getItem('auth_token') || localStorage.getItem('token');
-      const baseUrl = getInventoryBaseUrl();
-      const response = await fetch(`${baseUrl}/units/bulk_update/`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Token ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          unit_ids: Array.from(selectedUnits),
-          operation,
-          data,
-        }),
-      });
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Bulk operation failed');
-      }
-      return response.json();
-    },
-    onSuccess: (data) => {
+  // Reverts the last bulk edit by writing back the values captured before it was applied
+  const bulkUndoMutation = useMutation({
+    mutationFn: (undo: BulkUndo) => UnitsService.unitsBulkUpdateCreate(undo.request),
+    onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['units'] });
-      showToast(data.message, 'success');
-      setSelectedUnits(new Set());
-      setShowBulkPriceModal(false);
-      setShowBulkStatusModal(false);
+      showToast('Bulk change undone', 'success');
+      setLastBulkUndo(null);
     },
     onError: (error: any) => {
-      showToast(error.message || 'Bulk operation failed', 'error');
+      showToast(getDrfErrorMessage(error?.body, error?.message || 'Undo failed'), 'error');
     },
   });
 
@@ -261,70 +239,8 @@ export const UnitsPage: React.FC = () => {
     }
   };
 
-  const handleBulkPriceUpdate = (newPrice: string) => {
-    if (!newPrice || isNaN(parseFloat(newPrice))) {
-      showToast('Please enter a valid price', 'error');
-      return;
-    }
-    bulkUpdateMutation.mutate({
-      operation: 'update_price',
-      data: { selling_price: parseFloat(newPrice) },
-    });
-  };
-
-  const handleBulkStatusUpdate = (newStatus: string) => {
-    if (!newStatus) {
-      showToast('Please select a status', 'error');
-      return;
-    }
-    bulkUpdateMutation.mutate({
-      operation: 'update_status',
-      data: { sale_status: newStatus },
-    });
-  };
-
-  const handleBulkArchive = () => {
-    if (window.confirm(`Archive ${selectedUnits.size} sold unit(s)? This action cannot be undone.`)) {
-      bulkUpdateMutation.mutate({
-        operation: 'archive',
-        data: {},
-      });
-    }
-  };
-
-  // Client-side filtering (can be enhanced to use API filters)
-  const filteredUnits = data?.results?.filter((unit) => {
-    // Search filter
-    if (debouncedSearch) {
-      const searchLower = debouncedSearch.toLowerCase();
-      const matchesSearch =
-        unit.serial_number?.toLowerCase().includes(searchLower) ||
-        unit.imei?.toLowerCase().includes(searchLower) ||
-        unit.product_template_name?.toLowerCase().includes(searchLower);
-      if (!matchesSearch) return false;
-    }
-
-    // Filter by product type (if product_template has type info - simplified)
-    // Note: This is simplified - in real implementation, you'd need to fetch product details
-    
-    // Filter by condition
-    if (filters.condition && unit.condition !== filters.condition) return false;
-    
-    // Filter by sale status
-    if (filters.sale_status && unit.sale_status !== filters.sale_status) return false;
-    
-    // Filter by price range
-    if (filters.min_price && unit.selling_price) {
-      const price = Number(unit.selling_price);
-      if (price < parseFloat(filters.min_price)) return false;
-    }
-    if (filters.max_price && unit.selling_price) {
-      const price = Number(unit.selling_price);
-      if (price > parseFloat(filters.max_price)) return false;
-    }
-
-    return true;
-  }) || [];
+  // Filtering, search and pagination all happen server-side
+  const filteredUnits = useMemo(() => data?.results ?? [], [data]);
 
   // Initialize image loading states for units with images
   useEffect(() => {
@@ -359,13 +275,13 @@ export const UnitsPage: React.FC = () => {
 
   const getNextPage = () => {
     if (data?.next) {
-      setPage(page + 1);
+      setListState({ page: page + 1 });
     }
   };
 
   const getPrevPage = () => {
     if (data?.previous) {
-      setPage(page - 1);
+      setListState({ page: page - 1 });
     }
   };
 
@@ -408,17 +324,17 @@ export const UnitsPage: React.FC = () => {
                 <span className="filter-badge">{activeFilterCount}</span>
               )}
             </button>
+            <SavedViewsMenu listKey={ListKeyEnum.UNITS} paramKeys={LIST_PARAM_KEYS} />
             {(isInventoryManager || isSuperuser) && (
               <>
-                <button
-                  className="btn-secondary"
-                  onClick={handleExport}
-                  disabled={isExporting}
-                >
-                  {isExporting ? '⏳ Exporting…' : '📥 Export CSV'}
+                <button className="btn-secondary" onClick={() => setShowExportDialog(true)}>
+                  📥 Export
                 </button>
                 <button className="btn-secondary" onClick={() => setShowImportModal(true)}>
-                  📤 Import CSV
+                  📤 Import CSV/XLSX
+                </button>
+                <button className="btn-secondary" onClick={() => navigate('/units/intake')}>
+                  📷 Rapid Intake
                 </button>
                 <button className="btn-primary" onClick={handleCreate}>
                   + Create Unit
@@ -444,26 +360,36 @@ export const UnitsPage: React.FC = () => {
             </button>
           </div>
           <div className="bulk-actions-buttons">
-            <button
-              className="btn-small btn-primary"
-              onClick={() => setShowBulkPriceModal(true)}
-              disabled={bulkUpdateMutation.isPending}
-            >
-              💰 Update Price
+            <button className="btn-small btn-primary" onClick={() => setShowBulkEdit(true)}>
+              ✏️ Bulk Edit
             </button>
+            <button className="btn-small btn-secondary" onClick={() => setShowLabelDialog(true)}>
+              🏷️ Print Labels
+            </button>
+            <button className="btn-small btn-secondary" onClick={() => setShowRepriceDialog(true)}>
+              💲 Reprice
+            </button>
+          </div>
+        </div>
+      )}
+
+      {lastBulkUndo && (isInventoryManager || isSuperuser) && (
+        <div className="bulk-actions-toolbar bulk-undo-bar">
+          <span className="selected-count">✅ {lastBulkUndo.label}</span>
+          <div className="bulk-actions-buttons">
             <button
               className="btn-small btn-primary"
-              onClick={() => setShowBulkStatusModal(true)}
-              disabled={bulkUpdateMutation.isPending}
+              onClick={() => bulkUndoMutation.mutate(lastBulkUndo)}
+              disabled={bulkUndoMutation.isPending}
             >
-              🔄 Change Status
+              {bulkUndoMutation.isPending ? 'Undoing...' : '↩️ Undo'}
             </button>
             <button
-              className="btn-small btn-danger"
-              onClick={handleBulkArchive}
-              disabled={bulkUpdateMutation.isPending}
+              className="btn-small btn-secondary"
+              onClick={() => setLastBulkUndo(null)}
+              disabled={bulkUndoMutation.isPending}
             >
-              📦 Archive Sold
+              Dismiss
             </button>
           </div>
         </div>
@@ -485,7 +411,7 @@ export const UnitsPage: React.FC = () => {
             type="text"
             placeholder="Search by serial, IMEI, or product name..."
             value={search}
-            onChange={(e) => setSearch(e.target.value)}
+            onChange={(e) => setListState({ search: e.target.value }, { replace: true })}
             className="search-input"
           />
           {(search || activeFilterCount > 0) && (
@@ -502,6 +428,51 @@ export const UnitsPage: React.FC = () => {
           <>
             {/* Desktop: Inline filters */}
             <div className="filters-panel filters-panel-desktop">
+              <div className="filter-group">
+                <label htmlFor="filter-brand">Brand</label>
+                <select
+                  id="filter-brand"
+                  value={filters.brand}
+                  onChange={(e) => handleFilterChange('brand', e.target.value)}
+                  className="filter-select"
+                >
+                  <option value="">All Brands</option>
+                  {brands.map((brand) => (
+                    <option key={brand.id} value={brand.id}>{brand.name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="filter-group">
+                <label htmlFor="filter-product">Product</label>
+                <select
+                  id="filter-product"
+                  value={filters.product}
+                  onChange={(e) => handleFilterChange('product', e.target.value)}
+                  className="filter-select"
+                >
+                  <option value="">All Products</option>
+                  {products.map((product) => (
+                    <option key={product.id} value={product.id}>{product.product_name}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="filter-group">
+                <label htmlFor="filter-color">Color</label>
+                <select
+                  id="filter-color"
+                  value={filters.color}
+                  onChange={(e) => handleFilterChange('color', e.target.value)}
+                  className="filter-select"
+                >
+                  <option value="">All Colors</option>
+                  {colors.map((color) => (
+                    <option key={color.id} value={color.id}>{color.name}</option>
+                  ))}
+                </select>
+              </div>
+
               <div className="filter-group">
                 <label htmlFor="filter-condition">Condition</label>
                 <select
@@ -534,6 +505,35 @@ export const UnitsPage: React.FC = () => {
                 </select>
               </div>
 
+              <div className="filter-group">
+                <label htmlFor="filter-grade">Grade</label>
+                <select
+                  id="filter-grade"
+                  value={filters.grade}
+                  onChange={(e) => handleFilterChange('grade', e.target.value)}
+                  className="filter-select"
+                >
+                  <option value="">All Grades</option>
+                  <option value="A">Grade A</option>
+                  <option value="B">Grade B</option>
+                </select>
+              </div>
+
+              <div className="filter-group">
+                <label htmlFor="filter-source">Source</label>
+                <select
+                  id="filter-source"
+                  value={filters.source}
+                  onChange={(e) => handleFilterChange('source', e.target.value)}
+                  className="filter-select"
+                >
+                  <option value="">All Sources</option>
+                  <option value="SU">Supplier (SU)</option>
+                  <option value="IM">Import (IM)</option>
+                  <option value="BB">Buyback (BB)</option>
+                </select>
+              </div>
+
               <div className="filter-group">
                 <label htmlFor="filter-min-price">Min Price</label>
                 <input
@@ -541,7 +541,7 @@ export const UnitsPage: React.FC = () => {
                   type="number"
                   placeholder="Min"
                   value={filters.min_price}
-                  onChange={(e) => handleFilterChange('min_price', e.target.value)}
+                  onChange={(e) => handleFilterChange('min_price', e.target.value, { replace: true })}
                   className="filter-select"
                 />
               </div>
@@ -553,10 +553,59 @@ export const UnitsPage: React.FC = () => {
                   type="number"
                   placeholder="Max"
                   value={filters.max_price}
-                  onChange={(e) => handleFilterChange('max_price', e.target.value)}
+                  onChange={(e) => handleFilterChange('max_price', e.target.value, { replace: true })}
                   className="filter-select"
                 />
               </div>
+
+              <div className="filter-group">
+                <label htmlFor="filter-date-from">Sourced From</label>
+                <input
+                  id="filter-date-from"
+                  type="date"
+                  value={filters.date_from}
+                  onChange={(e) => handleFilterChange('date_from', e.target.value)}
+                  className="filter-select"
+                />
+              </div>
+
+              <div className="filter-group">
+                <label htmlFor="filter-date-to">Sourced To</label>
+                <input
+                  id="filter-date-to"
+                  type="date"
+                  value={filters.date_to}
+                  onChange={(e) => handleFilterChange('date_to', e.target.value)}
+                  className="filter-select"
+                />
+              </div>
+
+              <div className="filter-group">
+                <label htmlFor="filter-available-online">Online</label>
+                <select
+                  id="filter-available-online"
+                  value={filters.available_online}
+                  onChange={(e) => handleFilterChange('available_online', e.target.value)}
+                  className="filter-select"
+                >
+                  <option value="">Any</option>
+                  <option value="true">Available online</option>
+                  <option value="false">Not online</option>
+                </select>
+              </div>
+
+              <div className="filter-group">
+                <label htmlFor="filter-below-margin-floor">Margin</label>
+                <select
+                  id="filter-below-margin-floor"
+                  value={filters.below_margin_floor}
+                  onChange={(e) => handleFilterChange('below_margin_floor', e.target.value)}
+                  className="filter-select"
+                >
+                  <option value="">Any</option>
+                  <option value="true">Below margin floor</option>
+                </select>
+              </div>
             </div>
 
             {/* Mobile: Modal overlay */}
@@ -573,6 +622,48 @@ export const UnitsPage: React.FC = () => {
                   </button>
                 </div>
                 <div className="form-section">
+                  <div className="form-group">
+                    <label htmlFor="filter-brand-mobile">Brand</label>
+                    <select
+                      id="filter-brand-mobile"
+                      value={filters.brand}
+                      onChange={(e) => handleFilterChange('brand', e.target.value)}
+                    >
+                      <option value="">All Brands</option>
+                      {brands.map((brand) => (
+                        <option key={brand.id} value={brand.id}>{brand.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="filter-product-mobile">Product</label>
+                    <select
+                      id="filter-product-mobile"
+                      value={filters.product}
+                      onChange={(e) => handleFilterChange('product', e.target.value)}
+                    >
+                      <option value="">All Products</option>
+                      {products.map((product) => (
+                        <option key={product.id} value={product.id}>{product.product_name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="filter-color-mobile">Color</label>
+                    <select
+                      id="filter-color-mobile"
+                      value={filters.color}
+                      onChange={(e) => handleFilterChange('color', e.target.value)}
+                    >
+                      <option value="">All Colors</option>
+                      {colors.map((color) => (
+                        <option key={color.id} value={color.id}>{color.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
           <div className="form-group">
                     <label htmlFor="filter-condition-mobile">Condition</label>
             <select
@@ -603,6 +694,33 @@ export const UnitsPage: React.FC = () => {
             </select>
           </div>
 
+                  <div className="form-group">
+                    <label htmlFor="filter-grade-mobile">Grade</label>
+                    <select
+                      id="filter-grade-mobile"
+                      value={filters.grade}
+                      onChange={(e) => handleFilterChange('grade', e.target.value)}
+                    >
+                      <option value="">All Grades</option>
+                      <option value="A">Grade A</option>
+                      <option value="B">Grade B</option>
+                    </select>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="filter-source-mobile">Source</label>
+                    <select
+                      id="filter-source-mobile"
+                      value={filters.source}
+                      onChange={(e) => handleFilterChange('source', e.target.value)}
+                    >
+                      <option value="">All Sources</option>
+                      <option value="SU">Supplier (SU)</option>
+                      <option value="IM">Import (IM)</option>
+                      <option value="BB">Buyback (BB)</option>
+                    </select>
+                  </div>
+
           <div className="form-group">
                     <label htmlFor="filter-min-price-mobile">Min Price</label>
             <input
@@ -610,7 +728,7 @@ export const UnitsPage: React.FC = () => {
               type="number"
               placeholder="Min"
               value={filters.min_price}
-              onChange={(e) => handleFilterChange('min_price', e.target.value)}
+              onChange={(e) => handleFilterChange('min_price', e.target.value, { replace: true })}
             />
           </div>
 
@@ -621,9 +739,54 @@ export const UnitsPage: React.FC = () => {
               type="number"
               placeholder="Max"
               value={filters.max_price}
-              onChange={(e) => handleFilterChange('max_price', e.target.value)}
+              onChange={(e) => handleFilterChange('max_price', e.target.value, { replace: true })}
             />
           </div>
+
+                  <div className="form-group">
+                    <label htmlFor="filter-date-from-mobile">Sourced From</label>
+                    <input
+                      id="filter-date-from-mobile"
+                      type="date"
+                      value={filters.date_from}
+                      onChange={(e) => handleFilterChange('date_from', e.target.value)}
+                    />
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="filter-date-to-mobile">Sourced To</label>
+                    <input
+                      id="filter-date-to-mobile"
+                      type="date"
+                      value={filters.date_to}
+                      onChange={(e) => handleFilterChange('date_to', e.target.value)}
+                    />
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="filter-available-online-mobile">Online</label>
+                    <select
+                      id="filter-available-online-mobile"
+                      value={filters.available_online}
+                      onChange={(e) => handleFilterChange('available_online', e.target.value)}
+                    >
+                      <option value="">Any</option>
+                      <option value="true">Available online</option>
+                      <option value="false">Not online</option>
+                    </select>
+                  </div>
+
+                  <div className="form-group">
+                    <label htmlFor="filter-below-margin-floor-mobile">Margin</label>
+                    <select
+                      id="filter-below-margin-floor-mobile"
+                      value={filters.below_margin_floor}
+                      onChange={(e) => handleFilterChange('below_margin_floor', e.target.value)}
+                    >
+                      <option value="">Any</option>
+                      <option value="true">Below margin floor</option>
+                    </select>
+                  </div>
                 <div className="form-actions">
                   <button 
                     type="button"
@@ -758,6 +921,14 @@ export const UnitsPage: React.FC = () => {
                       <span className="detail-label">Price:</span>
                       <span className="detail-value" data-price={unit.selling_price ? "true" : undefined}>
                         {unit.selling_price ? `KES ${Number(unit.selling_price).toLocaleString()}` : '-'}
+                        {unit.below_margin_floor && (
+                          <span
+                            className="unit-margin-badge"
+                            title={`Below margin floor of KES ${Number(unit.margin_floor_price).toLocaleString()}`}
+                          >
+                            ⚠️ Below floor
+                          </span>
+                        )}
                       </span>
                     </div>
                   </div>
@@ -777,7 +948,7 @@ export const UnitsPage: React.FC = () => {
           Previous
         </button>
         <span className="page-info">
-          Page {page} of {data ? Math.ceil((data.count || 0) / 25) : 1}
+          Page {page} of {data ? Math.max(1, Math.ceil((data.count || 0) / pageSize)) : 1}
           {' '}({data?.count || 0} total)
         </span>
         <button
@@ -809,312 +980,59 @@ export const UnitsPage: React.FC = () => {
         </Suspense>
       )}
 
-      {/* Bulk Price Update Modal */}
-      {showBulkPriceModal && (
-        <BulkPriceModal
-          count={selectedUnits.size}
-          onClose={() => setShowBulkPriceModal(false)}
-          onConfirm={handleBulkPriceUpdate}
-          isLoading={bulkUpdateMutation.isPending}
+      {showBulkEdit && (
+        <UnitBulkEditPanel
+          unitIds={Array.from(selectedUnits)}
+          onClose={() => setShowBulkEdit(false)}
+          onApplied={(undo) => {
+            queryClient.invalidateQueries({ queryKey: ['units'] });
+            setSelectedUnits(new Set());
+            setLastBulkUndo(undo);
+          }}
+          showToast={showToast}
         />
       )}
 
-      {/* Bulk Status Update Modal */}
-      {showBulkStatusModal && (
-        <BulkStatusModal
-          count={selectedUnits.size}
-          onClose={() => setShowBulkStatusModal(false)}
-          onConfirm={handleBulkStatusUpdate}
-          isLoading={bulkUpdateMutation.isPending}
+      {/* CSV/XLSX Export: exactly what the list shows (same filters, un-debounced search), across all pages */}
+      {showExportDialog && (
+        <UnitExportDialog
+          listParams={toUnitsListParams(filters, search)}
+          matchingCount={data?.count || 0}
+          selectedIds={Array.from(selectedUnits)}
+          onClose={() => setShowExportDialog(false)}
+          showToast={showToast}
         />
       )}
 
-      {/* CSV Import Modal */}
-      {showImportModal && (
-        <CSVImportModal
-          onClose={() => setShowImportModal(false)}
-          onSuccess={() => {
-            setShowImportModal(false);
+      {showLabelDialog && (
+        <UnitLabelDialog
+          unitIds={Array.from(selectedUnits)}
+          onClose={() => setShowLabelDialog(false)}
+          showToast={showToast}
+        />
+      )}
+
+      {showRepriceDialog && (
+        <UnitRepriceDialog
+          unitIds={Array.from(selectedUnits)}
+          onClose={() => setShowRepriceDialog(false)}
+          onApplied={(undo) => {
             queryClient.invalidateQueries({ queryKey: ['units'] });
+            setSelectedUnits(new Set());
+            setLastBulkUndo(undo);
           }}
           showToast={showToast}
         />
       )}
-    </div>
-  );
-};
-
-// Bulk Price Update Modal Component
-interface BulkPriceModalProps {
-  count: number;
-  onClose: () => void;
-  onConfirm: (price: string) => void;
-  isLoading: boolean;
-}
-
-const BulkPriceModal: React.FC<BulkPriceModalProps> = ({ count, onClose, onConfirm, isLoading }) => {
-  const [price, setPrice] = useState('');
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    onConfirm(price);
-  };
-
-  return (
-    <div className="modal-overlay" onClick={onClose}>
-      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
-        <div className="modal-header">
-          <h2>Bulk Price Update</h2>
-          <button className="modal-close" onClick={onClose}>×</button>
-        </div>
-        <form onSubmit={handleSubmit} className="form-section">
-          <p className="modal-description">
-            Update price for <strong>{count}</strong> selected unit{count !== 1 ? 's' : ''}
-          </p>
-          <div className="form-group">
-            <label htmlFor="bulk_price">New Price (KES) <span className="required">*</span></label>
-            <input
-              id="bulk_price"
-              type="number"
-              step="0.01"
-              min="0"
-              value={price}
-              onChange={(e) => setPrice(e.target.value)}
-              required
-              disabled={isLoading}
-              placeholder="Enter new price"
-              autoFocus
-            />
-          </div>
-          <div className="form-actions">
-            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
-              Cancel
-            </button>
-            <button type="submit" className="btn-primary" disabled={isLoading}>
-              {isLoading ? 'Updating...' : 'Update Price'}
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
-};
-
-// Bulk Status Update Modal Component
-interface BulkStatusModalProps {
-  count: number;
-  onClose: () => void;
-  onConfirm: (status: string) => void;
-  isLoading: boolean;
-}
-
-const BulkStatusModal: React.FC<BulkStatusModalProps> = ({ count, onClose, onConfirm, isLoading }) => {
-  const [status, setStatus] = useState('');
-
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!status) {
-      alert('Please select a status');
-      return;
-    }
-    if (window.confirm(`Change status for ${count} unit(s) to ${status}?`)) {
-      onConfirm(status);
-    }
-  };
-
-  return (
-    <div className="modal-overlay" onClick={onClose}>
-      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
-        <div className="modal-header">
-          <h2>Bulk Status Update</h2>
-          <button className="modal-close" onClick={onClose}>×</button>
-        </div>
-        <form onSubmit={handleSubmit} className="form-section">
-          <p className="modal-description">
-            Update status for <strong>{count}</strong> selected unit{count !== 1 ? 's' : ''}
-          </p>
-          <div className="form-group">
-            <label htmlFor="bulk_status">New Status <span className="required">*</span></label>
-            <select
-              id="bulk_status"
-              value={status}
-              onChange={(e) => setStatus(e.target.value)}
-              required
-              disabled={isLoading}
-            >
-              <option value="">-- Select Status --</option>
-              <option value="AV">Available</option>
-              <option value="RS">Reserved</option>
-              <option value="RT">Returned</option>
-            </select>
-          </div>
-          <div className="form-actions">
-            <button type="button" onClick={onClose} className="btn-secondary" disabled={isLoading}>
-              Cancel
-            </button>
-            <button type="submit" className="btn-primary" disabled={isLoading}>
-              {isLoading ? 'Updating...' : 'Update Status'}
-            </button>
-          </div>
-        </form>
-      </div>
-    </div>
-  );
-};
-
-// CSV Import Modal Component
-interface CSVImportModalProps {
-  onClose: () => void;
-  onSuccess: () => void;
-  showToast: (message: string, type: 'success' | 'error') => void;
-}
-
-const CSVImportModal: React.FC<CSVImportModalProps> = ({ onClose, onSuccess, showToast }) => {
-  const [file, setFile] = useState<File | null>(null);
-  const [isUploading, setIsUploading] = useState(false);
-  const [result, setResult] = useState<any>(null);
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      setFile(e.target.files[0]);
-      setResult(null);
-    }
-  };
-
-  const parseResponse = async (response: Response) => {
-    const contentType = response.headers.get('content-type') || '';
-    let data: { created?: number; failed?: number; success?: boolean; error?: string; errors?: string[]; debug?: { FILES_keys?: string[]; POST_keys?: string[] } } = {};
-    const text = await response.text();
-    if (text) {
-      try {
-        if (contentType.includes('application/json')) {
-          data = JSON.parse(text);
-        } else {
-          try {
-            data = JSON.parse(text);
-          } catch {
-            data = { error: text.slice(0, 200) };
-          }
-        }
-      } catch {
-        data = { error: text.slice(0, 200) || 'No response body' };
-      }
-    }
-    return { data, text };
-  };
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!file) {
-      showToast('Please select a file', 'error');
-      return;
-    }
-
-    setIsUploading(true);
-    const baseUrl = getInventoryBaseUrl();
-    const url = `${baseUrl}/units/import_csv/`;
-    const token = localStorage.getItem('auth_token');
-    const apiRoot = getApiRoot();
-    const headers: Record<string, string> = {
-      Accept: 'application/json',
-      'Content-Type': 'application/json',
-      ...(token ? { Authorization: `Token ${token}` } : {}),
-    };
-    if (/ngrok/i.test(apiRoot)) {
-      headers['ngrok-skip-browser-warning'] = 'true';
-    }
-
-    try {
-      // Same code in local and prod. We send JSON+base64 (not multipart) so proxies (e.g. ngrok)
-      // don't strip the body. In prod the request goes Browser → ngrok → Django; the body can
-      // be dropped in that path even though we send it correctly.
-      const csvText = await file.text();
-      const base64 = btoa(unescape(encodeURIComponent(csvText)));
-      const response = await fetch(url, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify({ csv_base64: base64 }),
-      });
-
-      const { data, text } = await parseResponse(response);
-
-      if (response.ok) {
-        setResult(data);
-        showToast(`Successfully imported ${data.created ?? 0} unit(s)`, 'success');
-        setTimeout(() => onSuccess(), 2000);
-      } else {
-        setResult(data);
-        const errMsg = data.error || (data.errors && data.errors.length ? data.errors.slice(0, 3).join('; ') : null) || text?.slice(0, 200) || `HTTP ${response.status}`;
-        if (response.status === 404) {
-          showToast('Import endpoint not found. Set REACT_APP_API_BASE_URL in Vercel to your backend URL (e.g. ngrok or GCP).', 'error');
-        } else if (response.status === 400 && !data?.error && /vercel\.app|netlify\.app/.test(url)) {
-          showToast('Import failed (400). In production, set REACT_APP_API_BASE_URL to your backend URL (e.g. https://your-backend.run.app/api/inventory).', 'error');
-        } else {
-          showToast(`Import failed: ${errMsg}`, 'error');
-        }
-        console.warn('Import CSV error response', { status: response.status, url, data, text: text?.slice(0, 500) });
-      }
-    } catch (error: any) {
-      showToast(`Upload error: ${error.message}`, 'error');
-    } finally {
-      setIsUploading(false);
-    }
-  };
-
-  return (
-    <div className="modal-overlay" onClick={onClose}>
-      <div className="modal-content" onClick={(e) => e.stopPropagation()}>
-        <div className="modal-header">
-          <h2>Import Units from CSV</h2>
-          <button className="modal-close" onClick={onClose}>×</button>
-        </div>
-        <form onSubmit={handleSubmit} className="form-section">
-          <p className="modal-description">
-            Upload a CSV file to bulk import inventory units. Required columns: Product, Selling Price.
-          </p>
-          <div className="form-group">
-            <label htmlFor="csv_file">CSV File <span className="required">*</span></label>
-            <input
-              id="csv_file"
-              type="file"
-              accept=".csv"
-              onChange={handleFileChange}
-              required
-              disabled={isUploading}
-            />
-            {file && <p style={{ marginTop: '0.5rem', fontSize: '0.875rem', color: '#6c757d' }}>Selected: {file.name}</p>}
-          </div>
 
-          {result && (
-            <div className={`result-box ${result.success ? 'success' : 'error'}`}>
-              <h4>Import Results</h4>
-              <p>Created: {result.created || 0} | Failed: {result.failed || 0}</p>
-              {result.errors && result.errors.length > 0 && (
-                <details>
-                  <summary>View Errors ({result.errors.length})</summary>
-                  <ul>
-                    {result.errors.map((err: string, idx: number) => (
-                      <li key={idx}>{err}</li>
-                    ))}
-                  </ul>
-                </details>
-              )}
-            </div>
-          )}
-
-          <div className="form-actions">
-            <button type="button" onClick={onClose} className="btn-secondary" disabled={isUploading}>
-              {result && result.success ? 'Close' : 'Cancel'}
-            </button>
-            {(!result || !result.success) && (
-              <button type="submit" className="btn-primary" disabled={isUploading || !file}>
-                {isUploading ? 'Importing...' : 'Import Units'}
-              </button>
-            )}
-          </div>
-        </form>
-      </div>
+      {/* CSV/XLSX Import Wizard */}
+      {showImportModal && (
+        <UnitImportWizard
+          onClose={() => setShowImportModal(false)}
+          onImported={() => queryClient.invalidateQueries({ queryKey: ['units'] })}
+          showToast={showToast}
+        />
+      )}
     </div>
   );
 };
-
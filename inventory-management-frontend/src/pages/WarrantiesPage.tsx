@@ -0,0 +1,688 @@
+import React, { Suspense, lazy, useState } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import {
+  ConditionEnum,
+  ProductTypesEnum,
+  ReportsService,
+  WarrantiesService,
+  WarrantyClaimStatusEnum,
+  WarrantyClaimsService,
+  WarrantyPoliciesService,
+  WarrantyStatusEnum,
+  type Warranty,
+  type WarrantyClaim,
+  type WarrantyClaimOutcomeEnum,
+  type WarrantyPolicy,
+  type WarrantyPolicyRequest,
+} from '../api/index';
+import { getErrorMessage } from '../api/client';
+import { ModalLoader } from '../components/PageLoader';
+import { WARRANTY_CLAIM_OUTCOMES, WARRANTY_CLAIM_STATUSES, WarrantyClaimForm } from '../components/WarrantyClaimForm';
+import { queryKeys } from '../hooks/queryKeys';
+import { useDebounce } from '../hooks/useDebounce';
+import { downloadCsv } from '../utils/csv';
+import { formatKes, toIsoDate } from '../utils/format';
+
+const UnitDetailsModal = lazy(() => import('../components/UnitDetailsModal').then((m) => ({ default: m.UnitDetailsModal })));
+
+const PAGE_SIZE = 25;
+
+/** Export fetches up to this many warranties for the current filter. */
+const EXPORT_LIMIT = 1000;
+
+const PRODUCT_TYPE_LABELS: Record<ProductTypesEnum, string> = {
+  [ProductTypesEnum.PH]: 'Phone',
+  [ProductTypesEnum.LT]: 'Laptop',
+  [ProductTypesEnum.TB]: 'Tablet',
+  [ProductTypesEnum.AC]: 'Accessory',
+};
+
+const CONDITION_LABELS: Record<ConditionEnum, string> = {
+  [ConditionEnum.N]: 'New',
+  [ConditionEnum.R]: 'Refurbished',
+  [ConditionEnum.P]: 'Pre-owned',
+  [ConditionEnum.D]: 'Defective',
+};
+
+type WarrantyFilter = 'active' | 'expiring' | 'expired';
+
+const daysFromToday = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return toIsoDate(date);
+};
+
+const formatDate = (value: string) => new Date(value).toLocaleDateString();
+
+/**
+ * Warranties of sold units with the expiry report: active warranties, those ending within the
+ * window, recently expired ones and open claims. Searchable by IMEI, serial, order or customer.
+ */
+export const WarrantiesPage: React.FC = () => {
+  const [windowDays, setWindowDays] = useState(30);
+  const [view, setView] = useState<'warranties' | 'claims'>('warranties');
+  const [filter, setFilter] = useState<WarrantyFilter>('active');
+  const [claimStatus, setClaimStatus] = useState<WarrantyClaimStatusEnum | ''>(WarrantyClaimStatusEnum.OPEN);
+  const [search, setSearch] = useState('');
+  const [page, setPage] = useState(1);
+  const [claimsPage, setClaimsPage] = useState(1);
+  const [selectedUnitId, setSelectedUnitId] = useState<number | null>(null);
+  const [claimTarget, setClaimTarget] = useState<{ warranty: number; unitLabel: string; claim: WarrantyClaim | null } | null>(
+    null
+  );
+  const [showPolicies, setShowPolicies] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [toast, setToast] = useState<{ message: string; type: 'success' | 'error' } | null>(null);
+  const debouncedSearch = useDebounce(search, 300);
+
+  const showToast = (message: string, type: 'success' | 'error') => {
+    setToast({ message, type });
+    setTimeout(() => setToast(null), 3000);
+  };
+
+  const { data: report } = useQuery({
+    queryKey: ['reports-warranty-expiry', windowDays],
+    queryFn: () => ReportsService.reportsWarrantyExpiryRetrieve(windowDays),
+  });
+
+  /** Status and end-date range of the selected summary filter. */
+  const listFilter = {
+    active: { status: WarrantyStatusEnum.ACTIVE, expiresAfter: undefined, expiresBefore: undefined },
+    expiring: { status: WarrantyStatusEnum.ACTIVE, expiresAfter: undefined, expiresBefore: daysFromToday(windowDays) },
+    expired: { status: WarrantyStatusEnum.EXPIRED, expiresAfter: daysFromToday(-windowDays), expiresBefore: undefined },
+  }[filter];
+  // A search looks across every warranty, whatever the summary filter
+  const fetchWarranties = (pageNumber: number, pageSize: number) =>
+    debouncedSearch
+      ? WarrantiesService.warrantiesList(undefined, undefined, pageNumber, pageSize, debouncedSearch)
+      : WarrantiesService.warrantiesList(
+          listFilter.expiresAfter,
+          listFilter.expiresBefore,
+          pageNumber,
+          pageSize,
+          undefined,
+          listFilter.status
+        );
+
+  const { data: warranties, isLoading, error } = useQuery({
+    queryKey: ['warranties', filter, windowDays, debouncedSearch, page],
+    queryFn: () => fetchWarranties(page, PAGE_SIZE),
+    placeholderData: (previous) => previous,
+    enabled: view === 'warranties',
+  });
+
+  const { data: claims, isLoading: loadingClaims, error: claimsError } = useQuery({
+    queryKey: ['warranty-claims', claimStatus, claimsPage],
+    queryFn: () => WarrantyClaimsService.warrantyClaimsList(claimsPage, PAGE_SIZE, claimStatus || undefined),
+    placeholderData: (previous) => previous,
+    enabled: view === 'claims',
+  });
+
+  const selectFilter = (next: WarrantyFilter) => {
+    setView('warranties');
+    setFilter(next);
+    setSearch('');
+    setPage(1);
+  };
+
+  const showOpenClaims = () => {
+    setView('claims');
+    setClaimStatus(WarrantyClaimStatusEnum.OPEN);
+    setClaimsPage(1);
+  };
+
+  const unitLabelOf = (warranty: Warranty) =>
+    `${warranty.unit_label} · ${warranty.imei || warranty.serial_number || `#${warranty.unit}`}`;
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const all = await fetchWarranties(1, EXPORT_LIMIT);
+      downloadCsv(
+        ['Unit', 'IMEI', 'Serial', 'Customer', 'Phone', 'Order', 'Start', 'End', 'Days left', 'Claims'],
+        all.results.map((w) => [
+          w.unit_label,
+          w.imei ?? '',
+          w.serial_number ?? '',
+          w.customer_name ?? '',
+          w.customer_phone ?? '',
+          w.order ?? '',
+          w.start_date,
+          w.end_date,
+          w.days_remaining,
+          w.claims_count,
+        ]),
+        `warranties-${filter}-${toIsoDate(new Date())}.csv`
+      );
+    } catch (err) {
+      showToast(getErrorMessage(err), 'error');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const rows = warranties?.results ?? [];
+  const totalPages = Math.max(1, Math.ceil((warranties?.count ?? 0) / PAGE_SIZE));
+  const claimRows = claims?.results ?? [];
+  const totalClaimPages = Math.max(1, Math.ceil((claims?.count ?? 0) / PAGE_SIZE));
+
+  return (
+    <div className="warranties-page">
+      {toast && <div className={`toast toast-${toast.type}`}>{toast.message}</div>}
+
+      <div className="page-header">
+        <h1>Warranties</h1>
+        <div className="page-header-actions">
+          <select
+            value={windowDays}
+            onChange={(e) => {
+              setWindowDays(Number(e.target.value));
+              setPage(1);
+            }}
+            aria-label="Expiry window"
+          >
+            <option value={30}>Next / last 30 days</option>
+            <option value={60}>Next / last 60 days</option>
+            <option value={90}>Next / last 90 days</option>
+          </select>
+          <button className="btn-secondary" onClick={() => setShowPolicies(true)}>
+            ⚙️ Warranty Periods
+          </button>
+        </div>
+      </div>
+
+      <p className="page-description">
+        A unit's warranty starts when an order containing it is marked Delivered, for the period set for its product
+        type and condition. Log claims from here or from a unit's details.
+      </p>
+
+      <div className="summary-stats">
+        <button
+          type="button"
+          className={`summary-stat-button summary-stat-button--approved ${
+            view === 'warranties' && filter === 'active' && !search ? 'is-active' : ''
+          }`}
+          onClick={() => selectFilter('active')}
+        >
+          <span className="summary-stat-label">Active</span>
+          <span className="summary-stat-value">{(report?.active_count ?? 0).toLocaleString()}</span>
+        </button>
+        <button
+          type="button"
+          className={`summary-stat-button summary-stat-button--pending ${
+            view === 'warranties' && filter === 'expiring' && !search ? 'is-active' : ''
+          }`}
+          onClick={() => selectFilter('expiring')}
+        >
+          <span className="summary-stat-label">Ending in {windowDays} days</span>
+          <span className="summary-stat-value">{(report?.expiring_count ?? 0).toLocaleString()}</span>
+        </button>
+        <button
+          type="button"
+          className={`summary-stat-button summary-stat-button--expired ${
+            view === 'warranties' && filter === 'expired' && !search ? 'is-active' : ''
+          }`}
+          onClick={() => selectFilter('expired')}
+        >
+          <span className="summary-stat-label">Ended in last {windowDays} days</span>
+          <span className="summary-stat-value">{(report?.recently_expired_count ?? 0).toLocaleString()}</span>
+        </button>
+        <button
+          type="button"
+          className={`summary-stat-button summary-stat-button--rejected ${view === 'claims' ? 'is-active' : ''}`}
+          onClick={showOpenClaims}
+        >
+          <span className="summary-stat-label">
+            Open claims · {formatKes(report?.claims_cost)} spent in {windowDays} days
+          </span>
+          <span className="summary-stat-value">{(report?.open_claims_count ?? 0).toLocaleString()}</span>
+        </button>
+      </div>
+
+      {view === 'warranties' ? (
+        <div className="report-section">
+          <div className="filters-bar">
+            <div className="search-row">
+              <input
+                type="text"
+                className="search-input"
+                placeholder="Search by IMEI, serial number, order ID or customer…"
+                value={search}
+                onChange={(e) => {
+                  setSearch(e.target.value);
+                  setPage(1);
+                }}
+              />
+              <button className="btn-secondary" onClick={handleExport} disabled={isExporting || rows.length === 0}>
+                {isExporting ? 'Exporting...' : '📥 Export CSV'}
+              </button>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <div className="loading">Loading warranties...</div>
+          ) : error ? (
+            <div className="error">{getErrorMessage(error)}</div>
+          ) : rows.length === 0 ? (
+            <div className="empty-state">
+              <div className="empty-state-icon">🛡️</div>
+              <h3>{search ? `No warranty matches "${search}"` : 'No warranties in this view'}</h3>
+            </div>
+          ) : (
+            <>
+              <div className="colors-table-container">
+                <table className="colors-table">
+                  <thead>
+                    <tr>
+                      <th>Unit</th>
+                      <th>IMEI / Serial</th>
+                      <th>Customer</th>
+                      <th>Start</th>
+                      <th>End</th>
+                      <th>Status</th>
+                      <th>Claims</th>
+                      <th>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((warranty) => (
+                      <tr key={warranty.id}>
+                        <td>
+                          <button
+                            type="button"
+                            className="warranty-unit-link"
+                            onClick={() => setSelectedUnitId(warranty.unit)}
+                          >
+                            {warranty.unit_label}
+                          </button>
+                        </td>
+                        <td>{warranty.imei || warranty.serial_number || '-'}</td>
+                        <td>
+                          {warranty.customer_name || '-'}
+                          {warranty.customer_phone && <div className="form-help">{warranty.customer_phone}</div>}
+                        </td>
+                        <td>{formatDate(warranty.start_date)}</td>
+                        <td>{formatDate(warranty.end_date)}</td>
+                        <td>
+                          <span className={`warranty-status warranty-status--${warranty.status}`}>
+                            {warranty.status === WarrantyStatusEnum.ACTIVE
+                              ? `${warranty.days_remaining} day(s) left`
+                              : 'Expired'}
+                          </span>
+                        </td>
+                        <td>
+                          {warranty.claims_count}
+                          {warranty.open_claims_count > 0 && ` (${warranty.open_claims_count} open)`}
+                        </td>
+                        <td className="color-actions-cell">
+                          {warranty.status === WarrantyStatusEnum.ACTIVE && (
+                            <button
+                              className="btn-action btn-edit"
+                              onClick={() =>
+                                setClaimTarget({ warranty: warranty.id, unitLabel: unitLabelOf(warranty), claim: null })
+                              }
+                            >
+                              Log Claim
+                            </button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="pagination">
+                <button onClick={() => setPage(Math.max(1, page - 1))} disabled={page <= 1} className="btn-secondary">
+                  Previous
+                </button>
+                <span className="page-info">
+                  Page {page} of {totalPages} ({warranties?.count ?? 0} warranties)
+                </span>
+                <button
+                  onClick={() => setPage(Math.min(totalPages, page + 1))}
+                  disabled={page >= totalPages}
+                  className="btn-secondary"
+                >
+                  Next
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      ) : (
+        <div className="report-section">
+          <div className="report-section-header">
+            <h2 className="section-title">Claims</h2>
+            <select
+              value={claimStatus}
+              onChange={(e) => {
+                setClaimStatus(e.target.value as WarrantyClaimStatusEnum | '');
+                setClaimsPage(1);
+              }}
+              aria-label="Claim status"
+            >
+              <option value="">All statuses</option>
+              {Object.entries(WARRANTY_CLAIM_STATUSES).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          {loadingClaims ? (
+            <div className="loading">Loading claims...</div>
+          ) : claimsError ? (
+            <div className="error">{getErrorMessage(claimsError)}</div>
+          ) : claimRows.length === 0 ? (
+            <div className="empty-state">
+              <div className="empty-state-icon">🛠️</div>
+              <h3>No claims</h3>
+            </div>
+          ) : (
+            <>
+              <div className="colors-table-container">
+                <table className="colors-table">
+                  <thead>
+                    <tr>
+                      <th>Logged</th>
+                      <th>Unit</th>
+                      <th>Issue</th>
+                      <th>Status</th>
+                      <th>Outcome</th>
+                      <th>Cost</th>
+                      <th>By</th>
+                      <th>Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {claimRows.map((claim) => (
+                      <tr key={claim.id}>
+                        <td>{formatDate(claim.created_at)}</td>
+                        <td>
+                          <button
+                            type="button"
+                            className="warranty-unit-link"
+                            onClick={() => setSelectedUnitId(claim.unit)}
+                          >
+                            {claim.unit_label}
+                          </button>
+                        </td>
+                        <td>
+                          {claim.issue}
+                          {claim.diagnosis && <div className="form-help">{claim.diagnosis}</div>}
+                        </td>
+                        <td>{claim.status ? WARRANTY_CLAIM_STATUSES[claim.status] : '-'}</td>
+                        <td>
+                          {claim.outcome ? WARRANTY_CLAIM_OUTCOMES[claim.outcome as WarrantyClaimOutcomeEnum] : '-'}
+                        </td>
+                        <td>{formatKes(claim.cost)}</td>
+                        <td>{claim.created_by_username || '-'}</td>
+                        <td className="color-actions-cell">
+                          <button
+                            className="btn-action btn-edit"
+                            onClick={() =>
+                              setClaimTarget({ warranty: claim.warranty, unitLabel: claim.unit_label, claim })
+                            }
+                          >
+                            Update
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <div className="pagination">
+                <button
+                  onClick={() => setClaimsPage(Math.max(1, claimsPage - 1))}
+                  disabled={claimsPage <= 1}
+                  className="btn-secondary"
+                >
+                  Previous
+                </button>
+                <span className="page-info">
+                  Page {claimsPage} of {totalClaimPages} ({claims?.count ?? 0} claims)
+                </span>
+                <button
+                  onClick={() => setClaimsPage(Math.min(totalClaimPages, claimsPage + 1))}
+                  disabled={claimsPage >= totalClaimPages}
+                  className="btn-secondary"
+                >
+                  Next
+                </button>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {claimTarget && (
+        <WarrantyClaimForm
+          warrantyId={claimTarget.warranty}
+          unitLabel={claimTarget.unitLabel}
+          claim={claimTarget.claim}
+          onClose={() => setClaimTarget(null)}
+          onSaved={(message) => {
+            setClaimTarget(null);
+            showToast(message, 'success');
+          }}
+        />
+      )}
+
+      {showPolicies && <WarrantyPoliciesModal onClose={() => setShowPolicies(false)} showToast={showToast} />}
+
+      {selectedUnitId && (
+        <Suspense fallback={<ModalLoader />}>
+          <UnitDetailsModal unitId={selectedUnitId} onClose={() => setSelectedUnitId(null)} isEditable />
+        </Suspense>
+      )}
+    </div>
+  );
+};
+
+interface WarrantyPoliciesModalProps {
+  onClose: () => void;
+  showToast: (message: string, type: 'success' | 'error') => void;
+}
+
+const EMPTY_POLICY: WarrantyPolicyRequest = { product_type: null, condition: null, months: 12, notes: '' };
+
+/** Warranty period per product type and condition; the most specific match applies to a unit. */
+const WarrantyPoliciesModal: React.FC<WarrantyPoliciesModalProps> = ({ onClose, showToast }) => {
+  const queryClient = useQueryClient();
+  const [newPolicy, setNewPolicy] = useState<WarrantyPolicyRequest>(EMPTY_POLICY);
+  const { data: policies = [], isLoading, error } = useQuery({
+    queryKey: queryKeys.warrantyPolicies(),
+    queryFn: () => WarrantyPoliciesService.warrantyPoliciesList(),
+  });
+
+  const onMutationError = (err: unknown) => showToast(getErrorMessage(err), 'error');
+
+  const createMutation = useMutation({
+    mutationFn: (body: WarrantyPolicyRequest) => WarrantyPoliciesService.warrantyPoliciesCreate(body),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.warrantyPolicies() });
+      setNewPolicy(EMPTY_POLICY);
+      showToast('Warranty period added', 'success');
+    },
+    onError: onMutationError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, months }: { id: number; months: number }) =>
+      WarrantyPoliciesService.warrantyPoliciesPartialUpdate(id, { months }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.warrantyPolicies() });
+      showToast('Warranty period updated', 'success');
+    },
+    onError: onMutationError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: number) => WarrantyPoliciesService.warrantyPoliciesDestroy(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.warrantyPolicies() });
+      showToast('Warranty period deleted', 'success');
+    },
+    onError: onMutationError,
+  });
+
+  const describe = (policy: WarrantyPolicy) =>
+    [
+      policy.product_type ? PRODUCT_TYPE_LABELS[policy.product_type as ProductTypesEnum] : 'All types',
+      policy.condition ? CONDITION_LABELS[policy.condition as ConditionEnum] : 'any condition',
+    ].join(' · ');
+
+  const handleDelete = (policy: WarrantyPolicy) => {
+    if (window.confirm(`Delete the warranty period for ${describe(policy)}? Existing warranties are not changed.`)) {
+      deleteMutation.mutate(policy.id);
+    }
+  };
+
+  const handleMonthsBlur = (policy: WarrantyPolicy, value: string) => {
+    const months = Number(value);
+    if (value === '' || months === policy.months) return;
+    updateMutation.mutate({ id: policy.id, months });
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    createMutation.mutate({ ...newPolicy, notes: newPolicy.notes?.trim() });
+  };
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content modal-content-large" onClick={(e) => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Warranty Periods</h2>
+          <button className="modal-close" onClick={onClose}>×</button>
+        </div>
+        <div className="form-section">
+          <p className="modal-description">
+            A unit gets the period of the most specific match: product type and condition, then either one, then the
+            catch-all. Changes apply to warranties started from now on.
+          </p>
+
+          {isLoading ? (
+            <div className="loading">Loading warranty periods...</div>
+          ) : error ? (
+            <p className="error-text">{getErrorMessage(error)}</p>
+          ) : (
+            <form onSubmit={handleAdd}>
+              <div className="colors-table-container">
+                <table className="colors-table">
+                  <thead>
+                    <tr>
+                      <th>Product type</th>
+                      <th>Condition</th>
+                      <th>Months</th>
+                      <th>Notes</th>
+                      <th></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {policies.map((policy) => (
+                      <tr key={policy.id}>
+                        <td>{policy.product_type ? PRODUCT_TYPE_LABELS[policy.product_type as ProductTypesEnum] : 'All'}</td>
+                        <td>{policy.condition ? CONDITION_LABELS[policy.condition as ConditionEnum] : 'Any'}</td>
+                        <td>
+                          <input
+                            type="number"
+                            min={0}
+                            max={120}
+                            defaultValue={policy.months}
+                            onBlur={(e) => handleMonthsBlur(policy, e.target.value)}
+                            disabled={updateMutation.isPending}
+                            aria-label={`Months for ${describe(policy)}`}
+                          />
+                        </td>
+                        <td>{policy.notes || '-'}</td>
+                        <td>
+                          <button
+                            type="button"
+                            className="btn-action btn-delete"
+                            onClick={() => handleDelete(policy)}
+                            disabled={deleteMutation.isPending}
+                          >
+                            Delete
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    <tr>
+                      <td>
+                        <select
+                          value={(newPolicy.product_type as string | null) ?? ''}
+                          onChange={(e) =>
+                            setNewPolicy((prev) => ({
+                              ...prev,
+                              product_type: (e.target.value || null) as ProductTypesEnum | null,
+                            }))
+                          }
+                          aria-label="New period product type"
+                        >
+                          <option value="">All</option>
+                          {Object.entries(PRODUCT_TYPE_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        <select
+                          value={(newPolicy.condition as string | null) ?? ''}
+                          onChange={(e) =>
+                            setNewPolicy((prev) => ({
+                              ...prev,
+                              condition: (e.target.value || null) as ConditionEnum | null,
+                            }))
+                          }
+                          aria-label="New period condition"
+                        >
+                          <option value="">Any</option>
+                          {Object.entries(CONDITION_LABELS).map(([value, label]) => (
+                            <option key={value} value={value}>{label}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td>
+                        <input
+                          type="number"
+                          min={0}
+                          max={120}
+                          value={newPolicy.months}
+                          onChange={(e) => setNewPolicy((prev) => ({ ...prev, months: Number(e.target.value) }))}
+                          required
+                          aria-label="New period months"
+                        />
+                      </td>
+                      <td>
+                        <input
+                          type="text"
+                          value={newPolicy.notes}
+                          onChange={(e) => setNewPolicy((prev) => ({ ...prev, notes: e.target.value }))}
+                          maxLength={255}
+                          placeholder="e.g. Battery covered for 6 months"
+                          aria-label="New period notes"
+                        />
+                      </td>
+                      <td>
+                        <button type="submit" className="btn-small btn-primary" disabled={createMutation.isPending}>
+                          {createMutation.isPending ? 'Adding...' : 'Add'}
+                        </button>
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </form>
+          )}
+
+          <div className="form-actions">
+            <button type="button" onClick={onClose} className="btn-secondary">
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+/** Quote one CSV cell (RFC 4180: wrap in quotes, double embedded quotes). */
+export function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return '""';
+  return `"${String(value).replace(/"/g, '""')}"`;
+}
+
+export function toCsv(headers: string[], rows: unknown[][]): string {
+  return [headers, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+}
+
+/** Trigger a browser download for a generated file. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.style.visibility = 'hidden';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+export function downloadCsv(headers: string[], rows: unknown[][], filename: string): void {
+  // BOM so Excel opens UTF-8 (e.g. product names with accents) correctly
+  downloadBlob(new Blob(['﻿', toCsv(headers, rows)], { type: 'text/csv;charset=utf-8;' }), filename);
+}
+
+/** Read a file as base64 (without the data: URL prefix); works for binary files such as XLSX. */
+export async function fileToBase64(file: Blob): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = '';
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Split text copied from a spreadsheet (tab-separated rows, as Excel and Google Sheets put on the
+ * clipboard) into a grid of cells. Quoted cells may hold tabs, newlines and doubled quotes; the
+ * trailing newline Excel adds is dropped.
+ */
+export function parseClipboardGrid(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let i = 0;
+  const source = text.replace(/\r\n?/g, '\n').replace(/\n$/, '');
+  while (i < source.length) {
+    const char = source[i];
+    if (char === '"' && cell === '') {
+      // Quoted cell: read up to the closing quote
+      i++;
+      while (i < source.length && !(source[i] === '"' && source[i + 1] !== '"')) {
+        cell += source[i];
+        i += source[i] === '"' ? 2 : 1;
+      }
+      i++;
+      continue;
+    }
+    if (char === '\t') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows;
+}
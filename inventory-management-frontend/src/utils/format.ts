@@ -0,0 +1,12 @@
+/** Format a Date as YYYY-MM-DD in local time (the report API expects plain dates). */
+export function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** A KES amount rounded to whole shillings, or "-" when there is none. */
+export function formatKes(value?: string | number | null): string {
+  if (value === null || value === undefined || value === '') return '-';
+  return `KES ${Math.round(Number(value)).toLocaleString()}`;
+}
@@ -0,0 +1,41 @@
+/** IMEI helpers: format/checksum validation and TAC (Type Allocation Code) extraction. */
+
+export const IMEI_LENGTH = 15;
+
+/** Strip the spaces, dashes and slashes scanners and box labels often include. */
+export function normalizeImei(value: string): string {
+  return value.replace(/[\s\-/]/g, '');
+}
+
+/** Luhn checksum over all digits (the 15th IMEI digit is the check digit). */
+export function isLuhnValid(digits: string): boolean {
+  if (!/^\d+$/.test(digits)) return false;
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Validate an IMEI as typed or scanned. Returns an error message, or null when it is a 15-digit
+ * IMEI with a correct check digit.
+ */
+export function getImeiError(value: string): string | null {
+  const imei = normalizeImei(value);
+  if (!imei) return null;
+  if (!/^\d+$/.test(imei)) return 'IMEI must contain digits only';
+  if (imei.length !== IMEI_LENGTH) return `IMEI must be ${IMEI_LENGTH} digits (got ${imei.length})`;
+  if (!isLuhnValid(imei)) return 'IMEI check digit is wrong – probably a typo or misread scan';
+  return null;
+}
+
+/** Type Allocation Code: the first 8 digits, identifying the device model. */
+export function getTac(imei: string): string {
+  return normalizeImei(imei).slice(0, 8);
+}
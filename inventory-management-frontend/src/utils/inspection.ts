@@ -0,0 +1,48 @@
+/** Inspection checklist grading, mirrored from the API so the form can suggest a grade before saving. */
+import { GradeEnum, InspectionItemKindEnum, InspectionResultEnum, type InspectionItem } from '../api/index';
+
+/** Active checklist items that apply to a product type (items with no product types apply to all). */
+export function getApplicableItems(items: InspectionItem[], productType?: string): InspectionItem[] {
+  return items
+    .filter((item) => item.is_active !== false)
+    .filter((item) => !item.product_types?.length || item.product_types.some((type) => type === productType))
+    .sort((a, b) => (a.sort_order ?? 0) - (b.sort_order ?? 0));
+}
+
+/** Result of a percent item: pass at or above its `min_value`, null until a value is entered. */
+export function getPercentResult(item: InspectionItem, value: number | null): InspectionResultEnum | null {
+  if (value === null || Number.isNaN(value)) return null;
+  return value >= (item.min_value ?? 0) ? InspectionResultEnum.PASS : InspectionResultEnum.FAIL;
+}
+
+/**
+ * Grade the results support: A when nothing failed, B when only non-critical items failed, and
+ * null when a critical item (e.g. activation lock, water damage) failed.
+ */
+export function suggestGrade(
+  items: InspectionItem[],
+  results: Record<number, InspectionResultEnum | null | undefined>
+): GradeEnum | null {
+  const failed = items.filter((item) => results[item.id] === InspectionResultEnum.FAIL);
+  if (failed.some((item) => item.critical)) return null;
+  return failed.length ? GradeEnum.B : GradeEnum.A;
+}
+
+/** Labels for the two outcomes of each kind of item, e.g. "Unlocked" / "Locked" for lock status. */
+export const INSPECTION_RESULT_LABELS: Record<InspectionItemKindEnum, Record<InspectionResultEnum, string>> = {
+  [InspectionItemKindEnum.PASS_FAIL]: {
+    [InspectionResultEnum.PASS]: 'Pass',
+    [InspectionResultEnum.FAIL]: 'Fail',
+    [InspectionResultEnum.NA]: 'N/A',
+  },
+  [InspectionItemKindEnum.PERCENT]: {
+    [InspectionResultEnum.PASS]: 'Pass',
+    [InspectionResultEnum.FAIL]: 'Below minimum',
+    [InspectionResultEnum.NA]: 'N/A',
+  },
+  [InspectionItemKindEnum.LOCK_STATUS]: {
+    [InspectionResultEnum.PASS]: 'Unlocked',
+    [InspectionResultEnum.FAIL]: 'Locked',
+    [InspectionResultEnum.NA]: 'N/A',
+  },
+};
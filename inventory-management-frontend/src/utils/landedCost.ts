@@ -0,0 +1,38 @@
+/** Landed cost maths, mirrored from the API so an import shipment can be previewed before allocating. */
+import { AllocationMethodEnum } from '../api/index';
+
+export interface LandedCostUnit {
+  id: number;
+  /** Pieces in the unit (accessory units can hold more than one). */
+  quantity: number;
+  /** cost_of_unit per piece before landed costs, in KES. */
+  cost: number;
+}
+
+/**
+ * Landed cost per piece for each unit, keyed by unit id. By value, each unit takes a share of
+ * `totalCosts` in proportion to cost × quantity (falling back to quantity when nothing has a
+ * cost yet); by quantity, every piece takes the same share. Rounded to the cent like the API,
+ * so the allocated total can differ from `totalCosts` by a few cents.
+ */
+export function allocateLandedCosts(
+  units: LandedCostUnit[],
+  totalCosts: number,
+  method: AllocationMethodEnum
+): Record<number, number> {
+  const totalValue = units.reduce((sum, unit) => sum + unit.cost * unit.quantity, 0);
+  const byValue = method === AllocationMethodEnum.VALUE && totalValue > 0;
+  const totalWeight = byValue ? totalValue : units.reduce((sum, unit) => sum + unit.quantity, 0);
+  const allocation: Record<number, number> = {};
+  units.forEach((unit) => {
+    const weight = byValue ? unit.cost * unit.quantity : unit.quantity;
+    const share = totalWeight > 0 && unit.quantity > 0 ? (totalCosts * weight) / totalWeight / unit.quantity : 0;
+    allocation[unit.id] = Math.round(share * 100) / 100;
+  });
+  return allocation;
+}
+
+/** A cost in KES from its amount and exchange rate (KES per one unit of its currency). */
+export function toKes(amount: string | number, exchangeRate: string | number): number {
+  return Math.round((Number(amount) || 0) * (Number(exchangeRate) || 0) * 100) / 100;
+}
@@ -0,0 +1,52 @@
+/** Pricing rule and markdown maths, mirrored from the API so editors can preview prices before saving. */
+import { PricingRoundingEnum } from '../api/index';
+
+/**
+ * Round `value` to a multiple of `roundTo` (0 or less leaves it to the cent). Works in whole cents
+ * so float noise cannot tip a step: 100 + 10% is 110.00000000000001, which must round up to 110.
+ */
+export function roundPrice(value: number, roundTo: number, mode: PricingRoundingEnum): number {
+  const cents = Math.round(value * 100);
+  const stepCents = Math.round(roundTo * 100);
+  if (!(stepCents > 0)) return cents / 100;
+  const steps = cents / stepCents;
+  const rounded =
+    mode === PricingRoundingEnum.UP ? Math.ceil(steps) : mode === PricingRoundingEnum.DOWN ? Math.floor(steps) : Math.round(steps);
+  return (rounded * stepCents) / 100;
+}
+
+/** Lowest price that keeps `minMarginPercent` over `cost`, or null when the rule has no floor. */
+export function getFloorPrice(cost: number, minMarginPercent: number | null): number | null {
+  if (minMarginPercent === null || Number.isNaN(minMarginPercent)) return null;
+  return Math.round(cost * (1 + minMarginPercent / 100) * 100) / 100;
+}
+
+/**
+ * Price a unit the way the API does: cost plus markup, rounded, then raised to the margin floor
+ * when rounding down would have dropped below it.
+ */
+export function getSuggestedPrice(
+  cost: number,
+  rule: { markupPercent: number; roundTo: number; rounding: PricingRoundingEnum; minMarginPercent: number | null }
+): { suggested: number; floor: number | null } {
+  const floor = getFloorPrice(cost, rule.minMarginPercent);
+  const suggested = roundPrice(cost * (1 + rule.markupPercent / 100), rule.roundTo, rule.rounding);
+  return { suggested: floor !== null && suggested < floor ? floor : suggested, floor };
+}
+
+/**
+ * Markdown price for a unit `daysInStock` days old: the largest step it has reached, taken off
+ * the original (pre-markdown) price and rounded down. Null when no step applies yet.
+ */
+export function getMarkdownPrice(
+  originalPrice: number,
+  daysInStock: number,
+  steps: Array<{ after_days: number; percent_off: string }>,
+  roundTo: number
+): { percentOff: number; price: number } | null {
+  const reached = steps.filter((step) => daysInStock >= step.after_days);
+  if (reached.length === 0) return null;
+  const percentOff = Math.max(...reached.map((step) => Number(step.percent_off)));
+  // (100 - percent) / 100 rather than 1 - percent / 100: exact for whole prices and percentages
+  return { percentOff, price: roundPrice((originalPrice * (100 - percentOff)) / 100, roundTo, PricingRoundingEnum.DOWN) };
+}